@@ -0,0 +1,20 @@
+namespace MessageBoard.API.Configuration
+{
+    public class AttachmentSettings
+    {
+        // Where LocalFileAttachmentStorage keeps files, relative to the content root
+        public string LocalPath { get; set; } = "App_Data/attachments";
+
+        // Upload limits - files over ~28 MB also need Kestrel's MaxRequestBodySize raised
+        public long MaxFileSizeBytes { get; set; } = 10 * 1024 * 1024;
+        public int MaxAttachmentsPerMessage { get; set; } = 4;
+        public int UploadsPerUserPerMinute { get; set; } = 20;
+
+        // Uploads never posted with a message are deleted after this long
+        public int UnattachedRetentionHours { get; set; } = 24;
+
+        // Anything else is rejected; images are shown inline, the rest offered as downloads.
+        // Listed in appsettings.json only - the binder adds to a default list instead of replacing it.
+        public List<string> AllowedContentTypes { get; set; } = new();
+    }
+}
@@ -5,6 +5,7 @@ namespace MessageBoard.API.Configuration
         public string SecretKey { get; set; } = string.Empty;
         public string Issuer { get; set; } = string.Empty;
         public string Audience { get; set; } = string.Empty;
-        public int ExpiryInMinutes { get; set; } = 60;
+        public int ExpiryInMinutes { get; set; } = 15;  // Access tokens - keep short, clients refresh them
+        public int RefreshTokenExpiryInDays { get; set; } = 14;
     }
 }
\ No newline at end of file
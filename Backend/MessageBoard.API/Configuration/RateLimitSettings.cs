@@ -0,0 +1,18 @@
+namespace MessageBoard.API.Configuration
+{
+    public class RateLimitSettings
+    {
+        // Posting limits - both apply, so several accounts behind one address share the IP budget
+        public int MessagesPerUserPerMinute { get; set; } = 10;
+        public int MessagesPerIpPerMinute { get; set; } = 30;
+
+        // Content rules
+        public int DuplicateMessageWindowMinutes { get; set; } = 10;  // Same text from the same user is rejected within this window
+        public int MaxLinksPerMessage { get; set; } = 5;
+
+        // Login throttling - failures are counted per username and per IP
+        public int MaxFailedLoginsPerUsername { get; set; } = 5;
+        public int MaxFailedLoginsPerIp { get; set; } = 20;
+        public int LoginLockoutMinutes { get; set; } = 15;
+    }
+}
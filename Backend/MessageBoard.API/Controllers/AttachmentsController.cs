@@ -0,0 +1,297 @@
+using MessageBoard.API.Configuration;
+using MessageBoard.API.Data;
+using MessageBoard.API.DTOs;
+using MessageBoard.API.Models;
+using MessageBoard.API.Services;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Options;
+using System.Security.Claims;
+
+namespace MessageBoard.API.Controllers
+{
+    // Files for messages. Uploading stores a file on its own; it's attached by
+    // posting a message that lists its id (CreateMessageRequest.AttachmentIds).
+    [ApiController]
+    [Route("api/attachments")]
+    public class AttachmentsController : ControllerBase
+    {
+        private static readonly TimeSpan UploadWindow = TimeSpan.FromMinutes(1);
+
+        private readonly MessageBoardContext _context;
+        private readonly ILogger<AttachmentsController> _logger;
+        private readonly IAttachmentStorage _storage;
+        private readonly IRateLimiter _rateLimiter;
+        private readonly AttachmentSettings _settings;
+
+        public AttachmentsController(
+            MessageBoardContext context,
+            ILogger<AttachmentsController> logger,
+            IAttachmentStorage storage,
+            IRateLimiter rateLimiter,
+            IOptions<AttachmentSettings> settings)
+        {
+            _context = context;
+            _logger = logger;
+            _storage = storage;
+            _rateLimiter = rateLimiter;
+            _settings = settings.Value;
+        }
+
+        // POST: api/attachments (multipart/form-data with one "file")
+        // Files that are too large or of a type not in AttachmentSettings.AllowedContentTypes
+        // get a validation problem on "file". Uploads that are never posted are
+        // deleted after UnattachedRetentionHours.
+        [HttpPost]
+        [Authorize]
+        [Consumes("multipart/form-data")]
+        public async Task<ActionResult<AttachmentDto>> UploadAttachment(IFormFile file, CancellationToken cancellationToken)
+        {
+            try
+            {
+                if (!TryGetUserId(out int userId))
+                {
+                    return Unauthorized("Invalid token");
+                }
+
+                if (await _context.Users.AnyAsync(u => u.Id == userId && u.BannedAt != null, cancellationToken))
+                {
+                    return StatusCode(403, "Your account has been banned");
+                }
+
+                var retryAfter = _rateLimiter.TryAcquire($"upload:user:{userId}", _settings.UploadsPerUserPerMinute, UploadWindow);
+                if (retryAfter != null)
+                {
+                    var seconds = Math.Max(1, (int)Math.Ceiling(retryAfter.Value.TotalSeconds));
+                    Response.Headers.RetryAfter = seconds.ToString();
+                    return StatusCode(429, $"You're uploading too fast. Try again in {seconds} seconds.");
+                }
+
+                var contentType = AttachmentTypes.Normalize(file.ContentType);
+                var fileError = await CheckFileAsync(file, contentType, cancellationToken);
+                if (fileError != null)
+                {
+                    ModelState.AddModelError(nameof(file), fileError);
+                    return ValidationProblem(ModelState);
+                }
+
+                await DeleteStaleUploadsAsync(userId);
+
+                string storageKey;
+                await using (var content = file.OpenReadStream())
+                {
+                    storageKey = await _storage.SaveAsync(content, cancellationToken);
+                }
+
+                var attachment = new Attachment
+                {
+                    UploaderId = userId,
+                    FileName = CleanFileName(file.FileName),
+                    ContentType = contentType,
+                    SizeBytes = file.Length,
+                    StorageKey = storageKey,
+                    CreatedAt = DateTime.UtcNow
+                };
+
+                _context.Attachments.Add(attachment);
+                try
+                {
+                    await _context.SaveChangesAsync(CancellationToken.None);
+                }
+                catch
+                {
+                    await _storage.DeleteAsync(storageKey);
+                    throw;
+                }
+
+                _logger.LogInformation("User {UserId} uploaded attachment {Id} ({ContentType}, {Size} bytes)",
+                    userId, attachment.Id, contentType, attachment.SizeBytes);
+
+                return CreatedAtAction(nameof(GetAttachment), new { id = attachment.Id }, ToDto(attachment));
+            }
+            catch (OperationCanceledException) when (cancellationToken.IsCancellationRequested)
+            {
+                return NoContent();  // The client went away mid-upload; nobody reads this response
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error uploading attachment");
+                return StatusCode(500, "An error occurred while uploading the file");
+            }
+        }
+
+        // GET: api/attachments/5
+        // The file itself: images inline (for thumbnails), anything else as a download.
+        // Anonymous like messages are, except that unposted uploads are only
+        // served to their uploader and files on hidden messages only to moderators.
+        [HttpGet("{id}")]
+        [ProducesResponseType<FileStreamResult>(StatusCodes.Status200OK, "application/octet-stream")]
+        public async Task<IActionResult> GetAttachment(int id)
+        {
+            try
+            {
+                var attachment = await _context.Attachments
+                    .Include(a => a.Message)
+                    .FirstOrDefaultAsync(a => a.Id == id);
+
+                if (attachment == null || !CanView(attachment))
+                {
+                    return NotFound("Attachment not found");
+                }
+
+                var content = await _storage.OpenReadAsync(attachment.StorageKey);
+                if (content == null)
+                {
+                    _logger.LogWarning("Attachment {Id} has no stored file ({Key})", id, attachment.StorageKey);
+                    return NotFound("Attachment not found");
+                }
+
+                // Never let a browser second-guess the type we checked on upload
+                Response.Headers.XContentTypeOptions = "nosniff";
+
+                return AttachmentTypes.IsImage(attachment.ContentType)
+                    ? File(content, attachment.ContentType, enableRangeProcessing: true)
+                    : File(content, attachment.ContentType, attachment.FileName, enableRangeProcessing: true);
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error retrieving attachment {Id}", id);
+                return StatusCode(500, "An error occurred while retrieving the file");
+            }
+        }
+
+        // DELETE: api/attachments/5
+        // Discard your own upload before posting it; posted files go with their message
+        [HttpDelete("{id}")]
+        [Authorize]
+        public async Task<IActionResult> DeleteAttachment(int id)
+        {
+            try
+            {
+                if (!TryGetUserId(out int userId))
+                {
+                    return Unauthorized("Invalid token");
+                }
+
+                var attachment = await _context.Attachments.FindAsync(id);
+                if (attachment == null || (attachment.UploaderId != userId && attachment.MessageId == null))
+                {
+                    return NotFound("Attachment not found");
+                }
+
+                if (attachment.UploaderId != userId || attachment.MessageId != null)
+                {
+                    return StatusCode(403, "Only your own unposted uploads can be deleted");
+                }
+
+                _context.Attachments.Remove(attachment);
+                await _context.SaveChangesAsync();
+                await _storage.DeleteFilesAsync(new[] { attachment.StorageKey }, _logger);
+
+                _logger.LogInformation("User {UserId} deleted attachment {Id}", userId, id);
+                return NoContent();
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error deleting attachment {Id}", id);
+                return StatusCode(500, "An error occurred while deleting the file");
+            }
+        }
+
+        // Null when the file may be uploaded, otherwise the error for the "file" field
+        private async Task<string?> CheckFileAsync(IFormFile file, string contentType, CancellationToken cancellationToken)
+        {
+            if (file.Length == 0)
+            {
+                return "The file is empty.";
+            }
+
+            if (file.Length > _settings.MaxFileSizeBytes)
+            {
+                return $"Files can be at most {FormatSize(_settings.MaxFileSizeBytes)}.";
+            }
+
+            if (!_settings.AllowedContentTypes.Contains(contentType, StringComparer.OrdinalIgnoreCase))
+            {
+                return $"Files of type \"{contentType}\" can't be attached.";
+            }
+
+            var header = new byte[AttachmentTypes.SignatureLength];
+            await using var content = file.OpenReadStream();
+            var read = await content.ReadAtLeastAsync(header, header.Length, throwOnEndOfStream: false, cancellationToken);
+
+            return AttachmentTypes.MatchesSignature(contentType, header.AsSpan(0, read))
+                ? null
+                : $"The file is not a valid {contentType} image.";
+        }
+
+        // Best effort: the user's uploads that were never posted and are past retention
+        private async Task DeleteStaleUploadsAsync(int userId)
+        {
+            var cutoff = DateTime.UtcNow.AddHours(-_settings.UnattachedRetentionHours);
+            var stale = await _context.Attachments
+                .Where(a => a.UploaderId == userId && a.MessageId == null && a.CreatedAt < cutoff)
+                .ToListAsync();
+
+            if (stale.Count == 0)
+            {
+                return;
+            }
+
+            _context.Attachments.RemoveRange(stale);
+            await _context.SaveChangesAsync();
+            await _storage.DeleteFilesAsync(stale.Select(a => a.StorageKey), _logger);
+
+            _logger.LogInformation("Deleted {Count} unposted uploads of user {UserId}", stale.Count, userId);
+        }
+
+        private bool CanView(Attachment attachment)
+        {
+            if (attachment.Message == null)
+            {
+                return TryGetUserId(out int userId) && userId == attachment.UploaderId;
+            }
+            return attachment.Message.HiddenAt == null || IsModerator();
+        }
+
+        private static AttachmentDto ToDto(Attachment attachment)
+        {
+            return new AttachmentDto
+            {
+                Id = attachment.Id,
+                FileName = attachment.FileName,
+                ContentType = attachment.ContentType,
+                SizeBytes = attachment.SizeBytes
+            };
+        }
+
+        // Browsers may send a full path; keep the last segment, without control characters
+        private static string CleanFileName(string fileName)
+        {
+            var name = new string(Path.GetFileName(fileName.Replace('\\', '/')).Where(c => !char.IsControl(c)).ToArray()).Trim();
+            if (name.Length == 0)
+            {
+                return "attachment";
+            }
+            return name.Length > 255 ? name[^255..] : name;
+        }
+
+        private static string FormatSize(long bytes)
+        {
+            return bytes >= 1024 * 1024 ? $"{bytes / (1024.0 * 1024):0.#} MB" : $"{bytes / 1024.0:0.#} KB";
+        }
+
+        private bool TryGetUserId(out int userId)
+        {
+            var userIdClaim = User.FindFirst(ClaimTypes.NameIdentifier);
+            userId = default;
+            return userIdClaim != null && int.TryParse(userIdClaim.Value, out userId);
+        }
+
+        private bool IsModerator()
+        {
+            return User.IsInRole(UserRoles.Moderator) || User.IsInRole(UserRoles.Admin);
+        }
+    }
+}
@@ -4,23 +4,35 @@ using MessageBoard.API.Models;
 using MessageBoard.API.Services;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.EntityFrameworkCore;
-using System.Security.Cryptography;
-using System.Text;
 
 namespace MessageBoard.API.Controllers
 {
     [ApiController]
-    [Route("api/[controller]")]
+    [Route("api/auth")]
     public class AuthController : ControllerBase
     {
         private readonly MessageBoardContext _context;
         private readonly IJwtService _jwtService;
+        private readonly IRefreshTokenService _refreshTokens;
+        private readonly IPasswordHasher _passwordHasher;
+        private readonly ILoginThrottle _loginThrottle;
+        private readonly ILogger<AuthController> _logger;
 
         // Constructor injection - .NET DI provides these services
-        public AuthController(MessageBoardContext context, IJwtService jwtService)
+        public AuthController(
+            MessageBoardContext context,
+            IJwtService jwtService,
+            IRefreshTokenService refreshTokens,
+            IPasswordHasher passwordHasher,
+            ILoginThrottle loginThrottle,
+            ILogger<AuthController> logger)
         {
             _context = context;
             _jwtService = jwtService;
+            _refreshTokens = refreshTokens;
+            _passwordHasher = passwordHasher;
+            _loginThrottle = loginThrottle;
+            _logger = logger;
         }
 
         [HttpPost("register")]
@@ -28,8 +40,9 @@ namespace MessageBoard.API.Controllers
         {
             try
             {
-                // Check if user already exists
-                if (await _context.Users.AnyAsync(u => u.Username == request.Username))
+                // Check if user already exists (the name imported posts fall back to is taken too)
+                if (string.Equals(request.Username, ThreadArchiveService.PlaceholderUsername, StringComparison.OrdinalIgnoreCase)
+                    || await _context.Users.AnyAsync(u => u.Username == request.Username))
                 {
                     return BadRequest(new AuthResponse
                     {
@@ -48,7 +61,7 @@ namespace MessageBoard.API.Controllers
                 }
 
                 // Hash the password
-                var passwordHash = HashPassword(request.Password);
+                var passwordHash = _passwordHasher.Hash(request.Password);
 
                 // Create new user
                 var user = new User
@@ -62,23 +75,8 @@ namespace MessageBoard.API.Controllers
                 _context.Users.Add(user);
                 await _context.SaveChangesAsync();
 
-                // Generate JWT token
-                var token = _jwtService.GenerateToken(user);
-
-                // Return success response
-                return Ok(new AuthResponse
-                {
-                    Success = true,
-                    Message = "Registration successful",
-                    Token = token,
-                    User = new UserDto
-                    {
-                        Id = user.Id,
-                        Username = user.Username,
-                        Email = user.Email,
-                        CreatedAt = user.CreatedAt
-                    }
-                });
+                // Sign the new user in: access token + refresh token
+                return Ok(await CreateSessionAsync(user, "Registration successful"));
             }
             catch (Exception ex)
             {
@@ -95,12 +93,22 @@ namespace MessageBoard.API.Controllers
         {
             try
             {
+                // Locked out after repeated failures - checked before the password so guesses stop counting
+                var ipAddress = HttpContext.Connection.RemoteIpAddress?.ToString();
+                var lockout = _loginThrottle.GetLockout(request.Username, ipAddress);
+                if (lockout != null)
+                {
+                    _logger.LogWarning("Rejected login for {Username} from {IpAddress}: locked out", request.Username, ipAddress);
+                    return TooManyAttempts(lockout.Value);
+                }
+
                 // Find user by username
                 var user = await _context.Users
                     .FirstOrDefaultAsync(u => u.Username == request.Username);
 
                 if (user == null)
                 {
+                    _loginThrottle.RecordFailure(request.Username, ipAddress);
                     return BadRequest(new AuthResponse
                     {
                         Success = false,
@@ -109,8 +117,9 @@ namespace MessageBoard.API.Controllers
                 }
 
                 // Verify password
-                if (!VerifyPassword(request.Password, user.PasswordHash))
+                if (!_passwordHasher.Verify(request.Password, user.PasswordHash))
                 {
+                    _loginThrottle.RecordFailure(request.Username, ipAddress);
                     return BadRequest(new AuthResponse
                     {
                         Success = false,
@@ -118,48 +127,142 @@ namespace MessageBoard.API.Controllers
                     });
                 }
 
-                // Generate JWT token
-                var token = _jwtService.GenerateToken(user);
+                _loginThrottle.RecordSuccess(request.Username);
+
+                // Banned accounts keep their data but cannot sign in
+                if (user.BannedAt != null)
+                {
+                    return StatusCode(403, BannedResponse(user));
+                }
+
+                // Generate the access and refresh tokens
+                return Ok(await CreateSessionAsync(user, "Login successful"));
+            }
+            catch (Exception ex)
+            {
+                return StatusCode(500, new AuthResponse
+                {
+                    Success = false,
+                    Message = "An error occurred during login"
+                });
+            }
+        }
 
-                // Return success response
+        // POST: api/auth/refresh
+        // Trade a refresh token for a new access token and refresh token.
+        // Refresh tokens are single use: the one presented stops working.
+        [HttpPost("refresh")]
+        public async Task<ActionResult<AuthResponse>> Refresh(RefreshTokenRequest request)
+        {
+            try
+            {
+                var rotation = await _refreshTokens.RotateAsync(request.RefreshToken);
+                if (rotation == null)
+                {
+                    return Unauthorized(new AuthResponse
+                    {
+                        Success = false,
+                        Message = "Your session has expired. Please log in again."
+                    });
+                }
+
+                var user = rotation.User;
+                if (user.BannedAt != null)
+                {
+                    await _refreshTokens.RevokeAllAsync(user.Id);
+                    return StatusCode(403, BannedResponse(user));
+                }
+
+                // Claims (such as the role) come from the current user record
                 return Ok(new AuthResponse
                 {
                     Success = true,
-                    Message = "Login successful",
-                    Token = token,
-                    User = new UserDto
-                    {
-                        Id = user.Id,
-                        Username = user.Username,
-                        Email = user.Email,
-                        CreatedAt = user.CreatedAt
-                    }
+                    Message = "Session refreshed",
+                    Token = _jwtService.GenerateToken(user),
+                    RefreshToken = rotation.Token,
+                    User = ToDto(user)
                 });
             }
             catch (Exception ex)
             {
+                _logger.LogError(ex, "Error refreshing session");
                 return StatusCode(500, new AuthResponse
                 {
                     Success = false,
-                    Message = "An error occurred during login"
+                    Message = "An error occurred while refreshing the session"
                 });
             }
         }
 
-        // Private helper methods for password hashing
-        private string HashPassword(string password)
+        // POST: api/auth/logout
+        // Revoke the refresh token; the short-lived access token just runs out
+        [HttpPost("logout")]
+        public async Task<IActionResult> Logout(RefreshTokenRequest request)
         {
-            using (var sha256 = SHA256.Create())
+            try
             {
-                var hashedBytes = sha256.ComputeHash(Encoding.UTF8.GetBytes(password));
-                return Convert.ToBase64String(hashedBytes);
+                await _refreshTokens.RevokeAsync(request.RefreshToken);
+                return NoContent();
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error logging out");
+                return StatusCode(500, "An error occurred while logging out");
             }
         }
 
-        private bool VerifyPassword(string password, string hash)
+        private async Task<AuthResponse> CreateSessionAsync(User user, string message)
         {
-            var hashedInput = HashPassword(password);
-            return hashedInput == hash;
+            return new AuthResponse
+            {
+                Success = true,
+                Message = message,
+                Token = _jwtService.GenerateToken(user),
+                RefreshToken = await _refreshTokens.IssueAsync(user),
+                User = ToDto(user)
+            };
+        }
+
+        // 429 with Retry-After (in whole seconds) for a locked-out login
+        private ObjectResult TooManyAttempts(TimeSpan retryAfter)
+        {
+            var seconds = (int)Math.Ceiling(retryAfter.TotalSeconds);
+            Response.Headers.RetryAfter = seconds.ToString();
+
+            var minutes = (int)Math.Ceiling(retryAfter.TotalMinutes);
+            return StatusCode(429, new AuthResponse
+            {
+                Success = false,
+                Message = minutes > 1
+                    ? $"Too many failed login attempts. Try again in {minutes} minutes."
+                    : "Too many failed login attempts. Try again in a minute."
+            });
+        }
+
+        private static AuthResponse BannedResponse(User user)
+        {
+            return new AuthResponse
+            {
+                Success = false,
+                Message = string.IsNullOrEmpty(user.BanReason)
+                    ? "This account has been banned"
+                    : $"This account has been banned: {user.BanReason}"
+            };
+        }
+
+        // The signed-in user's own account (account settings use it too)
+        internal static UserDto ToDto(User user)
+        {
+            return new UserDto
+            {
+                Id = user.Id,
+                Username = user.Username,
+                Email = user.Email,
+                Role = user.Role,
+                CreatedAt = user.CreatedAt,
+                Bio = user.Bio,
+                AvatarUrl = user.AvatarUrl
+            };
         }
     }
 }
\ No newline at end of file
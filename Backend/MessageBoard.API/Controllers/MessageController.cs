@@ -1,48 +1,163 @@
+using MessageBoard.API.Configuration;
 using MessageBoard.API.Data;
 using MessageBoard.API.DTOs;
 using MessageBoard.API.Models;
+using MessageBoard.API.Services;
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Options;
 using System.Security.Claims;
+using System.Text;
+using System.Text.Json;
+using System.Text.RegularExpressions;
 
 namespace MessageBoard.API.Controllers
 {
     [ApiController]
-    [Route("api/[controller]")]
+    [Route("api/messages")]
     public class MessagesController : ControllerBase
     {
+        private const int DefaultPageSize = 50;
+        private const int MaxPageSize = 100;
+        private const int MaxIdempotencyKeyLength = 64;
+        private static readonly TimeSpan StreamHeartbeatInterval = TimeSpan.FromSeconds(15);
+        private static readonly TimeSpan PostingWindow = TimeSpan.FromMinutes(1);
+        private static readonly Regex LinkPattern = new(@"https?://|www\.", RegexOptions.IgnoreCase | RegexOptions.Compiled);
+
         private readonly MessageBoardContext _context;
         private readonly ILogger<MessagesController> _logger;
+        private readonly IMessageEventBroadcaster _broadcaster;
+        private readonly IRateLimiter _rateLimiter;
+        private readonly RateLimitSettings _rateLimits;
+        private readonly IAttachmentStorage _attachmentStorage;
+        private readonly AttachmentSettings _attachmentSettings;
+        private readonly JsonSerializerOptions _jsonOptions;
 
-        public MessagesController(MessageBoardContext context, ILogger<MessagesController> logger)
+        public MessagesController(
+            MessageBoardContext context,
+            ILogger<MessagesController> logger,
+            IMessageEventBroadcaster broadcaster,
+            IRateLimiter rateLimiter,
+            IOptions<RateLimitSettings> rateLimits,
+            IAttachmentStorage attachmentStorage,
+            IOptions<AttachmentSettings> attachmentSettings,
+            IOptions<JsonOptions> jsonOptions)
         {
             _context = context;
             _logger = logger;
+            _broadcaster = broadcaster;
+            _rateLimiter = rateLimiter;
+            _rateLimits = rateLimits.Value;
+            _attachmentStorage = attachmentStorage;
+            _attachmentSettings = attachmentSettings.Value;
+            // SSE "data:" frames must be single-line, so never indent stream payloads
+            _jsonOptions = new JsonSerializerOptions(jsonOptions.Value.JsonSerializerOptions)
+            {
+                WriteIndented = false
+            };
         }
 
-        // GET: api/messages
+        // GET: api/messages?threadId=1&sort=desc&limit=50&cursor=...&threaded=true
+        // Keyset pagination ordered by (CreatedAt, Id); pass NextCursor back to get the next page.
+        // threaded=true pages through top-level posts only and adds all replies beneath them.
         [HttpGet]
-        public async Task<ActionResult<IEnumerable<Message>>> GetMessages([FromQuery] int? threadId = null)
+        public async Task<ActionResult<MessagePageResponse>> GetMessages(
+            [FromQuery] int? threadId = null,
+            [FromQuery] string? cursor = null,
+            [FromQuery] int limit = DefaultPageSize,
+            [FromQuery] string sort = "desc",
+            [FromQuery] bool threaded = false)
         {
             try
             {
-                _logger.LogInformation("Getting messages, threadId: {ThreadId}", threadId);
+                _logger.LogInformation("Getting messages, threadId: {ThreadId}, cursor: {Cursor}, limit: {Limit}, sort: {Sort}, threaded: {Threaded}",
+                    threadId, cursor, limit, sort, threaded);
+
+                if (limit < 1 || limit > MaxPageSize)
+                {
+                    return BadRequest($"limit must be between 1 and {MaxPageSize}");
+                }
+
+                if (sort != "asc" && sort != "desc")
+                {
+                    return BadRequest("sort must be 'asc' or 'desc'");
+                }
+
+                if (threaded && !threadId.HasValue)
+                {
+                    return BadRequest("threaded requires a threadId");
+                }
+
+                var descending = sort == "desc";
 
                 IQueryable<Message> query = _context.Messages
                     .Include(m => m.User)           // Include user data
                     .Include(m => m.Thread);        // Include thread data
-                    // .OrderByDescending(m => m.CreatedAt);  // Newest first
 
                 if (threadId.HasValue)
                 {
                     query = query.Where(m => m.ThreadId == threadId.Value);
                 }
 
-                var messages = await query.ToListAsync();
-                
-                _logger.LogInformation("Retrieved {Count} messages", messages.Count);
-                return Ok(messages);
+                // Hidden messages are only listed for moderators
+                var includeHidden = IsModerator();
+                if (!includeHidden)
+                {
+                    query = query.Where(m => m.HiddenAt == null);
+                }
+
+                if (threaded)
+                {
+                    query = query.Where(m => m.ParentMessageId == null);
+                }
+
+                // Continue after the last message of the previous page
+                if (cursor != null)
+                {
+                    if (!TryDecodeCursor(cursor, out var cursorCreatedAt, out var cursorId))
+                    {
+                        return BadRequest("Invalid cursor");
+                    }
+
+                    query = descending
+                        ? query.Where(m => m.CreatedAt < cursorCreatedAt
+                            || (m.CreatedAt == cursorCreatedAt && m.Id < cursorId))
+                        : query.Where(m => m.CreatedAt > cursorCreatedAt
+                            || (m.CreatedAt == cursorCreatedAt && m.Id > cursorId));
+                }
+
+                query = descending
+                    ? query.OrderByDescending(m => m.CreatedAt).ThenByDescending(m => m.Id)
+                    : query.OrderBy(m => m.CreatedAt).ThenBy(m => m.Id);
+
+                // Fetch one extra row to know whether another page exists
+                var messages = await query.Take(limit + 1).ToListAsync();
+                var hasMore = messages.Count > limit;
+                if (hasMore)
+                {
+                    messages.RemoveAt(limit);
+                }
+
+                // The cursor always refers to the last top-level post of the page
+                var nextCursor = hasMore ? EncodeCursor(messages[^1]) : null;
+
+                if (threaded && messages.Count > 0)
+                {
+                    messages.AddRange(await LoadRepliesAsync(messages.Select(m => m.Id).ToList(), includeHidden));
+                }
+
+                await AttachReactionCountsAsync(messages);
+                await AttachMentionsAsync(messages);
+                await AttachFilesAsync(messages);
+
+                _logger.LogInformation("Retrieved {Count} messages (hasMore: {HasMore})", messages.Count, hasMore);
+                return Ok(new MessagePageResponse
+                {
+                    Items = messages,
+                    HasMore = hasMore,
+                    NextCursor = nextCursor
+                });
             }
             catch (Exception ex)
             {
@@ -51,6 +166,57 @@ namespace MessageBoard.API.Controllers
             }
         }
 
+        // GET: api/messages/stream?threadId=1
+        // Server-Sent Events: one "data:" frame per MessageEvent for the thread,
+        // plus a comment line every 15s so proxies keep the connection open
+        [HttpGet("stream")]
+        [ProducesResponseType<MessageEvent>(StatusCodes.Status200OK, "text/event-stream")]
+        public async Task StreamMessages([FromQuery] int threadId, CancellationToken cancellationToken)
+        {
+            if (!await _context.Threads.AnyAsync(t => t.Id == threadId, cancellationToken))
+            {
+                Response.StatusCode = StatusCodes.Status404NotFound;
+                await Response.WriteAsync("Thread not found", cancellationToken);
+                return;
+            }
+
+            Response.ContentType = "text/event-stream";
+            Response.Headers.CacheControl = "no-cache";
+            Response.Headers["X-Accel-Buffering"] = "no";  // Disable proxy buffering (nginx)
+
+            using var subscription = _broadcaster.Subscribe(threadId);
+
+            try
+            {
+                // Tell the client how long to wait before reconnecting, and flush headers
+                await Response.WriteAsync("retry: 3000\n\n", cancellationToken);
+                await Response.Body.FlushAsync(cancellationToken);
+
+                while (!cancellationToken.IsCancellationRequested)
+                {
+                    using var heartbeat = CancellationTokenSource.CreateLinkedTokenSource(cancellationToken);
+                    heartbeat.CancelAfter(StreamHeartbeatInterval);
+
+                    try
+                    {
+                        var messageEvent = await subscription.Reader.ReadAsync(heartbeat.Token);
+                        var json = JsonSerializer.Serialize(messageEvent, _jsonOptions);
+                        await Response.WriteAsync($"data: {json}\n\n", cancellationToken);
+                    }
+                    catch (OperationCanceledException) when (!cancellationToken.IsCancellationRequested)
+                    {
+                        await Response.WriteAsync(": ping\n\n", cancellationToken);
+                    }
+
+                    await Response.Body.FlushAsync(cancellationToken);
+                }
+            }
+            catch (OperationCanceledException)
+            {
+                // Client disconnected
+            }
+        }
+
         // GET: api/messages/5
         [HttpGet("{id}")]
         public async Task<ActionResult<Message>> GetMessage(int id)
@@ -62,11 +228,14 @@ namespace MessageBoard.API.Controllers
                     .Include(m => m.Thread)
                     .FirstOrDefaultAsync(m => m.Id == id);
 
-                if (message == null)
+                if (message == null || (message.HiddenAt != null && !IsModerator()))
                 {
                     return NotFound();
                 }
 
+                await AttachReactionCountsAsync(new[] { message });
+                await AttachMentionsAsync(new[] { message });
+                await AttachFilesAsync(new[] { message });
                 return Ok(message);
             }
             catch (Exception ex)
@@ -77,19 +246,38 @@ namespace MessageBoard.API.Controllers
         }
 
         // POST: api/messages
+        // An Idempotency-Key header makes retries safe: repeating a key returns
+        // the message it already created instead of posting a duplicate.
+        // Posting too fast (per user or per IP) gets 429 with Retry-After;
+        // replays and rejected posts don't count towards the limit.
+        // Each @username naming another user notifies them (see Mentions).
+        // AttachmentIds claims the caller's unposted uploads (POST api/attachments).
         [HttpPost]
         [Authorize] // This requires a valid JWT token
-        public async Task<ActionResult<Message>> PostMessage(CreateMessageRequest request)
+        public async Task<ActionResult<Message>> PostMessage(
+            CreateMessageRequest request,
+            [FromHeader(Name = "Idempotency-Key")] string? idempotencyKey = null)
         {
             try
             {
                 // Extract user ID from JWT token claims
-                var userIdClaim = User.FindFirst(ClaimTypes.NameIdentifier);
-                if (userIdClaim == null || !int.TryParse(userIdClaim.Value, out int userId))
+                if (!TryGetUserId(out int userId))
                 {
                     return Unauthorized("Invalid token");
                 }
 
+                if (idempotencyKey != null && (idempotencyKey.Length == 0 || idempotencyKey.Length > MaxIdempotencyKeyLength))
+                {
+                    return BadRequest($"Idempotency-Key must be 1 to {MaxIdempotencyKeyLength} characters");
+                }
+
+                var replayed = await FindByIdempotencyKeyAsync(userId, idempotencyKey);
+                if (replayed != null)
+                {
+                    _logger.LogInformation("Replaying message {Id} for idempotency key {Key}", replayed.Id, idempotencyKey);
+                    return Ok(replayed);
+                }
+
                 // Validate the thread exists
                 var thread = await _context.Threads.FindAsync(request.ThreadId);
                 if (thread == null)
@@ -105,16 +293,117 @@ namespace MessageBoard.API.Controllers
                     return Unauthorized("User not found");
                 }
 
+                // Tokens issued before a ban stay valid, so check the account itself
+                if (user.BannedAt != null)
+                {
+                    return StatusCode(403, "Your account has been banned");
+                }
+
+                if (thread.IsLocked && !IsModerator())
+                {
+                    return StatusCode(403, "This thread is locked");
+                }
+
+                // Replies must answer a visible message in the same thread
+                if (request.ParentMessageId.HasValue)
+                {
+                    var includeHidden = IsModerator();
+                    var parentVisible = await _context.Messages.AnyAsync(m =>
+                        m.Id == request.ParentMessageId.Value
+                        && m.ThreadId == request.ThreadId
+                        && (includeHidden || m.HiddenAt == null));
+
+                    if (!parentVisible)
+                    {
+                        return BadRequest("The message you are replying to was not found in this thread");
+                    }
+                }
+
+                // Posts with files aren't repeats of earlier ones, even with the same (or no) text
+                var hasAttachments = request.AttachmentIds is { Count: > 0 };
+                var contentError = CheckLinkCount(request.Content);
+                if (contentError == null && !hasAttachments && await IsRecentDuplicateAsync(userId, request.Content))
+                {
+                    contentError = "You already posted this message. Please don't post the same thing twice.";
+                }
+
+                if (contentError != null)
+                {
+                    ModelState.AddModelError(nameof(request.Content), contentError);
+                    return ValidationProblem(ModelState);
+                }
+
+                var attachmentIds = request.AttachmentIds?.Distinct().ToList() ?? new List<int>();
+                if (attachmentIds.Count > _attachmentSettings.MaxAttachmentsPerMessage)
+                {
+                    ModelState.AddModelError(nameof(request.AttachmentIds),
+                        $"Messages can have at most {_attachmentSettings.MaxAttachmentsPerMessage} attachments.");
+                    return ValidationProblem(ModelState);
+                }
+
+                var attachments = await _context.Attachments
+                    .Where(a => attachmentIds.Contains(a.Id) && a.UploaderId == userId && a.MessageId == null)
+                    .ToListAsync();
+
+                if (attachments.Count != attachmentIds.Count)
+                {
+                    ModelState.AddModelError(nameof(request.AttachmentIds),
+                        "Attachments must be your own uploads that haven't been posted yet.");
+                    return ValidationProblem(ModelState);
+                }
+
+                // Taken last, so a post rejected above doesn't use up the quota
+                var retryAfter = AcquirePostingPermit(userId);
+                if (retryAfter != null)
+                {
+                    _logger.LogWarning("Rate limited message from user {UserId}", userId);
+                    return TooManyRequests(retryAfter.Value);
+                }
+
                 var message = new Message
                 {
                     Content = request.Content,
                     ThreadId = request.ThreadId,
+                    ParentMessageId = request.ParentMessageId,
                     UserId = userId, // From JWT token, not request body
-                    CreatedAt = DateTime.UtcNow
+                    CreatedAt = DateTime.UtcNow,
+                    IdempotencyKey = idempotencyKey
                 };
 
+                // Saved together with the message, so a replayed post never notifies twice
+                foreach (var mentionedId in await ResolveMentionsAsync(request.Content, userId))
+                {
+                    message.Notifications.Add(new Notification
+                    {
+                        UserId = mentionedId,
+                        ActorId = userId,
+                        Type = Notification.MentionType,
+                        CreatedAt = message.CreatedAt
+                    });
+                }
+
+                // Claimed in the same save, so a failed post leaves the uploads free to retry with
+                foreach (var attachment in attachments)
+                {
+                    attachment.Message = message;
+                }
+
                 _context.Messages.Add(message);
-                await _context.SaveChangesAsync();
+                try
+                {
+                    await _context.SaveChangesAsync();
+                }
+                catch (DbUpdateException) when (idempotencyKey != null)
+                {
+                    // A concurrent retry with the same key won the race - return its message
+                    _context.ChangeTracker.Clear();
+                    replayed = await FindByIdempotencyKeyAsync(userId, idempotencyKey);
+                    if (replayed == null)
+                    {
+                        throw;
+                    }
+                    return Ok(replayed);
+                }
 
                 // Reload with includes for response
                 var createdMessage = await _context.Messages
@@ -122,7 +411,23 @@ namespace MessageBoard.API.Controllers
                     .Include(m => m.Thread)
                     .FirstOrDefaultAsync(m => m.Id == message.Id);
 
-                _logger.LogInformation("Created message {Id} by user {UserId}", message.Id, message.UserId);
+                if (createdMessage != null)
+                {
+                    await AttachMentionsAsync(new[] { createdMessage });
+                    await AttachFilesAsync(new[] { createdMessage });
+                }
+
+                _logger.LogInformation("Created message {Id} by user {UserId} ({Mentions} mentions)",
+                    message.Id, message.UserId, message.Notifications.Count);
+
+                _broadcaster.Publish(new MessageEvent
+                {
+                    Type = MessageEvent.Created,
+                    ThreadId = message.ThreadId,
+                    MessageId = message.Id,
+                    Message = createdMessage
+                });
+
                 return CreatedAtAction(nameof(GetMessage), new { id = message.Id }, createdMessage);
             }
             catch (Exception ex)
@@ -132,22 +437,172 @@ namespace MessageBoard.API.Controllers
             }
         }
 
+        // PUT: api/messages/5
+        [HttpPut("{id}")]
+        [Authorize]
+        public async Task<ActionResult<Message>> UpdateMessage(int id, UpdateMessageRequest request)
+        {
+            try
+            {
+                if (!TryGetUserId(out int userId))
+                {
+                    return Unauthorized("Invalid token");
+                }
+
+                var message = await _context.Messages
+                    .Include(m => m.User)
+                    .Include(m => m.Thread)
+                    .FirstOrDefaultAsync(m => m.Id == id);
+
+                if (message == null || (message.HiddenAt != null && !IsModerator()))
+                {
+                    return NotFound("Message not found");
+                }
+
+                // Only the author may edit - ownership comes from the JWT, not the request
+                if (message.UserId != userId)
+                {
+                    return StatusCode(403, "You can only edit your own messages");
+                }
+
+                if (await _context.Users.AnyAsync(u => u.Id == userId && u.BannedAt != null))
+                {
+                    return StatusCode(403, "Your account has been banned");
+                }
+
+                if (message.Thread.IsLocked && !IsModerator())
+                {
+                    return StatusCode(403, "This thread is locked");
+                }
+
+                await AttachReactionCountsAsync(new[] { message });
+                await AttachMentionsAsync(new[] { message });
+                await AttachFilesAsync(new[] { message });
+
+                if (message.Content == request.Content)
+                {
+                    return Ok(message);  // Nothing changed, don't record a revision
+                }
+
+                var contentError = CheckLinkCount(request.Content);
+                if (contentError != null)
+                {
+                    ModelState.AddModelError(nameof(request.Content), contentError);
+                    return ValidationProblem(ModelState);
+                }
+
+                var now = DateTime.UtcNow;
+
+                // Keep the version being replaced
+                _context.MessageRevisions.Add(new MessageRevision
+                {
+                    MessageId = message.Id,
+                    Content = message.Content,
+                    EditedAt = now
+                });
+
+                message.Content = request.Content;
+                message.UpdatedAt = now;
+                await _context.SaveChangesAsync();
+
+                _logger.LogInformation("Updated message {Id} by user {UserId}", message.Id, userId);
+
+                _broadcaster.Publish(new MessageEvent
+                {
+                    Type = MessageEvent.Updated,
+                    ThreadId = message.ThreadId,
+                    MessageId = message.Id,
+                    Message = message
+                });
+
+                return Ok(message);
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error updating message {Id}", id);
+                return StatusCode(500, "An error occurred while updating the message");
+            }
+        }
+
+        // GET: api/messages/5/revisions
+        // Previous versions, newest first
+        [HttpGet("{id}/revisions")]
+        public async Task<ActionResult<IEnumerable<MessageRevisionDto>>> GetMessageRevisions(int id)
+        {
+            try
+            {
+                var visible = IsModerator()
+                    ? await _context.Messages.AnyAsync(m => m.Id == id)
+                    : await _context.Messages.AnyAsync(m => m.Id == id && m.HiddenAt == null);
+                if (!visible)
+                {
+                    return NotFound("Message not found");
+                }
+
+                var revisions = await _context.MessageRevisions
+                    .Where(r => r.MessageId == id)
+                    .OrderByDescending(r => r.EditedAt)
+                    .ThenByDescending(r => r.Id)
+                    .Select(r => new MessageRevisionDto
+                    {
+                        Id = r.Id,
+                        Content = r.Content,
+                        EditedAt = r.EditedAt
+                    })
+                    .ToListAsync();
+
+                return Ok(revisions);
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error retrieving revisions for message {Id}", id);
+                return StatusCode(500, "An error occurred while retrieving the message history");
+            }
+        }
+
         // DELETE: api/messages/5
+        // Its attachments are deleted with it, stored files included
         [HttpDelete("{id}")]
+        [Authorize]
         public async Task<IActionResult> DeleteMessage(int id)
         {
             try
             {
+                if (!TryGetUserId(out int userId))
+                {
+                    return Unauthorized("Invalid token");
+                }
+
                 var message = await _context.Messages.FindAsync(id);
                 if (message == null)
                 {
-                    return NotFound();
+                    return NotFound("Message not found");
                 }
 
+                // Authors can delete their own messages; moderators can delete any
+                if (message.UserId != userId && !IsModerator())
+                {
+                    return StatusCode(403, "You can only delete your own messages");
+                }
+
+                var storageKeys = await _context.Attachments
+                    .Where(a => a.MessageId == id)
+                    .Select(a => a.StorageKey)
+                    .ToListAsync();
+
                 _context.Messages.Remove(message);
                 await _context.SaveChangesAsync();
+                await _attachmentStorage.DeleteFilesAsync(storageKeys, _logger);
+
+                _logger.LogInformation("Deleted message {Id} by user {UserId}", id, userId);
+
+                _broadcaster.Publish(new MessageEvent
+                {
+                    Type = MessageEvent.Deleted,
+                    ThreadId = message.ThreadId,
+                    MessageId = message.Id
+                });
 
-                _logger.LogInformation("Deleted message {Id}", id);
                 return NoContent();
             }
             catch (Exception ex)
@@ -156,5 +611,386 @@ namespace MessageBoard.API.Controllers
                 return StatusCode(500, "An error occurred while deleting the message");
             }
         }
+
+        // PUT: api/messages/5/reactions/{emoji}
+        // Idempotent - reacting twice with the same emoji keeps one reaction
+        [HttpPut("{id}/reactions/{emoji}")]
+        [Authorize]
+        public Task<ActionResult<List<ReactionCount>>> AddReaction(int id, string emoji)
+        {
+            return SetReactionAsync(id, emoji, true);
+        }
+
+        // DELETE: api/messages/5/reactions/{emoji}
+        [HttpDelete("{id}/reactions/{emoji}")]
+        [Authorize]
+        public Task<ActionResult<List<ReactionCount>>> RemoveReaction(int id, string emoji)
+        {
+            return SetReactionAsync(id, emoji, false);
+        }
+
+        // Adds or removes the caller's reaction and returns the message's updated counts
+        private async Task<ActionResult<List<ReactionCount>>> SetReactionAsync(int id, string emoji, bool reacted)
+        {
+            try
+            {
+                if (!TryGetUserId(out int userId))
+                {
+                    return Unauthorized("Invalid token");
+                }
+
+                if (!ReactionEmoji.IsAllowed(emoji))
+                {
+                    return BadRequest($"Reactions must be one of: {string.Join(" ", ReactionEmoji.Allowed)}");
+                }
+
+                var message = await _context.Messages
+                    .Include(m => m.Thread)
+                    .FirstOrDefaultAsync(m => m.Id == id);
+
+                if (message == null || (message.HiddenAt != null && !IsModerator()))
+                {
+                    return NotFound("Message not found");
+                }
+
+                if (await _context.Users.AnyAsync(u => u.Id == userId && u.BannedAt != null))
+                {
+                    return StatusCode(403, "Your account has been banned");
+                }
+
+                if (message.Thread.IsLocked && !IsModerator())
+                {
+                    return StatusCode(403, "This thread is locked");
+                }
+
+                var existing = await _context.MessageReactions
+                    .FirstOrDefaultAsync(r => r.MessageId == id && r.UserId == userId && r.Emoji == emoji);
+
+                // Already in the requested state - nothing to save or publish
+                var changed = reacted != (existing != null);
+
+                if (changed)
+                {
+                    if (reacted)
+                    {
+                        _context.MessageReactions.Add(new MessageReaction
+                        {
+                            MessageId = id,
+                            UserId = userId,
+                            Emoji = emoji,
+                            CreatedAt = DateTime.UtcNow
+                        });
+                    }
+                    else
+                    {
+                        _context.MessageReactions.Remove(existing!);
+                    }
+
+                    try
+                    {
+                        await _context.SaveChangesAsync();
+                    }
+                    catch (DbUpdateException) when (reacted)
+                    {
+                        // A concurrent request added the same reaction first; the outcome is the same
+                        _context.ChangeTracker.Clear();
+                    }
+
+                    _logger.LogInformation("User {UserId} {Action} {Emoji} on message {Id}",
+                        userId, reacted ? "added" : "removed", emoji, id);
+                }
+
+                await AttachReactionCountsAsync(new[] { message });
+
+                if (changed)
+                {
+                    // Subscribers get the totals without anyone's ReactedByMe flag
+                    _broadcaster.Publish(new MessageEvent
+                    {
+                        Type = MessageEvent.Reactions,
+                        ThreadId = message.ThreadId,
+                        MessageId = message.Id,
+                        ReactionCounts = message.ReactionCounts
+                            .Select(r => new ReactionCount { Emoji = r.Emoji, Count = r.Count })
+                            .ToList()
+                    });
+                }
+
+                return Ok(message.ReactionCounts);
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error updating reactions on message {Id}", id);
+                return StatusCode(500, "An error occurred while updating the reaction");
+            }
+        }
+
+        // Fills in ReactionCounts (in ReactionEmoji.Allowed order) for the given messages
+        private async Task AttachReactionCountsAsync(IReadOnlyCollection<Message> messages)
+        {
+            if (messages.Count == 0)
+            {
+                return;
+            }
+
+            var messageIds = messages.Select(m => m.Id).ToList();
+            var currentUserId = TryGetUserId(out int userId) ? userId : 0;  // 0 never matches a user
+
+            var counts = await _context.MessageReactions
+                .Where(r => messageIds.Contains(r.MessageId))
+                .GroupBy(r => new { r.MessageId, r.Emoji })
+                .Select(g => new
+                {
+                    g.Key.MessageId,
+                    g.Key.Emoji,
+                    Count = g.Count(),
+                    Mine = g.Count(r => r.UserId == currentUserId)
+                })
+                .ToListAsync();
+
+            var byMessage = counts.ToLookup(c => c.MessageId);
+            foreach (var message in messages)
+            {
+                message.ReactionCounts = byMessage[message.Id]
+                    .OrderBy(c => Array.IndexOf(ReactionEmoji.Allowed, c.Emoji))
+                    .Select(c => new ReactionCount
+                    {
+                        Emoji = c.Emoji,
+                        Count = c.Count,
+                        ReactedByMe = c.Mine > 0
+                    })
+                    .ToList();
+            }
+        }
+
+        // Fills in Mentions from the mention notifications each message created
+        // (so a user mentioning themselves isn't listed - nobody was notified)
+        private async Task AttachMentionsAsync(IReadOnlyCollection<Message> messages)
+        {
+            if (messages.Count == 0)
+            {
+                return;
+            }
+
+            var messageIds = messages.Select(m => m.Id).ToList();
+            var mentions = await _context.Notifications
+                .Where(n => messageIds.Contains(n.MessageId) && n.Type == Notification.MentionType)
+                .OrderBy(n => n.Id)
+                .Select(n => new { n.MessageId, n.UserId, n.User.Username })
+                .ToListAsync();
+
+            var byMessage = mentions.ToLookup(m => m.MessageId);
+            foreach (var message in messages)
+            {
+                message.Mentions = byMessage[message.Id]
+                    .Select(m => new MessageMention { UserId = m.UserId, Username = m.Username })
+                    .ToList();
+            }
+        }
+
+        // Fills in Attachments (in upload order) for the given messages
+        private async Task AttachFilesAsync(IReadOnlyCollection<Message> messages)
+        {
+            if (messages.Count == 0)
+            {
+                return;
+            }
+
+            var messageIds = messages.Select(m => m.Id).ToList();
+            var attachments = await _context.Attachments
+                .Where(a => a.MessageId != null && messageIds.Contains(a.MessageId.Value))
+                .OrderBy(a => a.Id)
+                .Select(a => new
+                {
+                    MessageId = a.MessageId!.Value,
+                    Dto = new AttachmentDto
+                    {
+                        Id = a.Id,
+                        FileName = a.FileName,
+                        ContentType = a.ContentType,
+                        SizeBytes = a.SizeBytes
+                    }
+                })
+                .ToListAsync();
+
+            var byMessage = attachments.ToLookup(a => a.MessageId, a => a.Dto);
+            foreach (var message in messages)
+            {
+                message.Attachments = byMessage[message.Id].ToList();
+            }
+        }
+
+        // Ids of the users @mentioned in the content, other than the author,
+        // at most Mentions.MaxPerMessage of them. Unknown names are ignored.
+        private async Task<List<int>> ResolveMentionsAsync(string content, int authorId)
+        {
+            var usernames = Mentions.ExtractUsernames(content);
+            if (usernames.Count == 0)
+            {
+                return new List<int>();
+            }
+
+            // Username comparisons follow the column's case-insensitive collation
+            var users = await _context.Users
+                .Where(u => usernames.Contains(u.Username) && u.Id != authorId)
+                .Select(u => new { u.Id, u.Username })
+                .ToListAsync();
+
+            return usernames
+                .Select(name => users.FirstOrDefault(u => string.Equals(u.Username, name, StringComparison.OrdinalIgnoreCase)))
+                .Where(u => u != null)
+                .Select(u => u!.Id)
+                .Take(Mentions.MaxPerMessage)
+                .ToList();
+        }
+
+        // The message this user already created with the key, if any
+        private async Task<Message?> FindByIdempotencyKeyAsync(int userId, string? idempotencyKey)
+        {
+            if (idempotencyKey == null)
+            {
+                return null;
+            }
+
+            var message = await _context.Messages
+                .Include(m => m.User)
+                .Include(m => m.Thread)
+                .FirstOrDefaultAsync(m => m.UserId == userId && m.IdempotencyKey == idempotencyKey);
+
+            if (message != null)
+            {
+                await AttachReactionCountsAsync(new[] { message });
+                await AttachMentionsAsync(new[] { message });
+                await AttachFilesAsync(new[] { message });
+            }
+
+            return message;
+        }
+
+        // All descendants of the given messages, one query per nesting level
+        private async Task<List<Message>> LoadRepliesAsync(List<int> parentIds, bool includeHidden)
+        {
+            var replies = new List<Message>();
+
+            while (parentIds.Count > 0)
+            {
+                var query = _context.Messages
+                    .Include(m => m.User)
+                    .Include(m => m.Thread)
+                    .Where(m => m.ParentMessageId != null && parentIds.Contains(m.ParentMessageId.Value));
+
+                if (!includeHidden)
+                {
+                    query = query.Where(m => m.HiddenAt == null);
+                }
+
+                var level = await query.OrderBy(m => m.CreatedAt).ThenBy(m => m.Id).ToListAsync();
+                replies.AddRange(level);
+                parentIds = level.Select(m => m.Id).ToList();
+            }
+
+            return replies;
+        }
+
+        // Counts a post against both the user's and the client address's limit.
+        // Null when allowed, otherwise the longer of the two waits. Both limits are
+        // checked before either counts, so a post refused by one doesn't use up the other.
+        // Note: behind a reverse proxy the address is the proxy's unless forwarded headers are enabled.
+        private TimeSpan? AcquirePostingPermit(int userId)
+        {
+            var userKey = $"post:user:{userId}";
+            var ipAddress = HttpContext.Connection.RemoteIpAddress?.ToString();
+            var ipKey = ipAddress == null ? null : $"post:ip:{ipAddress}";
+
+            var wait = Longer(
+                _rateLimiter.Check(userKey, _rateLimits.MessagesPerUserPerMinute, PostingWindow),
+                ipKey == null ? null : _rateLimiter.Check(ipKey, _rateLimits.MessagesPerIpPerMinute, PostingWindow));
+            if (wait != null)
+            {
+                return wait;
+            }
+
+            return Longer(
+                _rateLimiter.TryAcquire(userKey, _rateLimits.MessagesPerUserPerMinute, PostingWindow),
+                ipKey == null ? null : _rateLimiter.TryAcquire(ipKey, _rateLimits.MessagesPerIpPerMinute, PostingWindow));
+        }
+
+        private static TimeSpan? Longer(TimeSpan? a, TimeSpan? b)
+        {
+            return a == null ? b : b == null ? a : (a > b ? a : b);
+        }
+
+        // 429 with Retry-After in whole seconds
+        private ObjectResult TooManyRequests(TimeSpan retryAfter)
+        {
+            var seconds = Math.Max(1, (int)Math.Ceiling(retryAfter.TotalSeconds));
+            Response.Headers.RetryAfter = seconds.ToString();
+            return StatusCode(429, $"You're posting too fast. Try again in {seconds} seconds.");
+        }
+
+        // Null when the content is within the link limit, otherwise the error for the Content field
+        private string? CheckLinkCount(string content)
+        {
+            var links = LinkPattern.Matches(content).Count;
+            return links > _rateLimits.MaxLinksPerMessage
+                ? $"Messages can contain at most {_rateLimits.MaxLinksPerMessage} links."
+                : null;
+        }
+
+        // Whether the user posted exactly this text recently (in any thread)
+        private Task<bool> IsRecentDuplicateAsync(int userId, string content)
+        {
+            var since = DateTime.UtcNow.AddMinutes(-_rateLimits.DuplicateMessageWindowMinutes);
+            return _context.Messages.AnyAsync(m =>
+                m.UserId == userId && m.Content == content && m.CreatedAt >= since);
+        }
+
+        private bool TryGetUserId(out int userId)
+        {
+            var userIdClaim = User.FindFirst(ClaimTypes.NameIdentifier);
+            userId = default;
+            return userIdClaim != null && int.TryParse(userIdClaim.Value, out userId);
+        }
+
+        private bool IsModerator()
+        {
+            return User.IsInRole(UserRoles.Moderator) || User.IsInRole(UserRoles.Admin);
+        }
+
+        // Cursor = base64url("{CreatedAt ticks}:{Id}") of the last message on a page
+        private static string EncodeCursor(Message message)
+        {
+            var raw = $"{message.CreatedAt.Ticks}:{message.Id}";
+            return Convert.ToBase64String(Encoding.UTF8.GetBytes(raw))
+                .TrimEnd('=').Replace('+', '-').Replace('/', '_');
+        }
+
+        private static bool TryDecodeCursor(string cursor, out DateTime createdAt, out int id)
+        {
+            createdAt = default;
+            id = default;
+
+            try
+            {
+                var base64 = cursor.Replace('-', '+').Replace('_', '/');
+                base64 = base64.PadRight(base64.Length + (4 - base64.Length % 4) % 4, '=');
+                var parts = Encoding.UTF8.GetString(Convert.FromBase64String(base64)).Split(':');
+
+                if (parts.Length != 2
+                    || !long.TryParse(parts[0], out var ticks)
+                    || !int.TryParse(parts[1], out id)
+                    || ticks < DateTime.MinValue.Ticks || ticks > DateTime.MaxValue.Ticks)
+                {
+                    return false;
+                }
+
+                createdAt = new DateTime(ticks);
+                return true;
+            }
+            catch (FormatException)
+            {
+                return false;
+            }
+        }
     }
 }
\ No newline at end of file
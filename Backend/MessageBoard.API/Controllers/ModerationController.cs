@@ -0,0 +1,344 @@
+using MessageBoard.API.Data;
+using MessageBoard.API.DTOs;
+using MessageBoard.API.Models;
+using MessageBoard.API.Services;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using System.Security.Claims;
+
+namespace MessageBoard.API.Controllers
+{
+    // Moderator and admin actions: lock threads, hide messages, ban users
+    [ApiController]
+    [Route("api/moderation")]
+    [Authorize(Roles = UserRoles.Staff)]
+    public class ModerationController : ControllerBase
+    {
+        private readonly MessageBoardContext _context;
+        private readonly ILogger<ModerationController> _logger;
+        private readonly IMessageEventBroadcaster _broadcaster;
+        private readonly IRefreshTokenService _refreshTokens;
+
+        public ModerationController(
+            MessageBoardContext context,
+            ILogger<ModerationController> logger,
+            IMessageEventBroadcaster broadcaster,
+            IRefreshTokenService refreshTokens)
+        {
+            _context = context;
+            _logger = logger;
+            _broadcaster = broadcaster;
+            _refreshTokens = refreshTokens;
+        }
+
+        // POST: api/moderation/threads/5/lock
+        [HttpPost("threads/{id}/lock")]
+        public Task<ActionResult<ThreadDto>> LockThread(int id) => SetThreadLocked(id, true);
+
+        // DELETE: api/moderation/threads/5/lock
+        [HttpDelete("threads/{id}/lock")]
+        public Task<ActionResult<ThreadDto>> UnlockThread(int id) => SetThreadLocked(id, false);
+
+        // POST: api/moderation/messages/5/hide
+        // Soft-hide: the message stays in the database but only moderators can see it
+        [HttpPost("messages/{id}/hide")]
+        public async Task<ActionResult<Message>> HideMessage(int id, HideMessageRequest request)
+        {
+            try
+            {
+                var message = await FindMessage(id);
+                if (message == null)
+                {
+                    return NotFound("Message not found");
+                }
+
+                message.HiddenAt = DateTime.UtcNow;
+                message.HiddenReason = request.Reason;
+                await _context.SaveChangesAsync();
+
+                _logger.LogInformation("Message {Id} hidden by moderator {ModeratorId}: {Reason}",
+                    id, GetUserId(), request.Reason);
+
+                // Viewers can't tell hidden from deleted, and the stream is not per-user
+                _broadcaster.Publish(new MessageEvent
+                {
+                    Type = MessageEvent.Deleted,
+                    ThreadId = message.ThreadId,
+                    MessageId = message.Id
+                });
+
+                return Ok(message);
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error hiding message {Id}", id);
+                return StatusCode(500, "An error occurred while hiding the message");
+            }
+        }
+
+        // DELETE: api/moderation/messages/5/hide
+        [HttpDelete("messages/{id}/hide")]
+        public async Task<ActionResult<Message>> UnhideMessage(int id)
+        {
+            try
+            {
+                var message = await FindMessage(id);
+                if (message == null)
+                {
+                    return NotFound("Message not found");
+                }
+
+                message.HiddenAt = null;
+                message.HiddenReason = null;
+                await _context.SaveChangesAsync();
+
+                _logger.LogInformation("Message {Id} unhidden by moderator {ModeratorId}", id, GetUserId());
+
+                // Reappears for viewers as if newly posted
+                _broadcaster.Publish(new MessageEvent
+                {
+                    Type = MessageEvent.Created,
+                    ThreadId = message.ThreadId,
+                    MessageId = message.Id,
+                    Message = ForBroadcast(message)
+                });
+
+                return Ok(message);
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error unhiding message {Id}", id);
+                return StatusCode(500, "An error occurred while unhiding the message");
+            }
+        }
+
+        // POST: api/moderation/users/5/ban
+        // Banned users cannot log in, post or edit; their existing messages stay.
+        // Their refresh tokens are revoked, so they are signed out once the access token runs out.
+        [HttpPost("users/{id}/ban")]
+        public async Task<ActionResult<ModeratedUserDto>> BanUser(int id, BanUserRequest request)
+        {
+            try
+            {
+                var user = await _context.Users.FindAsync(id);
+                if (user == null)
+                {
+                    return NotFound("User not found");
+                }
+
+                if (user.Id == GetUserId())
+                {
+                    return BadRequest("You cannot ban yourself");
+                }
+
+                // Moderators can't ban other staff; admins can ban moderators but not admins
+                if (user.Role == UserRoles.Admin
+                    || (user.Role == UserRoles.Moderator && !User.IsInRole(UserRoles.Admin)))
+                {
+                    return StatusCode(403, "You cannot ban this user");
+                }
+
+                user.BannedAt = DateTime.UtcNow;
+                user.BanReason = request.Reason;
+                await _context.SaveChangesAsync();
+                await _refreshTokens.RevokeAllAsync(user.Id);
+
+                _logger.LogInformation("User {Id} banned by moderator {ModeratorId}: {Reason}",
+                    id, GetUserId(), request.Reason);
+
+                return Ok(ToDto(user));
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error banning user {Id}", id);
+                return StatusCode(500, "An error occurred while banning the user");
+            }
+        }
+
+        // DELETE: api/moderation/users/5/ban
+        [HttpDelete("users/{id}/ban")]
+        public async Task<ActionResult<ModeratedUserDto>> UnbanUser(int id)
+        {
+            try
+            {
+                var user = await _context.Users.FindAsync(id);
+                if (user == null)
+                {
+                    return NotFound("User not found");
+                }
+
+                user.BannedAt = null;
+                user.BanReason = null;
+                await _context.SaveChangesAsync();
+
+                _logger.LogInformation("User {Id} unbanned by moderator {ModeratorId}", id, GetUserId());
+
+                return Ok(ToDto(user));
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error unbanning user {Id}", id);
+                return StatusCode(500, "An error occurred while unbanning the user");
+            }
+        }
+
+        // PUT: api/moderation/users/5/role
+        // Takes effect when the user's next access token is issued (login or refresh)
+        [HttpPut("users/{id}/role")]
+        [Authorize(Roles = UserRoles.Admin)]
+        public async Task<ActionResult<ModeratedUserDto>> UpdateRole(int id, UpdateRoleRequest request)
+        {
+            try
+            {
+                if (!UserRoles.All.Contains(request.Role))
+                {
+                    return BadRequest($"Role must be one of: {string.Join(", ", UserRoles.All)}");
+                }
+
+                var user = await _context.Users.FindAsync(id);
+                if (user == null)
+                {
+                    return NotFound("User not found");
+                }
+
+                if (user.Id == GetUserId())
+                {
+                    return BadRequest("You cannot change your own role");
+                }
+
+                user.Role = request.Role;
+                await _context.SaveChangesAsync();
+
+                _logger.LogInformation("User {Id} role set to {Role} by admin {AdminId}", id, request.Role, GetUserId());
+
+                return Ok(ToDto(user));
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error updating role for user {Id}", id);
+                return StatusCode(500, "An error occurred while updating the user's role");
+            }
+        }
+
+        private async Task<ActionResult<ThreadDto>> SetThreadLocked(int id, bool locked)
+        {
+            try
+            {
+                var thread = await _context.Threads.FindAsync(id);
+
+                if (thread == null)
+                {
+                    return NotFound("Thread not found");
+                }
+
+                thread.IsLocked = locked;
+                await _context.SaveChangesAsync();
+
+                _logger.LogInformation("Thread {Id} {Action} by moderator {ModeratorId}",
+                    id, locked ? "locked" : "unlocked", GetUserId());
+
+                // Same shape as GET api/threads/5
+                return Ok(await ThreadsController.ProjectToDto(_context.Threads.Where(t => t.Id == id), GetUserId()).FirstAsync());
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error updating lock on thread {Id}", id);
+                return StatusCode(500, "An error occurred while updating the thread");
+            }
+        }
+
+        // With its attachments, since an unhidden message is republished to viewers
+        // The message as MessagesController returns it: with its reaction counts
+        // (ReactedByMe for the moderator), mentions and attachments
+        private async Task<Message?> FindMessage(int id)
+        {
+            var message = await _context.Messages
+                .Include(m => m.User)
+                .Include(m => m.Thread)
+                .FirstOrDefaultAsync(m => m.Id == id);
+
+            if (message != null)
+            {
+                message.Attachments = await _context.Attachments
+                    .Where(a => a.MessageId == id)
+                    .OrderBy(a => a.Id)
+                    .Select(a => new AttachmentDto
+                    {
+                        Id = a.Id,
+                        FileName = a.FileName,
+                        ContentType = a.ContentType,
+                        SizeBytes = a.SizeBytes
+                    })
+                    .ToListAsync();
+
+                var currentUserId = GetUserId() ?? 0;  // 0 never matches a user
+                var counts = await _context.MessageReactions
+                    .Where(r => r.MessageId == id)
+                    .GroupBy(r => r.Emoji)
+                    .Select(g => new
+                    {
+                        Emoji = g.Key,
+                        Count = g.Count(),
+                        Mine = g.Count(r => r.UserId == currentUserId)
+                    })
+                    .ToListAsync();
+                message.ReactionCounts = counts
+                    .OrderBy(c => Array.IndexOf(ReactionEmoji.Allowed, c.Emoji))
+                    .Select(c => new ReactionCount { Emoji = c.Emoji, Count = c.Count, ReactedByMe = c.Mine > 0 })
+                    .ToList();
+
+                message.Mentions = await _context.Notifications
+                    .Where(n => n.MessageId == id && n.Type == Notification.MentionType)
+                    .OrderBy(n => n.Id)
+                    .Select(n => new MessageMention { UserId = n.UserId, Username = n.User.Username })
+                    .ToListAsync();
+            }
+
+            return message;
+        }
+
+        // A copy for the event stream: subscribers get the reaction totals
+        // without the moderator's ReactedByMe flags
+        private static Message ForBroadcast(Message message)
+        {
+            return new Message
+            {
+                Id = message.Id,
+                Content = message.Content,
+                UserId = message.UserId,
+                ThreadId = message.ThreadId,
+                ParentMessageId = message.ParentMessageId,
+                CreatedAt = message.CreatedAt,
+                UpdatedAt = message.UpdatedAt,
+                HiddenAt = message.HiddenAt,
+                HiddenReason = message.HiddenReason,
+                User = message.User,
+                Thread = message.Thread,
+                ReactionCounts = message.ReactionCounts
+                    .Select(r => new ReactionCount { Emoji = r.Emoji, Count = r.Count })
+                    .ToList(),
+                Mentions = message.Mentions,
+                Attachments = message.Attachments
+            };
+        }
+
+        private int? GetUserId()
+        {
+            var userIdClaim = User.FindFirst(ClaimTypes.NameIdentifier);
+            return userIdClaim != null && int.TryParse(userIdClaim.Value, out var userId) ? userId : null;
+        }
+
+        private static ModeratedUserDto ToDto(User user)
+        {
+            return new ModeratedUserDto
+            {
+                Id = user.Id,
+                Username = user.Username,
+                Role = user.Role,
+                BannedAt = user.BannedAt,
+                BanReason = user.BanReason
+            };
+        }
+    }
+}
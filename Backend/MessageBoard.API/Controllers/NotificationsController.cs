@@ -0,0 +1,169 @@
+using MessageBoard.API.Data;
+using MessageBoard.API.DTOs;
+using MessageBoard.API.Models;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using System.Security.Claims;
+
+namespace MessageBoard.API.Controllers
+{
+    // The signed-in user's inbox: @mentions of them in other users' messages.
+    // Notifications are created by MessagesController.PostMessage.
+    [ApiController]
+    [Route("api/notifications")]
+    [Authorize]
+    public class NotificationsController : ControllerBase
+    {
+        private const int DefaultPageSize = 20;
+        private const int MaxPageSize = 50;
+        private const int SnippetLength = 140;
+
+        private readonly MessageBoardContext _context;
+        private readonly ILogger<NotificationsController> _logger;
+
+        public NotificationsController(MessageBoardContext context, ILogger<NotificationsController> logger)
+        {
+            _context = context;
+            _logger = logger;
+        }
+
+        // GET: api/notifications?limit=20
+        // Newest first; mentions in hidden messages are left out
+        [HttpGet]
+        public async Task<ActionResult<NotificationListResponse>> GetNotifications([FromQuery] int limit = DefaultPageSize)
+        {
+            try
+            {
+                if (!TryGetUserId(out int userId))
+                {
+                    return Unauthorized("Invalid token");
+                }
+
+                limit = Math.Clamp(limit, 1, MaxPageSize);
+                var visible = Visible(userId);
+
+                var items = await ProjectToDto(visible
+                        .OrderByDescending(n => n.CreatedAt)
+                        .ThenByDescending(n => n.Id)
+                        .Take(limit))
+                    .ToListAsync();
+                items.ForEach(TrimSnippet);
+
+                var unreadCount = await visible.CountAsync(n => n.ReadAt == null);
+
+                return Ok(new NotificationListResponse { Items = items, UnreadCount = unreadCount });
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error retrieving notifications");
+                return StatusCode(500, "An error occurred while retrieving notifications");
+            }
+        }
+
+        // PUT: api/notifications/5/read
+        // Idempotent - an already read notification keeps its ReadAt
+        [HttpPut("{id}/read")]
+        public async Task<ActionResult<NotificationDto>> MarkNotificationRead(int id)
+        {
+            try
+            {
+                if (!TryGetUserId(out int userId))
+                {
+                    return Unauthorized("Invalid token");
+                }
+
+                // Someone else's notification reads as missing, not forbidden
+                var notification = await _context.Notifications
+                    .FirstOrDefaultAsync(n => n.Id == id && n.UserId == userId);
+                if (notification == null)
+                {
+                    return NotFound("Notification not found");
+                }
+
+                if (notification.ReadAt == null)
+                {
+                    notification.ReadAt = DateTime.UtcNow;
+                    await _context.SaveChangesAsync();
+                }
+
+                var dto = await ProjectToDto(_context.Notifications.Where(n => n.Id == id)).FirstAsync();
+                TrimSnippet(dto);
+                return Ok(dto);
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error marking notification {Id} read", id);
+                return StatusCode(500, "An error occurred while updating the notification");
+            }
+        }
+
+        // POST: api/notifications/mark-all-read
+        [HttpPost("mark-all-read")]
+        public async Task<IActionResult> MarkAllNotificationsRead()
+        {
+            try
+            {
+                if (!TryGetUserId(out int userId))
+                {
+                    return Unauthorized("Invalid token");
+                }
+
+                var now = DateTime.UtcNow;
+                var updated = await _context.Notifications
+                    .Where(n => n.UserId == userId && n.ReadAt == null)
+                    .ExecuteUpdateAsync(s => s.SetProperty(n => n.ReadAt, now));
+
+                _logger.LogInformation("Marked {Count} notifications read for user {UserId}", updated, userId);
+
+                return NoContent();
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error marking all notifications read");
+                return StatusCode(500, "An error occurred while marking notifications as read");
+            }
+        }
+
+        private IQueryable<Notification> Visible(int userId)
+        {
+            return _context.Notifications.Where(n => n.UserId == userId && n.Message.HiddenAt == null);
+        }
+
+        private static IQueryable<NotificationDto> ProjectToDto(IQueryable<Notification> notifications)
+        {
+            return notifications.Select(n => new NotificationDto
+            {
+                Id = n.Id,
+                Type = n.Type,
+                MessageId = n.MessageId,
+                ThreadId = n.Message.ThreadId,
+                ThreadTitle = n.Message.Thread.Title,
+                Actor = new UserSummaryDto
+                {
+                    Id = n.Actor.Id,
+                    Username = n.Actor.Username,
+                    Role = n.Actor.Role,
+                    CreatedAt = n.Actor.CreatedAt
+                },
+                Snippet = n.Message.Content,  // Trimmed by TrimSnippet
+                CreatedAt = n.CreatedAt,
+                ReadAt = n.ReadAt
+            });
+        }
+
+        // One line of the message, cut at SnippetLength characters
+        private static void TrimSnippet(NotificationDto notification)
+        {
+            var text = string.Join(' ', notification.Snippet.Split((char[]?)null, StringSplitOptions.RemoveEmptyEntries));
+            notification.Snippet = text.Length <= SnippetLength ? text : text[..SnippetLength].TrimEnd() + "…";
+        }
+
+        private bool TryGetUserId(out int userId)
+        {
+            var userIdClaim = User.FindFirst(ClaimTypes.NameIdentifier);
+            userId = default;
+            return userIdClaim != null && int.TryParse(userIdClaim.Value, out userId);
+        }
+    }
+}
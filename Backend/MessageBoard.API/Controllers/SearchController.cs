@@ -0,0 +1,263 @@
+using MessageBoard.API.Data;
+using MessageBoard.API.DTOs;
+using MessageBoard.API.Models;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+
+namespace MessageBoard.API.Controllers
+{
+    [ApiController]
+    [Route("api/search")]
+    public class SearchController : ControllerBase
+    {
+        private const int DefaultLimit = 20;
+        private const int MaxLimit = 50;
+        private const int MaxOffset = 1000;
+        private const int MinQueryLength = 2;
+        private const int MaxTerms = 5;
+        private const int SnippetLength = 160;
+
+        private readonly MessageBoardContext _context;
+        private readonly ILogger<SearchController> _logger;
+
+        public SearchController(MessageBoardContext context, ILogger<SearchController> logger)
+        {
+            _context = context;
+            _logger = logger;
+        }
+
+        // GET: api/search?q=typescript&author=jane_smith&threadId=2&from=2025-01-01&to=2025-12-31
+        // Every whitespace-separated term must appear (case-insensitive) in a message's
+        // content or a thread's title. from/to are inclusive dates (UTC).
+        [HttpGet]
+        public async Task<ActionResult<SearchResponse>> Search(
+            [FromQuery] string? q,
+            [FromQuery] string? author = null,
+            [FromQuery] int? threadId = null,
+            [FromQuery] DateTime? from = null,
+            [FromQuery] DateTime? to = null,
+            [FromQuery] int limit = DefaultLimit,
+            [FromQuery] int offset = 0)
+        {
+            try
+            {
+                var query = q?.Trim() ?? string.Empty;
+                if (query.Length < MinQueryLength)
+                {
+                    return BadRequest($"Search text must be at least {MinQueryLength} characters");
+                }
+
+                if (limit < 1 || limit > MaxLimit)
+                {
+                    return BadRequest($"limit must be between 1 and {MaxLimit}");
+                }
+
+                if (offset < 0 || offset > MaxOffset)
+                {
+                    return BadRequest($"offset must be between 0 and {MaxOffset}");
+                }
+
+                var terms = query
+                    .Split(' ', StringSplitOptions.RemoveEmptyEntries | StringSplitOptions.TrimEntries)
+                    .Distinct(StringComparer.OrdinalIgnoreCase)
+                    .Take(MaxTerms)
+                    .ToList();
+
+                var authorName = author?.Trim();
+                var fromDate = from?.Date;
+                var toDate = to?.Date.AddDays(1);  // Exclusive upper bound covering the whole "to" day
+                var take = offset + limit + 1;     // One extra row tells us whether more results exist
+
+                // Messages whose content contains every term
+                var messages = _context.Messages.AsQueryable();
+                if (!IsModerator())
+                {
+                    messages = messages.Where(m => m.HiddenAt == null);
+                }
+                foreach (var pattern in terms.Select(ToLikePattern))
+                {
+                    messages = messages.Where(m => EF.Functions.Like(m.Content, pattern, "\\"));
+                }
+                if (!string.IsNullOrEmpty(authorName))
+                {
+                    messages = messages.Where(m => m.User.Username == authorName);
+                }
+                if (threadId.HasValue)
+                {
+                    messages = messages.Where(m => m.ThreadId == threadId.Value);
+                }
+                if (fromDate.HasValue)
+                {
+                    messages = messages.Where(m => m.CreatedAt >= fromDate.Value);
+                }
+                if (toDate.HasValue)
+                {
+                    messages = messages.Where(m => m.CreatedAt < toDate.Value);
+                }
+
+                var messageResults = await messages
+                    .OrderByDescending(m => m.CreatedAt)
+                    .ThenByDescending(m => m.Id)
+                    .Take(take)
+                    .Select(m => new SearchResult
+                    {
+                        Type = SearchResult.MessageType,
+                        ThreadId = m.ThreadId,
+                        ThreadTitle = m.Thread.Title,
+                        MessageId = m.Id,
+                        Author = new UserSummaryDto
+                        {
+                            Id = m.User.Id,
+                            Username = m.User.Username,
+                            Role = m.User.Role,
+                            CreatedAt = m.User.CreatedAt
+                        },
+                        CreatedAt = m.CreatedAt,
+                        Snippet = m.Content
+                    })
+                    .ToListAsync();
+
+                // Threads whose title contains every term
+                var threads = _context.Threads.AsQueryable();
+                foreach (var pattern in terms.Select(ToLikePattern))
+                {
+                    threads = threads.Where(t => EF.Functions.Like(t.Title, pattern, "\\"));
+                }
+                if (!string.IsNullOrEmpty(authorName))
+                {
+                    threads = threads.Where(t => t.User.Username == authorName);
+                }
+                if (threadId.HasValue)
+                {
+                    threads = threads.Where(t => t.Id == threadId.Value);
+                }
+                if (fromDate.HasValue)
+                {
+                    threads = threads.Where(t => t.CreatedAt >= fromDate.Value);
+                }
+                if (toDate.HasValue)
+                {
+                    threads = threads.Where(t => t.CreatedAt < toDate.Value);
+                }
+
+                var threadResults = await threads
+                    .OrderByDescending(t => t.CreatedAt)
+                    .ThenByDescending(t => t.Id)
+                    .Take(take)
+                    .Select(t => new SearchResult
+                    {
+                        Type = SearchResult.ThreadType,
+                        ThreadId = t.Id,
+                        ThreadTitle = t.Title,
+                        Author = new UserSummaryDto
+                        {
+                            Id = t.User.Id,
+                            Username = t.User.Username,
+                            Role = t.User.Role,
+                            CreatedAt = t.User.CreatedAt
+                        },
+                        CreatedAt = t.CreatedAt,
+                        Snippet = t.Title
+                    })
+                    .ToListAsync();
+
+                var page = messageResults
+                    .Concat(threadResults)
+                    .OrderByDescending(r => r.CreatedAt)
+                    .Skip(offset)
+                    .Take(limit + 1)
+                    .ToList();
+
+                var hasMore = page.Count > limit;
+                if (hasMore)
+                {
+                    page.RemoveAt(limit);
+                }
+
+                foreach (var result in page)
+                {
+                    (result.Snippet, result.Highlights) = BuildSnippet(result.Snippet, terms);
+                }
+
+                _logger.LogInformation("Search for {Query} returned {Count} results (hasMore: {HasMore})",
+                    query, page.Count, hasMore);
+
+                return Ok(new SearchResponse
+                {
+                    Query = query,
+                    Items = page,
+                    HasMore = hasMore
+                });
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error searching for {Query}", q);
+                return StatusCode(500, "An error occurred while searching");
+            }
+        }
+
+        // "50%_off" -> "%50\%\_off%" so user input can't act as a wildcard
+        private static string ToLikePattern(string term)
+        {
+            var escaped = term
+                .Replace("\\", "\\\\")
+                .Replace("%", "\\%")
+                .Replace("_", "\\_");
+            return $"%{escaped}%";
+        }
+
+        // Cut a window of text around the first match and locate every term inside it
+        private static (string Snippet, List<SearchHighlight> Highlights) BuildSnippet(
+            string text, IReadOnlyList<string> terms)
+        {
+            var flattened = string.Join(' ', text.Split((char[]?)null, StringSplitOptions.RemoveEmptyEntries));
+
+            var firstMatch = terms
+                .Select(term => flattened.IndexOf(term, StringComparison.OrdinalIgnoreCase))
+                .Where(index => index >= 0)
+                .DefaultIfEmpty(0)
+                .Min();
+
+            var start = Math.Max(0, Math.Min(firstMatch - SnippetLength / 4, flattened.Length - SnippetLength));
+            var length = Math.Min(SnippetLength, flattened.Length - start);
+            var snippet = flattened.Substring(start, length);
+
+            var prefix = start > 0 ? "…" : string.Empty;
+            var suffix = start + length < flattened.Length ? "…" : string.Empty;
+            snippet = prefix + snippet + suffix;
+
+            var ranges = new List<(int Start, int End)>();
+            foreach (var term in terms)
+            {
+                var index = snippet.IndexOf(term, StringComparison.OrdinalIgnoreCase);
+                while (index >= 0)
+                {
+                    ranges.Add((index, index + term.Length));
+                    index = snippet.IndexOf(term, index + term.Length, StringComparison.OrdinalIgnoreCase);
+                }
+            }
+
+            // Merge overlapping matches ("type" inside "typescript") into one highlight
+            var highlights = new List<SearchHighlight>();
+            foreach (var range in ranges.OrderBy(r => r.Start))
+            {
+                var last = highlights.LastOrDefault();
+                if (last != null && range.Start <= last.Start + last.Length)
+                {
+                    last.Length = Math.Max(last.Length, range.End - last.Start);
+                }
+                else
+                {
+                    highlights.Add(new SearchHighlight { Start = range.Start, Length = range.End - range.Start });
+                }
+            }
+
+            return (snippet, highlights);
+        }
+
+        private bool IsModerator()
+        {
+            return User.IsInRole(UserRoles.Moderator) || User.IsInRole(UserRoles.Admin);
+        }
+    }
+}
@@ -0,0 +1,466 @@
+using MessageBoard.API.Data;
+using MessageBoard.API.DTOs;
+using MessageBoard.API.Models;
+using MessageBoard.API.Services;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using System.Security.Claims;
+
+namespace MessageBoard.API.Controllers
+{
+    [ApiController]
+    [Route("api/threads")]
+    public class ThreadsController : ControllerBase
+    {
+        private readonly MessageBoardContext _context;
+        private readonly ILogger<ThreadsController> _logger;
+        private readonly IAttachmentStorage _attachmentStorage;
+        private readonly IThreadArchiveService _archives;
+
+        public ThreadsController(
+            MessageBoardContext context,
+            ILogger<ThreadsController> logger,
+            IAttachmentStorage attachmentStorage,
+            IThreadArchiveService archives)
+        {
+            _context = context;
+            _logger = logger;
+            _attachmentStorage = attachmentStorage;
+            _archives = archives;
+        }
+
+        // GET: api/threads
+        // Newest first, each with its count of visible messages
+        // (and, for a signed-in caller, how many of them are unread)
+        [HttpGet]
+        public async Task<ActionResult<IEnumerable<ThreadDto>>> GetThreads()
+        {
+            try
+            {
+                var threads = await ProjectToDto(_context.Threads, CurrentUserId())
+                    .OrderByDescending(t => t.CreatedAt)
+                    .ThenByDescending(t => t.Id)
+                    .ToListAsync();
+
+                _logger.LogInformation("Retrieved {Count} threads", threads.Count);
+                return Ok(threads);
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error retrieving threads");
+                return StatusCode(500, "An error occurred while retrieving threads");
+            }
+        }
+
+        // GET: api/threads/5
+        [HttpGet("{id}")]
+        public async Task<ActionResult<ThreadDto>> GetThread(int id)
+        {
+            try
+            {
+                var thread = await ProjectToDto(_context.Threads.Where(t => t.Id == id), CurrentUserId())
+                    .FirstOrDefaultAsync();
+
+                if (thread == null)
+                {
+                    return NotFound("Thread not found");
+                }
+
+                return Ok(thread);
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error retrieving thread {Id}", id);
+                return StatusCode(500, "An error occurred while retrieving the thread");
+            }
+        }
+
+        // POST: api/threads
+        [HttpPost]
+        [Authorize]
+        public async Task<ActionResult<ThreadDto>> CreateThread(CreateThreadRequest request)
+        {
+            try
+            {
+                if (!TryGetUserId(out int userId))
+                {
+                    return Unauthorized("Invalid token");
+                }
+
+                var user = await _context.Users.FindAsync(userId);
+                if (user == null)
+                {
+                    return Unauthorized("User not found");
+                }
+
+                if (user.BannedAt != null)
+                {
+                    return StatusCode(403, "Your account has been banned");
+                }
+
+                var thread = new Models.Thread
+                {
+                    Title = request.Title.Trim(),
+                    UserId = userId, // From JWT token, not request body
+                    CreatedAt = DateTime.UtcNow
+                };
+
+                _context.Threads.Add(thread);
+                await _context.SaveChangesAsync();
+
+                _logger.LogInformation("Created thread {Id} by user {UserId}", thread.Id, userId);
+
+                var created = await ProjectToDto(_context.Threads.Where(t => t.Id == thread.Id), userId).FirstAsync();
+                return CreatedAtAction(nameof(GetThread), new { id = thread.Id }, created);
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error creating thread");
+                return StatusCode(500, "An error occurred while creating the thread");
+            }
+        }
+
+        // PUT: api/threads/5
+        // Rename - owner (or a moderator) only
+        [HttpPut("{id}")]
+        [Authorize]
+        public async Task<ActionResult<ThreadDto>> UpdateThread(int id, UpdateThreadRequest request)
+        {
+            try
+            {
+                if (!TryGetUserId(out int userId))
+                {
+                    return Unauthorized("Invalid token");
+                }
+
+                var thread = await _context.Threads.FindAsync(id);
+                if (thread == null)
+                {
+                    return NotFound("Thread not found");
+                }
+
+                if (thread.UserId != userId && !IsModerator())
+                {
+                    return StatusCode(403, "You can only rename your own threads");
+                }
+
+                thread.Title = request.Title.Trim();
+                await _context.SaveChangesAsync();
+
+                _logger.LogInformation("Renamed thread {Id} by user {UserId}", id, userId);
+
+                return Ok(await ProjectToDto(_context.Threads.Where(t => t.Id == id), userId).FirstAsync());
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error updating thread {Id}", id);
+                return StatusCode(500, "An error occurred while updating the thread");
+            }
+        }
+
+        // DELETE: api/threads/5
+        // Removes the thread and (by cascade) its messages and their attachments - owner (or a moderator) only
+        [HttpDelete("{id}")]
+        [Authorize]
+        public async Task<IActionResult> DeleteThread(int id)
+        {
+            try
+            {
+                if (!TryGetUserId(out int userId))
+                {
+                    return Unauthorized("Invalid token");
+                }
+
+                var thread = await _context.Threads.FindAsync(id);
+                if (thread == null)
+                {
+                    return NotFound("Thread not found");
+                }
+
+                if (thread.UserId != userId && !IsModerator())
+                {
+                    return StatusCode(403, "You can only delete your own threads");
+                }
+
+                var storageKeys = await _context.Attachments
+                    .Where(a => a.Message != null && a.Message.ThreadId == id)
+                    .Select(a => a.StorageKey)
+                    .ToListAsync();
+
+                _context.Threads.Remove(thread);
+                await _context.SaveChangesAsync();
+                await _attachmentStorage.DeleteFilesAsync(storageKeys, _logger);
+
+                _logger.LogInformation("Deleted thread {Id} by user {UserId}", id, userId);
+
+                return NoContent();
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error deleting thread {Id}", id);
+                return StatusCode(500, "An error occurred while deleting the thread");
+            }
+        }
+
+        // GET: api/threads/5/export
+        // The thread and its messages as a JSON archive (see ThreadArchive).
+        // Moderators' archives include hidden messages.
+        [HttpGet("{id}/export")]
+        public async Task<ActionResult<ThreadArchive>> ExportThread(int id)
+        {
+            try
+            {
+                var archive = await _archives.ExportAsync(id, IsModerator());
+                if (archive == null)
+                {
+                    return NotFound("Thread not found");
+                }
+
+                _logger.LogInformation("Exported thread {Id} ({Count} messages)", id, archive.Messages.Count);
+                return Ok(archive);
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error exporting thread {Id}", id);
+                return StatusCode(500, "An error occurred while exporting the thread");
+            }
+        }
+
+        // GET: api/threads/5/export/markdown
+        // The same archive as a readable transcript
+        [HttpGet("{id}/export/markdown")]
+        [ProducesResponseType<string>(StatusCodes.Status200OK, "text/markdown")]
+        public async Task<IActionResult> ExportThreadMarkdown(int id)
+        {
+            try
+            {
+                var archive = await _archives.ExportAsync(id, IsModerator());
+                if (archive == null)
+                {
+                    return NotFound("Thread not found");
+                }
+
+                _logger.LogInformation("Exported thread {Id} as Markdown ({Count} messages)", id, archive.Messages.Count);
+                return Content(_archives.ToMarkdown(archive), "text/markdown; charset=utf-8");
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error exporting thread {Id}", id);
+                return StatusCode(500, "An error occurred while exporting the thread");
+            }
+        }
+
+        // POST: api/threads/import
+        // Recreate an exported thread as a new one (e.g. from another environment) - admins only.
+        // Authors are matched by username; posts by unknown ones go to a placeholder user.
+        [HttpPost("import")]
+        [Authorize(Roles = UserRoles.Admin)]
+        public async Task<ActionResult<ThreadImportResult>> ImportThread(ThreadArchive archive)
+        {
+            try
+            {
+                var linkError = CheckReplyLinks(archive);
+                if (linkError != null)
+                {
+                    ModelState.AddModelError(nameof(archive.Messages), linkError);
+                    return ValidationProblem(ModelState);
+                }
+
+                var import = await _archives.ImportAsync(archive);
+
+                _logger.LogInformation("Thread {Id} imported by admin {AdminId}", import.ThreadId, CurrentUserId());
+
+                var thread = await ProjectToDto(_context.Threads.Where(t => t.Id == import.ThreadId), CurrentUserId()).FirstAsync();
+                return CreatedAtAction(nameof(GetThread), new { id = import.ThreadId }, new ThreadImportResult
+                {
+                    Thread = thread,
+                    MessageCount = import.MessageCount,
+                    UnknownAuthors = import.UnknownAuthors
+                });
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error importing thread");
+                return StatusCode(500, "An error occurred while importing the thread");
+            }
+        }
+
+        // PUT: api/threads/5/read
+        // Move the caller's read marker up to a message (opening a thread does this).
+        // The marker never moves backwards or past the thread's newest message.
+        [HttpPut("{id}/read")]
+        [Authorize]
+        public async Task<ActionResult<ThreadDto>> MarkThreadRead(int id, MarkThreadReadRequest request)
+        {
+            try
+            {
+                if (!TryGetUserId(out int userId))
+                {
+                    return Unauthorized("Invalid token");
+                }
+
+                if (!await _context.Threads.AnyAsync(t => t.Id == id))
+                {
+                    return NotFound("Thread not found");
+                }
+
+                var newestId = await _context.Messages.Where(m => m.ThreadId == id).MaxAsync(m => (int?)m.Id) ?? 0;
+                var lastReadId = Math.Min(request.LastReadMessageId, newestId);
+
+                var marker = await _context.ThreadReadMarkers.FindAsync(userId, id);
+                try
+                {
+                    AdvanceReadMarker(marker, userId, id, lastReadId);
+                    await _context.SaveChangesAsync();
+                }
+                catch (DbUpdateException) when (marker == null)
+                {
+                    // Another tab created the marker first - advance that one instead
+                    _context.ChangeTracker.Clear();
+                    marker = await _context.ThreadReadMarkers.FindAsync(userId, id);
+                    if (marker == null)
+                    {
+                        throw;
+                    }
+                    AdvanceReadMarker(marker, userId, id, lastReadId);
+                    await _context.SaveChangesAsync();
+                }
+
+                return Ok(await ProjectToDto(_context.Threads.Where(t => t.Id == id), userId).FirstAsync());
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error updating read marker of thread {Id}", id);
+                return StatusCode(500, "An error occurred while marking the thread as read");
+            }
+        }
+
+        // POST: api/threads/mark-all-read
+        // Move the caller's read marker in every thread to its newest message
+        [HttpPost("mark-all-read")]
+        [Authorize]
+        public async Task<IActionResult> MarkAllThreadsRead()
+        {
+            try
+            {
+                if (!TryGetUserId(out int userId))
+                {
+                    return Unauthorized("Invalid token");
+                }
+
+                var newest = await _context.Messages
+                    .GroupBy(m => m.ThreadId)
+                    .Select(g => new { ThreadId = g.Key, NewestId = g.Max(m => m.Id) })
+                    .ToListAsync();
+
+                var markers = await _context.ThreadReadMarkers
+                    .Where(r => r.UserId == userId)
+                    .ToDictionaryAsync(r => r.ThreadId);
+
+                foreach (var thread in newest)
+                {
+                    AdvanceReadMarker(markers.GetValueOrDefault(thread.ThreadId), userId, thread.ThreadId, thread.NewestId);
+                }
+                await _context.SaveChangesAsync();
+
+                _logger.LogInformation("Marked {Count} threads read for user {UserId}", newest.Count, userId);
+
+                return NoContent();
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error marking all threads read");
+                return StatusCode(500, "An error occurred while marking threads as read");
+            }
+        }
+
+        // Null when message ids are unique and every reply's parent comes before it,
+        // otherwise the error for the Messages field
+        private static string? CheckReplyLinks(ThreadArchive archive)
+        {
+            var seen = new HashSet<int>();
+            foreach (var message in archive.Messages)
+            {
+                if (message.ParentId is int parentId && !seen.Contains(parentId))
+                {
+                    return $"Message {message.Id} replies to message {parentId}, which doesn't come before it in the archive.";
+                }
+
+                if (!seen.Add(message.Id))
+                {
+                    return $"Message id {message.Id} appears more than once.";
+                }
+            }
+            return null;
+        }
+
+        // Create the marker, or move an existing one forward (never back)
+        private void AdvanceReadMarker(ThreadReadMarker? marker, int userId, int threadId, int lastReadId)
+        {
+            if (marker == null)
+            {
+                _context.ThreadReadMarkers.Add(new ThreadReadMarker
+                {
+                    UserId = userId,
+                    ThreadId = threadId,
+                    LastReadMessageId = lastReadId,
+                    UpdatedAt = DateTime.UtcNow
+                });
+            }
+            else if (lastReadId > marker.LastReadMessageId)
+            {
+                marker.LastReadMessageId = lastReadId;
+                marker.UpdatedAt = DateTime.UtcNow;
+            }
+        }
+
+        // Shape threads for responses (moderation uses it too); hidden messages don't count.
+        // With a userId, each thread also carries that user's read marker and unread count.
+        internal static IQueryable<ThreadDto> ProjectToDto(IQueryable<Models.Thread> threads, int? userId = null)
+        {
+            return threads.Select(t => new ThreadDto
+            {
+                Id = t.Id,
+                Title = t.Title,
+                UserId = t.UserId,
+                User = new UserSummaryDto
+                {
+                    Id = t.User.Id,
+                    Username = t.User.Username,
+                    Role = t.User.Role,
+                    CreatedAt = t.User.CreatedAt
+                },
+                CreatedAt = t.CreatedAt,
+                IsLocked = t.IsLocked,
+                MessageCount = t.Messages.Count(m => m.HiddenAt == null),
+                // No marker reads as 0: every message is unread
+                UnreadCount = userId == null ? null : t.Messages.Count(m =>
+                    m.HiddenAt == null
+                    && m.UserId != userId
+                    && m.Id > t.ReadMarkers.Where(r => r.UserId == userId).Select(r => r.LastReadMessageId).FirstOrDefault()),
+                LastReadMessageId = t.ReadMarkers
+                    .Where(r => r.UserId == userId)
+                    .Select(r => (int?)r.LastReadMessageId)
+                    .FirstOrDefault()
+            });
+        }
+
+        private int? CurrentUserId()
+        {
+            return TryGetUserId(out int userId) ? userId : null;
+        }
+
+        private bool TryGetUserId(out int userId)
+        {
+            var userIdClaim = User.FindFirst(ClaimTypes.NameIdentifier);
+            userId = default;
+            return userIdClaim != null && int.TryParse(userIdClaim.Value, out userId);
+        }
+
+        private bool IsModerator()
+        {
+            return User.IsInRole(UserRoles.Moderator) || User.IsInRole(UserRoles.Admin);
+        }
+    }
+}
@@ -0,0 +1,313 @@
+using MessageBoard.API.Data;
+using MessageBoard.API.DTOs;
+using MessageBoard.API.Models;
+using MessageBoard.API.Services;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using System.Security.Claims;
+
+namespace MessageBoard.API.Controllers
+{
+    // Public profiles, and account settings for your own user.
+    // Accounts are created through api/auth/register.
+    [ApiController]
+    [Route("api/users")]
+    public class UsersController : ControllerBase
+    {
+        private const int MaxUserPageSize = 50;
+
+        private readonly MessageBoardContext _context;
+        private readonly IPasswordHasher _passwordHasher;
+        private readonly IJwtService _jwtService;
+        private readonly IRefreshTokenService _refreshTokens;
+        private readonly ILoginThrottle _loginThrottle;
+        private readonly ILogger<UsersController> _logger;
+
+        public UsersController(
+            MessageBoardContext context,
+            IPasswordHasher passwordHasher,
+            IJwtService jwtService,
+            IRefreshTokenService refreshTokens,
+            ILoginThrottle loginThrottle,
+            ILogger<UsersController> logger)
+        {
+            _context = context;
+            _passwordHasher = passwordHasher;
+            _jwtService = jwtService;
+            _refreshTokens = refreshTokens;
+            _loginThrottle = loginThrottle;
+            _logger = logger;
+        }
+
+        // GET: api/users?q=al&limit=5
+        // All users by name, or only those whose name starts with q (@mention autocomplete)
+        [HttpGet]
+        public async Task<ActionResult<IEnumerable<UserSummaryDto>>> GetUsers(
+            [FromQuery] string? q = null,
+            [FromQuery] int? limit = null)
+        {
+            try
+            {
+                var query = _context.Users.AsQueryable();
+                if (!string.IsNullOrWhiteSpace(q))
+                {
+                    var prefix = q.Trim();
+                    query = query.Where(u => u.Username.StartsWith(prefix));
+                }
+
+                query = query.OrderBy(u => u.Username);
+                if (limit.HasValue)
+                {
+                    query = query.Take(Math.Clamp(limit.Value, 1, MaxUserPageSize));
+                }
+
+                var users = await query
+                    .Select(u => new UserSummaryDto
+                    {
+                        Id = u.Id,
+                        Username = u.Username,
+                        Role = u.Role,
+                        CreatedAt = u.CreatedAt
+                    })
+                    .ToListAsync();
+
+                return Ok(users);
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error retrieving users");
+                return StatusCode(500, "An error occurred while retrieving users");
+            }
+        }
+
+        // GET: api/users/5
+        [HttpGet("{id}")]
+        public async Task<ActionResult<UserProfileDto>> GetUser(int id)
+        {
+            try
+            {
+                var profile = await ProjectToProfile(_context.Users.Where(u => u.Id == id))
+                    .FirstOrDefaultAsync();
+
+                if (profile == null)
+                {
+                    return NotFound("User not found");
+                }
+
+                return Ok(profile);
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error retrieving user {Id}", id);
+                return StatusCode(500, "An error occurred while retrieving the user");
+            }
+        }
+
+        // GET: api/users/5/threads
+        // Threads the user started, newest first
+        [HttpGet("{id}/threads")]
+        public async Task<ActionResult<IEnumerable<ThreadDto>>> GetUserThreads(int id)
+        {
+            try
+            {
+                if (!await _context.Users.AnyAsync(u => u.Id == id))
+                {
+                    return NotFound("User not found");
+                }
+
+                var threads = await ThreadsController.ProjectToDto(
+                        _context.Threads.Where(t => t.UserId == id).OrderByDescending(t => t.CreatedAt))
+                    .ToListAsync();
+
+                return Ok(threads);
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error retrieving threads of user {Id}", id);
+                return StatusCode(500, "An error occurred while retrieving the user's threads");
+            }
+        }
+
+        // PUT: api/users/5
+        // Edit bio and avatar - your own profile only
+        [HttpPut("{id}")]
+        [Authorize]
+        public async Task<ActionResult<UserProfileDto>> UpdateProfile(int id, UpdateProfileRequest request)
+        {
+            try
+            {
+                var (user, denied) = await FindSelf(id, "You can only edit your own profile");
+                if (user == null)
+                {
+                    return denied!;
+                }
+
+                if (user.BannedAt != null)
+                {
+                    return StatusCode(403, "Your account has been banned");
+                }
+
+                user.Bio = string.IsNullOrWhiteSpace(request.Bio) ? null : request.Bio.Trim();
+                user.AvatarUrl = string.IsNullOrWhiteSpace(request.AvatarUrl) ? null : request.AvatarUrl.Trim();
+                await _context.SaveChangesAsync();
+
+                _logger.LogInformation("Updated profile of user {Id}", id);
+
+                return Ok(await ProjectToProfile(_context.Users.Where(u => u.Id == id)).FirstAsync());
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error updating profile of user {Id}", id);
+                return StatusCode(500, "An error occurred while updating the profile");
+            }
+        }
+
+        // PUT: api/users/5/email
+        // Change your own email; requires the current password (repeated wrong
+        // ones lock these checks for a while, like logins)
+        [HttpPut("{id}/email")]
+        [Authorize]
+        public async Task<ActionResult<UserDto>> ChangeEmail(int id, ChangeEmailRequest request)
+        {
+            try
+            {
+                var (user, denied) = await FindSelf(id, "You can only change your own email");
+                if (user == null)
+                {
+                    return denied!;
+                }
+
+                var passwordError = CheckCurrentPassword(user, request.CurrentPassword);
+                if (passwordError != null)
+                {
+                    return passwordError;
+                }
+
+                var email = request.Email.Trim();
+                if (await _context.Users.AnyAsync(u => u.Email == email && u.Id != id))
+                {
+                    ModelState.AddModelError(nameof(request.Email), "Email already exists");
+                    return ValidationProblem(ModelState);
+                }
+
+                user.Email = email;
+                await _context.SaveChangesAsync();
+
+                _logger.LogInformation("Changed email of user {Id}", id);
+
+                return Ok(AuthController.ToDto(user));
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error changing email of user {Id}", id);
+                return StatusCode(500, "An error occurred while changing the email");
+            }
+        }
+
+        // PUT: api/users/5/password
+        // Change your own password; requires the current one. Every other
+        // session is signed out (their refresh tokens are revoked), and this
+        // one continues with the fresh tokens in the response.
+        [HttpPut("{id}/password")]
+        [Authorize]
+        public async Task<ActionResult<AuthResponse>> ChangePassword(int id, ChangePasswordRequest request)
+        {
+            try
+            {
+                var (user, denied) = await FindSelf(id, "You can only change your own password");
+                if (user == null)
+                {
+                    return denied!;
+                }
+
+                var passwordError = CheckCurrentPassword(user, request.CurrentPassword);
+                if (passwordError != null)
+                {
+                    return passwordError;
+                }
+
+                user.PasswordHash = _passwordHasher.Hash(request.NewPassword);
+                await _context.SaveChangesAsync();
+                await _refreshTokens.RevokeAllAsync(user.Id);
+
+                _logger.LogInformation("Changed password of user {Id}", id);
+
+                return Ok(new AuthResponse
+                {
+                    Success = true,
+                    Message = "Password changed",
+                    Token = _jwtService.GenerateToken(user),
+                    RefreshToken = await _refreshTokens.IssueAsync(user),
+                    User = AuthController.ToDto(user)
+                });
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error changing password of user {Id}", id);
+                return StatusCode(500, "An error occurred while changing the password");
+            }
+        }
+
+        private static IQueryable<UserProfileDto> ProjectToProfile(IQueryable<User> users)
+        {
+            return users.Select(u => new UserProfileDto
+            {
+                Id = u.Id,
+                Username = u.Username,
+                Role = u.Role,
+                CreatedAt = u.CreatedAt,
+                ThreadCount = u.Threads.Count,
+                MessageCount = u.Messages.Count(m => m.HiddenAt == null),
+                Bio = u.Bio,
+                AvatarUrl = u.AvatarUrl
+            });
+        }
+
+        // Null when the password is the user's, otherwise the response: a field error,
+        // or 429 with Retry-After once too many wrong ones locked the check
+        private ActionResult? CheckCurrentPassword(User user, string password)
+        {
+            var lockout = _loginThrottle.GetPasswordCheckLockout(user.Id);
+            if (lockout != null)
+            {
+                _logger.LogWarning("Rejected password check for user {Id}: locked out", user.Id);
+                var seconds = (int)Math.Ceiling(lockout.Value.TotalSeconds);
+                Response.Headers.RetryAfter = seconds.ToString();
+
+                var minutes = (int)Math.Ceiling(lockout.Value.TotalMinutes);
+                return StatusCode(429, minutes > 1
+                    ? $"Too many incorrect passwords. Try again in {minutes} minutes."
+                    : "Too many incorrect passwords. Try again in a minute.");
+            }
+
+            if (!_passwordHasher.Verify(password, user.PasswordHash))
+            {
+                _loginThrottle.RecordPasswordCheckFailure(user.Id);
+                ModelState.AddModelError(nameof(ChangePasswordRequest.CurrentPassword), "Current password is incorrect");
+                return ValidationProblem(ModelState);
+            }
+
+            _loginThrottle.RecordPasswordCheckSuccess(user.Id);
+            return null;
+        }
+
+        // The user being edited, if it's the caller; otherwise the response to send instead
+        private async Task<(User? User, ActionResult? Denied)> FindSelf(int id, string forbiddenMessage)
+        {
+            var userIdClaim = User.FindFirst(ClaimTypes.NameIdentifier);
+            if (userIdClaim == null || !int.TryParse(userIdClaim.Value, out var userId))
+            {
+                return (null, Unauthorized("Invalid token"));
+            }
+
+            if (userId != id)
+            {
+                return (null, StatusCode(403, forbiddenMessage));
+            }
+
+            var user = await _context.Users.FindAsync(id);
+            return user == null ? (null, Unauthorized("User not found")) : (user, null);
+        }
+    }
+}
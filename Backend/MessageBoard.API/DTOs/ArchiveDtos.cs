@@ -0,0 +1,81 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace MessageBoard.API.DTOs
+{
+    // A thread with its messages, as GET api/threads/5/export returns it and
+    // POST api/threads/import takes it. Authors are usernames, so an archive
+    // can move between databases; message ids only link replies within it.
+    public class ThreadArchive
+    {
+        public const int CurrentVersion = 1;
+
+        [Range(1, CurrentVersion, ErrorMessage = "This archive version is not supported.")]
+        public int Version { get; set; } = CurrentVersion;
+
+        public DateTime ExportedAt { get; set; }
+
+        [Required]
+        public ArchivedThread Thread { get; set; } = null!;
+
+        [Required]
+        public List<ArchivedMessage> Messages { get; set; } = new();  // Oldest first
+    }
+
+    public class ArchivedThread
+    {
+        [Required]
+        [StringLength(200, MinimumLength = 1)]
+        public string Title { get; set; } = string.Empty;
+
+        [Required]
+        [StringLength(50, MinimumLength = 1)]
+        public string Author { get; set; } = string.Empty;  // Username
+
+        public DateTime CreatedAt { get; set; }
+        public bool IsLocked { get; set; }
+    }
+
+    public class ArchivedMessage
+    {
+        public int Id { get; set; }  // Unique within the archive
+        public int? ParentId { get; set; }  // Replies: an earlier message of the archive
+
+        [Required]
+        [StringLength(50, MinimumLength = 1)]
+        public string Author { get; set; } = string.Empty;  // Username
+
+        [Required]
+        [StringLength(5000, MinimumLength = 1)]
+        public string Content { get; set; } = string.Empty;
+
+        public DateTime CreatedAt { get; set; }
+        public DateTime? UpdatedAt { get; set; }
+
+        // Hidden messages are only exported to moderators
+        public DateTime? HiddenAt { get; set; }
+
+        [StringLength(500)]
+        public string? HiddenReason { get; set; }
+
+        // What was attached, for the record - the files themselves aren't archived
+        public List<ArchivedAttachment> Attachments { get; set; } = new();
+    }
+
+    public class ArchivedAttachment
+    {
+        public string FileName { get; set; } = string.Empty;
+        public string ContentType { get; set; } = string.Empty;
+        public long SizeBytes { get; set; }
+    }
+
+    // Result of an import (admins)
+    public class ThreadImportResult
+    {
+        public ThreadDto Thread { get; set; } = null!;
+        public int MessageCount { get; set; }
+
+        // Archive authors with no user of that name here - their posts now
+        // belong to the placeholder user
+        public List<string> UnknownAuthors { get; set; } = new();
+    }
+}
@@ -0,0 +1,12 @@
+namespace MessageBoard.API.DTOs
+{
+    // An uploaded file, on messages and from POST api/attachments.
+    // The content is served by GET api/attachments/{id}.
+    public class AttachmentDto
+    {
+        public int Id { get; set; }
+        public string FileName { get; set; } = string.Empty;
+        public string ContentType { get; set; } = string.Empty;  // Images are shown inline
+        public long SizeBytes { get; set; }
+    }
+}
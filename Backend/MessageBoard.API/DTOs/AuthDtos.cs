@@ -29,12 +29,20 @@ namespace MessageBoard.API.DTOs
         public string Password { get; set; } = string.Empty;
     }
 
-    // Auth response (for both register and login)
+    // Refresh or logout request - carries the refresh token from the last AuthResponse
+    public class RefreshTokenRequest
+    {
+        [Required]
+        public string RefreshToken { get; set; } = string.Empty;
+    }
+
+    // Auth response (for register, login and refresh)
     public class AuthResponse
     {
         public bool Success { get; set; }
         public string Message { get; set; } = string.Empty;
-        public string? Token { get; set; }
+        public string? Token { get; set; }  // Short-lived access token (JWT)
+        public string? RefreshToken { get; set; }  // Single use - exchange it at api/auth/refresh
         public UserDto? User { get; set; }
     }
 
@@ -44,6 +52,9 @@ namespace MessageBoard.API.DTOs
         public int Id { get; set; }
         public string Username { get; set; } = string.Empty;
         public string Email { get; set; } = string.Empty;
+        public string Role { get; set; } = string.Empty;
         public DateTime CreatedAt { get; set; }
+        public string? Bio { get; set; }
+        public string? AvatarUrl { get; set; }
     }
 }
\ No newline at end of file
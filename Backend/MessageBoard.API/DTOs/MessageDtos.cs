@@ -1,3 +1,6 @@
+using MessageBoard.API.Models;
+using System.ComponentModel.DataAnnotations;
+
 namespace MessageBoard.API.DTOs
 {
       // Create message request
@@ -5,5 +8,61 @@ namespace MessageBoard.API.DTOs
     {
         public required string Content { get; set; }
         public int ThreadId { get; set; }
+        public int? ParentMessageId { get; set; }  // Set when replying to a message
+        public List<int>? AttachmentIds { get; set; }  // Your own uploads from POST api/attachments, not yet posted
+    }
+
+    // Edit message request (author only)
+    public class UpdateMessageRequest
+    {
+        [Required]
+        [StringLength(5000, MinimumLength = 1)]
+        public string Content { get; set; } = string.Empty;
+    }
+
+    // Previous version of a message, from GET api/messages/{id}/revisions
+    public class MessageRevisionDto
+    {
+        public int Id { get; set; }
+        public string Content { get; set; } = string.Empty;
+        public DateTime EditedAt { get; set; }
+    }
+
+    // One page of messages from GET api/messages
+    public class MessagePageResponse
+    {
+        public List<Message> Items { get; set; } = new();
+        public string? NextCursor { get; set; }  // Null when there are no more pages
+        public bool HasMore { get; set; }
+    }
+
+    // Total reactions of one emoji on a message
+    public class ReactionCount
+    {
+        public string Emoji { get; set; } = string.Empty;
+        public int Count { get; set; }
+        public bool ReactedByMe { get; set; }  // Whether the requesting user is among them
+    }
+
+    // A user @mentioned in a message, so clients can link the name to their profile
+    public class MessageMention
+    {
+        public int UserId { get; set; }
+        public string Username { get; set; } = string.Empty;
+    }
+
+    // Pushed to thread subscribers over GET api/messages/stream
+    public class MessageEvent
+    {
+        public const string Created = "created";
+        public const string Updated = "updated";
+        public const string Deleted = "deleted";
+        public const string Reactions = "reactions";
+
+        public string Type { get; set; } = string.Empty;
+        public int ThreadId { get; set; }
+        public int MessageId { get; set; }
+        public Message? Message { get; set; }  // Null for deletions and reactions
+        public List<ReactionCount>? ReactionCounts { get; set; }  // Reactions only; ReactedByMe is always false
     }
 }
\ No newline at end of file
@@ -0,0 +1,37 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace MessageBoard.API.DTOs
+{
+    // Hide a message (moderators)
+    public class HideMessageRequest
+    {
+        [Required]
+        [StringLength(500, MinimumLength = 1)]
+        public string Reason { get; set; } = string.Empty;
+    }
+
+    // Ban a user (moderators)
+    public class BanUserRequest
+    {
+        [Required]
+        [StringLength(500, MinimumLength = 1)]
+        public string Reason { get; set; } = string.Empty;
+    }
+
+    // Change a user's role (admins)
+    public class UpdateRoleRequest
+    {
+        [Required]
+        public string Role { get; set; } = string.Empty;
+    }
+
+    // Moderation view of a user - never includes the email or password hash
+    public class ModeratedUserDto
+    {
+        public int Id { get; set; }
+        public string Username { get; set; } = string.Empty;
+        public string Role { get; set; } = string.Empty;
+        public DateTime? BannedAt { get; set; }
+        public string? BanReason { get; set; }
+    }
+}
@@ -0,0 +1,23 @@
+namespace MessageBoard.API.DTOs
+{
+    // An inbox entry from GET api/notifications
+    public class NotificationDto
+    {
+        public int Id { get; set; }
+        public string Type { get; set; } = string.Empty;  // "mention"
+        public int MessageId { get; set; }
+        public int ThreadId { get; set; }
+        public string ThreadTitle { get; set; } = string.Empty;
+        public UserSummaryDto Actor { get; set; } = null!;  // Who mentioned you
+        public string Snippet { get; set; } = string.Empty;  // Start of the message
+        public DateTime CreatedAt { get; set; }
+        public DateTime? ReadAt { get; set; }  // Null while unread
+    }
+
+    // The newest notifications plus the total still unread (for the bell badge)
+    public class NotificationListResponse
+    {
+        public List<NotificationDto> Items { get; set; } = new();
+        public int UnreadCount { get; set; }
+    }
+}
@@ -0,0 +1,35 @@
+namespace MessageBoard.API.DTOs
+{
+    // Results from GET api/search, newest first
+    public class SearchResponse
+    {
+        public string Query { get; set; } = string.Empty;
+        public List<SearchResult> Items { get; set; } = new();
+        public bool HasMore { get; set; }
+    }
+
+    // A matching message, or a thread whose title matches
+    public class SearchResult
+    {
+        public const string MessageType = "message";
+        public const string ThreadType = "thread";
+
+        public string Type { get; set; } = string.Empty;
+        public int ThreadId { get; set; }
+        public string ThreadTitle { get; set; } = string.Empty;
+        public int? MessageId { get; set; }  // Null for thread results
+        public UserSummaryDto Author { get; set; } = null!;
+        public DateTime CreatedAt { get; set; }
+
+        // Plain text excerpt around the first match - the client escapes it
+        public string Snippet { get; set; } = string.Empty;
+        public List<SearchHighlight> Highlights { get; set; } = new();
+    }
+
+    // A matched term within Snippet (UTF-16 offsets, as used by JavaScript strings)
+    public class SearchHighlight
+    {
+        public int Start { get; set; }
+        public int Length { get; set; }
+    }
+}
@@ -0,0 +1,43 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace MessageBoard.API.DTOs
+{
+    // Create thread request - the author comes from the JWT
+    public class CreateThreadRequest
+    {
+        [Required]
+        [StringLength(200, MinimumLength = 1)]
+        public string Title { get; set; } = string.Empty;
+    }
+
+    // Rename thread request (owner only)
+    public class UpdateThreadRequest
+    {
+        [Required]
+        [StringLength(200, MinimumLength = 1)]
+        public string Title { get; set; } = string.Empty;
+    }
+
+    // Move the caller's read marker in a thread forward
+    public class MarkThreadReadRequest
+    {
+        [Range(1, int.MaxValue)]
+        public int LastReadMessageId { get; set; }
+    }
+
+    // Thread as listed and shown in detail
+    public class ThreadDto
+    {
+        public int Id { get; set; }
+        public string Title { get; set; } = string.Empty;
+        public int UserId { get; set; }
+        public UserSummaryDto User { get; set; } = null!;
+        public DateTime CreatedAt { get; set; }
+        public bool IsLocked { get; set; }
+        public int MessageCount { get; set; }
+
+        // The caller's read state - null when not signed in
+        public int? UnreadCount { get; set; }  // Visible messages from others after the read marker
+        public int? LastReadMessageId { get; set; }  // Also null when the caller never opened the thread
+    }
+}
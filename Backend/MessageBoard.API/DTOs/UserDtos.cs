@@ -0,0 +1,56 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace MessageBoard.API.DTOs
+{
+    // Public view of a user, embedded in threads - no email
+    public class UserSummaryDto
+    {
+        public int Id { get; set; }
+        public string Username { get; set; } = string.Empty;
+        public string Role { get; set; } = string.Empty;
+        public DateTime CreatedAt { get; set; }
+    }
+
+    // Public profile from GET api/users/{id}
+    public class UserProfileDto : UserSummaryDto
+    {
+        public int ThreadCount { get; set; }
+        public int MessageCount { get; set; }
+        public string? Bio { get; set; }
+        public string? AvatarUrl { get; set; }
+    }
+
+    // Edit your own profile - null clears a field ([Url] rejects an empty AvatarUrl)
+    public class UpdateProfileRequest
+    {
+        [StringLength(500)]
+        public string? Bio { get; set; }
+
+        [Url]
+        [StringLength(500)]
+        public string? AvatarUrl { get; set; }
+    }
+
+    // Change your own email - the current password confirms it's really you
+    public class ChangeEmailRequest
+    {
+        [Required]
+        [EmailAddress]
+        [StringLength(100)]
+        public string Email { get; set; } = string.Empty;
+
+        [Required]
+        public string CurrentPassword { get; set; } = string.Empty;
+    }
+
+    // Change your own password
+    public class ChangePasswordRequest
+    {
+        [Required]
+        public string CurrentPassword { get; set; } = string.Empty;
+
+        [Required]
+        [StringLength(100, MinimumLength = 6)]
+        public string NewPassword { get; set; } = string.Empty;
+    }
+}
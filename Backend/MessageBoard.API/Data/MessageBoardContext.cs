@@ -13,6 +13,12 @@ namespace MessageBoard.API.Data
         public DbSet<User> Users { get; set; }
         public DbSet<Models.Thread> Threads { get; set; }  // ADD Models. prefix
         public DbSet<Message> Messages { get; set; }
+        public DbSet<MessageRevision> MessageRevisions { get; set; }
+        public DbSet<MessageReaction> MessageReactions { get; set; }
+        public DbSet<RefreshToken> RefreshTokens { get; set; }
+        public DbSet<ThreadReadMarker> ThreadReadMarkers { get; set; }
+        public DbSet<Notification> Notifications { get; set; }
+        public DbSet<Attachment> Attachments { get; set; }
 
         protected override void OnModelCreating(ModelBuilder modelBuilder)
         {
@@ -39,6 +45,97 @@ namespace MessageBoard.API.Data
                 .HasForeignKey(m => m.ThreadId)
                 .OnDelete(DeleteBehavior.Cascade);
 
+            // Message -> Replies relationship
+            // Deleting a message keeps its replies; they become top-level posts
+            modelBuilder.Entity<Message>()
+                .HasOne(m => m.ParentMessage)
+                .WithMany(m => m.Replies)
+                .HasForeignKey(m => m.ParentMessageId)
+                .OnDelete(DeleteBehavior.SetNull);
+
+            // Message -> Revisions relationship
+            modelBuilder.Entity<MessageRevision>()
+                .HasOne(r => r.Message)
+                .WithMany(m => m.Revisions)
+                .HasForeignKey(r => r.MessageId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            // Message -> Reactions relationship
+            modelBuilder.Entity<MessageReaction>()
+                .HasOne(r => r.Message)
+                .WithMany(m => m.Reactions)
+                .HasForeignKey(r => r.MessageId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            // User -> Reactions relationship
+            modelBuilder.Entity<MessageReaction>()
+                .HasOne(r => r.User)
+                .WithMany(u => u.Reactions)
+                .HasForeignKey(r => r.UserId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            // User -> Refresh tokens relationship
+            modelBuilder.Entity<RefreshToken>()
+                .HasOne(t => t.User)
+                .WithMany(u => u.RefreshTokens)
+                .HasForeignKey(t => t.UserId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            // Thread -> Read markers relationship
+            modelBuilder.Entity<ThreadReadMarker>()
+                .HasOne(r => r.Thread)
+                .WithMany(t => t.ReadMarkers)
+                .HasForeignKey(r => r.ThreadId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            // User -> Read markers relationship
+            modelBuilder.Entity<ThreadReadMarker>()
+                .HasOne(r => r.User)
+                .WithMany(u => u.ReadMarkers)
+                .HasForeignKey(r => r.UserId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            // User -> Notifications relationship (the recipient)
+            modelBuilder.Entity<Notification>()
+                .HasOne(n => n.User)
+                .WithMany(u => u.Notifications)
+                .HasForeignKey(n => n.UserId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            // Actor -> Notifications relationship (who mentioned them)
+            modelBuilder.Entity<Notification>()
+                .HasOne(n => n.Actor)
+                .WithMany()
+                .HasForeignKey(n => n.ActorId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            // Message -> Notifications relationship
+            modelBuilder.Entity<Notification>()
+                .HasOne(n => n.Message)
+                .WithMany(m => m.Notifications)
+                .HasForeignKey(n => n.MessageId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            // Message -> Attachments relationship
+            // Rows go with the message; the controller deletes the stored files
+            modelBuilder.Entity<Attachment>()
+                .HasOne(a => a.Message)
+                .WithMany()
+                .HasForeignKey(a => a.MessageId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            // Uploader -> Attachments relationship
+            modelBuilder.Entity<Attachment>()
+                .HasOne(a => a.Uploader)
+                .WithMany()
+                .HasForeignKey(a => a.UploaderId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            // Binary collation: the default *_general_ci treats all emoji as equal
+            modelBuilder.Entity<MessageReaction>()
+                .Property(r => r.Emoji)
+                .UseCollation("utf8mb4_bin");
+
             // Indexes for performance
             modelBuilder.Entity<User>()
                 .HasIndex(u => u.Username)
@@ -47,6 +144,24 @@ namespace MessageBoard.API.Data
             modelBuilder.Entity<User>()
                 .HasIndex(u => u.Email)
                 .IsUnique();
+
+            // Covers keyset pagination of a thread's messages (ThreadId, CreatedAt, Id)
+            modelBuilder.Entity<Message>()
+                .HasIndex(m => new { m.ThreadId, m.CreatedAt, m.Id });
+
+            // Refresh tokens are looked up by their hash
+            modelBuilder.Entity<RefreshToken>()
+                .HasIndex(t => t.TokenHash)
+                .IsUnique();
+
+            // Counting (and listing) a user's unread notifications
+            modelBuilder.Entity<Notification>()
+                .HasIndex(n => new { n.UserId, n.ReadAt });
+
+            // One message per idempotency key and author (NULL keys don't collide)
+            modelBuilder.Entity<Message>()
+                .HasIndex(m => new { m.IdempotencyKey, m.UserId })
+                .IsUnique();
         }
     }
 }
\ No newline at end of file
@@ -20,6 +20,7 @@ namespace MessageBoard.API.Data
                 {
                     Username = "admin",
                     Email = "admin@messageboard.com",
+                    Role = UserRoles.Admin,
                     CreatedAt = DateTime.UtcNow.AddDays(-30)
                 },
                 new User
@@ -0,0 +1,38 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace MessageBoard.API.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddMessagePaginationIndex : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            // Create the covering index first: MySQL refuses to drop the
+            // ThreadId index while the foreign key has nothing else to use
+            migrationBuilder.CreateIndex(
+                name: "IX_Messages_ThreadId_created_at_Id",
+                table: "Messages",
+                columns: new[] { "ThreadId", "created_at", "Id" });
+
+            migrationBuilder.DropIndex(
+                name: "IX_Messages_ThreadId",
+                table: "Messages");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.CreateIndex(
+                name: "IX_Messages_ThreadId",
+                table: "Messages",
+                column: "ThreadId");
+
+            migrationBuilder.DropIndex(
+                name: "IX_Messages_ThreadId_created_at_Id",
+                table: "Messages");
+        }
+    }
+}
@@ -0,0 +1,87 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace MessageBoard.API.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddModeration : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<string>(
+                name: "ban_reason",
+                table: "Users",
+                type: "varchar(500)",
+                maxLength: 500,
+                nullable: true)
+                .Annotation("MySql:CharSet", "utf8mb4");
+
+            migrationBuilder.AddColumn<DateTime>(
+                name: "banned_at",
+                table: "Users",
+                type: "datetime(6)",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "role",
+                table: "Users",
+                type: "varchar(20)",
+                maxLength: 20,
+                nullable: false,
+                defaultValue: "User")
+                .Annotation("MySql:CharSet", "utf8mb4");
+
+            migrationBuilder.AddColumn<bool>(
+                name: "is_locked",
+                table: "Threads",
+                type: "tinyint(1)",
+                nullable: false,
+                defaultValue: false);
+
+            migrationBuilder.AddColumn<DateTime>(
+                name: "hidden_at",
+                table: "Messages",
+                type: "datetime(6)",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "hidden_reason",
+                table: "Messages",
+                type: "varchar(500)",
+                maxLength: 500,
+                nullable: true)
+                .Annotation("MySql:CharSet", "utf8mb4");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "ban_reason",
+                table: "Users");
+
+            migrationBuilder.DropColumn(
+                name: "banned_at",
+                table: "Users");
+
+            migrationBuilder.DropColumn(
+                name: "role",
+                table: "Users");
+
+            migrationBuilder.DropColumn(
+                name: "is_locked",
+                table: "Threads");
+
+            migrationBuilder.DropColumn(
+                name: "hidden_at",
+                table: "Messages");
+
+            migrationBuilder.DropColumn(
+                name: "hidden_reason",
+                table: "Messages");
+        }
+    }
+}
@@ -0,0 +1,49 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace MessageBoard.API.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddMessageReplies : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<int>(
+                name: "ParentMessageId",
+                table: "Messages",
+                type: "int",
+                nullable: true);
+
+            migrationBuilder.CreateIndex(
+                name: "IX_Messages_ParentMessageId",
+                table: "Messages",
+                column: "ParentMessageId");
+
+            migrationBuilder.AddForeignKey(
+                name: "FK_Messages_Messages_ParentMessageId",
+                table: "Messages",
+                column: "ParentMessageId",
+                principalTable: "Messages",
+                principalColumn: "Id",
+                onDelete: ReferentialAction.SetNull);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropForeignKey(
+                name: "FK_Messages_Messages_ParentMessageId",
+                table: "Messages");
+
+            migrationBuilder.DropIndex(
+                name: "IX_Messages_ParentMessageId",
+                table: "Messages");
+
+            migrationBuilder.DropColumn(
+                name: "ParentMessageId",
+                table: "Messages");
+        }
+    }
+}
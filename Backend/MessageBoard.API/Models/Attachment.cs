@@ -0,0 +1,50 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+
+namespace MessageBoard.API.Models
+{
+    // A file uploaded for a message. Uploads come first (MessageId null) and are
+    // claimed by the message they're posted with; the bytes live in IAttachmentStorage.
+    [Table("Attachments")]
+    public class Attachment
+    {
+        [Key]
+        [DatabaseGenerated(DatabaseGeneratedOption.Identity)]
+        public int Id { get; set; }
+
+        [ForeignKey("Message")]
+        public int? MessageId { get; set; }  // Null until posted with a message
+
+        [Required]
+        [ForeignKey("Uploader")]
+        [Column("uploader_id")]
+        public int UploaderId { get; set; }
+
+        [Required]
+        [MaxLength(255)]
+        [Column("file_name")]
+        public string FileName { get; set; } = string.Empty;  // As uploaded, without any directory
+
+        [Required]
+        [MaxLength(100)]
+        [Column("content_type")]
+        public string ContentType { get; set; } = string.Empty;
+
+        [Column("size_bytes")]
+        public long SizeBytes { get; set; }
+
+        [Required]
+        [MaxLength(64)]
+        [Column("storage_key")]
+        public string StorageKey { get; set; } = string.Empty;
+
+        [Column("created_at")]
+        public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+
+        // Navigation properties
+        public Message? Message { get; set; }
+
+        [Required]
+        public User Uploader { get; set; } = null!;
+    }
+}
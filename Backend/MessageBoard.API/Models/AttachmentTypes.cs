@@ -0,0 +1,49 @@
+namespace MessageBoard.API.Models
+{
+    // Content type checks for uploads. Browsers report the type from the file
+    // extension, so images (served inline) must also start like one.
+    public static class AttachmentTypes
+    {
+        private static readonly Dictionary<string, byte[][]> ImageSignatures = new()
+        {
+            ["image/png"] = new[] { new byte[] { 0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A } },
+            ["image/jpeg"] = new[] { new byte[] { 0xFF, 0xD8, 0xFF } },
+            ["image/gif"] = new[] { "GIF87a"u8.ToArray(), "GIF89a"u8.ToArray() },
+            ["image/webp"] = new[] { "RIFF"u8.ToArray() }  // Followed by a size, then "WEBP"
+        };
+
+        // Header bytes needed by MatchesSignature
+        public const int SignatureLength = 12;
+
+        // "Image/PNG; charset=x" -> "image/png"
+        public static string Normalize(string? contentType)
+        {
+            return (contentType ?? string.Empty).Split(';')[0].Trim().ToLowerInvariant();
+        }
+
+        public static bool IsImage(string contentType) => contentType.StartsWith("image/");
+
+        // Whether the file's first bytes fit its (normalized) content type; non-images always do
+        public static bool MatchesSignature(string contentType, ReadOnlySpan<byte> header)
+        {
+            if (!ImageSignatures.TryGetValue(contentType, out var signatures))
+            {
+                return !IsImage(contentType);
+            }
+
+            if (contentType == "image/webp" && (header.Length < 12 || !header[8..12].SequenceEqual("WEBP"u8)))
+            {
+                return false;
+            }
+
+            foreach (var signature in signatures)
+            {
+                if (header.StartsWith(signature))
+                {
+                    return true;
+                }
+            }
+            return false;
+        }
+    }
+}
@@ -0,0 +1,25 @@
+using System.Text.RegularExpressions;
+
+namespace MessageBoard.API.Models
+{
+    // @username mentions in message content (the frontend renders the same pattern as links)
+    public static class Mentions
+    {
+        // Most users one message can notify - the rest of the @names stay plain text
+        public const int MaxPerMessage = 10;
+
+        // "@" at the start or after a non-word character, then a name that
+        // doesn't end in "." or "-" (so "@alice." mentions alice)
+        private static readonly Regex Pattern = new(
+            @"(?<![\w@])@([A-Za-z0-9_](?:[A-Za-z0-9_.\-]*[A-Za-z0-9_])?)",
+            RegexOptions.Compiled);
+
+        // Distinct usernames mentioned in the content, in order of first appearance
+        public static List<string> ExtractUsernames(string content) =>
+            Pattern.Matches(content)
+                .Select(m => m.Groups[1].Value)
+                .Where(name => name.Length <= 50)
+                .DistinctBy(name => name.ToLowerInvariant())
+                .ToList();
+    }
+}
@@ -1,5 +1,7 @@
 using System.ComponentModel.DataAnnotations;
 using System.ComponentModel.DataAnnotations.Schema;
+using System.Text.Json.Serialization;
+using MessageBoard.API.DTOs;
 
 namespace MessageBoard.API.Models
 {
@@ -21,18 +23,65 @@ namespace MessageBoard.API.Models
         [Required]
         [ForeignKey("Thread")]
         public int ThreadId { get; set; }
+
+        [ForeignKey("ParentMessage")]
+        public int? ParentMessageId { get; set; }  // Null for top-level posts
         
         [Column("created_at")]
         public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
         
         [Column("updated_at")]
         public DateTime? UpdatedAt { get; set; }  // Nullable for optional updates
+
+        [Column("hidden_at")]
+        public DateTime? HiddenAt { get; set; }  // Set when a moderator hides the message
+
+        [MaxLength(500)]
+        [Column("hidden_reason")]
+        public string? HiddenReason { get; set; }
+
+        [JsonIgnore]  // Client-chosen key that makes retried posts safe (Idempotency-Key header)
+        [MaxLength(64)]
+        [Column("idempotency_key")]
+        public string? IdempotencyKey { get; set; }
         
         // Navigation properties
         [Required]
         public User User { get; set; } = null!;
         
         [Required]
+        [JsonIgnore]  // Clients already have the thread; ThreadId identifies it
         public Thread Thread { get; set; } = null!;
+
+        [JsonIgnore]
+        public Message? ParentMessage { get; set; }
+
+        [JsonIgnore]  // Clients build the reply tree from ParentMessageId
+        [InverseProperty("ParentMessage")]
+        public ICollection<Message> Replies { get; set; } = new List<Message>();
+
+        [JsonIgnore]  // Summarized in ReactionCounts
+        [InverseProperty("Message")]
+        public ICollection<MessageReaction> Reactions { get; set; } = new List<MessageReaction>();
+
+        // Per-emoji totals for the payload, filled in by the controller (not a column)
+        [NotMapped]
+        public List<ReactionCount> ReactionCounts { get; set; } = new();
+
+        // Users the content @mentions, resolved when it was posted (not a column)
+        [NotMapped]
+        public List<MessageMention> Mentions { get; set; } = new();
+
+        // Files posted with the message, filled in by the controller (not a column)
+        [NotMapped]
+        public List<AttachmentDto> Attachments { get; set; } = new();
+
+        [JsonIgnore]  // Mentions are recorded as notifications of the mentioned users
+        [InverseProperty("Message")]
+        public ICollection<Notification> Notifications { get; set; } = new List<Notification>();
+
+        [JsonIgnore]  // Served separately by GET api/messages/{id}/revisions
+        [InverseProperty("Message")]
+        public ICollection<MessageRevision> Revisions { get; set; } = new List<MessageRevision>();
     }
 }
\ No newline at end of file
@@ -0,0 +1,32 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+using Microsoft.EntityFrameworkCore;
+
+namespace MessageBoard.API.Models
+{
+    // One user's emoji reaction to a message - at most one of each emoji per user
+    [Table("MessageReactions")]
+    [PrimaryKey(nameof(MessageId), nameof(UserId), nameof(Emoji))]
+    public class MessageReaction
+    {
+        [ForeignKey("Message")]
+        public int MessageId { get; set; }
+
+        [ForeignKey("User")]
+        public int UserId { get; set; }
+
+        [Required]
+        [MaxLength(16)]  // A single emoji, possibly with variation selectors
+        public string Emoji { get; set; } = string.Empty;
+
+        [Column("created_at")]
+        public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+
+        // Navigation properties
+        [Required]
+        public Message Message { get; set; } = null!;
+
+        [Required]
+        public User User { get; set; } = null!;
+    }
+}
@@ -0,0 +1,29 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+
+namespace MessageBoard.API.Models
+{
+    // A previous version of a message, stored each time it is edited
+    [Table("MessageRevisions")]
+    public class MessageRevision
+    {
+        [Key]
+        [DatabaseGenerated(DatabaseGeneratedOption.Identity)]
+        public int Id { get; set; }
+
+        [Required]
+        [ForeignKey("Message")]
+        public int MessageId { get; set; }
+
+        [Required]
+        [MaxLength(5000)]  // Same limit as Message.Content
+        public string Content { get; set; } = string.Empty;
+
+        [Column("edited_at")]
+        public DateTime EditedAt { get; set; } = DateTime.UtcNow;  // When this version was replaced
+
+        // Navigation properties
+        [Required]
+        public Message Message { get; set; } = null!;
+    }
+}
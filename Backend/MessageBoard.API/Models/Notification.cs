@@ -0,0 +1,50 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+
+namespace MessageBoard.API.Models
+{
+    // Something in a user's inbox - so far only being @mentioned in a message
+    [Table("Notifications")]
+    public class Notification
+    {
+        public const string MentionType = "mention";
+
+        [Key]
+        [DatabaseGenerated(DatabaseGeneratedOption.Identity)]
+        public int Id { get; set; }
+
+        [Required]
+        [ForeignKey("User")]
+        public int UserId { get; set; }  // Who the notification is for
+
+        [Required]
+        [ForeignKey("Actor")]
+        [Column("actor_id")]
+        public int ActorId { get; set; }  // Who caused it, e.g. the message author
+
+        [Required]
+        [ForeignKey("Message")]
+        public int MessageId { get; set; }
+
+        [Required]
+        [MaxLength(20)]
+        [Column("type")]
+        public string Type { get; set; } = MentionType;
+
+        [Column("created_at")]
+        public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+
+        [Column("read_at")]
+        public DateTime? ReadAt { get; set; }  // Null while unread
+
+        // Navigation properties
+        [Required]
+        public User User { get; set; } = null!;
+
+        [Required]
+        public User Actor { get; set; } = null!;
+
+        [Required]
+        public Message Message { get; set; } = null!;
+    }
+}
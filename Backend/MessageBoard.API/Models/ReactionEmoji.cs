@@ -0,0 +1,10 @@
+namespace MessageBoard.API.Models
+{
+    // The fixed set of reactions users can choose from (mirrored by the frontend)
+    public static class ReactionEmoji
+    {
+        public static readonly string[] Allowed = { "👍", "❤️", "😂", "😮", "😢", "🎉" };
+
+        public static bool IsAllowed(string emoji) => Allowed.Contains(emoji);
+    }
+}
@@ -0,0 +1,42 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+
+namespace MessageBoard.API.Models
+{
+    // A long-lived token that buys new access tokens. Each one is used once:
+    // refreshing revokes it and issues its replacement (rotation).
+    [Table("RefreshTokens")]
+    public class RefreshToken
+    {
+        [Key]
+        [DatabaseGenerated(DatabaseGeneratedOption.Identity)]
+        public int Id { get; set; }
+
+        [Required]
+        [ForeignKey("User")]
+        public int UserId { get; set; }
+
+        [Required]
+        [MaxLength(64)]  // SHA-256 hex digest - the token itself is never stored
+        [Column("token_hash")]
+        public string TokenHash { get; set; } = string.Empty;
+
+        [Column("created_at")]
+        public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+
+        [Column("expires_at")]
+        public DateTime ExpiresAt { get; set; }
+
+        [Column("revoked_at")]
+        public DateTime? RevokedAt { get; set; }  // Set on rotation, logout or ban
+
+        [Column("replaced_by_id")]
+        public int? ReplacedById { get; set; }  // The token this one was rotated into
+
+        // Navigation properties
+        [Required]
+        public User User { get; set; } = null!;
+
+        public bool IsActive(DateTime now) => RevokedAt == null && ExpiresAt > now;
+    }
+}
@@ -1,5 +1,6 @@
 using System.ComponentModel.DataAnnotations;
 using System.ComponentModel.DataAnnotations.Schema;
+using System.Text.Json.Serialization;
 
 namespace MessageBoard.API.Models
 {
@@ -20,6 +21,9 @@ namespace MessageBoard.API.Models
         
         [Column("created_at")]
         public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+
+        [Column("is_locked")]
+        public bool IsLocked { get; set; }  // Locked threads accept no new messages
         
         // Navigation properties
         [Required]  // User must exist
@@ -27,5 +31,9 @@ namespace MessageBoard.API.Models
         
         [InverseProperty("Thread")]  // Points to Thread property in Message
         public ICollection<Message> Messages { get; set; } = new List<Message>();
+
+        [JsonIgnore]
+        [InverseProperty("Thread")]
+        public ICollection<ThreadReadMarker> ReadMarkers { get; set; } = new List<ThreadReadMarker>();
     }
 }
\ No newline at end of file
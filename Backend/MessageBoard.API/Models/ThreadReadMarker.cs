@@ -0,0 +1,33 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+using Microsoft.EntityFrameworkCore;
+
+namespace MessageBoard.API.Models
+{
+    // How far one user has read a thread: visible messages from others with a
+    // higher Id are unread. Only moves forward.
+    [Table("ThreadReadMarkers")]
+    [PrimaryKey(nameof(UserId), nameof(ThreadId))]
+    public class ThreadReadMarker
+    {
+        [ForeignKey("User")]
+        public int UserId { get; set; }
+
+        [ForeignKey("Thread")]
+        public int ThreadId { get; set; }
+
+        // Not a foreign key - the marker stays put if that message is deleted
+        [Column("last_read_message_id")]
+        public int LastReadMessageId { get; set; }
+
+        [Column("updated_at")]
+        public DateTime UpdatedAt { get; set; } = DateTime.UtcNow;
+
+        // Navigation properties
+        [Required]
+        public User User { get; set; } = null!;
+
+        [Required]
+        public Thread Thread { get; set; } = null!;
+    }
+}
@@ -1,5 +1,6 @@
 using System.ComponentModel.DataAnnotations;
 using System.ComponentModel.DataAnnotations.Schema;
+using System.Text.Json.Serialization;
 
 namespace MessageBoard.API.Models
 {
@@ -18,21 +19,63 @@ namespace MessageBoard.API.Models
         [Required]
         [MaxLength(100)]
         [EmailAddress]  // Built-in email validation
+        [JsonIgnore]  // Users are embedded in thread/message payloads - keep emails private
         public string Email { get; set; } = string.Empty;
         
         [Required]
         [MaxLength(255)]  // For hashed passwords
+        [JsonIgnore]  // Never serialize credentials
         public string PasswordHash { get; set; } = string.Empty;
         
         [Column("created_at")]
         [DatabaseGenerated(DatabaseGeneratedOption.Identity)]  // Set by database
         public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+
+        [Required]
+        [MaxLength(20)]
+        [Column("role")]
+        public string Role { get; set; } = UserRoles.User;  // See UserRoles
+
+        [Column("banned_at")]
+        public DateTime? BannedAt { get; set; }  // Null unless banned by a moderator
+
+        [MaxLength(500)]
+        [Column("ban_reason")]
+        public string? BanReason { get; set; }
+
+        [MaxLength(500)]
+        [Column("bio")]
+        [JsonIgnore]  // Profile fields are served by api/users/{id}, not embedded in messages
+        public string? Bio { get; set; }
+
+        [MaxLength(500)]
+        [Column("avatar_url")]
+        [JsonIgnore]
+        public string? AvatarUrl { get; set; }  // Absolute http(s) URL of an image hosted elsewhere
         
         // Navigation properties - these DON'T become columns
+        [JsonIgnore]
         [InverseProperty("User")]  // Points to User property in Thread
         public ICollection<Thread> Threads { get; set; } = new List<Thread>();
         
+        [JsonIgnore]
         [InverseProperty("User")]  // Points to User property in Message
         public ICollection<Message> Messages { get; set; } = new List<Message>();
+
+        [JsonIgnore]
+        [InverseProperty("User")]
+        public ICollection<MessageReaction> Reactions { get; set; } = new List<MessageReaction>();
+
+        [JsonIgnore]
+        [InverseProperty("User")]
+        public ICollection<RefreshToken> RefreshTokens { get; set; } = new List<RefreshToken>();
+
+        [JsonIgnore]
+        [InverseProperty("User")]
+        public ICollection<ThreadReadMarker> ReadMarkers { get; set; } = new List<ThreadReadMarker>();
+
+        [JsonIgnore]
+        [InverseProperty("User")]  // Received; ones this user caused aren't navigable
+        public ICollection<Notification> Notifications { get; set; } = new List<Notification>();
     }
 }
\ No newline at end of file
@@ -0,0 +1,17 @@
+namespace MessageBoard.API.Models
+{
+    // Values stored in User.Role and issued as the JWT "role" claim
+    public static class UserRoles
+    {
+        public const string User = "User";
+        public const string Moderator = "Moderator";
+        public const string Admin = "Admin";
+
+        // For [Authorize(Roles = ...)] on moderation endpoints
+        public const string Staff = Moderator + "," + Admin;
+
+        public static readonly string[] All = { User, Moderator, Admin };
+
+        public static bool IsStaff(string role) => role == Moderator || role == Admin;
+    }
+}
@@ -4,13 +4,27 @@ using MessageBoard.API.Services;
 using Microsoft.EntityFrameworkCore;
 using System.Text.Json.Serialization;
 using Microsoft.AspNetCore.Authentication.JwtBearer;
+using Microsoft.AspNetCore.Mvc.Controllers;
 using Microsoft.IdentityModel.Tokens;
 using System.Text;
 
 var builder = WebApplication.CreateBuilder(args);
 
 // Add services to the container.
-builder.Services.AddOpenApi();
+// The document is also written to Frontend/openapi on build; the frontend
+// generates its API types and client from it (npm run api:generate)
+builder.Services.AddOpenApi(options =>
+{
+    // Name operations after their actions so generated client functions get stable names
+    options.AddOperationTransformer((operation, context, _) =>
+    {
+        if (context.Description.ActionDescriptor is ControllerActionDescriptor action)
+        {
+            operation.OperationId ??= action.ActionName;
+        }
+        return Task.CompletedTask;
+    });
+});
 
 // Configure JWT Settings - Bind configuration to strongly-typed object
 builder.Services.Configure<JwtSettings>(
@@ -18,6 +32,25 @@ builder.Services.Configure<JwtSettings>(
 
 // Register JWT Service for Dependency Injection
 builder.Services.AddScoped<IJwtService, JwtService>();
+builder.Services.AddScoped<IRefreshTokenService, RefreshTokenService>();
+builder.Services.AddSingleton<IPasswordHasher, PasswordHasher>();
+
+// Posting limits and login lockout - singletons so counts span requests
+builder.Services.Configure<RateLimitSettings>(
+    builder.Configuration.GetSection("RateLimiting"));
+builder.Services.AddSingleton<IRateLimiter, InMemoryRateLimiter>();
+builder.Services.AddSingleton<ILoginThrottle, LoginThrottle>();
+
+// Attachment limits and where the files go - swap the storage implementation here
+builder.Services.Configure<AttachmentSettings>(
+    builder.Configuration.GetSection("Attachments"));
+builder.Services.AddSingleton<IAttachmentStorage, LocalFileAttachmentStorage>();
+
+// Thread export/import (JSON archives and Markdown transcripts)
+builder.Services.AddScoped<IThreadArchiveService, ThreadArchiveService>();
+
+// Real-time message events - singleton so all requests share subscribers
+builder.Services.AddSingleton<IMessageEventBroadcaster, MessageEventBroadcaster>();
 
 // Configure JSON options to handle circular references
 builder.Services.AddControllers()
@@ -68,7 +101,8 @@ builder.Services.AddCors(options =>
         policy.WithOrigins("http://localhost:3000")
               .AllowAnyMethod()
               .AllowAnyHeader()
-              .AllowCredentials();
+              .AllowCredentials()
+              .WithExposedHeaders("Retry-After");  // Read by the client on 429 responses
     });
 });
 
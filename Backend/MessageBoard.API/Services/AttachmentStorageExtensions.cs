@@ -0,0 +1,22 @@
+namespace MessageBoard.API.Services
+{
+    public static class AttachmentStorageExtensions
+    {
+        // Deletes the stored files of attachment rows that were just removed.
+        // A leftover file only wastes space, so failures are logged, not thrown.
+        public static async Task DeleteFilesAsync(this IAttachmentStorage storage, IEnumerable<string> storageKeys, ILogger logger)
+        {
+            foreach (var key in storageKeys)
+            {
+                try
+                {
+                    await storage.DeleteAsync(key);
+                }
+                catch (Exception ex)
+                {
+                    logger.LogWarning(ex, "Could not delete stored attachment {Key}", key);
+                }
+            }
+        }
+    }
+}
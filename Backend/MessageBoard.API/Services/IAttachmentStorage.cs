@@ -0,0 +1,16 @@
+namespace MessageBoard.API.Services
+{
+    // Where attachment bytes live. Rows in the Attachments table only keep the
+    // key, so another backend (e.g. object storage) can be swapped in in Program.cs.
+    public interface IAttachmentStorage
+    {
+        // Stores the content and returns the key to read or delete it with
+        Task<string> SaveAsync(Stream content, CancellationToken cancellationToken = default);
+
+        // Null when nothing is stored under the key
+        Task<Stream?> OpenReadAsync(string key, CancellationToken cancellationToken = default);
+
+        // Deleting a missing key is not an error
+        Task DeleteAsync(string key, CancellationToken cancellationToken = default);
+    }
+}
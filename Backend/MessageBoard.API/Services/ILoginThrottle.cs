@@ -0,0 +1,21 @@
+namespace MessageBoard.API.Services
+{
+    public interface ILoginThrottle
+    {
+        // How long login attempts for this username or address stay blocked; null when allowed
+        TimeSpan? GetLockout(string username, string? ipAddress);
+
+        // Count a failed attempt; reaching the limit starts a lockout
+        void RecordFailure(string username, string? ipAddress);
+
+        // Forget the username's failures after a successful login
+        void RecordSuccess(string username);
+
+        // The same for re-entering the current password to change the email or
+        // password, counted per account (apart from logins): a stolen access
+        // token can't be used to guess the password, nor to lock its owner out
+        TimeSpan? GetPasswordCheckLockout(int userId);
+        void RecordPasswordCheckFailure(int userId);
+        void RecordPasswordCheckSuccess(int userId);
+    }
+}
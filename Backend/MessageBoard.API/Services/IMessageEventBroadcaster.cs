@@ -0,0 +1,11 @@
+using MessageBoard.API.DTOs;
+
+namespace MessageBoard.API.Services
+{
+    public interface IMessageEventBroadcaster
+    {
+        // Start receiving events for one thread; dispose to stop
+        MessageEventSubscription Subscribe(int threadId);
+        void Publish(MessageEvent messageEvent);
+    }
+}
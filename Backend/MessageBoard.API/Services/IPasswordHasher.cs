@@ -0,0 +1,10 @@
+namespace MessageBoard.API.Services
+{
+    public interface IPasswordHasher
+    {
+        string Hash(string password);
+
+        // Whether the password matches a hash produced by Hash
+        bool Verify(string password, string hash);
+    }
+}
@@ -0,0 +1,12 @@
+namespace MessageBoard.API.Services
+{
+    public interface IRateLimiter
+    {
+        // Count one request against a key. Null when it is allowed, otherwise
+        // how long until the key may make another request (nothing is counted).
+        TimeSpan? TryAcquire(string key, int limit, TimeSpan window);
+
+        // The same answer as TryAcquire, without counting anything
+        TimeSpan? Check(string key, int limit, TimeSpan window);
+    }
+}
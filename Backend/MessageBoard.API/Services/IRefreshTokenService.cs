@@ -0,0 +1,22 @@
+using MessageBoard.API.Models;
+
+namespace MessageBoard.API.Services
+{
+    public interface IRefreshTokenService
+    {
+        // Create and store a new refresh token; returns the token to hand to the client
+        Task<string> IssueAsync(User user);
+
+        // Revoke a refresh token and issue its replacement.
+        // Null when the token is unknown, expired or already used.
+        Task<RefreshTokenRotation?> RotateAsync(string token);
+
+        // Revoke one token (logout); unknown tokens are ignored
+        Task RevokeAsync(string token);
+
+        // Revoke every active token of a user (ban, or a stolen token was replayed)
+        Task RevokeAllAsync(int userId);
+    }
+
+    public record RefreshTokenRotation(User User, string Token);
+}
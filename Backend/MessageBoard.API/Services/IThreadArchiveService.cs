@@ -0,0 +1,20 @@
+using MessageBoard.API.DTOs;
+
+namespace MessageBoard.API.Services
+{
+    public interface IThreadArchiveService
+    {
+        // The thread and its messages, oldest first; null when there is no such thread.
+        // Hidden messages are left out unless includeHidden (moderators).
+        Task<ThreadArchive?> ExportAsync(int threadId, bool includeHidden);
+
+        // A readable transcript of an archive
+        string ToMarkdown(ThreadArchive archive);
+
+        // Recreate an archived thread as a new thread. Authors are matched to
+        // users by username; those with no match post as the placeholder user.
+        Task<ThreadImport> ImportAsync(ThreadArchive archive);
+    }
+
+    public record ThreadImport(int ThreadId, int MessageCount, List<string> UnknownAuthors);
+}
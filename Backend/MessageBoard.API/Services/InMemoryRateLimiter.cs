@@ -0,0 +1,86 @@
+using System.Collections.Concurrent;
+
+namespace MessageBoard.API.Services
+{
+    // Sliding-window limiter: a key may make `limit` requests in any `window`.
+    // State lives in this process, so limits apply per server instance and
+    // reset on restart.
+    public class InMemoryRateLimiter : IRateLimiter
+    {
+        private const int SweepInterval = 1000;  // Requests between sweeps of idle keys
+
+        private readonly ConcurrentDictionary<string, KeyWindow> _windows = new();
+        private int _requestsSinceSweep;
+
+        public TimeSpan? TryAcquire(string key, int limit, TimeSpan window)
+        {
+            var now = DateTime.UtcNow;
+            var entry = _windows.GetOrAdd(key, _ => new KeyWindow());
+
+            TimeSpan? retryAfter;
+            lock (entry)
+            {
+                retryAfter = WaitTime(entry, limit, window, now);
+                if (retryAfter == null)
+                {
+                    entry.Hits.Enqueue(now);
+                }
+            }
+
+            if (Interlocked.Increment(ref _requestsSinceSweep) >= SweepInterval)
+            {
+                Interlocked.Exchange(ref _requestsSinceSweep, 0);
+                Sweep(now);
+            }
+
+            return retryAfter;
+        }
+
+        public TimeSpan? Check(string key, int limit, TimeSpan window)
+        {
+            if (!_windows.TryGetValue(key, out var entry))
+            {
+                return null;
+            }
+
+            lock (entry)
+            {
+                return WaitTime(entry, limit, window, DateTime.UtcNow);
+            }
+        }
+
+        // Forget requests that left the window; null when another fits, otherwise
+        // the wait until the oldest one leaves. Callers hold the entry's lock.
+        private static TimeSpan? WaitTime(KeyWindow entry, int limit, TimeSpan window, DateTime now)
+        {
+            entry.Length = window;
+            while (entry.Hits.Count > 0 && entry.Hits.Peek() <= now - window)
+            {
+                entry.Hits.Dequeue();
+            }
+
+            return entry.Hits.Count >= limit ? entry.Hits.Peek() + window - now : null;
+        }
+
+        // Drop keys with no requests left in their window so memory doesn't grow with every user and IP seen
+        private void Sweep(DateTime now)
+        {
+            foreach (var (key, entry) in _windows)
+            {
+                lock (entry)
+                {
+                    if (entry.Hits.Count == 0 || entry.Hits.Last() <= now - entry.Length)
+                    {
+                        _windows.TryRemove(key, out _);
+                    }
+                }
+            }
+        }
+
+        private class KeyWindow
+        {
+            public Queue<DateTime> Hits { get; } = new();
+            public TimeSpan Length { get; set; }
+        }
+    }
+}
@@ -26,6 +26,7 @@ namespace MessageBoard.API.Services
                 new Claim(JwtRegisteredClaimNames.Sub, user.Id.ToString()), // Subject (user ID)
                 new Claim(JwtRegisteredClaimNames.UniqueName, user.Username),
                 new Claim(JwtRegisteredClaimNames.Email, user.Email),
+                new Claim(ClaimTypes.Role, user.Role), // Issued as "role", checked by [Authorize(Roles = ...)]
                 new Claim(JwtRegisteredClaimNames.Jti, Guid.NewGuid().ToString()), // JWT ID
                 new Claim(JwtRegisteredClaimNames.Iat, 
                     new DateTimeOffset(DateTime.UtcNow).ToUnixTimeSeconds().ToString(), 
@@ -0,0 +1,63 @@
+using MessageBoard.API.Configuration;
+using Microsoft.Extensions.Options;
+
+namespace MessageBoard.API.Services
+{
+    // Default storage: one file per attachment under AttachmentSettings.LocalPath,
+    // named by a random key. Only suits a single server (or a shared volume).
+    public class LocalFileAttachmentStorage : IAttachmentStorage
+    {
+        private readonly string _root;
+
+        public LocalFileAttachmentStorage(IOptions<AttachmentSettings> settings, IWebHostEnvironment environment)
+        {
+            _root = Path.GetFullPath(Path.Combine(environment.ContentRootPath, settings.Value.LocalPath));
+            Directory.CreateDirectory(_root);
+        }
+
+        public async Task<string> SaveAsync(Stream content, CancellationToken cancellationToken = default)
+        {
+            var key = Guid.NewGuid().ToString("N");
+            var path = PathFor(key);
+
+            try
+            {
+                await using var file = new FileStream(path, FileMode.CreateNew, FileAccess.Write, FileShare.None, 81920, useAsync: true);
+                await content.CopyToAsync(file, cancellationToken);
+            }
+            catch
+            {
+                // Don't leave a partial file behind
+                File.Delete(path);
+                throw;
+            }
+
+            return key;
+        }
+
+        public Task<Stream?> OpenReadAsync(string key, CancellationToken cancellationToken = default)
+        {
+            var path = PathFor(key);
+            Stream? stream = File.Exists(path)
+                ? new FileStream(path, FileMode.Open, FileAccess.Read, FileShare.Read, 81920, useAsync: true)
+                : null;
+            return Task.FromResult(stream);
+        }
+
+        public Task DeleteAsync(string key, CancellationToken cancellationToken = default)
+        {
+            File.Delete(PathFor(key));
+            return Task.CompletedTask;
+        }
+
+        // Keys are generated here (32 hex digits), so anything else can't be a path we wrote
+        private string PathFor(string key)
+        {
+            if (key.Length != 32 || !key.All(Uri.IsHexDigit))
+            {
+                throw new ArgumentException("Invalid attachment key", nameof(key));
+            }
+            return Path.Combine(_root, key);
+        }
+    }
+}
@@ -0,0 +1,142 @@
+using MessageBoard.API.Configuration;
+using Microsoft.Extensions.Options;
+using System.Collections.Concurrent;
+
+namespace MessageBoard.API.Services
+{
+    // Locks out password guessing: too many failures for one username (or from
+    // one address, to catch guesses spread over many usernames) within the
+    // lockout period blocks further attempts until it has passed.
+    // Kept in memory, like InMemoryRateLimiter.
+    public class LoginThrottle : ILoginThrottle
+    {
+        private const int SweepInterval = 1000;  // Failures between sweeps of stale entries
+
+        private readonly ConcurrentDictionary<string, FailureCount> _failures = new();
+        private readonly RateLimitSettings _settings;
+        private readonly ILogger<LoginThrottle> _logger;
+        private int _failuresSinceSweep;
+
+        public LoginThrottle(IOptions<RateLimitSettings> settings, ILogger<LoginThrottle> logger)
+        {
+            _settings = settings.Value;
+            _logger = logger;
+        }
+
+        private TimeSpan LockoutPeriod => TimeSpan.FromMinutes(_settings.LoginLockoutMinutes);
+
+        public TimeSpan? GetLockout(string username, string? ipAddress)
+        {
+            var now = DateTime.UtcNow;
+            var byUsername = Remaining(UsernameKey(username), now);
+            var byIp = ipAddress != null ? Remaining(IpKey(ipAddress), now) : null;
+
+            if (byUsername == null || byIp == null)
+            {
+                return byUsername ?? byIp;
+            }
+            return byUsername > byIp ? byUsername : byIp;
+        }
+
+        public void RecordFailure(string username, string? ipAddress)
+        {
+            var now = DateTime.UtcNow;
+            Increment(UsernameKey(username), _settings.MaxFailedLoginsPerUsername, now);
+            if (ipAddress != null)
+            {
+                Increment(IpKey(ipAddress), _settings.MaxFailedLoginsPerIp, now);
+            }
+
+            if (Interlocked.Increment(ref _failuresSinceSweep) >= SweepInterval)
+            {
+                Interlocked.Exchange(ref _failuresSinceSweep, 0);
+                Sweep(now);
+            }
+        }
+
+        public void RecordSuccess(string username)
+        {
+            _failures.TryRemove(UsernameKey(username), out _);
+        }
+
+        public TimeSpan? GetPasswordCheckLockout(int userId)
+        {
+            return Remaining(AccountKey(userId), DateTime.UtcNow);
+        }
+
+        public void RecordPasswordCheckFailure(int userId)
+        {
+            Increment(AccountKey(userId), _settings.MaxFailedLoginsPerUsername, DateTime.UtcNow);
+        }
+
+        public void RecordPasswordCheckSuccess(int userId)
+        {
+            _failures.TryRemove(AccountKey(userId), out _);
+        }
+
+        private TimeSpan? Remaining(string key, DateTime now)
+        {
+            if (!_failures.TryGetValue(key, out var entry))
+            {
+                return null;
+            }
+
+            lock (entry)
+            {
+                return entry.LockedUntil > now ? entry.LockedUntil - now : null;
+            }
+        }
+
+        private void Increment(string key, int limit, DateTime now)
+        {
+            var entry = _failures.GetOrAdd(key, _ => new FailureCount());
+            lock (entry)
+            {
+                // Failures older than the lockout period no longer count
+                if (entry.WindowStart <= now - LockoutPeriod)
+                {
+                    entry.Count = 0;
+                    entry.WindowStart = now;
+                }
+
+                entry.Count++;
+                if (entry.Count >= limit)
+                {
+                    entry.LockedUntil = now + LockoutPeriod;
+                    entry.Count = 0;
+                    entry.WindowStart = now;
+                    _logger.LogWarning("Password attempts locked for {Key} until {LockedUntil} after {Limit} failed attempts",
+                        key, entry.LockedUntil, limit);
+                }
+            }
+        }
+
+        private void Sweep(DateTime now)
+        {
+            foreach (var (key, entry) in _failures)
+            {
+                lock (entry)
+                {
+                    if (entry.LockedUntil <= now && entry.WindowStart <= now - LockoutPeriod)
+                    {
+                        _failures.TryRemove(key, out _);
+                    }
+                }
+            }
+        }
+
+        // Usernames are matched case-insensitively by the database, so count them that way too
+        private static string UsernameKey(string username) => $"user:{username.Trim().ToLowerInvariant()}";
+
+        private static string IpKey(string ipAddress) => $"ip:{ipAddress}";
+
+        private static string AccountKey(int userId) => $"account:{userId}";
+
+        private class FailureCount
+        {
+            public int Count { get; set; }
+            public DateTime WindowStart { get; set; }
+            public DateTime LockedUntil { get; set; }
+        }
+    }
+}
@@ -0,0 +1,83 @@
+using MessageBoard.API.DTOs;
+using System.Collections.Concurrent;
+using System.Threading.Channels;
+
+namespace MessageBoard.API.Services
+{
+    // In-memory pub/sub for message events, keyed by thread.
+    // Registered as a singleton so every request shares the same subscribers.
+    // Note: events only reach clients connected to this server instance.
+    public class MessageEventBroadcaster : IMessageEventBroadcaster
+    {
+        // Per-subscriber buffer; a slow client loses its oldest events rather than growing memory
+        private const int SubscriberBufferSize = 100;
+
+        private readonly ConcurrentDictionary<int, ConcurrentDictionary<Guid, Channel<MessageEvent>>> _subscribers = new();
+        private readonly ILogger<MessageEventBroadcaster> _logger;
+
+        public MessageEventBroadcaster(ILogger<MessageEventBroadcaster> logger)
+        {
+            _logger = logger;
+        }
+
+        public MessageEventSubscription Subscribe(int threadId)
+        {
+            var channel = Channel.CreateBounded<MessageEvent>(new BoundedChannelOptions(SubscriberBufferSize)
+            {
+                FullMode = BoundedChannelFullMode.DropOldest,
+                SingleReader = true
+            });
+
+            var id = Guid.NewGuid();
+            var threadSubscribers = _subscribers.GetOrAdd(threadId, _ => new ConcurrentDictionary<Guid, Channel<MessageEvent>>());
+            threadSubscribers[id] = channel;
+
+            _logger.LogInformation("Subscriber {Id} joined thread {ThreadId}", id, threadId);
+
+            return new MessageEventSubscription(channel.Reader, () =>
+            {
+                if (threadSubscribers.TryRemove(id, out var removed))
+                {
+                    removed.Writer.TryComplete();
+                    _logger.LogInformation("Subscriber {Id} left thread {ThreadId}", id, threadId);
+                }
+            });
+        }
+
+        public void Publish(MessageEvent messageEvent)
+        {
+            if (!_subscribers.TryGetValue(messageEvent.ThreadId, out var threadSubscribers))
+            {
+                return;
+            }
+
+            foreach (var channel in threadSubscribers.Values)
+            {
+                channel.Writer.TryWrite(messageEvent);
+            }
+        }
+    }
+
+    // Handle returned by Subscribe - read events from Reader, dispose to unsubscribe
+    public sealed class MessageEventSubscription : IDisposable
+    {
+        private readonly Action _unsubscribe;
+        private int _disposed;
+
+        public MessageEventSubscription(ChannelReader<MessageEvent> reader, Action unsubscribe)
+        {
+            Reader = reader;
+            _unsubscribe = unsubscribe;
+        }
+
+        public ChannelReader<MessageEvent> Reader { get; }
+
+        public void Dispose()
+        {
+            if (Interlocked.Exchange(ref _disposed, 1) == 0)
+            {
+                _unsubscribe();
+            }
+        }
+    }
+}
@@ -0,0 +1,25 @@
+using System.Security.Cryptography;
+using System.Text;
+
+namespace MessageBoard.API.Services
+{
+    // Shared by registration/login and the account settings endpoints, so
+    // every stored hash is produced the same way
+    public class PasswordHasher : IPasswordHasher
+    {
+        public string Hash(string password)
+        {
+            using (var sha256 = SHA256.Create())
+            {
+                var hashedBytes = sha256.ComputeHash(Encoding.UTF8.GetBytes(password));
+                return Convert.ToBase64String(hashedBytes);
+            }
+        }
+
+        public bool Verify(string password, string hash)
+        {
+            var hashedInput = Hash(password);
+            return hashedInput == hash;
+        }
+    }
+}
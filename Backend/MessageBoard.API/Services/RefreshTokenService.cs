@@ -0,0 +1,123 @@
+using MessageBoard.API.Configuration;
+using MessageBoard.API.Data;
+using MessageBoard.API.Models;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Options;
+using System.Security.Cryptography;
+using System.Text;
+
+namespace MessageBoard.API.Services
+{
+    // Stores refresh tokens as SHA-256 hashes and rotates them on every use.
+    // Presenting a token that was already rotated means it leaked (or was
+    // replayed), so all of that user's tokens are revoked.
+    public class RefreshTokenService : IRefreshTokenService
+    {
+        private const int TokenBytes = 64;
+
+        private readonly MessageBoardContext _context;
+        private readonly JwtSettings _jwtSettings;
+        private readonly ILogger<RefreshTokenService> _logger;
+
+        public RefreshTokenService(
+            MessageBoardContext context,
+            IOptions<JwtSettings> jwtSettings,
+            ILogger<RefreshTokenService> logger)
+        {
+            _context = context;
+            _jwtSettings = jwtSettings.Value;
+            _logger = logger;
+        }
+
+        public async Task<string> IssueAsync(User user)
+        {
+            var (token, _) = await CreateAsync(user.Id, DateTime.UtcNow);
+            return token;
+        }
+
+        public async Task<RefreshTokenRotation?> RotateAsync(string token)
+        {
+            var hash = Hash(token);
+            var stored = await _context.RefreshTokens
+                .Include(t => t.User)
+                .FirstOrDefaultAsync(t => t.TokenHash == hash);
+
+            if (stored == null)
+            {
+                return null;
+            }
+
+            var now = DateTime.UtcNow;
+            if (stored.ReplacedById != null)
+            {
+                _logger.LogWarning("Rotated refresh token {Id} was reused - revoking all tokens of user {UserId}",
+                    stored.Id, stored.UserId);
+                await RevokeAllAsync(stored.UserId);
+                return null;
+            }
+
+            if (!stored.IsActive(now))
+            {
+                return null;
+            }
+
+            // Claim the token atomically so two concurrent refreshes can't both rotate it
+            var claimed = await _context.RefreshTokens
+                .Where(t => t.Id == stored.Id && t.RevokedAt == null)
+                .ExecuteUpdateAsync(s => s.SetProperty(t => t.RevokedAt, now));
+
+            if (claimed == 0)
+            {
+                return null;
+            }
+
+            var (replacement, replacementId) = await CreateAsync(stored.UserId, now);
+
+            await _context.RefreshTokens
+                .Where(t => t.Id == stored.Id)
+                .ExecuteUpdateAsync(s => s.SetProperty(t => t.ReplacedById, replacementId));
+
+            return new RefreshTokenRotation(stored.User, replacement);
+        }
+
+        public async Task RevokeAsync(string token)
+        {
+            var hash = Hash(token);
+            await _context.RefreshTokens
+                .Where(t => t.TokenHash == hash && t.RevokedAt == null)
+                .ExecuteUpdateAsync(s => s.SetProperty(t => t.RevokedAt, DateTime.UtcNow));
+        }
+
+        public async Task RevokeAllAsync(int userId)
+        {
+            var revoked = await _context.RefreshTokens
+                .Where(t => t.UserId == userId && t.RevokedAt == null)
+                .ExecuteUpdateAsync(s => s.SetProperty(t => t.RevokedAt, DateTime.UtcNow));
+
+            _logger.LogInformation("Revoked {Count} refresh tokens of user {UserId}", revoked, userId);
+        }
+
+        private async Task<(string Token, int Id)> CreateAsync(int userId, DateTime now)
+        {
+            var token = Convert.ToBase64String(RandomNumberGenerator.GetBytes(TokenBytes))
+                .TrimEnd('=').Replace('+', '-').Replace('/', '_');
+
+            var entity = new RefreshToken
+            {
+                UserId = userId,
+                TokenHash = Hash(token),
+                CreatedAt = now,
+                ExpiresAt = now.AddDays(_jwtSettings.RefreshTokenExpiryInDays)
+            };
+
+            _context.RefreshTokens.Add(entity);
+            await _context.SaveChangesAsync();
+            return (token, entity.Id);
+        }
+
+        private static string Hash(string token)
+        {
+            return Convert.ToHexString(SHA256.HashData(Encoding.UTF8.GetBytes(token)));
+        }
+    }
+}
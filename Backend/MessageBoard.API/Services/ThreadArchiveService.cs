@@ -0,0 +1,270 @@
+using MessageBoard.API.Data;
+using MessageBoard.API.DTOs;
+using MessageBoard.API.Models;
+using Microsoft.EntityFrameworkCore;
+using System.Globalization;
+using System.Security.Cryptography;
+using System.Text;
+
+namespace MessageBoard.API.Services
+{
+    // Exports threads as archives (JSON, or a Markdown transcript) and imports
+    // them again. Imports recreate the content only: ids, reactions, read
+    // markers, notifications and attached files stay behind.
+    public class ThreadArchiveService : IThreadArchiveService
+    {
+        // Author of imported posts whose users don't exist here. Registration
+        // refuses the name, and its password is random, so nobody signs in as it.
+        public const string PlaceholderUsername = "former-member";
+        private const string PlaceholderEmail = "former-member@placeholder.invalid";
+
+        private readonly MessageBoardContext _context;
+        private readonly IPasswordHasher _passwordHasher;
+        private readonly ILogger<ThreadArchiveService> _logger;
+
+        public ThreadArchiveService(
+            MessageBoardContext context,
+            IPasswordHasher passwordHasher,
+            ILogger<ThreadArchiveService> logger)
+        {
+            _context = context;
+            _passwordHasher = passwordHasher;
+            _logger = logger;
+        }
+
+        public async Task<ThreadArchive?> ExportAsync(int threadId, bool includeHidden)
+        {
+            var thread = await _context.Threads
+                .Where(t => t.Id == threadId)
+                .Select(t => new ArchivedThread
+                {
+                    Title = t.Title,
+                    Author = t.User.Username,
+                    CreatedAt = t.CreatedAt,
+                    IsLocked = t.IsLocked
+                })
+                .FirstOrDefaultAsync();
+
+            if (thread == null)
+            {
+                return null;
+            }
+
+            var messages = await _context.Messages
+                .Where(m => m.ThreadId == threadId && (includeHidden || m.HiddenAt == null))
+                .OrderBy(m => m.CreatedAt)
+                .ThenBy(m => m.Id)
+                .Select(m => new ArchivedMessage
+                {
+                    Id = m.Id,
+                    ParentId = m.ParentMessageId,
+                    Author = m.User.Username,
+                    Content = m.Content,
+                    CreatedAt = m.CreatedAt,
+                    UpdatedAt = m.UpdatedAt,
+                    HiddenAt = m.HiddenAt,
+                    HiddenReason = m.HiddenReason
+                })
+                .ToListAsync();
+
+            var messageIds = messages.Select(m => m.Id).ToList();
+            var attachments = (await _context.Attachments
+                .Where(a => a.MessageId != null && messageIds.Contains(a.MessageId.Value))
+                .OrderBy(a => a.Id)
+                .ToListAsync())
+                .ToLookup(a => a.MessageId!.Value);
+
+            var exported = messageIds.ToHashSet();
+            foreach (var message in messages)
+            {
+                // Replies to messages left out (hidden ones) become top-level posts
+                if (message.ParentId is int parentId && !exported.Contains(parentId))
+                {
+                    message.ParentId = null;
+                }
+
+                message.Attachments = attachments[message.Id]
+                    .Select(a => new ArchivedAttachment
+                    {
+                        FileName = a.FileName,
+                        ContentType = a.ContentType,
+                        SizeBytes = a.SizeBytes
+                    })
+                    .ToList();
+            }
+
+            return new ThreadArchive
+            {
+                ExportedAt = DateTime.UtcNow,
+                Thread = thread,
+                Messages = messages
+            };
+        }
+
+        public string ToMarkdown(ThreadArchive archive)
+        {
+            var markdown = new StringBuilder();
+            var thread = archive.Thread;
+            var authors = archive.Messages.ToDictionary(m => m.Id, m => m.Author);
+
+            markdown.AppendLine($"# {Escape(thread.Title)}");
+            markdown.AppendLine();
+            markdown.Append($"Started by **{Escape(thread.Author)}** on {FormatTime(thread.CreatedAt)}");
+            markdown.AppendLine(thread.IsLocked ? " (locked)." : ".");
+            markdown.AppendLine($"{archive.Messages.Count} messages, exported {FormatTime(archive.ExportedAt)}.");
+
+            foreach (var message in archive.Messages)
+            {
+                markdown.AppendLine();
+                markdown.AppendLine("---");
+                markdown.AppendLine();
+
+                markdown.Append($"### {Escape(message.Author)} · {FormatTime(message.CreatedAt)}");
+                if (message.ParentId is int parentId && authors.TryGetValue(parentId, out var parentAuthor))
+                {
+                    markdown.Append($" · reply to {Escape(parentAuthor)}");
+                }
+                markdown.AppendLine();
+                markdown.AppendLine();
+
+                if (message.HiddenAt != null)
+                {
+                    markdown.AppendLine($"*Hidden by a moderator: {Escape(message.HiddenReason ?? "no reason given")}*");
+                    markdown.AppendLine();
+                }
+
+                // Content is Markdown already
+                markdown.AppendLine(message.Content.Trim());
+
+                if (message.Attachments.Count > 0)
+                {
+                    markdown.AppendLine();
+                    foreach (var attachment in message.Attachments)
+                    {
+                        markdown.AppendLine($"- Attachment: {Escape(attachment.FileName)} ({FormatSize(attachment.SizeBytes)})");
+                    }
+                }
+
+                if (message.UpdatedAt != null)
+                {
+                    markdown.AppendLine();
+                    markdown.AppendLine($"*Edited {FormatTime(message.UpdatedAt.Value)}*");
+                }
+            }
+
+            return markdown.ToString();
+        }
+
+        public async Task<ThreadImport> ImportAsync(ThreadArchive archive)
+        {
+            var usernames = archive.Messages
+                .Select(m => m.Author)
+                .Prepend(archive.Thread.Author)
+                .Distinct(StringComparer.OrdinalIgnoreCase)
+                .ToList();
+
+            var users = new Dictionary<string, User>(StringComparer.OrdinalIgnoreCase);
+            foreach (var user in await _context.Users.Where(u => usernames.Contains(u.Username)).ToListAsync())
+            {
+                users.TryAdd(user.Username, user);
+            }
+
+            var unknownAuthors = usernames.Where(name => !users.ContainsKey(name)).ToList();
+            var placeholder = unknownAuthors.Count > 0 ? await GetPlaceholderUserAsync() : null;
+            User AuthorOf(string username) => users.GetValueOrDefault(username) ?? placeholder!;
+
+            var now = DateTime.UtcNow;
+            var thread = new Models.Thread
+            {
+                Title = archive.Thread.Title.Trim(),
+                User = AuthorOf(archive.Thread.Author),
+                CreatedAt = ToUtc(archive.Thread.CreatedAt) ?? now,
+                IsLocked = archive.Thread.IsLocked
+            };
+            _context.Threads.Add(thread);
+
+            // One SaveChanges for everything: EF inserts parents before their replies
+            var imported = new Dictionary<int, Message>();
+            foreach (var archived in archive.Messages)
+            {
+                var message = new Message
+                {
+                    Content = archived.Content,
+                    Thread = thread,
+                    User = AuthorOf(archived.Author),
+                    ParentMessage = archived.ParentId is int parentId ? imported[parentId] : null,
+                    CreatedAt = ToUtc(archived.CreatedAt) ?? now,
+                    UpdatedAt = ToUtc(archived.UpdatedAt),
+                    HiddenAt = ToUtc(archived.HiddenAt),
+                    HiddenReason = archived.HiddenAt != null ? archived.HiddenReason : null
+                };
+                imported[archived.Id] = message;
+                _context.Messages.Add(message);
+            }
+
+            await _context.SaveChangesAsync();
+
+            _logger.LogInformation("Imported thread {Id} with {Count} messages ({Unknown} unknown authors)",
+                thread.Id, imported.Count, unknownAuthors.Count);
+
+            return new ThreadImport(thread.Id, imported.Count, unknownAuthors);
+        }
+
+        // Created (and saved with the import) the first time it's needed
+        private async Task<User> GetPlaceholderUserAsync()
+        {
+            var user = await _context.Users.FirstOrDefaultAsync(u => u.Username == PlaceholderUsername);
+            if (user != null)
+            {
+                return user;
+            }
+
+            user = new User
+            {
+                Username = PlaceholderUsername,
+                Email = PlaceholderEmail,
+                PasswordHash = _passwordHasher.Hash(Convert.ToBase64String(RandomNumberGenerator.GetBytes(32))),
+                CreatedAt = DateTime.UtcNow
+            };
+            _context.Users.Add(user);
+            return user;
+        }
+
+        // Times with an offset arrive as local time; missing ones (default) as null
+        private static DateTime? ToUtc(DateTime? time)
+        {
+            if (time == null || time.Value == default)
+            {
+                return null;
+            }
+            return time.Value.Kind == DateTimeKind.Local ? time.Value.ToUniversalTime() : time.Value;
+        }
+
+        private static string FormatTime(DateTime time)
+        {
+            return time.ToString("yyyy-MM-dd HH:mm 'UTC'", CultureInfo.InvariantCulture);
+        }
+
+        private static string FormatSize(long bytes)
+        {
+            return bytes >= 1024 * 1024
+                ? string.Format(CultureInfo.InvariantCulture, "{0:0.#} MB", bytes / (1024.0 * 1024))
+                : string.Format(CultureInfo.InvariantCulture, "{0:0.#} KB", bytes / 1024.0);
+        }
+
+        // Names and titles are plain text - keep them from turning into Markdown
+        private static string Escape(string text)
+        {
+            var escaped = new StringBuilder(text.Length);
+            foreach (var c in text)
+            {
+                if ("\\`*_[]<>#|".Contains(c))
+                {
+                    escaped.Append('\\');
+                }
+                escaped.Append(c == '\n' || c == '\r' ? ' ' : c);
+            }
+            return escaped.ToString();
+        }
+    }
+}
@@ -0,0 +1,418 @@
+/**
+ * generate-api.js
+ *
+ * Generates src/ts/api/generated.ts - the API types and typed endpoint
+ * functions - from the backend's OpenAPI document.
+ *
+ * The backend writes its document to openapi/openapi.json on every build, so
+ * regenerating after a backend change is:
+ *   dotnet build ../Backend/MessageBoard.API && npm run api:generate
+ *
+ * Usage:
+ *   node scripts/generate-api.js                  Write generated.ts
+ *   node scripts/generate-api.js --check          Exit 1 if generated.ts is stale
+ *   node scripts/generate-api.js --build          Build the backend first (needs
+ *     the .NET SDK) and use the document it emits; with --check, also exit 1
+ *     if the checked-in openapi/openapi.json is stale, otherwise update it
+ *   node scripts/generate-api.js --input <file|url>
+ *     Read another document, e.g. a running backend's
+ *     http://localhost:5285/openapi/v1.json (combine with --check to compare
+ *     the live contract against the checked-in client)
+ *
+ * Only the parts of OpenAPI 3.0 the backend emits are supported: object,
+ * array, primitive and $ref schemas, `nullable`, enums, and path/query/body
+ * parameters (JSON or multipart/form-data bodies). Header parameters are left
+ * to the caller (ApiClient sends Idempotency-Key itself).
+ */
+
+const { spawnSync } = require("child_process");
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+
+const ROOT = path.resolve(__dirname, "..");
+const DEFAULT_INPUT = path.join(ROOT, "openapi", "openapi.json");
+const BACKEND_PROJECT = path.resolve(ROOT, "..", "Backend", "MessageBoard.API");
+const OUTPUT = path.join(ROOT, "src", "ts", "api", "generated.ts");
+
+const HTTP_METHODS = ["get", "post", "put", "patch", "delete"];
+
+// ==== Schema -> TypeScript ====
+
+function refName(ref) {
+  const prefix = "#/components/schemas/";
+  if (!ref.startsWith(prefix)) {
+    throw new Error(`Unsupported $ref ${ref}`);
+  }
+  return ref.slice(prefix.length);
+}
+
+function propertyKey(name) {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+function tsType(schema) {
+  const type = baseType(schema);
+  return schema.nullable ? `${type} | null` : type;
+}
+
+function baseType(schema) {
+  if (schema.$ref) return refName(schema.$ref);
+  if (schema.allOf && schema.allOf.length === 1) return tsType(schema.allOf[0]);
+  if (schema.oneOf || schema.anyOf) {
+    return (schema.oneOf || schema.anyOf).map(tsType).join(" | ");
+  }
+  if (schema.enum) return schema.enum.map((value) => JSON.stringify(value)).join(" | ");
+
+  switch (schema.type) {
+    case "integer":
+    case "number":
+      return "number";
+    case "string":
+      return schema.format === "binary" ? "Blob" : "string";
+    case "boolean":
+      return "boolean";
+    case "array": {
+      const item = tsType(schema.items);
+      return /[|&]/.test(item) ? `(${item})[]` : `${item}[]`;
+    }
+    case "object":
+      if (schema.properties) return inlineObject(schema);
+      if (schema.additionalProperties && schema.additionalProperties !== true) {
+        return `Record<string, ${tsType(schema.additionalProperties)}>`;
+      }
+      return "Record<string, unknown>";
+    default:
+      return "unknown";
+  }
+}
+
+function inlineObject(schema) {
+  const fields = Object.entries(schema.properties).map(
+    ([name, prop]) => `${propertyKey(name)}: ${tsType(prop)}`
+  );
+  return `{ ${fields.join("; ")} }`;
+}
+
+/**
+ * The server serializes every property, so response types list them all.
+ * Request bodies may leave out nullable properties the schema doesn't require.
+ */
+function renderInterface(name, schema, isInput) {
+  const required = new Set(schema.required || []);
+  const lines = [`export interface ${name} {`];
+  for (const [prop, propSchema] of Object.entries(schema.properties || {})) {
+    const optional = isInput && propSchema.nullable && !required.has(prop);
+    lines.push(`  ${propertyKey(prop)}${optional ? "?" : ""}: ${tsType(propSchema)};`);
+  }
+  lines.push("}");
+  return lines.join("\n");
+}
+
+function renderSchema(name, schema, isInput) {
+  if (schema.type === "object" || schema.properties) {
+    return renderInterface(name, schema, isInput);
+  }
+  return `export type ${name} = ${tsType(schema)};`;
+}
+
+/** Schemas reachable from request bodies (their nullable properties are optional) */
+function collectInputSchemas(doc) {
+  const schemas = doc.components?.schemas || {};
+  const found = new Set();
+
+  const visit = (schema) => {
+    if (!schema || typeof schema !== "object") return;
+    if (schema.$ref) {
+      const name = refName(schema.$ref);
+      if (found.has(name)) return;
+      found.add(name);
+      visit(schemas[name]);
+      return;
+    }
+    for (const value of Object.values(schema)) {
+      if (typeof value === "object") visit(value);
+    }
+  };
+
+  for (const { operation } of operations(doc)) {
+    for (const media of Object.values(operation.requestBody?.content || {})) {
+      visit(media.schema);
+    }
+  }
+  return found;
+}
+
+// ==== Operations -> endpoint functions ====
+
+function operations(doc) {
+  const result = [];
+  for (const [route, item] of Object.entries(doc.paths || {})) {
+    for (const method of HTTP_METHODS) {
+      const operation = item[method];
+      if (operation) {
+        result.push({ route, method, operation, shared: item.parameters || [] });
+      }
+    }
+  }
+  return result;
+}
+
+function camelCase(name) {
+  const words = name.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  return words
+    .map((word, i) => (i === 0 ? word[0].toLowerCase() : word[0].toUpperCase()) + word.slice(1))
+    .join("");
+}
+
+function pascalCase(name) {
+  const camel = camelCase(name);
+  return camel[0].toUpperCase() + camel.slice(1);
+}
+
+/** The JSON schema of the first successful response, or null for no JSON body */
+function successSchema(operation) {
+  const [status] = Object.keys(operation.responses || {}).filter((code) => /^2\d\d$/.test(code));
+  const content = status ? operation.responses[status].content : undefined;
+  if (!content) return { json: null, other: null };
+  if (content["application/json"]) return { json: content["application/json"].schema, other: null };
+  return { json: null, other: Object.keys(content)[0] };
+}
+
+/** The request body's schema, and whether it is sent as form fields rather than JSON */
+function bodySchema(operation) {
+  const content = operation.requestBody?.content;
+  if (!content) return null;
+  const media = content["application/json"] || content["application/*+json"];
+  if (media) return { schema: media.schema, multipart: false };
+  const form = content["multipart/form-data"];
+  if (form) return { schema: form.schema, multipart: true };
+  throw new Error(`Unsupported request body in ${operation.operationId}`);
+}
+
+function renderPath(route, pathParams) {
+  const expression = route.replace(/\{([^}]+)\}/g, (_match, name) => {
+    const param = pathParams.find((p) => p.name === name);
+    if (!param) throw new Error(`Path parameter {${name}} of ${route} is not declared`);
+    const ident = camelCase(name);
+    return tsType(param.schema) === "string" ? `\${encodeURIComponent(${ident})}` : `\${${ident}}`;
+  });
+  return expression === route ? JSON.stringify(route) : `\`${expression}\``;
+}
+
+function renderQueryInterface(name, params) {
+  const lines = [`export interface ${name} {`];
+  for (const param of params) {
+    const optional = param.required ? "" : "?";
+    const type = baseType(param.schema);
+    const note =
+      param.schema.default !== undefined
+        ? ` // Server default: ${JSON.stringify(param.schema.default)}`
+        : "";
+    lines.push(`  ${propertyKey(param.name)}${optional}: ${type};${note}`);
+  }
+  lines.push("}");
+  return lines.join("\n");
+}
+
+function renderOperations(doc) {
+  const queryTypes = [];
+  const endpoints = [];
+  const skipped = [];
+
+  for (const { route, method, operation, shared } of operations(doc)) {
+    const label = `${method.toUpperCase()} ${route}`;
+    if (!operation.operationId) throw new Error(`${label} has no operationId`);
+
+    const { json, other } = successSchema(operation);
+    if (other) {
+      skipped.push(`${label} (${other})`);
+      continue;
+    }
+
+    const params = [...shared, ...(operation.parameters || [])];
+    const pathParams = params.filter((p) => p.in === "path");
+    const queryParams = params.filter((p) => p.in === "query");
+    const body = bodySchema(operation);
+
+    const args = pathParams.map((p) => `${camelCase(p.name)}: ${tsType(p.schema)}`);
+    const request = [`method: "${method.toUpperCase()}"`, `path: ${renderPath(route, pathParams)}`];
+
+    if (body) {
+      args.push(`body: ${tsType(body.schema)}`);
+      request.push("body");
+      if (body.multipart) request.push("multipart: true");
+    }
+    if (queryParams.length > 0) {
+      const queryType = `${pascalCase(operation.operationId)}Query`;
+      queryTypes.push(renderQueryInterface(queryType, queryParams));
+      const anyRequired = queryParams.some((p) => p.required);
+      args.push(anyRequired ? `query: ${queryType}` : `query: ${queryType} = {}`);
+      request.push("query");
+    }
+    args.push("options?: Options");
+
+    const result = json ? tsType(json) : "void";
+    endpoints.push(
+      [
+        `    /** ${label} */`,
+        `    ${camelCase(operation.operationId)}: (${args.join(", ")}) =>`,
+        `      send<${result}>({ ${request.join(", ")} }, options),`,
+      ].join("\n")
+    );
+  }
+
+  return { queryTypes, endpoints, skipped };
+}
+
+// ==== Output ====
+
+function generate(doc) {
+  const schemas = doc.components?.schemas || {};
+  const inputs = collectInputSchemas(doc);
+  const { queryTypes, endpoints, skipped } = renderOperations(doc);
+
+  const sections = [
+    `/**
+ * generated.ts
+ *
+ * GENERATED by scripts/generate-api.js from openapi/openapi.json - do not edit.
+ * Regenerate with \`npm run api:generate\`; \`npm run api:check\` fails when
+ * this file no longer matches the backend's OpenAPI document.
+ *
+ * ${doc.info?.title ?? "API"} (${doc.info?.version ?? "unversioned"})
+ */`,
+    "// ==== Schemas ====",
+    ...Object.entries(schemas).map(([name, schema]) => renderSchema(name, schema, inputs.has(name))),
+    "// ==== Query Parameters ====",
+    ...queryTypes,
+    "// ==== Endpoints ====",
+    `/** A request built by an endpoint function, for the client to send */
+export interface ApiRequest {
+  method: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  path: string;
+  query?: object;
+  body?: unknown;
+  /** Send the body's fields as multipart/form-data instead of JSON */
+  multipart?: boolean;
+}`,
+    `/** Sends a request and resolves with the parsed response body */
+export type Send<Options> = <T>(request: ApiRequest, options?: Options) => Promise<T>;`,
+    `/**
+ * One typed function per operation, named after its operationId.
+ * ${skipped.length ? `Not generated (no JSON response): ${skipped.join(", ")}.` : "Every operation has a JSON response."}
+ */
+export function createEndpoints<Options>(send: Send<Options>) {
+  return {
+${endpoints.join("\n")}
+  };
+}`,
+    "export type Endpoints<Options> = ReturnType<typeof createEndpoints<Options>>;",
+  ];
+
+  return sections.join("\n\n") + "\n";
+}
+
+async function readDocument(input) {
+  if (/^https?:\/\//.test(input)) {
+    const response = await fetch(input);
+    if (!response.ok) throw new Error(`GET ${input} failed with ${response.status}`);
+    return response.json();
+  }
+  return JSON.parse(fs.readFileSync(input, "utf8"));
+}
+
+/**
+ * Build the backend with its OpenAPI document redirected to a temporary
+ * directory, and return the document's path. Catches controller and DTO
+ * changes whose document was never rebuilt or committed.
+ */
+function buildDocument() {
+  const outDir = fs.mkdtempSync(path.join(os.tmpdir(), "messageboard-openapi-"));
+  console.log(`Building ${path.relative(ROOT, BACKEND_PROJECT)}...`);
+  const result = spawnSync(
+    "dotnet",
+    ["build", BACKEND_PROJECT, "--nologo", "-v", "quiet", `-p:OpenApiDocumentsDirectory=${outDir}`],
+    { stdio: "inherit" }
+  );
+  if (result.error) {
+    throw new Error(`Could not run dotnet (${result.error.message}) - --build needs the .NET SDK`);
+  }
+  if (result.status !== 0) throw new Error("dotnet build failed");
+
+  const document = path.join(outDir, "openapi.json");
+  if (!fs.existsSync(document)) throw new Error(`The build wrote no ${document}`);
+  return document;
+}
+
+/** Same JSON, same text: ignores formatting differences between writers */
+function normalizedJson(file) {
+  return JSON.stringify(JSON.parse(fs.readFileSync(file, "utf8")), null, 2);
+}
+
+/** First line that differs, to point at the drift */
+function firstDifference(expected, actual) {
+  const a = expected.split("\n");
+  const b = actual.split("\n");
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    if (a[i] !== b[i]) {
+      return `line ${i + 1}:\n  expected: ${a[i] ?? "<end of file>"}\n  found:    ${b[i] ?? "<end of file>"}`;
+    }
+  }
+  return null;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const check = args.includes("--check");
+  const build = args.includes("--build");
+  const inputIndex = args.indexOf("--input");
+  if (build && inputIndex >= 0) throw new Error("Use either --build or --input, not both");
+  const input = build ? buildDocument() : inputIndex >= 0 ? args[inputIndex + 1] : DEFAULT_INPUT;
+  if (!input) throw new Error("--input needs a file or URL");
+
+  if (build) {
+    const checkedIn = path.relative(ROOT, DEFAULT_INPUT);
+    const built = normalizedJson(input);
+    const current = fs.existsSync(DEFAULT_INPUT) ? normalizedJson(DEFAULT_INPUT) : "";
+    const difference = firstDifference(built, current);
+    if (difference && check) {
+      console.error(`${checkedIn} does not match the backend (${difference})`);
+      console.error("Run `npm run api:generate -- --build` and commit the result.");
+      process.exit(1);
+    }
+    if (difference) {
+      fs.copyFileSync(input, DEFAULT_INPUT);
+      console.log(`Updated ${checkedIn} from the backend build`);
+    }
+  }
+
+  const source = build
+    ? "the backend build"
+    : /^https?:\/\//.test(input)
+      ? input
+      : path.relative(ROOT, input).replace(/\\/g, "/");
+  const doc = await readDocument(input);
+  const code = generate(doc);
+  const outputName = path.relative(ROOT, OUTPUT);
+
+  if (check) {
+    const current = fs.existsSync(OUTPUT) ? fs.readFileSync(OUTPUT, "utf8") : "";
+    const difference = firstDifference(code, current);
+    if (difference) {
+      console.error(`${outputName} does not match ${source} (${difference})`);
+      console.error("Run `npm run api:generate` and commit the result.");
+      process.exit(1);
+    }
+    console.log(`${outputName} matches ${source}`);
+    return;
+  }
+
+  fs.writeFileSync(OUTPUT, code);
+  console.log(`Wrote ${outputName} from ${source}`);
+}
+
+main().catch((error) => {
+  console.error(error.message);
+  process.exit(1);
+});
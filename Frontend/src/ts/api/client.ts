@@ -3,18 +3,28 @@
  *
  * Purpose:
  * Frontend API client for interacting with the backend message board service.
- * Provides typed interfaces that match C# backend models/DTOs,
- * manages JWT authentication, and exposes methods for authentication,
- * user management, threads, and messages.
+ * Re-exports the API types generated from the backend's OpenAPI document
+ * (./generated) under the app's names, manages JWT authentication, and
+ * exposes methods for authentication, user management, threads, and messages.
  *
  * Key Features:
  * - Centralized fetch wrapper with automatic token injection
- * - 401 Unauthorized handling via callback
- * - TypeScript interfaces for backend model parity
- * - All endpoints implemented as async methods returning typed data
+ * - Short-lived access tokens renewed with a rotating refresh token: a 401
+ *   triggers one shared refresh and the request is replayed
+ * - 401 Unauthorized handling via callback once the session can't be renewed
+ * - Typed ApiError subclasses carrying the server's message (see ./errors)
+ * - Per-request timeouts and AbortSignal passthrough on every endpoint
+ * - Exponential-backoff retries for idempotent GET requests only
+ * - 429 responses surface as RateLimitError with the server's Retry-After;
+ *   repeatable requests wait it out when it's short
+ * - Multipart uploads with progress reporting (sent via ./upload, since
+ *   fetch can't report upload progress)
+ * - Types and endpoint functions generated from the backend contract
+ *   (npm run api:generate; npm run api:check catches drift)
+ * - All endpoints exposed as async methods returning typed data
  *
  * Dependencies:
- * - Relies on browser `fetch` API
+ * - Relies on browser `fetch` API (and XMLHttpRequest for uploads)
  * - Requires backend to be running and accessible at API_BASE_URL
  *
  * Usage:
@@ -22,66 +32,225 @@
  *   apiClient.login({ username, password }).then(res => { ... });
  */
 
-// ==== Type Definitions (mirror backend C# models) ====
+import {
+  AbortedError,
+  ApiError,
+  createApiError,
+  ForbiddenError,
+  NetworkError,
+  RateLimitError,
+  readResponseBody,
+  TimeoutError,
+  UnauthorizedError,
+} from "./errors";
+import { ApiRequest, createEndpoints, Endpoints } from "./generated";
+import type * as schema from "./generated";
+import { UploadProgress, UploadTransport, xhrUpload } from "./upload";
 
-export interface User {
-  id: number;
-  username: string;
-  email: string;
-  createdAt: string;
-}
+export * from "./errors";
+export type { UploadProgress } from "./upload";
 
-export interface Thread {
-  id: number;
-  title: string;
-  userId: number;
-  user: User;
-  createdAt: string;
-  messageCount?: number;
-}
+// ==== Type Definitions (generated from the backend's OpenAPI document) ====
 
-export interface Message {
-  id: number;
-  content: string;
-  threadId: number;
-  userId: number;
-  user: User;
-  createdAt: string;
-}
+/** Values the backend issues in the JWT "role" claim (see UserRoles) */
+export type UserRole = "User" | "Moderator" | "Admin";
+
+/** Public view of a user, as embedded in threads and search results (no email) */
+export type UserSummary = schema.UserSummaryDto;
 
-// ==== Auth DTOs (mirror backend C# DTOs) ====
+/** A message's author, with their ban status (no email) */
+export type MessageAuthor = schema.User;
 
-export interface RegisterRequest {
-  username: string;
-  email: string;
-  password: string;
+/** The logged-in user's own account */
+export type User = schema.UserDto;
+
+/** Public profile from GET /api/users/{id}; `bio` and `avatarUrl` are null until set */
+export type UserProfile = schema.UserProfileDto;
+
+/** Bio and avatar edits; null clears a field (the API rejects an empty `avatarUrl`) */
+export type UpdateProfileRequest = schema.UpdateProfileRequest;
+
+/**
+ * A thread with its count of visible messages; `isLocked` threads reject new
+ * messages. For a logged-in user it also carries their read marker and how
+ * many messages from others came after it (both null otherwise).
+ */
+export type Thread = schema.ThreadDto;
+
+/**
+ * A thread and its messages (oldest first), for archiving or importing into
+ * another board. Authors are usernames; message ids only link replies
+ * (`parentId`) within the archive.
+ */
+export type ThreadArchive = schema.ThreadArchive;
+
+/** An imported thread; posts by `unknownAuthors` (no such user here) went to a placeholder user */
+export type ThreadImportResult = schema.ThreadImportResult;
+
+/**
+ * A message. `parentMessageId` is the message it replies to, `updatedAt` is
+ * set once edited, `hiddenAt` once hidden by a moderator, and
+ * `reactionCounts` lists only emoji with at least one reaction.
+ * `mentions` are the users its @usernames notified when it was posted.
+ * `attachments` are the files posted with it, in upload order.
+ */
+export type Message = schema.Message;
+
+// ==== Message DTOs ====
+
+/** The fixed reaction set, in display order (mirrors backend ReactionEmoji.Allowed) */
+export const REACTION_EMOJI = ["👍", "❤️", "😂", "😮", "😢", "🎉"] as const;
+
+/** Total reactions of one emoji on a message; `reactedByMe` is always false in stream events */
+export type ReactionCount = schema.ReactionCount;
+
+/** One page of messages; pass `nextCursor` back to fetch the next page */
+export type MessagePage = schema.MessagePageResponse;
+
+/** A user @mentioned in a message; render `@username` as a link to their profile */
+export type MessageMention = schema.MessageMention;
+
+/**
+ * A file uploaded for a message. Images (`contentType` "image/...") are shown
+ * as thumbnails, anything else as a download link; see `attachmentUrl`.
+ */
+export type Attachment = schema.AttachmentDto;
+
+/** A previous version of an edited message; `editedAt` is when it was replaced */
+export type MessageRevision = schema.MessageRevisionDto;
+
+/** `threaded` pages through top-level posts, each followed by all of its replies */
+export type MessageQuery = schema.GetMessagesQuery;
+
+/**
+ * Pushed over the message stream (GET /api/messages/stream). `type` is
+ * "created", "updated", "deleted" or "reactions"; `message` is null for the
+ * last two, `reactionCounts` is only set for "reactions".
+ */
+export type MessageStreamEvent = schema.MessageEvent;
+
+// ==== Search DTOs ====
+
+/**
+ * `author` is an exact username; `from`/`to` are inclusive "YYYY-MM-DD" dates.
+ * The backend rejects a search without text, so `q` is required here.
+ */
+export type SearchQuery = schema.SearchQuery & { q: string };
+
+/** A matched term within `SearchResult.snippet` */
+export type SearchHighlight = schema.SearchHighlight;
+
+/**
+ * A matching message (`type` "message"), or a thread whose title matches
+ * (`type` "thread", no `messageId`). `snippet` is plain text - escape it.
+ */
+export type SearchResult = schema.SearchResult;
+
+export type SearchResponse = schema.SearchResponse;
+
+// ==== Moderation DTOs ====
+
+/** A user as returned by the moderation endpoints */
+export type ModeratedUser = schema.ModeratedUserDto;
+
+// ==== Notification DTOs ====
+
+/**
+ * An inbox entry: `actor` mentioned the user in message `messageId`
+ * (`type` "mention"). `snippet` is plain text - escape it.
+ */
+export type Notification = schema.NotificationDto;
+
+/** The newest notifications and how many of all notifications are unread */
+export type NotificationList = schema.NotificationListResponse;
+
+// ==== Auth DTOs ====
+
+export type RegisterRequest = schema.RegisterRequest;
+
+export type LoginRequest = schema.LoginRequest;
+
+export type AuthResponse = schema.AuthResponse;
+
+// ==== Request Options ====
+
+/** Options accepted by every endpoint method */
+export interface RequestOptions {
+  /** Cancel the request (and any pending retries) */
+  signal?: AbortSignal;
+  /** Override the client's default timeout for this call */
+  timeoutMs?: number;
+  /** Override the retry policy for this call; `false` disables retries */
+  retry?: Partial<RetryPolicy> | false;
+  /**
+   * Sent as the Idempotency-Key header. The server treats repeats of a key
+   * as the same request, so writes that carry one are retried like GETs.
+   */
+  idempotencyKey?: string;
+  /** Report how much of the request body has been sent (uses the `upload` transport) */
+  onUploadProgress?: (progress: UploadProgress) => void;
 }
 
-export interface LoginRequest {
-  username: string;
-  password: string;
+export interface RetryPolicy {
+  /** Extra attempts after the first one */
+  retries: number;
+  /** Delay before the first retry; doubled for each further retry */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff delay */
+  maxDelayMs: number;
+  /** Randomize each delay between 50% and 100% to avoid retry bursts */
+  jitter: boolean;
 }
 
-export interface AuthResponse {
-  success: boolean;
-  message: string;
-  token?: string;
-  user?: User;
+export interface ApiClientConfig {
+  timeoutMs: number;
+  retry: RetryPolicy;
+  /** fetch implementation (injectable for tests) */
+  fetch: typeof fetch;
+  /** Transport for requests that report upload progress (injectable for tests) */
+  upload: UploadTransport;
 }
 
+// Only these methods are safe to repeat without side effects
+const RETRYABLE_METHODS = ["GET", "HEAD"];
+
+// A 401 from these means bad credentials, not an expired session
+const AUTH_ENDPOINT_PREFIX = "/api/auth/";
+
+// Large files on slow connections take far longer than the default timeout
+const UPLOAD_TIMEOUT_MS = 5 * 60_000;
+
 // ==== API Configuration ====
 
 const API_BASE_URL = "http://localhost:5285";
 
+const DEFAULT_CONFIG: ApiClientConfig = {
+  timeoutMs: 10_000,
+  retry: { retries: 2, baseDelayMs: 500, maxDelayMs: 5_000, jitter: true },
+  fetch: (input, init) => fetch(input, init),
+  upload: xhrUpload,
+};
+
 // ==== API Client Class ====
 
-class ApiClient {
+export class ApiClient {
   private baseUrl: string;
+  private config: ApiClientConfig;
   private _token: string | undefined;
+  private _refreshToken: string | undefined;
+  // The refresh in flight, shared by every request that hit a 401 meanwhile
+  private _refreshing: Promise<boolean> | null = null;
   private _onUnauthorized: (() => void) | undefined;
+  private _onSessionRefreshed: ((session: AuthResponse) => void) | undefined;
+  // Generated endpoint functions, sent through request() below
+  private readonly endpoints: Endpoints<RequestOptions>;
 
-  constructor(baseUrl: string) {
+  constructor(baseUrl: string, config: Partial<ApiClientConfig> = {}) {
     this.baseUrl = baseUrl;
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.endpoints = createEndpoints(<T>(request: ApiRequest, options?: RequestOptions) =>
+      this.send<T>(request, options)
+    );
   }
 
   // ===== Token Management =====
@@ -91,26 +260,187 @@ class ApiClient {
     this._token = token;
   }
 
-  /** Set a callback to run when the API responds with 401 Unauthorized */
+  /** Set or clear the refresh token used to renew an expired access token */
+  setRefreshToken(token: string | undefined) {
+    this._refreshToken = token;
+  }
+
+  /**
+   * Set a callback to run when the API responds with 401 Unauthorized and
+   * the session could not be refreshed
+   */
   onUnauthorized(callback: () => void) {
     this._onUnauthorized = callback;
   }
 
+  /** Set a callback to run with the new tokens after each successful refresh */
+  onSessionRefreshed(callback: (session: AuthResponse) => void) {
+    this._onSessionRefreshed = callback;
+  }
+
+  /**
+   * Trade the refresh token for a new access token and refresh token.
+   * Resolves false when there is no session to renew (no refresh token, or
+   * the server rejected it); network failures reject as usual. Concurrent
+   * callers share one request - refresh tokens are single use, so a second
+   * request with the same token would be rejected as a replay.
+   */
+  refreshSession(): Promise<boolean> {
+    if (!this._refreshing) {
+      this._refreshing = this.performRefresh().finally(() => {
+        this._refreshing = null;
+      });
+    }
+    return this._refreshing;
+  }
+
+  private async performRefresh(): Promise<boolean> {
+    const refreshToken = this._refreshToken;
+    if (!refreshToken) return false;
+
+    let session: AuthResponse;
+    try {
+      session = await this.endpoints.refresh({ refreshToken }, { retry: false });
+    } catch (error) {
+      // Expired, revoked or banned - the refresh token is no good any more
+      if (error instanceof UnauthorizedError || error instanceof ForbiddenError) {
+        if (this._refreshToken === refreshToken) this._refreshToken = undefined;
+        return false;
+      }
+      throw error;
+    }
+
+    // Logged out (or into another account) while the refresh was in flight
+    if (this._refreshToken !== refreshToken || !session.token || !session.refreshToken) {
+      return false;
+    }
+
+    this._token = session.token;
+    this._refreshToken = session.refreshToken;
+    this._onSessionRefreshed?.(session);
+    return true;
+  }
+
   // ===== Internal Request Wrapper =====
 
+  /** Send a request built by a generated endpoint function */
+  private send<T>(request: ApiRequest, options?: RequestOptions): Promise<T> {
+    const init: RequestInit = { method: request.method };
+    if (request.body !== undefined) {
+      init.body = request.multipart
+        ? formData(request.body as Record<string, Blob | string>)
+        : JSON.stringify(request.body);
+    }
+    return this.request<T>(`${request.path}${queryString(request.query)}`, init, options);
+  }
+
   /**
    * Perform a fetch request with automatic JSON parsing,
    * error handling, and Authorization header injection.
+   *
+   * A 401 on an authenticated request refreshes the session and replays the
+   * request once; if the session can't be renewed the onUnauthorized
+   * callback runs and the 401 is thrown.
+   *
+   * Throws an ApiError subclass describing the failure:
+   * NetworkError when no response arrives, TimeoutError when it arrives too
+   * late, AbortedError when the caller cancels, otherwise one matching the status.
    */
   private async request<T>(
     endpoint: string,
-    options: RequestInit = {}
+    init: RequestInit = {},
+    options: RequestOptions = {}
+  ): Promise<T> {
+    const sentToken = this._token;
+    try {
+      return await this.requestWithRetry<T>(endpoint, init, options);
+    } catch (error) {
+      if (!(error instanceof UnauthorizedError) || endpoint.startsWith(AUTH_ENDPOINT_PREFIX)) {
+        throw error;
+      }
+
+      if (sentToken && (await this.renewToken(sentToken))) {
+        console.log(`Session refreshed - replaying ${endpoint}`);
+        try {
+          return await this.requestWithRetry<T>(endpoint, init, options);
+        } catch (replayError) {
+          if (replayError instanceof UnauthorizedError) this.handleUnauthorized();
+          throw replayError;
+        }
+      }
+
+      this.handleUnauthorized();
+      throw error;
+    }
+  }
+
+  /** Whether a fresh access token is available, refreshing unless another request already did */
+  private async renewToken(rejectedToken: string): Promise<boolean> {
+    if (this._token && this._token !== rejectedToken) return true;
+    return this.refreshSession();
+  }
+
+  private handleUnauthorized() {
+    console.log("Unauthorized - calling logout callback");
+    if (this._onUnauthorized) {
+      this._onUnauthorized();
+    }
+  }
+
+  /**
+   * GET/HEAD requests (and writes with an idempotency key) that fail with a
+   * network error, timeout or 5xx are retried with exponential backoff;
+   * other writes never are. A 429 is retried after its Retry-After when
+   * that's no longer than the policy's maximum delay.
+   */
+  private async requestWithRetry<T>(
+    endpoint: string,
+    init: RequestInit,
+    options: RequestOptions
+  ): Promise<T> {
+    const method = (init.method ?? "GET").toUpperCase();
+    const policy = this.resolveRetryPolicy(method, options);
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.attempt<T>(endpoint, init, options);
+      } catch (error) {
+        if (attempt >= policy.retries || !this.isRetryable(error, policy)) {
+          console.error(`API Error for ${endpoint}:`, error);
+          throw error;
+        }
+
+        const delay =
+          error instanceof RateLimitError
+            ? error.retryAfterSeconds * 1000
+            : this.backoffDelay(policy, attempt);
+        console.warn(
+          `API request ${method} ${endpoint} failed, retrying in ${delay}ms ` +
+            `(attempt ${attempt + 2} of ${policy.retries + 1})`
+        );
+        await this.sleep(delay, endpoint, options.signal);
+      }
+    }
+  }
+
+  /** A single fetch attempt bounded by the timeout and caller signal */
+  private async attempt<T>(
+    endpoint: string,
+    init: RequestInit,
+    options: RequestOptions
   ): Promise<T> {
     const url = `${this.baseUrl}${endpoint}`;
+    const timeoutMs = options.timeoutMs ?? this.config.timeoutMs;
+    const callerSignal = options.signal;
+
+    if (callerSignal?.aborted) {
+      throw new AbortedError(endpoint);
+    }
 
     const headers: Record<string, string> = {
-      "Content-Type": "application/json",
-      ...(options.headers as Record<string, string>),
+      // FormData bodies get a multipart Content-Type (with its boundary) from the browser
+      ...(init.body instanceof FormData ? {} : { "Content-Type": "application/json" }),
+      ...(init.headers as Record<string, string>),
     };
 
     // Attach Bearer token if available
@@ -118,125 +448,419 @@ class ApiClient {
       headers.Authorization = `Bearer ${this._token}`;
     }
 
+    if (options.idempotencyKey) {
+      headers["Idempotency-Key"] = options.idempotencyKey;
+    }
+
+    // One controller per attempt, aborted by either the timeout or the caller
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const onCallerAbort = () => controller.abort();
+    callerSignal?.addEventListener("abort", onCallerAbort);
+
     const config: RequestInit = {
       headers,
-      ...options,
+      ...init,
+      signal: controller.signal,
     };
 
     try {
       console.log(`API Request: ${config.method || "GET"} ${url}`);
-      const response = await fetch(url, config);
 
-      // Handle unauthorized access
-      if (response.status === 401) {
-        console.log("Unauthorized - calling logout callback");
-        if (this._onUnauthorized) {
-          this._onUnauthorized();
-        }
-        throw new Error("Unauthorized");
+      let response: Response;
+      try {
+        response = options.onUploadProgress
+          ? await this.config.upload(url, config, options.onUploadProgress)
+          : await this.config.fetch(url, config);
+      } catch (cause) {
+        if (callerSignal?.aborted) throw new AbortedError(endpoint);
+        if (timedOut) throw new TimeoutError(endpoint, timeoutMs);
+        throw new NetworkError(endpoint, cause);
       }
 
-      // Handle non-2xx errors
+      // Handle non-2xx errors with the server's own message (401s are handled by request())
       if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+        throw await createApiError(response, endpoint);
       }
 
-      // Return parsed JSON data
-      const data = await response.json();
+      // Return parsed JSON data (undefined for empty bodies such as 204)
+      const data = (await readResponseBody(response)) as T;
+      if (callerSignal?.aborted) throw new AbortedError(endpoint);
+      if (timedOut) throw new TimeoutError(endpoint, timeoutMs);
+
       console.log(`API Response:`, data);
       return data;
-    } catch (error) {
-      console.error(`API Error for ${endpoint}:`, error);
-      throw error;
+    } finally {
+      clearTimeout(timer);
+      callerSignal?.removeEventListener("abort", onCallerAbort);
+    }
+  }
+
+  private resolveRetryPolicy(method: string, options: RequestOptions): RetryPolicy {
+    const override = options.retry;
+    const repeatable = RETRYABLE_METHODS.includes(method) || !!options.idempotencyKey;
+    if (override === false || !repeatable) {
+      return { ...this.config.retry, retries: 0 };
     }
+    return { ...this.config.retry, ...override };
+  }
+
+  /** Network failures, timeouts, 5xx responses and short rate limits are worth another try */
+  private isRetryable(error: unknown, policy: RetryPolicy): boolean {
+    if (error instanceof AbortedError) return false;
+    if (error instanceof RateLimitError) return error.retryAfterSeconds * 1000 <= policy.maxDelayMs;
+    if (error instanceof NetworkError) return true;
+    return error instanceof ApiError && (error.status >= 500 || error.status === 408);
+  }
+
+  private backoffDelay(policy: RetryPolicy, attempt: number): number {
+    const delay = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+    return policy.jitter ? Math.round(delay * (0.5 + Math.random() / 2)) : delay;
+  }
+
+  /** Wait between retries; rejects early if the caller aborts */
+  private sleep(ms: number, endpoint: string, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new AbortedError(endpoint));
+        return;
+      }
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new AbortedError(endpoint));
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
   }
 
   // ===== Authentication Endpoints =====
 
   /** Create a new user account */
-  async register(userData: RegisterRequest): Promise<AuthResponse> {
-    return this.request<AuthResponse>("/api/auth/register", {
-      method: "POST",
-      body: JSON.stringify(userData),
-    });
+  async register(userData: RegisterRequest, options?: RequestOptions): Promise<AuthResponse> {
+    return this.endpoints.register(userData, options);
   }
 
-  /** Authenticate a user and receive a JWT token */
-  async login(credentials: LoginRequest): Promise<AuthResponse> {
-    return this.request<AuthResponse>("/api/auth/login", {
-      method: "POST",
-      body: JSON.stringify(credentials),
-    });
+  /** Authenticate a user and receive a JWT token and refresh token */
+  async login(credentials: LoginRequest, options?: RequestOptions): Promise<AuthResponse> {
+    return this.endpoints.login(credentials, options);
+  }
+
+  /**
+   * Forget both tokens and revoke the refresh token server-side. The tokens
+   * are cleared before the request, so a failed call still ends the session
+   * locally (the access token simply expires).
+   */
+  async logout(options?: RequestOptions): Promise<void> {
+    const refreshToken = this._refreshToken;
+    this._token = undefined;
+    this._refreshToken = undefined;
+    if (refreshToken) {
+      await this.endpoints.logout({ refreshToken }, options);
+    }
   }
 
   // ===== Miscellaneous =====
 
   /** Example endpoint to verify connectivity to backend */
-  async testConnection(): Promise<any> {
-    return this.request("/weatherforecast");
+  async testConnection(options?: RequestOptions): Promise<schema.WeatherForecast[]> {
+    return this.endpoints.getWeatherForecast(options);
   }
 
   // ===== User Endpoints =====
 
-  async getUsers(): Promise<User[]> {
-    return this.request<User[]>("/api/users");
+  /**
+   * Users' public profiles by name (accounts are created via register);
+   * `q` keeps only names starting with it, e.g. for @mention autocomplete
+   */
+  async getUsers(
+    query: schema.GetUsersQuery = {},
+    options?: RequestOptions
+  ): Promise<UserSummary[]> {
+    return this.endpoints.getUsers(query, options);
   }
 
-  async createUser(userData: {
-    username: string;
-    email: string;
-  }): Promise<User> {
-    return this.request<User>("/api/users", {
-      method: "POST",
-      body: JSON.stringify(userData),
-    });
+  async getUser(id: number, options?: RequestOptions): Promise<UserProfile> {
+    return this.endpoints.getUser(id, options);
+  }
+
+  /** Threads a user started, newest first */
+  async getUserThreads(id: number, options?: RequestOptions): Promise<Thread[]> {
+    return this.endpoints.getUserThreads(id, options);
+  }
+
+  // ===== Account Settings (the logged-in user's own account only) =====
+
+  async updateProfile(
+    id: number,
+    profile: UpdateProfileRequest,
+    options?: RequestOptions
+  ): Promise<UserProfile> {
+    return this.endpoints.updateProfile(id, profile, options);
+  }
+
+  /** Change the account's email; the server checks `currentPassword` */
+  async changeEmail(
+    id: number,
+    email: string,
+    currentPassword: string,
+    options?: RequestOptions
+  ): Promise<User> {
+    return this.endpoints.changeEmail(id, { email, currentPassword }, options);
+  }
+
+  /**
+   * Change the password. The server signs out every other session and
+   * returns fresh tokens for this one.
+   */
+  async changePassword(
+    id: number,
+    currentPassword: string,
+    newPassword: string,
+    options?: RequestOptions
+  ): Promise<AuthResponse> {
+    return this.endpoints.changePassword(id, { currentPassword, newPassword }, options);
   }
 
   // ===== Thread Endpoints =====
 
-  async getThreads(): Promise<Thread[]> {
-    return this.request<Thread[]>("/api/threads");
+  async getThreads(options?: RequestOptions): Promise<Thread[]> {
+    return this.endpoints.getThreads(options);
   }
 
-  async createThread(threadData: {
-    title: string;
-    userId: number;
-  }): Promise<Thread> {
-    return this.request<Thread>("/api/threads", {
-      method: "POST",
-      body: JSON.stringify(threadData),
-    });
+  /** Create a thread (author derived from JWT on backend) */
+  async createThread(
+    threadData: schema.CreateThreadRequest,
+    options?: RequestOptions
+  ): Promise<Thread> {
+    return this.endpoints.createThread(threadData, options);
+  }
+
+  async getThread(id: number, options?: RequestOptions): Promise<Thread> {
+    return this.endpoints.getThread(id, options);
+  }
+
+  /** Rename a thread (owner or moderator) */
+  async updateThread(
+    id: number,
+    threadData: schema.UpdateThreadRequest,
+    options?: RequestOptions
+  ): Promise<Thread> {
+    return this.endpoints.updateThread(id, threadData, options);
+  }
+
+  /** Delete a thread and all of its messages (owner or moderator) */
+  async deleteThread(id: number, options?: RequestOptions): Promise<void> {
+    return this.endpoints.deleteThread(id, options);
+  }
+
+  /**
+   * Move the current user's read marker in a thread up to a message.
+   * Returns the thread with its new unread count.
+   */
+  async markThreadRead(
+    id: number,
+    lastReadMessageId: number,
+    options?: RequestOptions
+  ): Promise<Thread> {
+    return this.endpoints.markThreadRead(id, { lastReadMessageId }, options);
+  }
+
+  /** Mark every thread read for the current user */
+  async markAllThreadsRead(options?: RequestOptions): Promise<void> {
+    return this.endpoints.markAllThreadsRead(options);
   }
 
-  async getThread(id: number): Promise<Thread> {
-    return this.request<Thread>(`/api/threads/${id}`);
+  /** A thread as a JSON archive (moderators' archives include hidden messages) */
+  async exportThread(id: number, options?: RequestOptions): Promise<ThreadArchive> {
+    return this.endpoints.exportThread(id, options);
+  }
+
+  /** A thread as a Markdown transcript (plain text, so not a generated endpoint) */
+  async exportThreadMarkdown(id: number, options?: RequestOptions): Promise<string> {
+    return this.send<string>({ method: "GET", path: `/api/threads/${id}/export/markdown` }, options);
+  }
+
+  /** Recreate an archived thread as a new thread (Admin only) */
+  async importThread(
+    archive: ThreadArchive,
+    options?: RequestOptions
+  ): Promise<ThreadImportResult> {
+    return this.endpoints.importThread(archive, options);
   }
 
   // ===== Message Endpoints =====
 
-  async getMessages(threadId?: number): Promise<Message[]> {
-    const endpoint = threadId
-      ? `/api/messages?threadId=${threadId}`
-      : "/api/messages";
-    return this.request<Message[]>(endpoint);
-  }
-
-  /** Create a message (userId derived from JWT on backend) */
-  async createMessage(messageData: {
-    content: string;
-    threadId: number;
-  }): Promise<Message> {
-    return this.request<Message>("/api/messages", {
-      method: "POST",
-      body: JSON.stringify(messageData),
-    });
+  /** Fetch one page of messages, ordered server-side by `sort` */
+  async getMessages(query: MessageQuery = {}, options?: RequestOptions): Promise<MessagePage> {
+    return this.endpoints.getMessages(query, options);
   }
 
-  async deleteMessage(id: number): Promise<void> {
-    return this.request<void>(`/api/messages/${id}`, {
-      method: "DELETE",
-    });
+  async getMessage(id: number, options?: RequestOptions): Promise<Message> {
+    return this.endpoints.getMessage(id, options);
+  }
+
+  /**
+   * Create a message (userId derived from JWT on backend). Pass
+   * `options.idempotencyKey` to make resending the same post safe.
+   */
+  async createMessage(
+    messageData: schema.CreateMessageRequest,
+    options?: RequestOptions
+  ): Promise<Message> {
+    return this.endpoints.postMessage(messageData, options);
+  }
+
+  /** Edit a message (author only - ownership checked from the JWT) */
+  async updateMessage(
+    id: number,
+    messageData: schema.UpdateMessageRequest,
+    options?: RequestOptions
+  ): Promise<Message> {
+    return this.endpoints.updateMessage(id, messageData, options);
+  }
+
+  /** Previous versions of a message, newest first */
+  async getMessageRevisions(id: number, options?: RequestOptions): Promise<MessageRevision[]> {
+    return this.endpoints.getMessageRevisions(id, options);
+  }
+
+  /** URL of the Server-Sent Events stream for a thread's message events */
+  messageStreamUrl(threadId: number): string {
+    return `${this.baseUrl}/api/messages/stream?threadId=${threadId}`;
+  }
+
+  async deleteMessage(id: number, options?: RequestOptions): Promise<void> {
+    return this.endpoints.deleteMessage(id, options);
+  }
+
+  /** Add the current user's reaction (no-op if already there); returns the new counts */
+  async addReaction(
+    messageId: number,
+    emoji: string,
+    options?: RequestOptions
+  ): Promise<ReactionCount[]> {
+    return this.endpoints.addReaction(messageId, emoji, options);
+  }
+
+  /** Remove the current user's reaction; returns the new counts */
+  async removeReaction(
+    messageId: number,
+    emoji: string,
+    options?: RequestOptions
+  ): Promise<ReactionCount[]> {
+    return this.endpoints.removeReaction(messageId, emoji, options);
+  }
+
+  // ===== Attachment Endpoints =====
+
+  /**
+   * Upload a file to post with a message (pass its id in `attachmentIds`).
+   * `onProgress` runs as the file is sent. The server checks the size and
+   * type limits and answers 400 with the reason.
+   */
+  async uploadAttachment(
+    file: File,
+    onProgress: (progress: UploadProgress) => void = () => {},
+    options?: RequestOptions
+  ): Promise<Attachment> {
+    return this.endpoints.uploadAttachment(
+      { file },
+      { timeoutMs: UPLOAD_TIMEOUT_MS, ...options, onUploadProgress: onProgress }
+    );
+  }
+
+  /** Discard an upload that hasn't been posted with a message yet */
+  async deleteAttachment(id: number, options?: RequestOptions): Promise<void> {
+    return this.endpoints.deleteAttachment(id, options);
+  }
+
+  /** URL of an attachment's file, for an image's src or a download link */
+  attachmentUrl(id: number): string {
+    return `${this.baseUrl}/api/attachments/${id}`;
+  }
+
+  // ===== Search Endpoints =====
+
+  /** Search message content and thread titles, newest first */
+  async search(query: SearchQuery, options?: RequestOptions): Promise<SearchResponse> {
+    return this.endpoints.search(query, options);
+  }
+
+  // ===== Notification Endpoints (the logged-in user's own inbox) =====
+
+  /** Newest notifications first, with the total unread count */
+  async getNotifications(limit?: number, options?: RequestOptions): Promise<NotificationList> {
+    return this.endpoints.getNotifications(limit === undefined ? {} : { limit }, options);
+  }
+
+  async markNotificationRead(id: number, options?: RequestOptions): Promise<Notification> {
+    return this.endpoints.markNotificationRead(id, options);
+  }
+
+  async markAllNotificationsRead(options?: RequestOptions): Promise<void> {
+    return this.endpoints.markAllNotificationsRead(options);
+  }
+
+  // ===== Moderation Endpoints (Moderator/Admin role) =====
+
+  async lockThread(id: number, options?: RequestOptions): Promise<Thread> {
+    return this.endpoints.lockThread(id, options);
+  }
+
+  async unlockThread(id: number, options?: RequestOptions): Promise<Thread> {
+    return this.endpoints.unlockThread(id, options);
+  }
+
+  /** Soft-hide a message; it stays visible to moderators only */
+  async hideMessage(id: number, reason: string, options?: RequestOptions): Promise<Message> {
+    return this.endpoints.hideMessage(id, { reason }, options);
+  }
+
+  async unhideMessage(id: number, options?: RequestOptions): Promise<Message> {
+    return this.endpoints.unhideMessage(id, options);
+  }
+
+  async banUser(id: number, reason: string, options?: RequestOptions): Promise<ModeratedUser> {
+    return this.endpoints.banUser(id, { reason }, options);
+  }
+
+  async unbanUser(id: number, options?: RequestOptions): Promise<ModeratedUser> {
+    return this.endpoints.unbanUser(id, options);
+  }
+
+  /** Change a user's role (Admin only); applies from their next token refresh */
+  async setUserRole(id: number, role: UserRole, options?: RequestOptions): Promise<ModeratedUser> {
+    return this.endpoints.updateRole(id, { role }, options);
+  }
+}
+
+/** Query string for a generated request, skipping unset parameters */
+function queryString(query: object | undefined): string {
+  const params = new URLSearchParams();
+  for (const [name, value] of Object.entries(query ?? {})) {
+    if (value !== undefined && value !== null && value !== "") {
+      params.set(name, String(value));
+    }
+  }
+  const qs = params.toString();
+  return qs ? `?${qs}` : "";
+}
+
+/** Multipart form for a generated upload request (files keep their names) */
+function formData(fields: Record<string, Blob | string>): FormData {
+  const form = new FormData();
+  for (const [name, value] of Object.entries(fields)) {
+    form.append(name, value);
   }
+  return form;
 }
 
 // Export a single configured instance
@@ -0,0 +1,244 @@
+/**
+ * errors.ts
+ *
+ * Purpose:
+ * Typed error hierarchy thrown by the API client, so callers can react to
+ * the kind of failure (offline, logged out, not found, invalid input, ...)
+ * and show the server's own message instead of a generic one.
+ *
+ * Hierarchy:
+ *   ApiError               - any non-2xx response (base class)
+ *   ├─ NetworkError        - request never got a response (status 0)
+ *   │  └─ TimeoutError     - no response within the configured timeout
+ *   ├─ AbortedError        - cancelled by the caller's AbortSignal
+ *   ├─ UnauthorizedError   - 401
+ *   ├─ ForbiddenError      - 403
+ *   ├─ NotFoundError       - 404
+ *   ├─ ValidationError     - 400 / 422, with per-field errors when provided
+ *   ├─ RateLimitError      - 429, with the server's Retry-After
+ *   └─ ServerError         - 5xx
+ *
+ * Response bodies are parsed from JSON, application/problem+json
+ * (ASP.NET ProblemDetails / ValidationProblemDetails) or plain text.
+ */
+
+/** Field name (camelCase, matching request DTOs) -> error messages */
+export type FieldErrors = Record<string, string[]>;
+
+export class ApiError extends Error {
+  readonly status: number;
+  readonly endpoint: string;
+  readonly body: unknown;
+
+  constructor(message: string, status: number, endpoint: string, body?: unknown) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.endpoint = endpoint;
+    this.body = body;
+  }
+}
+
+export class NetworkError extends ApiError {
+  constructor(
+    endpoint: string,
+    cause?: unknown,
+    message = "Cannot reach the server. Check your connection."
+  ) {
+    super(message, 0, endpoint, cause);
+    this.name = "NetworkError";
+  }
+}
+
+export class TimeoutError extends NetworkError {
+  readonly timeoutMs: number;
+
+  constructor(endpoint: string, timeoutMs: number) {
+    super(endpoint, undefined, "The server took too long to respond.");
+    this.name = "TimeoutError";
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+export class AbortedError extends ApiError {
+  constructor(endpoint: string) {
+    super("The request was cancelled.", 0, endpoint);
+    this.name = "AbortedError";
+  }
+}
+
+export class UnauthorizedError extends ApiError {
+  constructor(message: string, endpoint: string, body?: unknown) {
+    super(message, 401, endpoint, body);
+    this.name = "UnauthorizedError";
+  }
+}
+
+export class ForbiddenError extends ApiError {
+  constructor(message: string, endpoint: string, body?: unknown) {
+    super(message, 403, endpoint, body);
+    this.name = "ForbiddenError";
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message: string, endpoint: string, body?: unknown) {
+    super(message, 404, endpoint, body);
+    this.name = "NotFoundError";
+  }
+}
+
+export class ValidationError extends ApiError {
+  readonly fieldErrors: FieldErrors;
+
+  constructor(
+    message: string,
+    status: number,
+    endpoint: string,
+    fieldErrors: FieldErrors,
+    body?: unknown
+  ) {
+    super(message, status, endpoint, body);
+    this.name = "ValidationError";
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+export class RateLimitError extends ApiError {
+  /** Seconds to wait before trying again (Retry-After, or a default when missing) */
+  readonly retryAfterSeconds: number;
+
+  constructor(message: string, endpoint: string, retryAfterSeconds: number, body?: unknown) {
+    super(message, 429, endpoint, body);
+    this.name = "RateLimitError";
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+export class ServerError extends ApiError {
+  constructor(message: string, status: number, endpoint: string, body?: unknown) {
+    super(message, status, endpoint, body);
+    this.name = "ServerError";
+  }
+}
+
+// ==== Response Parsing ====
+
+const DEFAULT_MESSAGES: Record<number, string> = {
+  400: "The request was invalid.",
+  401: "Your session is no longer valid. Please log in again.",
+  403: "You don't have permission to do that.",
+  404: "The requested item was not found.",
+  422: "The request was invalid.",
+  429: "Too many requests. Please wait a moment and try again.",
+};
+
+/** Wait assumed when a 429 arrives without a usable Retry-After header */
+const DEFAULT_RETRY_AFTER_SECONDS = 30;
+
+/** Read a response body as JSON when declared so, otherwise as text */
+export async function readResponseBody(response: Response): Promise<unknown> {
+  const text = await response.text().catch(() => "");
+  if (!text) return undefined;
+
+  const contentType = response.headers.get("Content-Type") ?? "";
+  if (contentType.includes("json")) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+  return text;
+}
+
+/** Build the matching ApiError subclass for a non-2xx response */
+export async function createApiError(
+  response: Response,
+  endpoint: string
+): Promise<ApiError> {
+  const body = await readResponseBody(response);
+  const status = response.status;
+  const message =
+    extractMessage(body) ??
+    DEFAULT_MESSAGES[status] ??
+    (status >= 500
+      ? "The server ran into a problem. Please try again later."
+      : `Request failed with status ${status}.`);
+
+  switch (status) {
+    case 400:
+    case 422:
+      return new ValidationError(message, status, endpoint, extractFieldErrors(body), body);
+    case 401:
+      return new UnauthorizedError(message, endpoint, body);
+    case 403:
+      return new ForbiddenError(message, endpoint, body);
+    case 404:
+      return new NotFoundError(message, endpoint, body);
+    case 429:
+      return new RateLimitError(message, endpoint, parseRetryAfter(response), body);
+    default:
+      return status >= 500
+        ? new ServerError(message, status, endpoint, body)
+        : new ApiError(message, status, endpoint, body);
+  }
+}
+
+/** Retry-After as whole seconds: either a number of seconds or an HTTP date */
+function parseRetryAfter(response: Response): number {
+  const header = response.headers.get("Retry-After")?.trim();
+  if (!header) return DEFAULT_RETRY_AFTER_SECONDS;
+
+  if (/^\d+$/.test(header)) return Math.max(1, Number(header));
+
+  const date = Date.parse(header);
+  return Number.isNaN(date)
+    ? DEFAULT_RETRY_AFTER_SECONDS
+    : Math.max(1, Math.ceil((date - Date.now()) / 1000));
+}
+
+/**
+ * Pull a human-readable message from a parsed body:
+ * plain text, AuthResponse `{ message }`, or ProblemDetails `{ detail, title }`.
+ */
+function extractMessage(body: unknown): string | undefined {
+  if (typeof body === "string") {
+    const text = body.trim();
+    // Ignore HTML error pages from proxies
+    return text && !text.startsWith("<") ? text : undefined;
+  }
+
+  if (body && typeof body === "object") {
+    const record = body as Record<string, unknown>;
+    for (const key of ["detail", "message", "title"]) {
+      const value = record[key];
+      if (typeof value === "string" && value.trim()) return value.trim();
+    }
+  }
+
+  return undefined;
+}
+
+/** Normalize ValidationProblemDetails `errors` into camelCase field keys */
+function extractFieldErrors(body: unknown): FieldErrors {
+  const result: FieldErrors = {};
+  if (!body || typeof body !== "object") return result;
+
+  const errors = (body as Record<string, unknown>).errors;
+  if (!errors || typeof errors !== "object") return result;
+
+  for (const [key, value] of Object.entries(errors as Record<string, unknown>)) {
+    const messages = (Array.isArray(value) ? value : [value]).filter(
+      (m): m is string => typeof m === "string"
+    );
+    if (messages.length === 0) continue;
+
+    // "$.username" / "Username" / "request.Username" -> "username"
+    const name = key.replace(/^\$\.?/, "").split(".").pop() ?? key;
+    const field = name.charAt(0).toLowerCase() + name.slice(1);
+    result[field] = [...(result[field] ?? []), ...messages];
+  }
+
+  return result;
+}
@@ -0,0 +1,459 @@
+/**
+ * generated.ts
+ *
+ * GENERATED by scripts/generate-api.js from openapi/openapi.json - do not edit.
+ * Regenerate with `npm run api:generate`; `npm run api:check` fails when
+ * this file no longer matches the backend's OpenAPI document.
+ *
+ * MessageBoard.API | v1 (1.0.0)
+ */
+
+// ==== Schemas ====
+
+export interface ArchivedAttachment {
+  fileName: string;
+  contentType: string;
+  sizeBytes: number;
+}
+
+export interface ArchivedMessage {
+  id: number;
+  parentId?: number | null;
+  author: string;
+  content: string;
+  createdAt: string;
+  updatedAt?: string | null;
+  hiddenAt?: string | null;
+  hiddenReason?: string | null;
+  attachments: ArchivedAttachment[];
+}
+
+export interface ArchivedThread {
+  title: string;
+  author: string;
+  createdAt: string;
+  isLocked: boolean;
+}
+
+export interface AttachmentDto {
+  id: number;
+  fileName: string;
+  contentType: string;
+  sizeBytes: number;
+}
+
+export interface AuthResponse {
+  success: boolean;
+  message: string;
+  token: string | null;
+  refreshToken: string | null;
+  user: UserDto;
+}
+
+export interface BanUserRequest {
+  reason: string;
+}
+
+export interface ChangeEmailRequest {
+  email: string;
+  currentPassword: string;
+}
+
+export interface ChangePasswordRequest {
+  currentPassword: string;
+  newPassword: string;
+}
+
+export interface CreateMessageRequest {
+  content: string;
+  threadId: number;
+  parentMessageId?: number | null;
+  attachmentIds?: number[] | null;
+}
+
+export interface CreateThreadRequest {
+  title: string;
+}
+
+export interface HideMessageRequest {
+  reason: string;
+}
+
+export type IFormFile = Blob;
+
+export interface LoginRequest {
+  username: string;
+  password: string;
+}
+
+export interface MarkThreadReadRequest {
+  lastReadMessageId: number;
+}
+
+export interface Message {
+  id: number;
+  content: string;
+  userId: number;
+  threadId: number;
+  parentMessageId: number | null;
+  createdAt: string;
+  updatedAt: string | null;
+  hiddenAt: string | null;
+  hiddenReason: string | null;
+  user: User;
+  reactionCounts: ReactionCount[];
+  mentions: MessageMention[];
+  attachments: AttachmentDto[];
+}
+
+export interface MessageEvent {
+  type: string;
+  threadId: number;
+  messageId: number;
+  message: Message;
+  reactionCounts: ReactionCount[] | null;
+}
+
+export interface MessageMention {
+  userId: number;
+  username: string;
+}
+
+export interface MessagePageResponse {
+  items: Message[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+export interface MessageRevisionDto {
+  id: number;
+  content: string;
+  editedAt: string;
+}
+
+export interface ModeratedUserDto {
+  id: number;
+  username: string;
+  role: string;
+  bannedAt: string | null;
+  banReason: string | null;
+}
+
+export interface NotificationDto {
+  id: number;
+  type: string;
+  messageId: number;
+  threadId: number;
+  threadTitle: string;
+  actor: UserSummaryDto;
+  snippet: string;
+  createdAt: string;
+  readAt: string | null;
+}
+
+export interface NotificationListResponse {
+  items: NotificationDto[];
+  unreadCount: number;
+}
+
+export interface ReactionCount {
+  emoji: string;
+  count: number;
+  reactedByMe: boolean;
+}
+
+export interface RefreshTokenRequest {
+  refreshToken: string;
+}
+
+export interface RegisterRequest {
+  username: string;
+  email: string;
+  password: string;
+}
+
+export interface SearchHighlight {
+  start: number;
+  length: number;
+}
+
+export interface SearchResponse {
+  query: string;
+  items: SearchResult[];
+  hasMore: boolean;
+}
+
+export interface SearchResult {
+  type: string;
+  threadId: number;
+  threadTitle: string;
+  messageId: number | null;
+  author: UserSummaryDto;
+  createdAt: string;
+  snippet: string;
+  highlights: SearchHighlight[];
+}
+
+export interface ThreadArchive {
+  version: number;
+  exportedAt: string;
+  thread: ArchivedThread;
+  messages: ArchivedMessage[];
+}
+
+export interface ThreadDto {
+  id: number;
+  title: string;
+  userId: number;
+  user: UserSummaryDto;
+  createdAt: string;
+  isLocked: boolean;
+  messageCount: number;
+  unreadCount: number | null;
+  lastReadMessageId: number | null;
+}
+
+export interface ThreadImportResult {
+  thread: ThreadDto;
+  messageCount: number;
+  unknownAuthors: string[];
+}
+
+export interface UpdateMessageRequest {
+  content: string;
+}
+
+export interface UpdateProfileRequest {
+  bio?: string | null;
+  avatarUrl?: string | null;
+}
+
+export interface UpdateRoleRequest {
+  role: string;
+}
+
+export interface UpdateThreadRequest {
+  title: string;
+}
+
+export interface User {
+  id: number;
+  username: string;
+  createdAt: string;
+  role: string;
+  bannedAt: string | null;
+  banReason: string | null;
+}
+
+export interface UserDto {
+  id: number;
+  username: string;
+  email: string;
+  role: string;
+  createdAt: string;
+  bio: string | null;
+  avatarUrl: string | null;
+}
+
+export interface UserProfileDto {
+  threadCount: number;
+  messageCount: number;
+  bio: string | null;
+  avatarUrl: string | null;
+  id: number;
+  username: string;
+  role: string;
+  createdAt: string;
+}
+
+export interface UserSummaryDto {
+  id: number;
+  username: string;
+  role: string;
+  createdAt: string;
+}
+
+export interface WeatherForecast {
+  date: string;
+  temperatureC: number;
+  summary: string | null;
+  temperatureF: number;
+}
+
+// ==== Query Parameters ====
+
+export interface GetMessagesQuery {
+  threadId?: number;
+  cursor?: string;
+  limit?: number; // Server default: 50
+  sort?: string; // Server default: "desc"
+  threaded?: boolean; // Server default: false
+}
+
+export interface GetNotificationsQuery {
+  limit?: number; // Server default: 20
+}
+
+export interface SearchQuery {
+  q?: string;
+  author?: string;
+  threadId?: number;
+  from?: string;
+  to?: string;
+  limit?: number; // Server default: 20
+  offset?: number; // Server default: 0
+}
+
+export interface GetUsersQuery {
+  q?: string;
+  limit?: number;
+}
+
+// ==== Endpoints ====
+
+/** A request built by an endpoint function, for the client to send */
+export interface ApiRequest {
+  method: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  path: string;
+  query?: object;
+  body?: unknown;
+  /** Send the body's fields as multipart/form-data instead of JSON */
+  multipart?: boolean;
+}
+
+/** Sends a request and resolves with the parsed response body */
+export type Send<Options> = <T>(request: ApiRequest, options?: Options) => Promise<T>;
+
+/**
+ * One typed function per operation, named after its operationId.
+ * Not generated (no JSON response): GET /api/attachments/{id} (application/octet-stream), GET /api/messages/stream (text/event-stream), GET /api/threads/{id}/export/markdown (text/markdown).
+ */
+export function createEndpoints<Options>(send: Send<Options>) {
+  return {
+    /** POST /api/attachments */
+    uploadAttachment: (body: { file: IFormFile }, options?: Options) =>
+      send<AttachmentDto>({ method: "POST", path: "/api/attachments", body, multipart: true }, options),
+    /** DELETE /api/attachments/{id} */
+    deleteAttachment: (id: number, options?: Options) =>
+      send<void>({ method: "DELETE", path: `/api/attachments/${id}` }, options),
+    /** POST /api/auth/register */
+    register: (body: RegisterRequest, options?: Options) =>
+      send<AuthResponse>({ method: "POST", path: "/api/auth/register", body }, options),
+    /** POST /api/auth/login */
+    login: (body: LoginRequest, options?: Options) =>
+      send<AuthResponse>({ method: "POST", path: "/api/auth/login", body }, options),
+    /** POST /api/auth/refresh */
+    refresh: (body: RefreshTokenRequest, options?: Options) =>
+      send<AuthResponse>({ method: "POST", path: "/api/auth/refresh", body }, options),
+    /** POST /api/auth/logout */
+    logout: (body: RefreshTokenRequest, options?: Options) =>
+      send<void>({ method: "POST", path: "/api/auth/logout", body }, options),
+    /** GET /api/messages */
+    getMessages: (query: GetMessagesQuery = {}, options?: Options) =>
+      send<MessagePageResponse>({ method: "GET", path: "/api/messages", query }, options),
+    /** POST /api/messages */
+    postMessage: (body: CreateMessageRequest, options?: Options) =>
+      send<Message>({ method: "POST", path: "/api/messages", body }, options),
+    /** GET /api/messages/{id} */
+    getMessage: (id: number, options?: Options) =>
+      send<Message>({ method: "GET", path: `/api/messages/${id}` }, options),
+    /** PUT /api/messages/{id} */
+    updateMessage: (id: number, body: UpdateMessageRequest, options?: Options) =>
+      send<Message>({ method: "PUT", path: `/api/messages/${id}`, body }, options),
+    /** DELETE /api/messages/{id} */
+    deleteMessage: (id: number, options?: Options) =>
+      send<void>({ method: "DELETE", path: `/api/messages/${id}` }, options),
+    /** GET /api/messages/{id}/revisions */
+    getMessageRevisions: (id: number, options?: Options) =>
+      send<MessageRevisionDto[]>({ method: "GET", path: `/api/messages/${id}/revisions` }, options),
+    /** PUT /api/messages/{id}/reactions/{emoji} */
+    addReaction: (id: number, emoji: string, options?: Options) =>
+      send<ReactionCount[]>({ method: "PUT", path: `/api/messages/${id}/reactions/${encodeURIComponent(emoji)}` }, options),
+    /** DELETE /api/messages/{id}/reactions/{emoji} */
+    removeReaction: (id: number, emoji: string, options?: Options) =>
+      send<ReactionCount[]>({ method: "DELETE", path: `/api/messages/${id}/reactions/${encodeURIComponent(emoji)}` }, options),
+    /** POST /api/moderation/threads/{id}/lock */
+    lockThread: (id: number, options?: Options) =>
+      send<ThreadDto>({ method: "POST", path: `/api/moderation/threads/${id}/lock` }, options),
+    /** DELETE /api/moderation/threads/{id}/lock */
+    unlockThread: (id: number, options?: Options) =>
+      send<ThreadDto>({ method: "DELETE", path: `/api/moderation/threads/${id}/lock` }, options),
+    /** POST /api/moderation/messages/{id}/hide */
+    hideMessage: (id: number, body: HideMessageRequest, options?: Options) =>
+      send<Message>({ method: "POST", path: `/api/moderation/messages/${id}/hide`, body }, options),
+    /** DELETE /api/moderation/messages/{id}/hide */
+    unhideMessage: (id: number, options?: Options) =>
+      send<Message>({ method: "DELETE", path: `/api/moderation/messages/${id}/hide` }, options),
+    /** POST /api/moderation/users/{id}/ban */
+    banUser: (id: number, body: BanUserRequest, options?: Options) =>
+      send<ModeratedUserDto>({ method: "POST", path: `/api/moderation/users/${id}/ban`, body }, options),
+    /** DELETE /api/moderation/users/{id}/ban */
+    unbanUser: (id: number, options?: Options) =>
+      send<ModeratedUserDto>({ method: "DELETE", path: `/api/moderation/users/${id}/ban` }, options),
+    /** PUT /api/moderation/users/{id}/role */
+    updateRole: (id: number, body: UpdateRoleRequest, options?: Options) =>
+      send<ModeratedUserDto>({ method: "PUT", path: `/api/moderation/users/${id}/role`, body }, options),
+    /** GET /api/notifications */
+    getNotifications: (query: GetNotificationsQuery = {}, options?: Options) =>
+      send<NotificationListResponse>({ method: "GET", path: "/api/notifications", query }, options),
+    /** PUT /api/notifications/{id}/read */
+    markNotificationRead: (id: number, options?: Options) =>
+      send<NotificationDto>({ method: "PUT", path: `/api/notifications/${id}/read` }, options),
+    /** POST /api/notifications/mark-all-read */
+    markAllNotificationsRead: (options?: Options) =>
+      send<void>({ method: "POST", path: "/api/notifications/mark-all-read" }, options),
+    /** GET /api/search */
+    search: (query: SearchQuery = {}, options?: Options) =>
+      send<SearchResponse>({ method: "GET", path: "/api/search", query }, options),
+    /** GET /api/threads */
+    getThreads: (options?: Options) =>
+      send<ThreadDto[]>({ method: "GET", path: "/api/threads" }, options),
+    /** POST /api/threads */
+    createThread: (body: CreateThreadRequest, options?: Options) =>
+      send<ThreadDto>({ method: "POST", path: "/api/threads", body }, options),
+    /** GET /api/threads/{id} */
+    getThread: (id: number, options?: Options) =>
+      send<ThreadDto>({ method: "GET", path: `/api/threads/${id}` }, options),
+    /** PUT /api/threads/{id} */
+    updateThread: (id: number, body: UpdateThreadRequest, options?: Options) =>
+      send<ThreadDto>({ method: "PUT", path: `/api/threads/${id}`, body }, options),
+    /** DELETE /api/threads/{id} */
+    deleteThread: (id: number, options?: Options) =>
+      send<void>({ method: "DELETE", path: `/api/threads/${id}` }, options),
+    /** GET /api/threads/{id}/export */
+    exportThread: (id: number, options?: Options) =>
+      send<ThreadArchive>({ method: "GET", path: `/api/threads/${id}/export` }, options),
+    /** POST /api/threads/import */
+    importThread: (body: ThreadArchive, options?: Options) =>
+      send<ThreadImportResult>({ method: "POST", path: "/api/threads/import", body }, options),
+    /** PUT /api/threads/{id}/read */
+    markThreadRead: (id: number, body: MarkThreadReadRequest, options?: Options) =>
+      send<ThreadDto>({ method: "PUT", path: `/api/threads/${id}/read`, body }, options),
+    /** POST /api/threads/mark-all-read */
+    markAllThreadsRead: (options?: Options) =>
+      send<void>({ method: "POST", path: "/api/threads/mark-all-read" }, options),
+    /** GET /api/users */
+    getUsers: (query: GetUsersQuery = {}, options?: Options) =>
+      send<UserSummaryDto[]>({ method: "GET", path: "/api/users", query }, options),
+    /** GET /api/users/{id} */
+    getUser: (id: number, options?: Options) =>
+      send<UserProfileDto>({ method: "GET", path: `/api/users/${id}` }, options),
+    /** PUT /api/users/{id} */
+    updateProfile: (id: number, body: UpdateProfileRequest, options?: Options) =>
+      send<UserProfileDto>({ method: "PUT", path: `/api/users/${id}`, body }, options),
+    /** GET /api/users/{id}/threads */
+    getUserThreads: (id: number, options?: Options) =>
+      send<ThreadDto[]>({ method: "GET", path: `/api/users/${id}/threads` }, options),
+    /** PUT /api/users/{id}/email */
+    changeEmail: (id: number, body: ChangeEmailRequest, options?: Options) =>
+      send<UserDto>({ method: "PUT", path: `/api/users/${id}/email`, body }, options),
+    /** PUT /api/users/{id}/password */
+    changePassword: (id: number, body: ChangePasswordRequest, options?: Options) =>
+      send<AuthResponse>({ method: "PUT", path: `/api/users/${id}/password`, body }, options),
+    /** GET /weatherforecast */
+    getWeatherForecast: (options?: Options) =>
+      send<WeatherForecast[]>({ method: "GET", path: "/weatherforecast" }, options),
+  };
+}
+
+export type Endpoints<Options> = ReturnType<typeof createEndpoints<Options>>;
@@ -0,0 +1,76 @@
+/**
+ * upload.ts
+ *
+ * Purpose:
+ * Upload transport for ApiClient. fetch can't report how much of a request
+ * body has been sent, so uploads go through XMLHttpRequest instead and the
+ * result is handed back as a fetch Response - ApiClient then treats it like
+ * any other response (errors, 401 refresh, timeouts).
+ */
+
+/** Bytes of the request body sent so far; `total` is 0 when the browser can't tell */
+export interface UploadProgress {
+  loaded: number;
+  total: number;
+}
+
+/** Sends a request like fetch, reporting upload progress along the way */
+export type UploadTransport = (
+  url: string,
+  init: RequestInit,
+  onProgress: (progress: UploadProgress) => void
+) => Promise<Response>;
+
+// Statuses whose Response must not have a body
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+/**
+ * The default transport. Rejects like fetch does: a TypeError when no
+ * response arrives, an AbortError when `init.signal` aborts.
+ */
+export const xhrUpload: UploadTransport = (url, init, onProgress) =>
+  new Promise((resolve, reject) => {
+    const signal = init.signal;
+    if (signal?.aborted) {
+      reject(new DOMException("The upload was aborted", "AbortError"));
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    xhr.open(init.method ?? "POST", url);
+    for (const [name, value] of Object.entries((init.headers ?? {}) as Record<string, string>)) {
+      xhr.setRequestHeader(name, value);
+    }
+
+    const onAbort = () => xhr.abort();
+    const settle = () => signal?.removeEventListener("abort", onAbort);
+
+    xhr.upload.onprogress = (event) =>
+      onProgress({ loaded: event.loaded, total: event.lengthComputable ? event.total : 0 });
+    xhr.onload = () => {
+      settle();
+      resolve(toResponse(xhr));
+    };
+    xhr.onerror = () => {
+      settle();
+      reject(new TypeError("Network request failed"));
+    };
+    xhr.onabort = () => {
+      settle();
+      reject(new DOMException("The upload was aborted", "AbortError"));
+    };
+    signal?.addEventListener("abort", onAbort);
+
+    xhr.send((init.body ?? null) as XMLHttpRequestBodyInit | null);
+  });
+
+function toResponse(xhr: XMLHttpRequest): Response {
+  const headers = new Headers();
+  for (const line of xhr.getAllResponseHeaders().split(/\r?\n/)) {
+    const colon = line.indexOf(":");
+    if (colon > 0) headers.append(line.slice(0, colon).trim(), line.slice(colon + 1).trim());
+  }
+
+  const body = NULL_BODY_STATUSES.includes(xhr.status) ? null : xhr.responseText;
+  return new Response(body, { status: xhr.status, statusText: xhr.statusText, headers });
+}
@@ -5,23 +5,44 @@
  *
  * Responsibilities:
  *  - Initialize the application once the DOM is ready
- *  - Test API connectivity, load real or fallback (sample) messages
- *  - Manage authentication UI and API calls (login, register, logout)
- *  - Handle adding/clearing messages
- *  - Reactively update UI when authentication state changes
+ *  - Test API connectivity, load real or fallback (sample) data, and switch
+ *    to real data when a lost connection comes back
+ *  - Route between the thread list (#/threads), thread detail (#/threads/:id),
+ *    search results (#/search?q=...), user profiles (#/users/:id), the
+ *    notification inbox (#/notifications) and the account settings (#/account)
+ *  - Mount the view components, which render from AppState's store
+ *  - Wire form inputs to AppState actions (login, register, logout,
+ *    creating threads and messages, search, account settings)
  *
  * Dependencies:
  *  - SCSS styles from ../scss/main.scss
  *  - AppState singleton from ./state/AppState for global state + API interactions
+ *  - View components from ./views
+ *  - Router singleton from ./router/router for hash-based navigation
+ *  - messageSubscription from ./realtime/messageSubscription for live updates
  *
  * Notes:
- *  - `updateUIForAuthState()` expects specific element IDs:
- *    login-section, register-section, user-section, message-form
- *    These do NOT currently match the IDs in index.html. You need to rename them or adjust here.
+ *  - Every element ID the app uses is looked up here, once, by `byId`,
+ *    which fails loudly if index.html and the code disagree.
  */
 
 import "../scss/main.scss";
-import { appState } from "./state/AppState";
+import { appState, ExportFormat, Message, MessageAuthor, Thread } from "./state/AppState";
+import { selectIsAuthenticated, selectOnline } from "./state/boardState";
+import { router } from "./router/router";
+import { messageSubscription } from "./realtime/messageSubscription";
+import { AccountSettingsView } from "./views/AccountSettingsView";
+import { AuthView } from "./views/AuthView";
+import { downloadFile, setVisible } from "./views/dom";
+import { FieldErrorsView } from "./views/FieldErrorsView";
+import { MessageFormView } from "./views/MessageFormView";
+import { MessageListView } from "./views/MessageListView";
+import { NoticesView } from "./views/NoticesView";
+import { NotificationsView } from "./views/NotificationsView";
+import { ProfileView } from "./views/ProfileView";
+import { SearchResultsView } from "./views/SearchResultsView";
+import { ThreadHeaderView } from "./views/ThreadHeaderView";
+import { ThreadListView } from "./views/ThreadListView";
 
 console.log("Message Board app loaded!");
 
@@ -30,79 +51,425 @@ document.addEventListener("DOMContentLoaded", () => {
   initializeApp();
 });
 
+// Whether the backend answered the startup connectivity check
+let apiConnected = false;
+
+// Wait this long after the last keystroke before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+/** Element by ID, optionally checked to be of a given type; throws when missing */
+function byId(id: string): HTMLElement;
+function byId<T extends HTMLElement>(id: string, type: new () => T): T;
+function byId(id: string, type: new () => HTMLElement = HTMLElement): HTMLElement {
+  const element = document.getElementById(id);
+  if (!(element instanceof type)) {
+    throw new Error(`Element #${id} is missing or not a ${type.name}`);
+  }
+  return element;
+}
+
 /**
  * Initializes the application:
+ *  - Mounts the view components
+ *  - Restores a persisted session, if any
  *  - Verifies API connectivity
- *  - Loads messages (real or fallback sample)
- *  - Sets up authentication and message form UI handlers
- *  - Subscribes to authentication state changes
- *  - Triggers initial UI update
+ *  - Loads fallback sample data if the API is unavailable
+ *  - Sets up authentication, thread and message form UI handlers
+ *  - Switches to real data when a lost connection comes back
+ *  - Starts the router, which loads the data for the current view
  */
 async function initializeApp() {
   console.log("Initializing app...");
 
+  // Views render from the store from here on
+  mountViews();
+
+  // Restore a persisted login so the token is attached from the first request
+  appState.restoreSession();
+
   // Check if API is reachable
-  const apiConnected = await appState.testApiConnection();
+  apiConnected = await appState.testApiConnection();
 
-  if (apiConnected) {
-    // Load real messages from the API
-    await appState.loadMessages();
-  } else {
+  if (!apiConnected) {
     // Use sample/fallback data if API is unavailable
     console.log("API not available, loading sample data...");
-    loadSampleMessages();
+    loadSampleData();
   }
 
   // Wire up authentication UI
   setupAuthUI();
 
-  // Wire up message form
+  // Wire up thread + message forms
+  setupThreadForm();
   setupMessageForm();
-
-  // Re-render parts of the UI when authentication state changes
-  appState.onAuthChange(() => {
-    updateUIForAuthState();
+  setupThreadActions();
+  setupModeratorToolbar();
+  setupSearch();
+  setupAccountSettings();
+
+  // Queued messages are sent by AppState; the app swaps sample data for real data
+  appState.store.select(selectOnline, (online) => {
+    if (online && !apiConnected) {
+      console.log("API is back, loading real data...");
+      apiConnected = true;
+      router.resolve();
+    }
   });
 
-  // Run an initial UI update
-  updateUIForAuthState();
+  // Resolve the current URL into a view
+  setupRoutes();
+  router.start();
 }
 
-/**
- * Loads a fixed set of sample messages into state.
- * Used as a fallback when the backend API is not reachable.
- */
-function loadSampleMessages() {
-  const sampleMessages = [
+/** Creates the view components, each bound to its part of the page */
+function mountViews() {
+  new NoticesView(byId("error-container"), byId("offline-banner"), appState);
+  new AuthView(
     {
-      id: 1,
-      content: "Welcome to the message board!",
-      threadId: 1,
-      userId: 1,
-      user: {
-        id: 1,
-        username: "Admin",
-        email: "admin@example.com",
-        createdAt: new Date().toISOString(),
-      },
-      createdAt: new Date().toISOString(),
+      loginSection: byId("login-section"),
+      registerSection: byId("register-section"),
+      userSection: byId("user-section"),
+      userInfo: byId("current-user-info"),
+      threadForm: byId("new-thread-form"),
+    },
+    appState
+  );
+  new ThreadListView(
+    byId("threads-list"),
+    byId("mark-all-read-btn"),
+    byId("import-thread-btn"),
+    appState
+  );
+  new ThreadHeaderView(
+    {
+      title: byId("thread-title"),
+      lockedBadge: byId("thread-locked-badge"),
+      ownerActions: byId("thread-owner-actions"),
+      moderatorToolbar: byId("moderator-toolbar"),
+      lockButton: byId("lock-thread-btn"),
+      lockedNotice: byId("thread-locked-notice"),
+      messageForm: byId("message-form"),
+    },
+    appState
+  );
+  new MessageListView(byId("messages-list"), byId("sort-toggle-btn"), appState);
+  new MessageFormView(
+    {
+      indicator: byId("reply-indicator"),
+      input: byId("message-input", HTMLTextAreaElement),
+      submit: byId("add-message-btn", HTMLButtonElement),
+      cooldown: byId("post-cooldown"),
+      suggestions: byId("mention-suggestions"),
+      dropZone: byId("message-input"),
+      fileInput: byId("attachment-input", HTMLInputElement),
+      attachButton: byId("attach-file-btn"),
+      attachments: byId("composer-attachments"),
+    },
+    appState
+  );
+  new SearchResultsView(byId("search-results"), byId("search-more-btn"), appState);
+  new ProfileView(byId("profile-details"), appState);
+  new NotificationsView(
+    {
+      badge: byId("notifications-badge"),
+      list: byId("notifications-list"),
+      markAllButton: byId("notifications-mark-all-btn"),
+    },
+    appState
+  );
+  new AccountSettingsView(
+    {
+      bio: byId("account-bio", HTMLTextAreaElement),
+      avatarUrl: byId("account-avatar-url", HTMLInputElement),
+      email: byId("account-email", HTMLInputElement),
+      profileLink: byId("account-profile-link", HTMLAnchorElement),
     },
+    appState
+  );
+  new FieldErrorsView(
     {
-      id: 2,
-      content: "This is sample data since the API is not connected yet.",
-      threadId: 1,
-      userId: 2,
-      user: {
-        id: 2,
-        username: "System",
-        email: "system@example.com",
-        createdAt: new Date().toISOString(),
+      login: { username: byId("login-username"), password: byId("login-password") },
+      register: {
+        username: byId("register-username"),
+        email: byId("register-email"),
+        password: byId("register-password"),
+      },
+      thread: { title: byId("thread-title-input") },
+      message: { content: byId("message-input") },
+      profile: { bio: byId("account-bio"), avatarUrl: byId("account-avatar-url") },
+      email: { email: byId("account-email"), currentPassword: byId("account-email-password") },
+      password: {
+        currentPassword: byId("account-current-password"),
+        newPassword: byId("account-new-password"),
+        confirmPassword: byId("account-confirm-password"),
       },
-      createdAt: new Date().toISOString(),
     },
-  ];
+    appState
+  );
+}
+
+/**
+ * Registers the hash routes:
+ *  - #/threads      -> thread list
+ *  - #/threads/:id  -> thread detail with that thread's messages
+ *                      (?message=ID scrolls to and highlights one message)
+ *  - #/search       -> search results (?q=&author=&threadId=&from=&to=)
+ *  - #/users/:id    -> a user's profile and threads
+ *  - #/notifications -> the notification inbox (logged-in users only)
+ *  - #/account      -> account settings (logged-in users only)
+ *  - anything else  -> redirect to #/threads
+ */
+function setupRoutes() {
+  router
+    .on("/threads", () => showThreadList())
+    .on("/threads/:id", ({ id, message }) =>
+      showThread(Number(id), message ? Number(message) : undefined)
+    )
+    .on("/search", (params) => showSearch(params))
+    .on("/users/:id", ({ id }) => showProfile(Number(id)))
+    .on("/notifications", () => showNotifications())
+    .on("/account", () => showAccount())
+    .otherwise(() => router.redirect("/threads"));
+}
+
+/** Shows the thread list view and refreshes the list from the API */
+async function showThreadList() {
+  showView("threads");
+  messageSubscription.unsubscribe();
+  appState.cancelSearch();
+  appState.closeThread();
+  appState.closeProfile();
 
-  appState.setMessages(sampleMessages);
+  if (apiConnected) {
+    await appState.loadThreads();
+  }
+}
+
+/**
+ * Shows the detail view for a single thread and loads its messages,
+ * then scrolls to `messageId` when given (links from search results)
+ */
+async function showThread(threadId: number, messageId?: number) {
+  if (!Number.isInteger(threadId) || threadId <= 0) {
+    router.redirect("/threads");
+    return;
+  }
+
+  showView("thread");
+  appState.cancelSearch();
+  appState.closeProfile();
+
+  if (apiConnected) {
+    const opened = await appState.openThread(threadId);
+
+    // The user navigated elsewhere while this thread was loading
+    if (router.pathname !== `/threads/${threadId}`) return;
+
+    if (!opened) {
+      router.redirect("/threads");
+      return;
+    }
+
+    // Live updates from other users while this thread is open
+    messageSubscription.subscribe(threadId, {
+      onCreated: (message) => appState.receiveMessage(message),
+      onUpdated: (message) => appState.replaceMessage(message),
+      onDeleted: (messageId) => appState.removeMessage(messageId),
+      onReactions: (messageId, counts) => appState.applyReactionCounts(messageId, counts),
+    });
+  } else {
+    // Offline: serve the thread from sample data
+    const thread = appState.threads.find((t) => t.id === threadId);
+    if (!thread) {
+      router.redirect("/threads");
+      return;
+    }
+    appState.setCurrentThread(thread);
+    appState.setMessages(sampleMessages.filter((m) => m.threadId === thread.id));
+  }
+
+  if (messageId && Number.isInteger(messageId)) {
+    await appState.focusMessage(messageId);
+  }
+}
+
+/**
+ * Shows the search results view for the query in the URL and syncs the
+ * search box and filters with it, so results can be bookmarked
+ */
+async function showSearch(params: Record<string, string>) {
+  showView("search");
+  messageSubscription.unsubscribe();
+  appState.closeThread();
+  appState.closeProfile();
+
+  const q = params.q ?? "";
+  setInputValue("search-input", q);
+  setInputValue("search-author", params.author ?? "");
+  setInputValue("search-from", params.from ?? "");
+  setInputValue("search-to", params.to ?? "");
+
+  // Offer the known threads as a filter
+  if (apiConnected && appState.threads.length === 0) {
+    await appState.loadThreads();
+  }
+  const threadSelect = byId("search-thread", HTMLSelectElement);
+  threadSelect.replaceChildren(new Option("All threads", ""));
+  appState.threads.forEach((thread) => {
+    threadSelect.add(new Option(thread.title, String(thread.id)));
+  });
+  threadSelect.value = params.threadId ?? "";
+
+  const threadId = Number(params.threadId);
+  await appState.search({
+    q,
+    ...(params.author ? { author: params.author } : {}),
+    ...(Number.isInteger(threadId) && threadId > 0 ? { threadId } : {}),
+    ...(params.from ? { from: params.from } : {}),
+    ...(params.to ? { to: params.to } : {}),
+  });
+}
+
+/** Shows a user's profile page; profiles need the API, so offline it falls back to the list */
+async function showProfile(userId: number) {
+  if (!Number.isInteger(userId) || userId <= 0 || !apiConnected) {
+    router.redirect("/threads");
+    return;
+  }
+
+  showView("profile");
+  messageSubscription.unsubscribe();
+  appState.cancelSearch();
+  appState.closeThread();
+
+  const opened = await appState.openProfile(userId);
+
+  // Leave a profile that failed to load, unless the user already moved on
+  if (!opened && router.pathname === `/users/${userId}`) {
+    router.redirect("/threads");
+  }
+}
+
+/** Shows the notification inbox and refreshes it; logged-out visitors go back to the thread list */
+async function showNotifications() {
+  if (!appState.isAuthenticated || !apiConnected) {
+    router.redirect("/threads");
+    return;
+  }
+
+  showView("notifications");
+  messageSubscription.unsubscribe();
+  appState.cancelSearch();
+  appState.closeThread();
+  appState.closeProfile();
+
+  await appState.loadNotifications();
+}
+
+/** Shows the account settings; logged-out visitors go back to the thread list */
+function showAccount() {
+  if (!appState.isAuthenticated) {
+    router.redirect("/threads");
+    return;
+  }
+
+  showView("account");
+  messageSubscription.unsubscribe();
+  appState.cancelSearch();
+  appState.closeThread();
+  appState.closeProfile();
+}
+
+function setInputValue(id: string, value: string) {
+  const input = byId(id, HTMLInputElement);
+  if (input.value !== value) input.value = value;
+}
+
+/** Toggles between the thread list, thread detail, search, profile, notification and account views */
+function showView(
+  view: "threads" | "thread" | "search" | "profile" | "notifications" | "account"
+) {
+  setVisible(byId("threads-view"), view === "threads");
+  setVisible(byId("thread-view"), view === "thread");
+  setVisible(byId("search-view"), view === "search");
+  setVisible(byId("profile-view"), view === "profile");
+  setVisible(byId("notifications-view"), view === "notifications");
+  setVisible(byId("account-view"), view === "account");
+}
+
+// Fallback data used when the backend API is not reachable
+const sampleUsers: MessageAuthor[] = [
+  {
+    id: 1,
+    username: "Admin",
+    role: "Admin",
+    createdAt: new Date().toISOString(),
+    bannedAt: null,
+    banReason: null,
+  },
+  {
+    id: 2,
+    username: "System",
+    role: "User",
+    createdAt: new Date().toISOString(),
+    bannedAt: null,
+    banReason: null,
+  },
+];
+
+const sampleThreads: Thread[] = [
+  {
+    id: 1,
+    title: "Welcome to the Message Board!",
+    userId: 1,
+    user: sampleUsers[0],
+    createdAt: new Date().toISOString(),
+    isLocked: false,
+    messageCount: 2,
+    unreadCount: null,
+    lastReadMessageId: null,
+  },
+];
+
+const sampleMessages: Message[] = [
+  {
+    id: 1,
+    content: "Welcome to the message board!",
+    threadId: 1,
+    parentMessageId: null,
+    userId: 1,
+    user: sampleUsers[0],
+    createdAt: new Date().toISOString(),
+    updatedAt: null,
+    hiddenAt: null,
+    hiddenReason: null,
+    reactionCounts: [],
+    mentions: [],
+    attachments: [],
+  },
+  {
+    id: 2,
+    content: "This is sample data since the API is not connected yet.",
+    threadId: 1,
+    parentMessageId: null,
+    userId: 2,
+    user: sampleUsers[1],
+    createdAt: new Date().toISOString(),
+    updatedAt: null,
+    hiddenAt: null,
+    hiddenReason: null,
+    reactionCounts: [],
+    mentions: [],
+    attachments: [],
+  },
+];
+
+/**
+ * Loads the sample threads into state.
+ * Used as a fallback when the backend API is not reachable.
+ */
+function loadSampleData() {
+  appState.setThreads(sampleThreads);
 }
 
 /**
@@ -113,17 +480,13 @@ function loadSampleMessages() {
  */
 function setupAuthUI() {
   // ----- Login -----
-  const loginBtn = document.getElementById("login-btn");
-  const loginUsernameInput = document.getElementById(
-    "login-username"
-  ) as HTMLInputElement;
-  const loginPasswordInput = document.getElementById(
-    "login-password"
-  ) as HTMLInputElement;
-
-  loginBtn?.addEventListener("click", async () => {
-    const username = loginUsernameInput?.value.trim();
-    const password = loginPasswordInput?.value.trim();
+  const loginBtn = byId("login-btn");
+  const loginUsernameInput = byId("login-username", HTMLInputElement);
+  const loginPasswordInput = byId("login-password", HTMLInputElement);
+
+  loginBtn.addEventListener("click", async () => {
+    const username = loginUsernameInput.value.trim();
+    const password = loginPasswordInput.value.trim();
 
     if (!username || !password) {
       alert("Please enter both username and password");
@@ -141,21 +504,15 @@ function setupAuthUI() {
   });
 
   // ----- Registration -----
-  const registerBtn = document.getElementById("register-btn");
-  const registerUsernameInput = document.getElementById(
-    "register-username"
-  ) as HTMLInputElement;
-  const registerEmailInput = document.getElementById(
-    "register-email"
-  ) as HTMLInputElement;
-  const registerPasswordInput = document.getElementById(
-    "register-password"
-  ) as HTMLInputElement;
-
-  registerBtn?.addEventListener("click", async () => {
-    const username = registerUsernameInput?.value.trim();
-    const email = registerEmailInput?.value.trim();
-    const password = registerPasswordInput?.value.trim();
+  const registerBtn = byId("register-btn");
+  const registerUsernameInput = byId("register-username", HTMLInputElement);
+  const registerEmailInput = byId("register-email", HTMLInputElement);
+  const registerPasswordInput = byId("register-password", HTMLInputElement);
+
+  registerBtn.addEventListener("click", async () => {
+    const username = registerUsernameInput.value.trim();
+    const email = registerEmailInput.value.trim();
+    const password = registerPasswordInput.value.trim();
 
     if (!username || !email || !password) {
       alert("Please fill in all registration fields");
@@ -174,28 +531,54 @@ function setupAuthUI() {
   });
 
   // ----- Logout -----
-  const logoutBtn = document.getElementById("logout-btn");
-  logoutBtn?.addEventListener("click", () => {
+  byId("logout-btn").addEventListener("click", () => {
     console.log("Logging out...");
     appState.logout();
   });
 }
 
+/**
+ * Sets up event listeners for the new thread form.
+ * On success, navigates straight to the created thread.
+ */
+function setupThreadForm() {
+  const createBtn = byId("create-thread-btn");
+  const titleInput = byId("thread-title-input", HTMLInputElement);
+
+  createBtn.addEventListener("click", async () => {
+    const title = titleInput.value.trim();
+
+    if (!title) {
+      alert("Please enter a thread title");
+      return;
+    }
+
+    if (!appState.isAuthenticated) {
+      alert("Please log in to start a thread");
+      return;
+    }
+
+    const thread = await appState.createThread(title);
+    if (thread) {
+      titleInput.value = "";
+      router.navigate(`/threads/${thread.id}`);
+    }
+  });
+}
+
 /**
  * Sets up event listeners for the message form:
  *  - Add message
  *  - Clear messages
  */
 function setupMessageForm() {
-  const addBtn = document.getElementById("add-message-btn");
-  const clearBtn = document.getElementById("clear-messages-btn");
-  const messageInput = document.getElementById(
-    "message-input"
-  ) as HTMLTextAreaElement;
+  const addBtn = byId("add-message-btn");
+  const clearBtn = byId("clear-messages-btn");
+  const messageInput = byId("message-input", HTMLTextAreaElement);
 
   // Add new message
-  addBtn?.addEventListener("click", async () => {
-    const content = messageInput?.value.trim();
+  addBtn.addEventListener("click", async () => {
+    const content = messageInput.value.trim();
 
     if (!content) {
       alert("Please enter a message");
@@ -207,80 +590,189 @@ function setupMessageForm() {
       return;
     }
 
-    try {
-      // Send message to API (threadId fixed as 1 for now)
-      await appState.createMessage(content, 1);
+    // Send message to the thread currently being viewed (failures show a notice;
+    // a rate limit keeps the text and counts down on the form instead)
+    if (await appState.createMessage(content)) {
       messageInput.value = "";
       console.log("Message sent successfully!");
-    } catch (error) {
-      console.error("Failed to send message:", error);
-      alert("Failed to send message. Please try again.");
     }
   });
 
   // Clear all messages
-  clearBtn?.addEventListener("click", () => {
+  clearBtn.addEventListener("click", () => {
     appState.clearMessages();
     console.log("Cleared all messages");
   });
+}
+
+/**
+ * Sets up the search box and result filters. Typing is debounced, then the
+ * query is written to the URL (#/search?q=...), which runs the search.
+ */
+function setupSearch() {
+  const searchInput = byId("search-input", HTMLInputElement);
+  const authorInput = byId("search-author", HTMLInputElement);
+  const threadSelect = byId("search-thread", HTMLSelectElement);
+  const fromInput = byId("search-from", HTMLInputElement);
+  const toInput = byId("search-to", HTMLInputElement);
+
+  let debounceTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const updateSearchRoute = () => {
+    const q = searchInput.value.trim();
+    const onSearchView = router.pathname === "/search";
+
+    // Clearing the box elsewhere shouldn't jump to an empty results page
+    if (!q && !onSearchView) return;
+
+    const params = new URLSearchParams({ q });
+    if (onSearchView) {
+      if (authorInput.value.trim()) params.set("author", authorInput.value.trim());
+      if (threadSelect.value) params.set("threadId", threadSelect.value);
+      if (fromInput.value) params.set("from", fromInput.value);
+      if (toInput.value) params.set("to", toInput.value);
+    }
+
+    // Refine in place while on the results page; otherwise add a history entry
+    const path = `/search?${params.toString()}`;
+    if (onSearchView) {
+      router.redirect(path);
+    } else {
+      router.navigate(path);
+    }
+  };
+
+  const scheduleSearch = () => {
+    clearTimeout(debounceTimer);
+    debounceTimer = setTimeout(updateSearchRoute, SEARCH_DEBOUNCE_MS);
+  };
+
+  searchInput.addEventListener("input", scheduleSearch);
+  authorInput.addEventListener("input", scheduleSearch);
+  threadSelect.addEventListener("change", updateSearchRoute);
+  fromInput.addEventListener("change", updateSearchRoute);
+  toInput.addEventListener("change", updateSearchRoute);
+}
+
+/**
+ * Sets up the account settings forms (#/account):
+ *  - Save bio and avatar
+ *  - Change email (confirmed with the current password)
+ *  - Change password (current password, new password twice)
+ * Logging out while on the page (or the notification inbox) returns to the
+ * thread list.
+ */
+function setupAccountSettings() {
+  const bioInput = byId("account-bio", HTMLTextAreaElement);
+  const avatarInput = byId("account-avatar-url", HTMLInputElement);
+  const emailInput = byId("account-email", HTMLInputElement);
+  const emailPasswordInput = byId("account-email-password", HTMLInputElement);
+  const currentPasswordInput = byId("account-current-password", HTMLInputElement);
+  const newPasswordInput = byId("account-new-password", HTMLInputElement);
+  const confirmPasswordInput = byId("account-confirm-password", HTMLInputElement);
+
+  byId("save-profile-btn").addEventListener("click", async () => {
+    await appState.updateProfile(bioInput.value.trim(), avatarInput.value.trim());
+  });
+
+  byId("change-email-btn").addEventListener("click", async () => {
+    const email = emailInput.value.trim();
+    const password = emailPasswordInput.value.trim();
+
+    if (!email || !password) {
+      alert("Please enter your new email and your current password");
+      return;
+    }
+
+    if (await appState.changeEmail(email, password)) {
+      emailPasswordInput.value = "";
+    }
+  });
 
-  // Sort toggle button
-  let currentSortOrder: "asc" | "desc" = "desc";
+  byId("change-password-btn").addEventListener("click", async () => {
+    const current = currentPasswordInput.value.trim();
+    const next = newPasswordInput.value.trim();
 
-  const sortToggleBtn = document.getElementById("sort-toggle-btn");
-  sortToggleBtn?.addEventListener("click", () => {
-    // Toggle the local state
-    currentSortOrder = currentSortOrder === "desc" ? "asc" : "desc";
+    if (!current || !next) {
+      alert("Please enter your current and new password");
+      return;
+    }
 
-    // Tell AppState to use the new sort order
-    appState.setSortOrder(currentSortOrder);
+    if (await appState.changePassword(current, next, confirmPasswordInput.value.trim())) {
+      currentPasswordInput.value = "";
+      newPasswordInput.value = "";
+      confirmPasswordInput.value = "";
+    }
+  });
 
-    // Update button text
-    if (sortToggleBtn) {
-      sortToggleBtn.textContent =
-        currentSortOrder === "desc" ? "↓ Newest First" : "↑ Oldest First";
+  appState.store.select(selectIsAuthenticated, (authenticated) => {
+    if (!authenticated && ["/account", "/notifications"].includes(router.pathname)) {
+      router.redirect("/threads");
     }
   });
 }
 
 /**
- * Updates visibility of login/register forms, user info, and message form
- * based on current authentication state.
+ * Sets up the thread actions in the thread header:
+ *  - Export the current thread as a JSON archive or Markdown transcript
+ *  - Rename the current thread (owner)
+ *  - Delete it (with its messages) and return to the list (owner)
+ * and the admins' "Import thread" button on the thread list, which opens
+ * the imported thread.
  */
-function updateUIForAuthState() {
-  const isAuthenticated = appState.isAuthenticated;
-  const currentUser = appState.currentUser;
-
-  const loginSection = document.getElementById("login-section");
-  const registerSection = document.getElementById("register-section");
-  const userSection = document.getElementById("user-section");
-  const messageForm = document.getElementById("message-form");
-
-  if (isAuthenticated && currentUser) {
-    console.log(`User logged in: ${currentUser.username}`);
-
-    // Hide auth forms
-    if (loginSection) loginSection.style.display = "none";
-    if (registerSection) registerSection.style.display = "none";
-
-    // Show user info + message form
-    if (userSection) {
-      userSection.style.display = "block";
-      const userInfo = document.getElementById("current-user-info");
-      if (userInfo) {
-        userInfo.textContent = `Logged in as: ${currentUser.username}`;
-      }
+function setupThreadActions() {
+  const exportAs = async (format: ExportFormat) => {
+    const file = await appState.exportThread(format);
+    if (file) downloadFile(file.fileName, file.contentType, file.content);
+  };
+  byId("export-json-btn").addEventListener("click", () => void exportAs("json"));
+  byId("export-markdown-btn").addEventListener("click", () => void exportAs("markdown"));
+
+  const importInput = byId("import-thread-input", HTMLInputElement);
+  byId("import-thread-btn").addEventListener("click", () => importInput.click());
+  importInput.addEventListener("change", async () => {
+    const file = importInput.files?.[0];
+    importInput.value = ""; // Picking the same file again still fires "change"
+    if (!file) return;
+
+    const thread = await appState.importThread(await file.text());
+    if (thread) router.navigate(`/threads/${thread.id}`);
+  });
+
+  byId("rename-thread-btn").addEventListener("click", async () => {
+    const thread = appState.currentThread;
+    if (!thread) return;
+
+    const title = prompt("New thread title:", thread.title)?.trim();
+    if (!title || title === thread.title) return;
+
+    await appState.renameThread(title);
+  });
+
+  byId("delete-thread-btn").addEventListener("click", async () => {
+    if (!confirm("Delete this thread and all of its messages? This cannot be undone.")) {
+      return;
     }
-    if (messageForm) messageForm.style.display = "block";
-  } else {
-    console.log("User not logged in");
 
-    // Show auth forms
-    if (loginSection) loginSection.style.display = "block";
-    if (registerSection) registerSection.style.display = "block";
+    if (await appState.deleteThread()) {
+      router.navigate("/threads");
+    }
+  });
+}
 
-    // Hide user info + message form
-    if (userSection) userSection.style.display = "none";
-    if (messageForm) messageForm.style.display = "none";
-  }
+/**
+ * Sets up the moderator toolbar shown on thread pages for moderators/admins:
+ *  - Lock / unlock the current thread
+ */
+function setupModeratorToolbar() {
+  const lockBtn = byId("lock-thread-btn", HTMLButtonElement);
+
+  lockBtn.addEventListener("click", async () => {
+    const thread = appState.currentThread;
+    if (!thread) return;
+
+    lockBtn.disabled = true;
+    await appState.setThreadLocked(!thread.isLocked);
+    lockBtn.disabled = false;
+  });
 }
@@ -0,0 +1,236 @@
+/**
+ * messageSubscription.ts
+ *
+ * Purpose:
+ * Keeps the open thread up to date with other users' posts, edits, deletions
+ * and reactions.
+ * Listens to the backend's Server-Sent Events stream and falls back to
+ * polling `apiClient.getMessages` while the stream is unavailable.
+ *
+ * Key Features:
+ * - One active subscription at a time (the thread being viewed)
+ * - Reconnects with exponential backoff after the stream drops
+ * - Switches to polling after repeated stream failures, and back to push
+ *   as soon as a reconnect succeeds
+ * - Catch-up fetch after a reconnect so messages sent during the gap appear
+ *
+ * Notes:
+ * - Handlers may receive messages the UI already shows (our own posts,
+ *   overlapping polls); de-duplication is the consumer's job (AppState).
+ *
+ * Usage:
+ *   import { messageSubscription } from './realtime/messageSubscription';
+ *   messageSubscription.subscribe(threadId, { onCreated, onDeleted });
+ *   messageSubscription.unsubscribe();
+ */
+
+import {
+  AbortedError,
+  apiClient,
+  Message,
+  MessageStreamEvent,
+  ReactionCount,
+} from "../api/client";
+
+export interface MessageSubscriptionHandlers {
+  onCreated: (message: Message) => void;
+  onUpdated: (message: Message) => void;
+  onDeleted: (messageId: number) => void;
+  onReactions: (messageId: number, counts: ReactionCount[]) => void;
+}
+
+export interface MessageSubscriptionConfig {
+  initialReconnectDelayMs: number;
+  maxReconnectDelayMs: number;
+  /** Consecutive stream failures before polling kicks in */
+  failuresBeforePolling: number;
+  pollIntervalMs: number;
+  /** Newest messages fetched per poll */
+  pollLimit: number;
+}
+
+const DEFAULT_CONFIG: MessageSubscriptionConfig = {
+  initialReconnectDelayMs: 1_000,
+  maxReconnectDelayMs: 30_000,
+  failuresBeforePolling: 3,
+  pollIntervalMs: 10_000,
+  pollLimit: 20,
+};
+
+export class MessageSubscription {
+  private config: MessageSubscriptionConfig;
+  private _threadId: number | null = null;
+  private _handlers: MessageSubscriptionHandlers | null = null;
+  private _source: EventSource | null = null;
+  private _failures = 0;
+  private _reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private _pollTimer: ReturnType<typeof setInterval> | null = null;
+  private _pollAbort: AbortController | null = null;
+
+  constructor(config: Partial<MessageSubscriptionConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /** Whether updates are currently arriving by polling instead of push */
+  get isPolling(): boolean {
+    return this._pollTimer !== null;
+  }
+
+  /** Start receiving events for a thread (replaces any previous subscription) */
+  subscribe(threadId: number, handlers: MessageSubscriptionHandlers) {
+    this.unsubscribe();
+    this._threadId = threadId;
+    this._handlers = handlers;
+    this.connect();
+  }
+
+  /** Stop receiving events and release the stream, timers and polls */
+  unsubscribe() {
+    this._source?.close();
+    this._source = null;
+
+    if (this._reconnectTimer) clearTimeout(this._reconnectTimer);
+    this._reconnectTimer = null;
+
+    this.stopPolling();
+    this._threadId = null;
+    this._handlers = null;
+    this._failures = 0;
+  }
+
+  // ===== Push (Server-Sent Events) =====
+
+  private connect() {
+    const threadId = this._threadId;
+    if (threadId === null) return;
+
+    if (typeof EventSource === "undefined") {
+      console.warn("EventSource not supported - polling for messages");
+      this.startPolling();
+      return;
+    }
+
+    const source = new EventSource(apiClient.messageStreamUrl(threadId));
+    this._source = source;
+
+    source.onopen = () => {
+      console.log(`Message stream connected for thread ${threadId}`);
+      const recovering = this._failures > 0;
+      this._failures = 0;
+      this.stopPolling();
+
+      // Pick up anything posted while we were disconnected
+      if (recovering) void this.poll();
+    };
+
+    source.onmessage = (event) => this.handleEvent(event.data);
+
+    source.onerror = () => {
+      // Take over from EventSource's built-in retry so we control the backoff
+      source.close();
+      if (this._source === source) {
+        this._source = null;
+        this.scheduleReconnect();
+      }
+    };
+  }
+
+  private handleEvent(data: string) {
+    if (!this._handlers) return;
+
+    let event: MessageStreamEvent;
+    try {
+      event = JSON.parse(data);
+    } catch {
+      console.warn("Ignoring malformed message event:", data);
+      return;
+    }
+
+    if (event.threadId !== this._threadId) return;
+
+    if (event.type === "created" && event.message) {
+      this._handlers.onCreated(event.message);
+    } else if (event.type === "updated" && event.message) {
+      this._handlers.onUpdated(event.message);
+    } else if (event.type === "deleted") {
+      this._handlers.onDeleted(event.messageId);
+    } else if (event.type === "reactions" && event.reactionCounts) {
+      this._handlers.onReactions(event.messageId, event.reactionCounts);
+    }
+  }
+
+  private scheduleReconnect() {
+    this._failures++;
+
+    if (this._failures >= this.config.failuresBeforePolling) {
+      this.startPolling();
+    }
+
+    const delay = Math.min(
+      this.config.maxReconnectDelayMs,
+      this.config.initialReconnectDelayMs * 2 ** (this._failures - 1)
+    );
+    console.warn(
+      `Message stream lost, reconnecting in ${delay}ms (failure ${this._failures})`
+    );
+
+    this._reconnectTimer = setTimeout(() => {
+      this._reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  // ===== Polling Fallback =====
+
+  private startPolling() {
+    if (this._pollTimer) return;
+
+    console.log("Falling back to polling for new messages");
+    void this.poll();
+    this._pollTimer = setInterval(() => void this.poll(), this.config.pollIntervalMs);
+  }
+
+  private stopPolling() {
+    if (this._pollTimer) clearInterval(this._pollTimer);
+    this._pollTimer = null;
+    this._pollAbort?.abort();
+    this._pollAbort = null;
+  }
+
+  /**
+   * Fetch the newest messages and pass each to onCreated (new posts),
+   * onUpdated (edits made while disconnected) and onReactions; handlers
+   * skip what they have.
+   */
+  private async poll() {
+    const threadId = this._threadId;
+    if (threadId === null || this._pollAbort) return;
+
+    const controller = new AbortController();
+    this._pollAbort = controller;
+
+    try {
+      const page = await apiClient.getMessages(
+        { threadId, sort: "desc", limit: this.config.pollLimit },
+        { signal: controller.signal, retry: false }
+      );
+      if (this._threadId !== threadId) return;
+
+      // Oldest first so handlers see them in posting order
+      [...page.items].reverse().forEach((message) => {
+        this._handlers?.onCreated(message);
+        this._handlers?.onUpdated(message);
+        this._handlers?.onReactions(message.id, message.reactionCounts);
+      });
+    } catch (error) {
+      if (!(error instanceof AbortedError)) {
+        console.warn("Message poll failed:", error);
+      }
+    } finally {
+      if (this._pollAbort === controller) this._pollAbort = null;
+    }
+  }
+}
+
+// Single subscription shared by the app (only one thread is open at a time)
+export const messageSubscription = new MessageSubscription();
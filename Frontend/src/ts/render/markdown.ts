@@ -0,0 +1,178 @@
+/**
+ * markdown.ts
+ *
+ * Purpose:
+ * Turns user-written message text into safe HTML.
+ *
+ * Everything is escaped by default; only this Markdown subset becomes markup:
+ * - **bold** / __bold__, *emphasis* / _emphasis_
+ * - `inline code` and ``` fenced code blocks ```
+ * - [links](https://example.com) - http(s), mailto and in-app "#/" URLs only,
+ *   opened with rel="noopener noreferrer"
+ * - > block quotes
+ * - Blank lines separate paragraphs; single newlines become <br>
+ * - @username mentions, linked to the user's profile when the caller passes
+ *   them in `mentions` (the server resolved them); other @names stay text
+ *
+ * Notes:
+ * - The output contains no attributes other than the link `href`/`rel`/`target`
+ *   (and `class="mention"` on mention links), and `href` is both
+ *   scheme-checked and attribute-escaped.
+ * - Raw HTML in the input is shown as text, never parsed.
+ */
+
+const HTML_ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+// Nested quotes deeper than this are rendered as plain text
+const MAX_QUOTE_DEPTH = 4;
+
+// Placeholder for extracted code blocks; NUL is stripped from input first
+const BLOCK_TOKEN = /^\u0000(\d+)\u0000$/;
+
+export interface MarkdownOptions {
+  /** Users to link `@username` to (matched case-insensitively) */
+  mentions?: ReadonlyArray<{ userId: number; username: string }>;
+}
+
+/** Lower-cased username -> user id */
+type MentionLookup = ReadonlyMap<string, number>;
+
+/** Escape text for safe use in HTML content and quoted attribute values */
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (ch) => HTML_ESCAPES[ch] ?? ch);
+}
+
+/**
+ * Return the URL if it is safe to link to, otherwise null.
+ * Allows http(s), mailto and in-app hash routes ("#/threads/1").
+ */
+export function sanitizeUrl(url: string): string | null {
+  // Browsers ignore control characters and whitespace inside schemes ("java\tscript:")
+  const cleaned = url.replace(/[\u0000-\u0020\u007f]/g, "");
+  if (/^(https?:\/\/|mailto:)/i.test(cleaned) || cleaned.startsWith("#/")) {
+    return cleaned;
+  }
+  return null;
+}
+
+/** Render message text to sanitized HTML */
+export function renderMarkdown(source: string, options: MarkdownOptions = {}): string {
+  const mentions = new Map(
+    (options.mentions ?? []).map((m) => [m.username.toLowerCase(), m.userId] as const)
+  );
+  return renderBlocks(source.replace(/\u0000/g, "").replace(/\r\n?/g, "\n"), 0, mentions);
+}
+
+// ===== Block Level =====
+
+function renderBlocks(text: string, depth: number, mentions: MentionLookup): string {
+  // Pull fenced code blocks out first so nothing inside them is interpreted
+  const codeBlocks: string[] = [];
+  const withTokens = text.replace(
+    /^```[^\n]*\n([\s\S]*?)^```[ \t]*$/gm,
+    (_match, code: string) => {
+      codeBlocks.push(
+        `<pre><code>${escapeHtml(code.replace(/\n$/, ""))}</code></pre>`
+      );
+      return `\u0000${codeBlocks.length - 1}\u0000`;
+    }
+  );
+
+  const html: string[] = [];
+  let paragraph: string[] = [];
+  let quote: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length === 0) return;
+    html.push(`<p>${paragraph.map((line) => renderInline(line, mentions)).join("<br>")}</p>`);
+    paragraph = [];
+  };
+
+  const flushQuote = () => {
+    if (quote.length === 0) return;
+    const inner =
+      depth < MAX_QUOTE_DEPTH
+        ? renderBlocks(quote.join("\n"), depth + 1, mentions)
+        : `<p>${quote.map((line) => escapeHtml(line)).join("<br>")}</p>`;
+    html.push(`<blockquote>${inner}</blockquote>`);
+    quote = [];
+  };
+
+  for (const line of withTokens.split("\n")) {
+    const token = BLOCK_TOKEN.exec(line.trim());
+    if (token) {
+      flushParagraph();
+      flushQuote();
+      html.push(codeBlocks[Number(token[1])] ?? "");
+      continue;
+    }
+
+    const quoteMatch = /^ {0,3}>\s?(.*)$/.exec(line);
+    if (quoteMatch) {
+      flushParagraph();
+      quote.push(quoteMatch[1] ?? "");
+      continue;
+    }
+
+    if (line.trim() === "") {
+      flushParagraph();
+      flushQuote();
+      continue;
+    }
+
+    flushQuote();
+    paragraph.push(line);
+  }
+
+  flushParagraph();
+  flushQuote();
+  return html.join("");
+}
+
+// ===== Inline Level =====
+
+// Alternatives: `code` | [text](url) | **strong** | __strong__ | *em* | _em_ | @mention
+// (mentions match the backend's Mentions pattern: no trailing "." or "-")
+const INLINE_PATTERN =
+  /(`+)([^`]|[^`][\s\S]*?[^`])\1(?!`)|\[([^\]\n]+)\]\(([^()\s]+)\)|\*\*(?=\S)([^*]+?)\*\*|(?<![\w_])__(?=\S)([^_]+?)__(?![\w_])|\*(?=\S)([^*]+?)\*|(?<![\w_])_(?=\S)([^_]+?)_(?![\w_])|(?<![\w@])@([A-Za-z0-9_](?:[A-Za-z0-9_.-]*[A-Za-z0-9_])?)/g;
+
+function renderInline(text: string, mentions: MentionLookup, allowLinks = true): string {
+  let html = "";
+  let last = 0;
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const index = match.index ?? 0;
+    html += escapeHtml(text.slice(last, index));
+    last = index + match[0].length;
+
+    const [whole, , code, linkText, linkUrl, strong1, strong2, em1, em2, mention] = match;
+
+    if (code !== undefined) {
+      html += `<code>${escapeHtml(code)}</code>`;
+    } else if (linkText !== undefined && linkUrl !== undefined) {
+      const href = allowLinks ? sanitizeUrl(linkUrl) : null;
+      // In-app routes stay in this tab; external links open a new one
+      const target = href?.startsWith("#/") ? "" : ' target="_blank"';
+      html += href
+        ? `<a href="${escapeHtml(href)}"${target} rel="noopener noreferrer">${renderInline(linkText, mentions, false)}</a>`
+        : escapeHtml(whole);
+    } else if (strong1 !== undefined || strong2 !== undefined) {
+      html += `<strong>${renderInline(strong1 ?? strong2 ?? "", mentions, allowLinks)}</strong>`;
+    } else if (em1 !== undefined || em2 !== undefined) {
+      html += `<em>${renderInline(em1 ?? em2 ?? "", mentions, allowLinks)}</em>`;
+    } else if (mention !== undefined && allowLinks && mentions.has(mention.toLowerCase())) {
+      const userId = mentions.get(mention.toLowerCase());
+      html += `<a href="#/users/${userId}" class="mention">@${escapeHtml(mention)}</a>`;
+    } else {
+      html += escapeHtml(whole);
+    }
+  }
+
+  return html + escapeHtml(text.slice(last));
+}
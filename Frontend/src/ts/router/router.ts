@@ -0,0 +1,155 @@
+/**
+ * router.ts
+ *
+ * Purpose:
+ * Minimal hash-based client-side router for the Message Board SPA.
+ * Maps URL fragments such as `#/threads` and `#/threads/:id` to handler
+ * functions, so views can be bookmarked and browser back/forward works.
+ *
+ * Key Features:
+ * - Path patterns with named `:param` segments
+ * - Query strings (`#/search?q=hello`) are passed to handlers as params;
+ *   path params win when a name appears in both
+ * - Fallback handler for unknown routes, malformed paths (bad %-escapes)
+ *   and handlers that throw or reject
+ * - Re-resolves on every `hashchange` event (covers back/forward navigation)
+ *
+ * Usage:
+ *   import { router } from './router/router';
+ *   router.on('/threads/:id', ({ id }) => { ... });
+ *   router.start();
+ */
+
+export type RouteParams = Record<string, string>;
+export type RouteHandler = (params: RouteParams) => void | Promise<void>;
+
+interface Route {
+  pattern: RegExp;
+  keys: string[];
+  handler: RouteHandler;
+}
+
+export class Router {
+  private _routes: Route[] = [];
+  private _fallback: RouteHandler | undefined;
+  private _started = false;
+  private _recovering = false; // Running the fallback after a failed handler
+
+  /** Register a handler for a path pattern like "/threads/:id" */
+  on(path: string, handler: RouteHandler): this {
+    const keys: string[] = [];
+    const source = path
+      .split("/")
+      .map((segment) => {
+        if (segment.startsWith(":")) {
+          keys.push(segment.slice(1));
+          return "([^/]+)";
+        }
+        return segment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      })
+      .join("/");
+
+    this._routes.push({ pattern: new RegExp(`^${source}/?$`), keys, handler });
+    return this;
+  }
+
+  /** Register a handler for paths that match no route */
+  otherwise(handler: RouteHandler): this {
+    this._fallback = handler;
+    return this;
+  }
+
+  /** Current path without the leading "#" (defaults to "/"), including any query */
+  get currentPath(): string {
+    const path = window.location.hash.replace(/^#/, "");
+    return path || "/";
+  }
+
+  /** Current path without its query string */
+  get pathname(): string {
+    return this.currentPath.split("?")[0] || "/";
+  }
+
+  /** Query string parameters of the current path */
+  get query(): URLSearchParams {
+    const [, search = ""] = this.currentPath.split("?", 2);
+    return new URLSearchParams(search);
+  }
+
+  /** Navigate to a path; adds a history entry so back/forward works */
+  navigate(path: string) {
+    if (this.currentPath === path) {
+      this.resolve();
+      return;
+    }
+    window.location.hash = `#${path}`;
+  }
+
+  /** Replace the current history entry (no extra back step) and resolve */
+  redirect(path: string) {
+    window.history.replaceState(null, "", `#${path}`);
+    this.resolve();
+  }
+
+  /** Begin listening for hash changes and resolve the current route */
+  start() {
+    if (!this._started) {
+      window.addEventListener("hashchange", () => this.resolve());
+      this._started = true;
+    }
+    this.resolve();
+  }
+
+  /** Run the handler matching the current path */
+  resolve() {
+    const path = this.pathname;
+
+    for (const route of this._routes) {
+      const match = route.pattern.exec(path);
+      if (!match) continue;
+
+      const params: RouteParams = Object.fromEntries(this.query);
+      try {
+        route.keys.forEach((key, i) => {
+          params[key] = decodeURIComponent(match[i + 1] ?? "");
+        });
+      } catch (error) {
+        console.error(`Malformed route ${this.currentPath}:`, error);
+        this.fallback();
+        return;
+      }
+
+      void this.run(route.handler, params);
+      return;
+    }
+
+    this.fallback();
+  }
+
+  private fallback() {
+    if (this._fallback) {
+      void this.run(this._fallback, Object.fromEntries(this.query));
+    }
+  }
+
+  /**
+   * Run a handler; if it throws or rejects, log it and fall back once. A
+   * failure while already falling back is only logged, so a broken fallback
+   * route can't loop.
+   */
+  private async run(handler: RouteHandler, params: RouteParams) {
+    try {
+      await handler(params);
+      this._recovering = false;
+    } catch (error) {
+      console.error(`Route handler failed for ${this.currentPath}:`, error);
+      if (this._recovering) return;
+
+      this._recovering = true;
+      this.fallback();
+    }
+  }
+}
+
+// Export a single shared router
+export const router = new Router();
@@ -5,139 +5,1487 @@
  *
  * Responsibilities:
  * - Store and manage authentication state (token, current user).
+ * - Persist the session and restore it on reload; refresh the JWT before it
+ *   expires (or expire the session, for sessions without a refresh token).
+ * - Store and manage the thread list and the currently open thread.
+ * - Track what the logged-in user has read: advance a thread's read marker
+ *   when it's opened and place the "new messages" divider.
  * - Store and manage the message list.
- * - Provide subscription mechanism for authentication changes.
+ * - Count down the posting cooldown after the server rate-limits a post.
+ * - Upload files picked for the next message (with progress) and post them
+ *   with it.
+ * - Keep the logged-in user's notification inbox (mentions) up to date and
+ *   suggest usernames for the @mention being typed.
+ * - Load user profiles and apply the logged-in user's account settings.
  * - Handle API calls for loading/creating messages and user auth.
- * - Update the DOM with current message data and error messages.
+ * - Record errors and notices for the user in the store.
  *
  * Dependencies:
  * - apiClient: Handles HTTP calls to the backend API.
- * - Message, User types: Data structures from the API layer.
+ * - Store / BoardState: The observable state the views render from.
+ * - StorageAdapter: Where the session is persisted (localStorage by default).
  *
  * Notes:
  * - This is a singleton — `appState` is the single instance used app-wide.
- * - UI updates are handled directly here via `renderMessages` and `showError`.
+ * - AppState never touches the DOM. It writes to `store`, which the view
+ *   components in ../views subscribe to, so it can run under Node.
  * ---------------------------------------------------------
  */
 
-import { apiClient, Message, User } from "../api/client";
+import {
+  AbortedError,
+  ApiError,
+  apiClient,
+  Message,
+  NetworkError,
+  NotFoundError,
+  RateLimitError,
+  REACTION_EMOJI,
+  ReactionCount,
+  SearchQuery,
+  Thread,
+  ThreadArchive,
+  User,
+  ValidationError,
+} from "../api/client";
+import {
+  BoardState,
+  ComposerAttachment,
+  createInitialState,
+  FormName,
+  Notice,
+  selectCanManageThread,
+  selectCanPost,
+  selectIsAdmin,
+  selectIsAuthenticated,
+  selectIsModerator,
+  SortOrder,
+} from "./boardState";
+import { getTokenExpiry } from "./jwt";
+import { createIdempotencyKey, Outbox, OutboxDraft, OutboxItem } from "./outbox";
+import { createDefaultStorage, StorageAdapter } from "./storage";
+import { Store } from "./store";
 
 // Re-export types for convenience so imports can come from state layer
-export { Message, User, Thread } from "../api/client";
+export { Message, MessageAuthor, User, Thread } from "../api/client";
+
+const SESSION_STORAGE_KEY = "messageboard.session";
+const SESSION_WARNING_MS = 2 * 60 * 1000; // Warn this long before the JWT expires
+const SESSION_EXPIRY_BUFFER_MS = 30 * 1000; // Refresh (or log out) this long before it expires
+const MAX_TIMEOUT_MS = 2 ** 31 - 1; // setTimeout overflows beyond this
+const CONNECTION_TEST_TIMEOUT_MS = 5000; // Startup connectivity check limit
+const CONNECTION_RETRY_MS = 15_000; // How often to re-check the API while offline
+const MESSAGE_PAGE_SIZE = 20; // Messages fetched per infinite-scroll page
+const SEARCH_PAGE_SIZE = 20; // Search results fetched per "Load more"
+export const MIN_SEARCH_LENGTH = 2; // Matches the backend's minimum query length
+const HIGHLIGHT_DURATION_MS = 3000; // How long a linked-to message stays highlighted
+const NOTICE_DURATION_MS = 5000; // Notices dismiss themselves after this long
+const COOLDOWN_TICK_MS = 1000; // How often the posting cooldown counts down
+const NOTIFICATION_POLL_MS = 60_000; // How often the inbox is refreshed while logged in
+const NOTIFICATION_PAGE_SIZE = 20; // Notifications shown in the inbox
+const MENTION_SUGGESTION_LIMIT = 5; // Usernames offered while typing an @mention
+export const MAX_ATTACHMENTS_PER_MESSAGE = 4; // Matches the backend's default limit
+
+/** How a thread is exported: a JSON archive (importable) or a Markdown transcript */
+export type ExportFormat = "json" | "markdown";
+
+/** An exported thread, ready to be saved as a file */
+export interface ThreadExport {
+  fileName: string;
+  contentType: string;
+  content: string;
+}
+
+interface PersistedSession {
+  token: string;
+  user: User;
+  refreshToken?: string; // Missing in sessions saved before refresh tokens existed
+}
 
 export class AppState {
-  private _messages: Message[] = []; // In-memory message store
-  private _token: string | null = null; // JWT for authenticated requests
-  private _currentUser: User | null = null; // Logged-in user data
-  private _authListeners: Array<() => void> = []; // Auth state subscribers
-  private _sortOrder: "asc" | "desc" = "desc"; // Message sort order
+  /** Observable state - views subscribe to it, only AppState writes it */
+  readonly store = new Store<BoardState>(createInitialState());
+
+  private _threadLoad: AbortController | null = null; // In-flight thread/messages fetch
+  private _nextCursor: string | null = null; // Cursor for the next message page
+  private _loadingMore = false; // Guards against overlapping page fetches
+  private _pendingReactions = new Set<string>(); // "messageId:emoji" toggles awaiting the server
+  private _searchLoad: AbortController | null = null; // In-flight search request
+  private _profileLoad: AbortController | null = null; // In-flight profile fetch
+  private _storage: StorageAdapter; // Session persistence backend
+  private _outbox: Outbox; // Messages written while the API was unreachable
+  private _connectionTimer: ReturnType<typeof setInterval> | null = null; // Reconnect checks while offline
+  private _checkingConnection = false; // Guards against overlapping reconnect checks
+  private _threadFromServer = false; // Current thread came from the API, not sample data
+  private _highlightTimer: ReturnType<typeof setTimeout> | null = null; // Ends the linked-message highlight
+  private _expiryTimers: Array<ReturnType<typeof setTimeout>> = []; // Session expiry timers
+  private _cooldownTimer: ReturnType<typeof setInterval> | null = null; // Counts down postCooldown
+  private _notificationTimer: ReturnType<typeof setInterval> | null = null; // Inbox refreshes
+  private _mentionLoad: AbortController | null = null; // In-flight username suggestions
+  private _uploads = new Map<string, AbortController>(); // In-flight uploads, by composer key
+  private _nextNoticeId = 1;
+
+  constructor(storage: StorageAdapter = createDefaultStorage()) {
+    this._storage = storage;
+    this._outbox = new Outbox(storage);
+  }
+
+  // --- GETTERS ---
+  private get state(): Readonly<BoardState> {
+    return this.store.getState();
+  }
+  get messages(): Message[] {
+    return this.state.messages;
+  }
+  get isAuthenticated(): boolean {
+    return selectIsAuthenticated(this.state);
+  }
+  get currentUser(): User | null {
+    return this.state.currentUser;
+  }
+  get threads(): Thread[] {
+    return this.state.threads;
+  }
+  get currentThread(): Thread | null {
+    return this.state.currentThread;
+  }
+  get hasMoreMessages(): boolean {
+    return this.state.hasMore;
+  }
+  /** Whether the API is currently reachable */
+  get isOnline(): boolean {
+    return this.state.online;
+  }
+  /** The current user's unsent messages for the current thread, oldest first */
+  get pendingMessages(): OutboxItem[] {
+    return this.state.pendingMessages;
+  }
+  /** Seconds until the server accepts posts again; 0 when not rate limited */
+  get postCooldown(): number {
+    return this.state.postCooldown;
+  }
+  /** Whether the logged-in user can use the moderation tools */
+  get isModerator(): boolean {
+    return selectIsModerator(this.state);
+  }
+  /** Whether the logged-in user may post in the current thread */
+  get canPost(): boolean {
+    return selectCanPost(this.state);
+  }
+  /** Whether the logged-in user may rename/delete the current thread */
+  get canManageThread(): boolean {
+    return selectCanManageThread(this.state);
+  }
+
+  // --- CONNECTIVITY ---
+  /**
+   * Record whether the API is reachable. Going offline starts periodic
+   * checks (and listens for the browser's "online" event); coming back
+   * stops them and sends any queued messages.
+   */
+  private setOnline(online: boolean) {
+    if (this.state.online !== online) {
+      console.log(online ? "API reachable again" : "API unreachable - working offline");
+    }
+    this.store.setState({ online });
+
+    if (online) {
+      this.stopConnectionChecks();
+      void this.flushOutbox();
+    } else {
+      this.startConnectionChecks();
+    }
+  }
+
+  private startConnectionChecks() {
+    if (this._connectionTimer) return;
+    this._connectionTimer = setInterval(() => void this.checkConnection(), CONNECTION_RETRY_MS);
+    if (typeof window !== "undefined") {
+      window.addEventListener("online", this.handleBrowserOnline);
+    }
+  }
+
+  private stopConnectionChecks() {
+    if (this._connectionTimer) clearInterval(this._connectionTimer);
+    this._connectionTimer = null;
+    if (typeof window !== "undefined") {
+      window.removeEventListener("online", this.handleBrowserOnline);
+    }
+  }
+
+  private handleBrowserOnline = () => void this.checkConnection();
+
+  private async checkConnection() {
+    if (this._checkingConnection) return;
+    this._checkingConnection = true;
+
+    try {
+      await apiClient.testConnection({
+        timeoutMs: CONNECTION_TEST_TIMEOUT_MS,
+        retry: false,
+      });
+      this.setOnline(true);
+    } catch {
+      // Still unreachable - the next tick tries again
+    } finally {
+      this._checkingConnection = false;
+    }
+  }
+
+  // --- THREAD STATE MANAGEMENT ---
+  setThreads(threads: Thread[]) {
+    this.store.setState({ threads });
+  }
+
+  async loadThreads(): Promise<void> {
+    try {
+      console.log("Loading threads from API...");
+      const threads = await apiClient.getThreads();
+      this.setThreads(threads);
+    } catch (error) {
+      console.error("Failed to load threads:", error);
+      this.showApiError(error, "Failed to load threads. Please try again.");
+    }
+  }
+
+  /**
+   * Make a thread the current one and load only its messages.
+   * Returns false if the thread could not be loaded.
+   */
+  async openThread(threadId: number): Promise<boolean> {
+    // Cancel whatever the previous view was still loading
+    this.cancelThreadLoad();
+    const controller = new AbortController();
+    this._threadLoad = controller;
+
+    try {
+      console.log(`Opening thread ${threadId}...`);
+      const thread = await apiClient.getThread(threadId, {
+        signal: controller.signal,
+      });
+      this.setCurrentThread(thread);
+      this._threadFromServer = true;
+      await this.loadMessages(thread.id, controller.signal);
+      if (controller.signal.aborted) return false;
+
+      this.store.setState({ firstUnreadMessageId: this.findFirstUnread(thread) });
+      void this.markCurrentThreadRead();
+      return true;
+    } catch (error) {
+      if (error instanceof AbortedError) return false;
+      console.error("Failed to open thread:", error);
+      this.showApiError(error, "Failed to load thread. It may have been removed.");
+      return false;
+    }
+  }
+
+  /** Set the current thread without fetching (used for offline sample data) */
+  setCurrentThread(thread: Thread | null) {
+    this._threadFromServer = false;
+    if (this.state.currentThread?.id !== thread?.id) {
+      this.resetThreadState();
+    }
+    this.store.setState({ currentThread: thread });
+    this.syncPendingMessages();
+  }
+
+  /** Leave the current thread and drop its messages */
+  closeThread() {
+    this.cancelThreadLoad();
+    this._threadFromServer = false;
+    this.resetThreadState();
+    this.store.setState({ currentThread: null });
+    this.syncPendingMessages();
+  }
+
+  async createThread(title: string): Promise<Thread | null> {
+    if (!this.isAuthenticated) {
+      this.showError("You must be logged in to start a thread.");
+      return null;
+    }
+
+    this.clearFieldErrors("thread");
+
+    try {
+      console.log("Creating thread via API...");
+      const thread = await apiClient.createThread({ title });
+      this.setThreads([thread, ...this.state.threads]);
+      return thread;
+    } catch (error) {
+      console.error("Failed to create thread:", error);
+      this.showApiError(error, "Failed to create thread. Please try again.", "thread");
+      return null;
+    }
+  }
+
+  /** Rename the current thread */
+  async renameThread(title: string): Promise<boolean> {
+    const thread = this.state.currentThread;
+    if (!thread) return false;
+
+    try {
+      console.log(`Renaming thread ${thread.id}...`);
+      const updated = await apiClient.updateThread(thread.id, { title });
+      this.store.setState((s) => ({
+        currentThread: s.currentThread?.id === updated.id ? updated : s.currentThread,
+        threads: s.threads.map((t) => (t.id === updated.id ? updated : t)),
+      }));
+      return true;
+    } catch (error) {
+      console.error("Failed to rename thread:", error);
+      this.showApiError(error, "Failed to rename the thread. Please try again.");
+      return false;
+    }
+  }
+
+  /** Delete the current thread with all its messages, then leave it */
+  async deleteThread(): Promise<boolean> {
+    const thread = this.state.currentThread;
+    if (!thread) return false;
+
+    try {
+      console.log(`Deleting thread ${thread.id}...`);
+      await apiClient.deleteThread(thread.id);
+      this.setThreads(this.state.threads.filter((t) => t.id !== thread.id));
+      if (this.state.currentThread?.id === thread.id) this.closeThread();
+      return true;
+    } catch (error) {
+      console.error("Failed to delete thread:", error);
+      this.showApiError(error, "Failed to delete the thread. Please try again.");
+      return false;
+    }
+  }
+
+  // --- EXPORT / IMPORT ---
+  /**
+   * The current thread as a file: a JSON archive (which an admin can import
+   * into another board) or a Markdown transcript. Null after a notice when
+   * the server can't provide it.
+   */
+  async exportThread(format: ExportFormat): Promise<ThreadExport | null> {
+    const thread = this.state.currentThread;
+    if (!thread) return null;
+
+    if (!this._threadFromServer) {
+      this.showError("The server is unreachable - sample threads can't be exported.");
+      return null;
+    }
+
+    const baseName = `thread-${thread.id}-${fileSlug(thread.title)}`;
+    try {
+      console.log(`Exporting thread ${thread.id} as ${format}...`);
+      if (format === "markdown") {
+        const transcript = await apiClient.exportThreadMarkdown(thread.id);
+        return { fileName: `${baseName}.md`, contentType: "text/markdown", content: transcript };
+      }
+
+      const archive = await apiClient.exportThread(thread.id);
+      return {
+        fileName: `${baseName}.json`,
+        contentType: "application/json",
+        content: JSON.stringify(archive, null, 2),
+      };
+    } catch (error) {
+      console.error("Failed to export thread:", error);
+      this.showApiError(error, "Failed to export the thread. Please try again.");
+      return null;
+    }
+  }
+
+  /**
+   * Recreate a thread from the text of a JSON archive (admins only) and add
+   * it to the thread list. Returns the new thread, or null after a notice.
+   */
+  async importThread(json: string): Promise<Thread | null> {
+    if (!selectIsAdmin(this.state)) {
+      this.showError("Only admins can import threads.");
+      return null;
+    }
+
+    let archive: ThreadArchive;
+    try {
+      archive = JSON.parse(json) as ThreadArchive;
+    } catch {
+      this.showError("That file isn't a thread archive (it isn't valid JSON).");
+      return null;
+    }
+
+    try {
+      console.log("Importing thread...");
+      const { thread, messageCount, unknownAuthors } = await apiClient.importThread(archive);
+      this.setThreads([thread, ...this.state.threads.filter((t) => t.id !== thread.id)]);
+
+      const placeholders =
+        unknownAuthors.length > 0
+          ? ` Posts by ${unknownAuthors.join(", ")} (no account here) went to a placeholder user.`
+          : "";
+      this.showNotice(
+        `Imported "${thread.title}" with ${messageCount} messages.${placeholders}`,
+        "success"
+      );
+      return thread;
+    } catch (error) {
+      console.error("Failed to import thread:", error);
+      if (error instanceof ValidationError) {
+        this.showError(archiveErrorMessage(error));
+      } else {
+        this.showApiError(error, "Failed to import the thread. Please try again.");
+      }
+      return null;
+    }
+  }
+
+  // --- MESSAGE STATE MANAGEMENT ---
+  public setSortOrder(order: SortOrder) {
+    this.store.setState({ sortOrder: order });
+
+    // Partially loaded thread: the first page in the new order lives on the server
+    const thread = this.state.currentThread;
+    if (this.state.hasMore && thread) {
+      void this.loadMessages(thread.id, this._threadLoad?.signal);
+    }
+    // Otherwise everything is loaded and the list just re-sorts
+  }
+
+  setMessages(messages: Message[]) {
+    this.store.setState({ messages });
+  }
+
+  addMessage(message: Message) {
+    // A pushed event for our own post may have arrived before the POST response
+    if (this.state.messages.some((m) => m.id === message.id)) return;
+
+    this.setMessages([...this.state.messages, message]);
+  }
+
+  /**
+   * Accept a message from the real-time channel (push or poll).
+   * Ignores other threads and messages already shown.
+   */
+  receiveMessage(message: Message) {
+    const { messages, hasMore } = this.state;
+    if (message.threadId !== this.state.currentThread?.id) return;
+    if (messages.some((m) => m.id === message.id)) return;
+
+    if (message.parentMessageId !== null) {
+      // A reply to a post on a page not loaded yet arrives with that page
+      const parentLoaded = messages.some((m) => m.id === message.parentMessageId);
+      if (!parentLoaded && hasMore) return;
+    } else if (this.state.sortOrder === "asc" && hasMore) {
+      // Oldest-first with unloaded pages: it belongs after those, scrolling will reach it
+      return;
+    }
+
+    this.setMessages([...messages, message]);
+
+    // The thread is open, so whatever arrives is read
+    if (message.userId !== this.state.currentUser?.id) void this.markCurrentThreadRead();
+  }
+
+  /**
+   * Swap in a newer copy of a message we already show (edits). Reaction
+   * counts are kept: they change through applyReactionCounts/toggleReaction.
+   */
+  replaceMessage(message: Message) {
+    const current = this.state.messages.find((m) => m.id === message.id);
+    if (!current) return;
+    if (
+      current.content === message.content &&
+      current.updatedAt === message.updatedAt &&
+      current.hiddenAt === message.hiddenAt
+    ) {
+      return;
+    }
+
+    this.store.setState((s) => ({
+      messages: s.messages.map((m) =>
+        m.id === message.id ? { ...message, reactionCounts: current.reactionCounts } : m
+      ),
+      revisions: withoutRevisions(s.revisions, message.id), // Stale - refetch when next opened
+    }));
+  }
+
+  /** Drop a message deleted elsewhere (real-time channel) */
+  removeMessage(messageId: number) {
+    const remaining = this.state.messages.filter((m) => m.id !== messageId);
+    if (remaining.length === this.state.messages.length) return;
+
+    this.setMessages(remaining);
+  }
+
+  /**
+   * Delete one of the current user's messages. The card disappears right
+   * away and is put back if the server refuses (e.g. 403 not the author).
+   */
+  async deleteMessage(messageId: number): Promise<boolean> {
+    if (!this.isAuthenticated) {
+      this.showError("You must be logged in to delete messages.");
+      return false;
+    }
+
+    const index = this.state.messages.findIndex((m) => m.id === messageId);
+    const message = this.state.messages[index];
+    if (!message) return false;
+
+    // Optimistic removal
+    this.store.setState((s) => ({
+      messages: s.messages.filter((m) => m.id !== messageId),
+      editingMessageId: s.editingMessageId === messageId ? null : s.editingMessageId,
+    }));
+
+    try {
+      console.log(`Deleting message ${messageId} via API...`);
+      await apiClient.deleteMessage(messageId);
+      this.store.setState((s) => ({ revisions: withoutRevisions(s.revisions, messageId) }));
+      return true;
+    } catch (error) {
+      // Already gone on the server - the removal stands
+      if (error instanceof NotFoundError) return true;
+
+      console.error("Failed to delete message:", error);
+
+      // Roll back unless the thread changed or the message came back meanwhile
+      const { currentThread, messages } = this.state;
+      if (currentThread?.id === message.threadId && !messages.some((m) => m.id === messageId)) {
+        const restored = [...messages];
+        restored.splice(Math.min(index, restored.length), 0, message);
+        this.setMessages(restored);
+      }
+      this.showApiError(error, "Failed to delete message. Please try again.");
+      return false;
+    }
+  }
+
+  /** Load the first page of messages in the current sort order */
+  async loadMessages(threadId?: number, signal?: AbortSignal): Promise<void> {
+    const sort = this.state.sortOrder;
+
+    try {
+      console.log("Loading messages from API...");
+      const page = await apiClient.getMessages(
+        {
+          ...(threadId ? { threadId, threaded: true } : {}),
+          sort,
+          limit: MESSAGE_PAGE_SIZE,
+        },
+        signal ? { signal } : {}
+      );
+
+      // Sort was toggled again while this page was in flight
+      if (sort !== this.state.sortOrder) return;
+
+      this._nextCursor = page.nextCursor;
+      this.store.setState({ messages: page.items, hasMore: page.hasMore });
+    } catch (error) {
+      if (error instanceof AbortedError) return;
+      console.error("Failed to load messages:", error);
+      this.showApiError(error, "Failed to load messages. Please try again.");
+    }
+  }
+
+  /** Fetch the next page for the current thread and append it (infinite scroll) */
+  async loadMoreMessages(): Promise<void> {
+    const thread = this.state.currentThread;
+    const cursor = this._nextCursor;
+    if (!thread || !cursor || !this.state.hasMore || this._loadingMore) return;
+
+    const signal = this._threadLoad?.signal;
+    const sort = this.state.sortOrder;
+    this._loadingMore = true;
+
+    try {
+      console.log("Loading next page of messages...");
+      const page = await apiClient.getMessages(
+        { threadId: thread.id, threaded: true, cursor, sort, limit: MESSAGE_PAGE_SIZE },
+        signal ? { signal } : {}
+      );
+
+      // Thread, sort order or first page changed while this page was in flight
+      if (
+        this.state.currentThread?.id !== thread.id ||
+        this.state.sortOrder !== sort ||
+        this._nextCursor !== cursor
+      ) {
+        return;
+      }
+
+      // Skip anything already shown (e.g. our own post made since the first page)
+      const known = new Set(this.state.messages.map((m) => m.id));
+      const fresh = page.items.filter((m) => !known.has(m.id));
+
+      this._nextCursor = page.nextCursor;
+      this.store.setState((s) => ({
+        messages: [...s.messages, ...fresh],
+        hasMore: page.hasMore,
+      }));
+    } catch (error) {
+      if (error instanceof AbortedError) return;
+      console.error("Failed to load more messages:", error);
+      this.showApiError(error, "Failed to load more messages. Please try again.");
+    } finally {
+      this._loadingMore = false;
+    }
+  }
+
+  // --- MESSAGE EDITING ---
+  startEditing(messageId: number) {
+    this.store.setState({ editingMessageId: messageId });
+  }
+
+  cancelEditing() {
+    this.store.setState({ editingMessageId: null });
+  }
+
+  /** Save an edit to one of the current user's messages */
+  async updateMessage(messageId: number, content: string): Promise<boolean> {
+    if (!this.isAuthenticated) {
+      this.showError("You must be logged in to edit messages.");
+      return false;
+    }
+
+    try {
+      console.log(`Updating message ${messageId} via API...`);
+      const updated = await apiClient.updateMessage(messageId, { content });
+      this.replaceMessage(updated);
+      this.cancelEditing();
+      return true;
+    } catch (error) {
+      console.error("Failed to update message:", error);
+      this.showApiError(error, "Failed to save your edit. Please try again.");
+      return false;
+    }
+  }
+
+  /** Show or hide a message's edit history, fetching it the first time */
+  async toggleHistory(messageId: number): Promise<void> {
+    if (this.state.revisions.has(messageId)) {
+      this.store.setState((s) => ({ revisions: withoutRevisions(s.revisions, messageId) }));
+      return;
+    }
+
+    try {
+      const revisions = await apiClient.getMessageRevisions(messageId);
+      this.store.setState((s) => ({
+        revisions: new Map(s.revisions).set(messageId, revisions),
+      }));
+    } catch (error) {
+      console.error("Failed to load message history:", error);
+      this.showApiError(error, "Failed to load the edit history.");
+    }
+  }
+
+  /**
+   * Highlight a message in the open thread briefly; the message list
+   * scrolls to it (search results link here). Fetches it if it isn't on a
+   * loaded page.
+   */
+  async focusMessage(messageId: number): Promise<void> {
+    const thread = this.state.currentThread;
+    if (!thread) return;
+
+    if (!this.state.messages.some((m) => m.id === messageId)) {
+      try {
+        const message = await apiClient.getMessage(messageId, {
+          ...(this._threadLoad ? { signal: this._threadLoad.signal } : {}),
+        });
+        if (message.threadId !== thread.id || this.state.currentThread?.id !== thread.id) return;
+        this.addMessage(message);
+      } catch (error) {
+        if (error instanceof AbortedError) return;
+        console.error("Failed to load linked message:", error);
+        this.showApiError(error, "That message could not be found. It may have been removed.");
+        return;
+      }
+    }
+
+    if (this._highlightTimer) clearTimeout(this._highlightTimer);
+    this.store.setState({ highlightedMessageId: messageId });
+    this._highlightTimer = setTimeout(() => {
+      this._highlightTimer = null;
+      this.store.setState({ highlightedMessageId: null });
+    }, HIGHLIGHT_DURATION_MS);
+  }
+
+  // --- SEARCH ---
+  /** Run a new search, replacing any results shown (too-short queries just clear them) */
+  async search(query: SearchQuery): Promise<void> {
+    this.cancelSearch();
+    this.store.setState({ searchQuery: query, searchResults: [], searchHasMore: false });
+
+    if (query.q.trim().length < MIN_SEARCH_LENGTH) return;
+
+    await this.fetchSearchPage(query, 0);
+  }
+
+  /** Append the next page of results for the current query */
+  async loadMoreSearchResults(): Promise<void> {
+    const { searchQuery, searchHasMore, searchResults } = this.state;
+    if (!searchQuery || !searchHasMore || this._searchLoad) return;
+
+    await this.fetchSearchPage(searchQuery, searchResults.length);
+  }
+
+  /** Abort any in-flight search (e.g. when leaving the results view) */
+  cancelSearch() {
+    this._searchLoad?.abort();
+    this._searchLoad = null;
+  }
+
+  private async fetchSearchPage(query: SearchQuery, offset: number): Promise<void> {
+    const controller = new AbortController();
+    this._searchLoad = controller;
+
+    try {
+      console.log(`Searching for "${query.q}" (offset ${offset})...`);
+      const response = await apiClient.search(
+        { ...query, limit: SEARCH_PAGE_SIZE, offset },
+        { signal: controller.signal }
+      );
+
+      this.store.setState((s) => ({
+        searchResults: [...s.searchResults, ...response.items],
+        searchHasMore: response.hasMore,
+      }));
+    } catch (error) {
+      if (error instanceof AbortedError) return;
+      console.error("Search failed:", error);
+      this.showApiError(error, "Search failed. Please try again.");
+    } finally {
+      if (this._searchLoad === controller) this._searchLoad = null;
+    }
+  }
+
+  // --- NOTIFICATIONS ---
+  /**
+   * Refresh the inbox and unread count. Background refreshes (`quiet`) only
+   * log failures; opening the inbox reports them.
+   */
+  async loadNotifications(quiet = false): Promise<boolean> {
+    if (!this.isAuthenticated) return false;
+
+    try {
+      const list = await apiClient.getNotifications(NOTIFICATION_PAGE_SIZE);
+      // Logged out (or in as someone else) while the request was in flight
+      if (!this.isAuthenticated) return false;
+      this.store.setState({
+        notifications: list.items,
+        unreadNotificationCount: list.unreadCount,
+      });
+      return true;
+    } catch (error) {
+      if (quiet) {
+        console.warn("Failed to refresh notifications:", error);
+      } else {
+        console.error("Failed to load notifications:", error);
+        this.showApiError(error, "Failed to load notifications. Please try again.");
+      }
+      return false;
+    }
+  }
+
+  /** Mark one notification read (e.g. when following it to the message) */
+  async markNotificationRead(notificationId: number): Promise<boolean> {
+    const notification = this.state.notifications.find((n) => n.id === notificationId);
+    if (!notification || notification.readAt !== null) return false;
+
+    try {
+      const updated = await apiClient.markNotificationRead(notificationId);
+      this.store.setState((s) => ({
+        notifications: s.notifications.map((n) => (n.id === updated.id ? updated : n)),
+        unreadNotificationCount: Math.max(0, s.unreadNotificationCount - 1),
+      }));
+      return true;
+    } catch (error) {
+      console.warn(`Failed to mark notification ${notificationId} read:`, error);
+      return false;
+    }
+  }
+
+  /** Mark the whole inbox read */
+  async markAllNotificationsRead(): Promise<boolean> {
+    if (!this.isAuthenticated) {
+      this.showError("You must be logged in to manage notifications.");
+      return false;
+    }
+
+    try {
+      await apiClient.markAllNotificationsRead();
+      const readAt = new Date().toISOString();
+      this.store.setState((s) => ({
+        notifications: s.notifications.map((n) => (n.readAt === null ? { ...n, readAt } : n)),
+        unreadNotificationCount: 0,
+      }));
+      return true;
+    } catch (error) {
+      console.error("Failed to mark notifications as read:", error);
+      this.showApiError(error, "Failed to mark notifications as read. Please try again.");
+      return false;
+    }
+  }
+
+  /**
+   * Offer usernames starting with `prefix` for the @mention being typed
+   * (never the logged-in user). A newer call replaces an older one.
+   */
+  async suggestMentions(prefix: string): Promise<void> {
+    this.clearMentionSuggestions();
+    if (!prefix || !this.isAuthenticated) return;
+
+    const controller = new AbortController();
+    this._mentionLoad = controller;
+
+    try {
+      const users = await apiClient.getUsers(
+        { q: prefix, limit: MENTION_SUGGESTION_LIMIT + 1 },
+        { signal: controller.signal }
+      );
+      const self = this.state.currentUser?.id;
+      this.store.setState({
+        mentionSuggestions: users
+          .filter((u) => u.id !== self)
+          .slice(0, MENTION_SUGGESTION_LIMIT),
+      });
+    } catch (error) {
+      if (error instanceof AbortedError) return;
+      console.warn("Failed to load username suggestions:", error);
+    } finally {
+      if (this._mentionLoad === controller) this._mentionLoad = null;
+    }
+  }
+
+  /** Stop offering usernames (the @mention was completed or abandoned) */
+  clearMentionSuggestions() {
+    this._mentionLoad?.abort();
+    this._mentionLoad = null;
+    if (this.state.mentionSuggestions.length > 0) {
+      this.store.setState({ mentionSuggestions: [] });
+    }
+  }
+
+  private startNotificationPolling() {
+    if (this._notificationTimer !== null) return;
+    void this.loadNotifications(true);
+    this._notificationTimer = setInterval(
+      () => void this.loadNotifications(true),
+      NOTIFICATION_POLL_MS
+    );
+  }
+
+  private stopNotificationPolling() {
+    if (this._notificationTimer !== null) clearInterval(this._notificationTimer);
+    this._notificationTimer = null;
+    this.store.setState({ notifications: [], unreadNotificationCount: 0 });
+  }
+
+  // --- PROFILES ---
+  /**
+   * Load a user's profile and the threads they started (#/users/:id).
+   * Returns false if the profile could not be loaded.
+   */
+  async openProfile(userId: number): Promise<boolean> {
+    this.cancelProfileLoad();
+    const controller = new AbortController();
+    this._profileLoad = controller;
+    this.store.setState({ profile: null, profileThreads: [] });
+
+    try {
+      console.log(`Loading profile of user ${userId}...`);
+      const options = { signal: controller.signal };
+      const [profile, threads] = await Promise.all([
+        apiClient.getUser(userId, options),
+        apiClient.getUserThreads(userId, options),
+      ]);
+      this.store.setState({ profile, profileThreads: threads });
+      return true;
+    } catch (error) {
+      if (error instanceof AbortedError) return false;
+      console.error("Failed to load profile:", error);
+      this.showApiError(error, "Failed to load the profile. Please try again.");
+      return false;
+    } finally {
+      if (this._profileLoad === controller) this._profileLoad = null;
+    }
+  }
+
+  /** Leave the profile page */
+  closeProfile() {
+    this.cancelProfileLoad();
+    this.store.setState({ profile: null, profileThreads: [] });
+  }
+
+  private cancelProfileLoad() {
+    this._profileLoad?.abort();
+    this._profileLoad = null;
+  }
+
+  // --- MODERATION ---
+  /** Lock or unlock the current thread (moderators) */
+  async setThreadLocked(locked: boolean): Promise<boolean> {
+    const thread = this.state.currentThread;
+    if (!thread) return false;
+
+    try {
+      console.log(`${locked ? "Locking" : "Unlocking"} thread ${thread.id}...`);
+      const updated = locked
+        ? await apiClient.lockThread(thread.id)
+        : await apiClient.unlockThread(thread.id);
+
+      const isLocked = updated.isLocked;
+      this.store.setState((s) => ({
+        currentThread:
+          s.currentThread?.id === thread.id ? { ...s.currentThread, isLocked } : s.currentThread,
+        threads: s.threads.map((t) => (t.id === thread.id ? { ...t, isLocked } : t)),
+      }));
+      return true;
+    } catch (error) {
+      console.error("Failed to update thread lock:", error);
+      this.showApiError(error, "Failed to update the thread. Please try again.");
+      return false;
+    }
+  }
+
+  /** Hide a message from everyone but moderators, with a reason */
+  async hideMessage(messageId: number, reason: string): Promise<boolean> {
+    try {
+      console.log(`Hiding message ${messageId}...`);
+      this.replaceMessage(await apiClient.hideMessage(messageId, reason));
+      return true;
+    } catch (error) {
+      console.error("Failed to hide message:", error);
+      this.showApiError(error, "Failed to hide the message. Please try again.");
+      return false;
+    }
+  }
+
+  async unhideMessage(messageId: number): Promise<boolean> {
+    try {
+      console.log(`Unhiding message ${messageId}...`);
+      this.replaceMessage(await apiClient.unhideMessage(messageId));
+      return true;
+    } catch (error) {
+      console.error("Failed to unhide message:", error);
+      this.showApiError(error, "Failed to unhide the message. Please try again.");
+      return false;
+    }
+  }
+
+  /** Ban or unban a message author; reflected on all of their cards */
+  async setUserBanned(userId: number, reason: string | null): Promise<boolean> {
+    try {
+      console.log(`${reason !== null ? "Banning" : "Unbanning"} user ${userId}...`);
+      const user =
+        reason !== null
+          ? await apiClient.banUser(userId, reason)
+          : await apiClient.unbanUser(userId);
+
+      this.setMessages(
+        this.state.messages.map((m) =>
+          m.userId === userId
+            ? { ...m, user: { ...m.user, bannedAt: user.bannedAt, banReason: user.banReason } }
+            : m
+        )
+      );
+      return true;
+    } catch (error) {
+      console.error("Failed to update ban:", error);
+      this.showApiError(error, "Failed to update the user's ban. Please try again.");
+      return false;
+    }
+  }
+
+  // --- REPLIES ---
+  /** Reply to a message (the message form pre-fills a quote of it) */
+  startReply(messageId: number) {
+    const message = this.state.messages.find((m) => m.id === messageId);
+    if (!message) return;
+
+    this.store.setState({ replyTo: message });
+  }
+
+  /** Post the next message at top level again (the typed text is kept) */
+  cancelReply() {
+    this.store.setState({ replyTo: null });
+  }
+
+  /** Fold or unfold the replies under a message */
+  toggleReplies(messageId: number) {
+    const collapsed = new Set(this.state.collapsed);
+    if (!collapsed.delete(messageId)) {
+      collapsed.add(messageId);
+    }
+    this.store.setState({ collapsed });
+  }
+
+  /**
+   * Post a message to the current thread. While the API is unreachable the
+   * message goes to the outbox instead and is sent once it's back.
+   * Returns true once the message is posted or queued.
+   */
+  async createMessage(content: string): Promise<boolean> {
+    const { currentThread, currentUser } = this.state;
+
+    // Client-side auth check before sending message
+    if (!this.isAuthenticated || !currentUser) {
+      this.showError("You must be logged in to send messages.");
+      return false;
+    }
+
+    if (!currentThread) {
+      this.showError("Open a thread before posting a message.");
+      return false;
+    }
+
+    if (!this._threadFromServer) {
+      this.showError("The server is unreachable - sample threads can't receive messages.");
+      return false;
+    }
+
+    // The form shows the countdown; nothing is sent until it ends
+    if (this.state.postCooldown > 0) return false;
+
+    const attachments = this.state.composerAttachments;
+    if (attachments.some((a) => !a.attachment && !a.error)) {
+      this.showError("Wait for your files to finish uploading.");
+      return false;
+    }
+    if (attachments.some((a) => a.error)) {
+      this.showError("Remove the files that couldn't be uploaded first.");
+      return false;
+    }
+
+    this.clearFieldErrors("message");
+
+    const replyTo =
+      this.state.replyTo?.threadId === currentThread.id ? this.state.replyTo : null;
+    // Generated up front so a post whose response was lost can be resent safely
+    const key = createIdempotencyKey();
+    const draft: OutboxDraft = {
+      key,
+      threadId: currentThread.id,
+      parentMessageId: replyTo?.id ?? null,
+      content,
+      userId: currentUser.id,
+      attachmentIds: attachments.flatMap((a) => (a.attachment ? [a.attachment.id] : [])),
+    };
+
+    if (!this.state.online) {
+      this.queueMessage(draft, replyTo);
+      this.clearComposerAttachments();
+      return true;
+    }
+
+    try {
+      console.log("Creating message via API...");
+      const newMessage = await apiClient.createMessage(
+        {
+          content,
+          threadId: draft.threadId,
+          ...(replyTo ? { parentMessageId: replyTo.id } : {}),
+          ...(draft.attachmentIds.length > 0 ? { attachmentIds: draft.attachmentIds } : {}),
+        },
+        { idempotencyKey: key }
+      );
+
+      this.finishReply(replyTo);
+      this.clearComposerAttachments();
+      this.addMessage(newMessage);
+      return true;
+    } catch (error) {
+      if (error instanceof NetworkError) {
+        this.setOnline(false);
+        this.queueMessage(draft, replyTo);
+        this.clearComposerAttachments();
+        return true;
+      }
+
+      // Posting too fast - keep the draft in the form and count down instead of failing
+      if (error instanceof RateLimitError) {
+        this.startPostCooldown(error.retryAfterSeconds);
+        return false;
+      }
 
-  // --- GETTERS ---
-  get messages(): Message[] {
-    return this._messages;
+      console.error("Failed to create message:", error);
+      this.showApiError(error, "Failed to send message. Please try again.", "message");
+      return false;
+    }
   }
-  get isAuthenticated(): boolean {
-    return !!this._token && !!this._currentUser;
+
+  /** Clear the reply state after a post, making sure the reply is visible */
+  private finishReply(replyTo: Message | null) {
+    this.store.setState({ replyTo: null });
+    if (replyTo && this.state.collapsed.has(replyTo.id)) this.toggleReplies(replyTo.id);
   }
-  get currentUser(): User | null {
-    return this._currentUser;
+
+  /**
+   * Block posting for the server's Retry-After, updating postCooldown every
+   * second; when it ends, messages the outbox held back are sent.
+   */
+  private startPostCooldown(seconds: number) {
+    this.stopPostCooldown();
+    const endsAt = Date.now() + seconds * 1000;
+    this.store.setState({ postCooldown: seconds });
+
+    // Counted from the end time - intervals in background tabs are throttled
+    this._cooldownTimer = setInterval(() => {
+      const remaining = Math.ceil((endsAt - Date.now()) / 1000);
+      if (remaining > 0) {
+        this.store.setState({ postCooldown: remaining });
+        return;
+      }
+      this.stopPostCooldown();
+      void this.flushOutbox();
+    }, COOLDOWN_TICK_MS);
   }
 
-  // --- AUTH STATE SUBSCRIPTION ---
-  onAuthChange(cb: () => void) {
-    this._authListeners.push(cb);
-    // Return unsubscribe function
-    return () => {
-      this._authListeners = this._authListeners.filter((x) => x !== cb);
-    };
+  private stopPostCooldown() {
+    if (this._cooldownTimer) clearInterval(this._cooldownTimer);
+    this._cooldownTimer = null;
+    if (this.state.postCooldown !== 0) this.store.setState({ postCooldown: 0 });
   }
-  private notifyAuthChange() {
-    this._authListeners.forEach((cb) => cb());
+
+  async testApiConnection(): Promise<boolean> {
+    try {
+      console.log("Testing API connection...");
+      // Fail fast: a hung backend must not block startup
+      await apiClient.testConnection({
+        timeoutMs: CONNECTION_TEST_TIMEOUT_MS,
+        retry: false,
+      });
+      console.log("API connection successful!");
+      this.setOnline(true);
+      return true;
+    } catch (error) {
+      console.error("API connection failed:", error);
+      this.showError(
+        "Cannot connect to server. Please make sure the API is running."
+      );
+      this.setOnline(false);
+      return false;
+    }
   }
 
-  // --- MESSAGE STATE MANAGEMENT ---
-  public setSortOrder(order: "asc" | "desc") {
-    this._sortOrder = order;
-    this.renderMessages(); // Re-render with new sort
+  clearMessages() {
+    this.setMessages([]);
   }
 
-  setMessages(messages: Message[]) {
-    this._messages = messages;
-    this.renderMessages();
+  // --- ATTACHMENTS ---
+  /**
+   * Upload files for the next message. Each one shows in the composer with
+   * its progress; one the server rejects stays there, with the reason, until
+   * it's removed. Files beyond the per-message limit are left out.
+   */
+  async attachFiles(files: File[]): Promise<void> {
+    if (!this.isAuthenticated) {
+      this.showError("You must be logged in to attach files.");
+      return;
+    }
+
+    if (!this.state.online) {
+      this.showError("Files can't be uploaded while the server is unreachable.");
+      return;
+    }
+
+    const room = Math.max(0, MAX_ATTACHMENTS_PER_MESSAGE - this.state.composerAttachments.length);
+    if (files.length > room) {
+      this.showError(`Messages can have at most ${MAX_ATTACHMENTS_PER_MESSAGE} attachments.`);
+    }
+
+    await Promise.all(files.slice(0, room).map((file) => this.uploadFile(file)));
   }
 
-  addMessage(message: Message) {
-    this._messages.push(message);
-    this.renderMessages();
+  /** Where a posted attachment is served from (thumbnails and download links) */
+  attachmentUrl(attachmentId: number): string {
+    return apiClient.attachmentUrl(attachmentId);
+  }
+
+  /** Take a file out of the composer, cancelling or discarding its upload */
+  removeComposerAttachment(key: string) {
+    const item = this.state.composerAttachments.find((a) => a.key === key);
+    if (!item) return;
+
+    this._uploads.get(key)?.abort();
+    if (item.attachment) {
+      // Unposted uploads expire on the server anyway, so a failure here is harmless
+      apiClient
+        .deleteAttachment(item.attachment.id)
+        .catch((error: unknown) => console.warn("Failed to discard upload:", error));
+    }
+
+    revokePreview(item);
+    this.store.setState({
+      composerAttachments: this.state.composerAttachments.filter((a) => a !== item),
+    });
   }
 
-  async loadMessages(threadId?: number): Promise<void> {
+  private async uploadFile(file: File): Promise<void> {
+    const key = createIdempotencyKey();
+    const controller = new AbortController();
+    this._uploads.set(key, controller);
+
+    const item: ComposerAttachment = {
+      key,
+      fileName: file.name,
+      contentType: file.type,
+      sizeBytes: file.size,
+      progress: 0,
+      attachment: null,
+      error: null,
+      previewUrl: createPreview(file),
+    };
+    this.store.setState((s) => ({ composerAttachments: [...s.composerAttachments, item] }));
+
     try {
-      console.log("Loading messages from API...");
-      const messages = await apiClient.getMessages(threadId);
-      this.setMessages(messages);
+      const attachment = await apiClient.uploadAttachment(
+        file,
+        ({ loaded, total }) => {
+          if (total > 0) this.updateComposerAttachment(key, { progress: loaded / total });
+        },
+        { signal: controller.signal }
+      );
+      this.updateComposerAttachment(key, { attachment, progress: 1 });
     } catch (error) {
-      console.error("Failed to load messages:", error);
-      this.showError("Failed to load messages. Please try again.");
+      if (error instanceof AbortedError) return; // Removed while uploading
+
+      console.error(`Failed to upload ${file.name}:`, error);
+      this.updateComposerAttachment(key, { error: uploadErrorMessage(error) });
+    } finally {
+      this._uploads.delete(key);
     }
   }
 
-  async createMessage(content: string, threadId: number): Promise<void> {
-    // Client-side auth check before sending message
+  private updateComposerAttachment(key: string, changes: Partial<ComposerAttachment>) {
+    this.store.setState((s) => ({
+      composerAttachments: s.composerAttachments.map((a) =>
+        a.key === key ? { ...a, ...changes } : a
+      ),
+    }));
+  }
+
+  /** Empty the composer's file list once posted (unposted uploads expire on the server) */
+  private clearComposerAttachments() {
+    this._uploads.forEach((controller) => controller.abort());
+    this._uploads.clear();
+    if (this.state.composerAttachments.length === 0) return;
+
+    this.state.composerAttachments.forEach(revokePreview);
+    this.store.setState({ composerAttachments: [] });
+  }
+
+  // --- READ MARKERS ---
+
+  /**
+   * The oldest loaded message from someone else posted after the thread's
+   * read marker, or null when there is none. Threads the user never opened
+   * have no marker and get no divider.
+   */
+  private findFirstUnread(thread: Thread): number | null {
+    const user = this.state.currentUser;
+    const lastRead = thread.lastReadMessageId;
+    if (!user || lastRead === null || lastRead === undefined || !thread.unreadCount) return null;
+
+    const unread = this.state.messages
+      .filter((m) => m.id > lastRead && m.userId !== user.id)
+      .map((m) => m.id);
+    return unread.length > 0 ? Math.min(...unread) : null;
+  }
+
+  /**
+   * Move the read marker of the open thread up to its newest loaded message
+   * and take the updated unread count into the thread list. Failures are
+   * only logged: the marker catches up the next time the thread is opened.
+   */
+  private async markCurrentThreadRead(): Promise<void> {
+    const thread = this.state.currentThread;
+    if (!this.isAuthenticated || !thread || !this._threadFromServer) return;
+
+    const newest = Math.max(0, ...this.state.messages.map((m) => m.id));
+    if (newest === 0 || newest <= (thread.lastReadMessageId ?? 0)) return;
+
+    try {
+      const updated = await apiClient.markThreadRead(thread.id, newest);
+      if (this.state.currentThread?.id === updated.id) {
+        this.store.setState({ currentThread: updated });
+      }
+      this.setThreads(this.state.threads.map((t) => (t.id === updated.id ? updated : t)));
+    } catch (error) {
+      console.warn(`Failed to update the read marker of thread ${thread.id}:`, error);
+    }
+  }
+
+  /** Mark every thread read for the logged-in user and refresh the thread list */
+  async markAllRead(): Promise<boolean> {
     if (!this.isAuthenticated) {
-      this.showError("You must be logged in to send messages.");
-      return;
+      this.showError("You must be logged in to mark threads as read.");
+      return false;
     }
 
     try {
-      console.log("Creating message via API...");
-      const newMessage = await apiClient.createMessage({ content, threadId });
-      this.addMessage(newMessage);
+      await apiClient.markAllThreadsRead();
+      await this.loadThreads();
+      return true;
     } catch (error) {
-      console.error("Failed to create message:", error);
-      this.showError("Failed to send message. Please try again.");
+      console.error("Failed to mark threads as read:", error);
+      this.showApiError(error, "Failed to mark threads as read. Please try again.");
+      return false;
     }
   }
 
-  async testApiConnection(): Promise<boolean> {
+  // --- OFFLINE OUTBOX ---
+
+  /** Keep a message for sending later and show it as pending */
+  private queueMessage(draft: OutboxDraft, replyTo: Message | null) {
+    const item = this._outbox.enqueue(draft);
+    console.log(`Queued message ${item.key} until the API is reachable`);
+    this.finishReply(replyTo);
+    this.syncPendingMessages();
+  }
+
+  /** Copy the outbox items for the current thread and user into the store */
+  private syncPendingMessages() {
+    const { currentThread, currentUser } = this.state;
+    const pending =
+      currentThread && currentUser
+        ? this._outbox.forThread(currentThread.id, currentUser.id)
+        : [];
+
+    // forThread builds a new array every time; only publish real changes
+    const current = this.state.pendingMessages;
+    if (pending.length === current.length && pending.every((item, i) => item === current[i])) {
+      return;
+    }
+    this.store.setState({ pendingMessages: pending });
+  }
+
+  /**
+   * Send the current user's queued messages in the order they were written.
+   * Sent messages replace their pending cards; rejected ones stay as failed.
+   * A rate-limited send stops the flush until the posting cooldown ends.
+   */
+  async flushOutbox(): Promise<void> {
+    const user = this.state.currentUser;
+    if (!this.isAuthenticated || !user || !this.state.online) return;
+    if (!this._outbox.hasPending(user.id) || this.state.postCooldown > 0) return;
+
+    console.log("Sending queued messages...");
+    const result = await this._outbox.flush(
+      user.id,
+      (item) =>
+        apiClient.createMessage(
+          {
+            content: item.content,
+            threadId: item.threadId,
+            ...(item.parentMessageId !== null ? { parentMessageId: item.parentMessageId } : {}),
+            ...(item.attachmentIds.length > 0 ? { attachmentIds: item.attachmentIds } : {}),
+          },
+          { idempotencyKey: item.key }
+        ).catch((error: unknown) => {
+          if (error instanceof RateLimitError) this.startPostCooldown(error.retryAfterSeconds);
+          throw error;
+        }),
+      (item, message) => {
+        if (item.threadId !== this.state.currentThread?.id) return;
+        if (message) this.addMessage(message);
+        this.syncPendingMessages();
+      }
+    );
+
+    if (result === "offline") this.setOnline(false);
+  }
+
+  /** Queue a failed message again and try to send it */
+  retryOutboxItem(key: string) {
+    if (!this._outbox.retry(key)) return;
+    this.syncPendingMessages();
+    void this.flushOutbox();
+  }
+
+  /** Throw away an unsent message */
+  discardOutboxItem(key: string) {
+    if (this._outbox.discard(key)) this.syncPendingMessages();
+  }
+
+  // --- REACTIONS ---
+
+  /**
+   * Add or remove the current user's reaction. The bar updates right away
+   * and is rolled back if the server refuses.
+   */
+  async toggleReaction(messageId: number, emoji: string): Promise<boolean> {
+    if (!this.isAuthenticated) {
+      this.showError("You must be logged in to react to messages.");
+      return false;
+    }
+
+    const message = this.state.messages.find((m) => m.id === messageId);
+    const key = `${messageId}:${emoji}`;
+    if (!message || this._pendingReactions.has(key)) return false;
+
+    const previous = message.reactionCounts;
+    const reacted = !previous.some((r) => r.emoji === emoji && r.reactedByMe);
+
+    // Optimistic update
+    this.setReactionCounts(messageId, adjustReaction(previous, emoji, reacted));
+    this._pendingReactions.add(key);
+
     try {
-      console.log("Testing API connection...");
-      await apiClient.testConnection();
-      console.log("API connection successful!");
+      console.log(`${reacted ? "Adding" : "Removing"} reaction ${emoji} on message ${messageId}...`);
+      const counts = reacted
+        ? await apiClient.addReaction(messageId, emoji)
+        : await apiClient.removeReaction(messageId, emoji);
+      this.setReactionCounts(messageId, counts);
       return true;
     } catch (error) {
-      console.error("API connection failed:", error);
-      this.showError(
-        "Cannot connect to server. Please make sure the API is running."
-      );
+      console.error("Failed to update reaction:", error);
+      this.setReactionCounts(messageId, previous);
+      this.showApiError(error, "Failed to update your reaction. Please try again.");
       return false;
+    } finally {
+      this._pendingReactions.delete(key);
     }
   }
 
-  clearMessages() {
-    this._messages = [];
-    this.renderMessages();
+  /**
+   * Accept new totals from the real-time channel. Stream events don't say
+   * who reacted, so the current user's own highlights are carried over.
+   */
+  applyReactionCounts(messageId: number, counts: ReactionCount[]) {
+    const message = this.state.messages.find((m) => m.id === messageId);
+    if (!message) return;
+
+    const mine = new Set(
+      message.reactionCounts.filter((r) => r.reactedByMe).map((r) => r.emoji)
+    );
+    const merged = counts.map((r) => ({
+      ...r,
+      reactedByMe: r.reactedByMe || mine.has(r.emoji),
+    }));
+
+    if (sameReactions(message.reactionCounts, merged)) return;
+    this.setReactionCounts(messageId, merged);
+  }
+
+  private setReactionCounts(messageId: number, counts: ReactionCount[]) {
+    if (!this.state.messages.some((m) => m.id === messageId)) return;
+
+    this.setMessages(
+      this.state.messages.map((m) => (m.id === messageId ? { ...m, reactionCounts: counts } : m))
+    );
   }
 
   // --- AUTHENTICATION ---
   async login(username: string, password: string): Promise<boolean> {
+    this.clearFieldErrors("login");
+
     try {
       const res = await apiClient.login({ username, password });
       if (!res?.token || !res?.user) throw new Error("Invalid login response");
 
-      this._token = res.token;
-      this._currentUser = res.user;
-      apiClient.setAuthToken(this._token);
-
-      // Auto-logout on 401 if API supports it
-      if (apiClient.onUnauthorized)
-        apiClient.onUnauthorized(() => this.logout());
-
-      this.notifyAuthChange();
+      this.startSession(res.token, res.user, res.refreshToken);
+      void this.flushOutbox();
       return true;
     } catch (err) {
       console.error("Login failed:", err);
-      this.showError("Login failed. Check credentials.");
+      this.showApiError(err, "Login failed. Check credentials.", "login");
       return false;
     }
   }
@@ -147,102 +1495,461 @@ export class AppState {
     email: string,
     password: string
   ): Promise<boolean> {
+    this.clearFieldErrors("register");
+
     try {
       const res = await apiClient.register({ username, email, password });
       if (res?.token && res?.user) {
-        this._token = res.token;
-        this._currentUser = res.user;
-        apiClient.setAuthToken(this._token);
-
-        if (apiClient.onUnauthorized)
-          apiClient.onUnauthorized(() => this.logout());
-
-        this.notifyAuthChange();
+        this.startSession(res.token, res.user, res.refreshToken);
         return true;
       }
       this.showError("Account created. Please log in.");
       return false;
     } catch (err) {
       console.error("Register failed:", err);
-      this.showError("Registration failed.");
+      this.showApiError(err, "Registration failed.", "register");
       return false;
     }
   }
 
+  /** End the session here and revoke its refresh token on the server */
   logout() {
-    this._token = null;
-    this._currentUser = null;
-    apiClient.setAuthToken(undefined);
-    this.notifyAuthChange();
+    apiClient.logout().catch((error) => {
+      // The session is over locally either way; the refresh token just expires
+      console.warn("Could not revoke the session:", error);
+    });
+    this.endSession();
   }
 
-  // --- PRIVATE HELPERS ---
-  private renderMessages() {
-    const container = document.getElementById("messages-list"); // Changed from "messages-container"
-    if (!container) {
-      console.warn("Messages list container not found");
-      return;
+  /**
+   * Restore a previously persisted session, if one exists and it can still
+   * be used: its token has not expired, or it has a refresh token to renew
+   * it with. Call before the first auth-dependent UI update.
+   */
+  restoreSession(): boolean {
+    const raw = this._storage.getItem(SESSION_STORAGE_KEY);
+    if (!raw) return false;
+
+    try {
+      const session = JSON.parse(raw) as Partial<PersistedSession>;
+      if (typeof session.token !== "string" || !session.user) {
+        throw new Error("Malformed session");
+      }
+
+      // An expired token with a refresh token is renewed as soon as the session starts
+      const expiresAt = getTokenExpiry(session.token);
+      const expired = expiresAt !== null && expiresAt - SESSION_EXPIRY_BUFFER_MS <= Date.now();
+      if (expired && !session.refreshToken) {
+        console.log("Stored session has expired");
+        this._storage.removeItem(SESSION_STORAGE_KEY);
+        return false;
+      }
+
+      // Sessions saved before roles existed carry no role
+      this.startSession(
+        session.token,
+        { ...session.user, role: session.user.role ?? "User" },
+        session.refreshToken
+      );
+      console.log(`Restored session for ${session.user.username}`);
+      return true;
+    } catch (error) {
+      console.warn("Discarding stored session:", error);
+      this._storage.removeItem(SESSION_STORAGE_KEY);
+      return false;
+    }
+  }
+
+  // --- ACCOUNT SETTINGS ---
+  /** Save the logged-in user's bio and avatar URL (empty strings clear them) */
+  async updateProfile(bio: string, avatarUrl: string): Promise<boolean> {
+    const user = this.state.currentUser;
+    if (!user || !this.isAuthenticated) {
+      this.showError("You must be logged in to edit your profile.");
+      return false;
     }
 
-    container.innerHTML = "";
+    this.clearFieldErrors("profile");
 
-    // Empty state
-    if (this._messages.length === 0) {
-      container.innerHTML =
-        '<div class="text-muted">No messages yet. Be the first to start the conversation!</div>';
-      return;
+    try {
+      console.log("Saving profile...");
+      // Cleared fields go as null: the API's [Url] check rejects an empty string
+      const profile = await apiClient.updateProfile(user.id, {
+        bio: bio || null,
+        avatarUrl: avatarUrl || null,
+      });
+      this.updateSessionUser({ ...user, bio: profile.bio, avatarUrl: profile.avatarUrl });
+      if (this.state.profile?.id === profile.id) {
+        this.store.setState({ profile });
+      }
+      this.showNotice("Profile saved.", "success");
+      return true;
+    } catch (error) {
+      console.error("Failed to save profile:", error);
+      this.showApiError(error, "Failed to save your profile. Please try again.", "profile");
+      return false;
+    }
+  }
+
+  /** Change the logged-in user's email; the server checks the current password */
+  async changeEmail(email: string, currentPassword: string): Promise<boolean> {
+    const user = this.state.currentUser;
+    if (!user || !this.isAuthenticated) {
+      this.showError("You must be logged in to change your email.");
+      return false;
+    }
+
+    this.clearFieldErrors("email");
+
+    try {
+      console.log("Changing email...");
+      const updated = await apiClient.changeEmail(user.id, email, currentPassword);
+      this.updateSessionUser(updated);
+      this.showNotice("Email updated.", "success");
+      return true;
+    } catch (error) {
+      console.error("Failed to change email:", error);
+      this.showApiError(error, "Failed to change your email. Please try again.", "email");
+      return false;
+    }
+  }
+
+  /**
+   * Change the logged-in user's password. The server signs out every other
+   * session; this one carries on with the fresh tokens it returns.
+   */
+  async changePassword(
+    currentPassword: string,
+    newPassword: string,
+    confirmation: string
+  ): Promise<boolean> {
+    const user = this.state.currentUser;
+    if (!user || !this.isAuthenticated) {
+      this.showError("You must be logged in to change your password.");
+      return false;
+    }
+
+    this.clearFieldErrors("password");
+
+    if (newPassword !== confirmation) {
+      this.store.setState((s) => ({
+        fieldErrors: {
+          ...s.fieldErrors,
+          password: { confirmPassword: ["The new passwords do not match."] },
+        },
+      }));
+      return false;
+    }
+
+    try {
+      console.log("Changing password...");
+      const res = await apiClient.changePassword(user.id, currentPassword, newPassword);
+      if (!res.token || !res.user) throw new Error("Invalid password change response");
+
+      this.startSession(res.token, res.user, res.refreshToken);
+      this.showNotice("Password changed. Your other devices have been signed out.", "success");
+      return true;
+    } catch (error) {
+      console.error("Failed to change password:", error);
+      this.showApiError(error, "Failed to change your password. Please try again.", "password");
+      return false;
     }
+  }
+
+  // --- NOTICES ---
+  /** Remove a notice (closed by the user, or timed out) */
+  dismissNotice(id: number) {
+    const notices = this.state.notices.filter((n) => n.id !== id);
+    if (notices.length !== this.state.notices.length) {
+      this.store.setState({ notices });
+    }
+  }
 
-    // Sort the existing messages based on current sort order
-    const sortedMessages = [...this._messages].sort((a, b) => {
-      const dateA = new Date(a.createdAt).getTime();
-      const dateB = new Date(b.createdAt).getTime();
-      return this._sortOrder === "desc" ? dateB - dateA : dateA - dateB;
+  // --- REQUEST HELPERS ---
+  /** Forget the paging cursor and all per-thread view state */
+  private resetThreadState() {
+    this._nextCursor = null;
+    if (this._highlightTimer) clearTimeout(this._highlightTimer);
+    this._highlightTimer = null;
+    this.store.setState({
+      messages: [],
+      hasMore: false,
+      editingMessageId: null,
+      revisions: new Map(),
+      collapsed: new Set(),
+      replyTo: null,
+      highlightedMessageId: null,
+      firstUnreadMessageId: null,
     });
+  }
+
+  private cancelThreadLoad() {
+    this._threadLoad?.abort();
+    this._threadLoad = null;
+  }
+
+  // --- SESSION HELPERS ---
+  private startSession(token: string, user: User, refreshToken?: string | null) {
+    apiClient.setAuthToken(token);
+    apiClient.setRefreshToken(refreshToken ?? undefined);
 
-    // Render each message card
-    sortedMessages.forEach((message) => {
-      const messageDiv = document.createElement("div");
-      messageDiv.className = "card mb-2";
-      messageDiv.innerHTML = `
-      <div class="card-body">
-        <div class="d-flex justify-content-between align-items-start">
-          <div>
-            <strong>${message.user.username}</strong>
-            <p class="mb-0 mt-1">${message.content}</p>
-          </div>
-          <small class="text-muted">${new Date(
-            message.createdAt
-          ).toLocaleString()}</small>
-        </div>
-      </div>
-    `;
-      container.appendChild(messageDiv);
+    // Auto-logout on a 401 the client could not recover from by refreshing
+    if (apiClient.onUnauthorized)
+      apiClient.onUnauthorized(() => this.logout());
+
+    // Keep the stored session in step with the rotated tokens
+    apiClient.onSessionRefreshed((res) => {
+      if (!res.token) return;
+      // The refreshed user carries any role change made since login
+      const refreshedUser = res.user ?? this.state.currentUser ?? user;
+      this.startSession(res.token, refreshedUser, res.refreshToken);
     });
 
-    console.log(`Rendered ${this._messages.length} messages`);
+    const session: PersistedSession = { token, user };
+    if (refreshToken) session.refreshToken = refreshToken;
+    this._storage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+    this.scheduleExpiry(token, !!refreshToken);
+
+    // Follow refreshes and logouts made in other tabs
+    if (typeof window !== "undefined") {
+      window.addEventListener("storage", this.handleStorageChange);
+    }
+
+    // A refresh keeps the inbox; logging in as someone else starts it over
+    if (this.state.currentUser?.id !== user.id) this.stopNotificationPolling();
+
+    this.store.setState({ token, currentUser: user });
+    this.syncPendingMessages();
+    this.startNotificationPolling();
   }
 
-  private showError(message: string) {
-    const container = document.getElementById("messages-container");
-    if (!container) return;
+  /** Replace the logged-in user after an account change, in the store and the saved session */
+  private updateSessionUser(user: User) {
+    this.store.setState({ currentUser: user });
+
+    const raw = this._storage.getItem(SESSION_STORAGE_KEY);
+    if (!raw) return;
+    try {
+      const session = JSON.parse(raw) as PersistedSession;
+      this._storage.setItem(SESSION_STORAGE_KEY, JSON.stringify({ ...session, user }));
+    } catch {
+      // Unreadable - restoreSession discards it on the next load
+    }
+  }
+
+  /** Clear the session locally, without contacting the server */
+  private endSession() {
+    this.clearExpiryTimers();
+    this.stopPostCooldown();
+    this.stopNotificationPolling();
+    this.clearMentionSuggestions();
+    this.clearComposerAttachments();
+    this._storage.removeItem(SESSION_STORAGE_KEY);
+    apiClient.setAuthToken(undefined);
+    apiClient.setRefreshToken(undefined);
+    if (typeof window !== "undefined") {
+      window.removeEventListener("storage", this.handleStorageChange);
+    }
+    this.store.setState({ token: null, currentUser: null });
+    this.syncPendingMessages();
+  }
+
+  /**
+   * Another tab changed the stored session. Refresh tokens are single use, so
+   * adopt the tokens it rotated to rather than refreshing with a stale one.
+   */
+  private handleStorageChange = (event: StorageEvent) => {
+    if (event.key !== null && event.key !== SESSION_STORAGE_KEY) return;
+
+    const raw = this._storage.getItem(SESSION_STORAGE_KEY);
+    if (!raw) {
+      console.log("Logged out in another tab");
+      this.endSession();
+      return;
+    }
+
+    try {
+      const session = JSON.parse(raw) as PersistedSession;
+      if (session.token !== this.state.token) {
+        this.startSession(session.token, session.user, session.refreshToken);
+      }
+    } catch (error) {
+      console.warn("Ignoring unreadable session from another tab:", error);
+    }
+  };
+
+  /**
+   * Refresh the JWT shortly before it expires. Sessions without a refresh
+   * token get a warning instead, then are logged out before the API would 401.
+   */
+  private scheduleExpiry(token: string, renewable: boolean) {
+    this.clearExpiryTimers();
+
+    const expiresAt = getTokenExpiry(token);
+    if (expiresAt === null) return;
+
+    const logoutIn = expiresAt - SESSION_EXPIRY_BUFFER_MS - Date.now();
+    const warnIn = expiresAt - SESSION_WARNING_MS - Date.now();
+
+    if (renewable) {
+      if (logoutIn <= MAX_TIMEOUT_MS) {
+        this._expiryTimers.push(setTimeout(() => void this.renewSession(), Math.max(logoutIn, 0)));
+      }
+      return;
+    }
 
-    const errorDiv = document.createElement("div");
-    errorDiv.className = "alert alert-danger alert-dismissible fade show";
-    errorDiv.innerHTML = `
-      ${message}
-      <button type="button" class="btn-close" data-bs-dismiss="alert"></button>
-    `;
+    if (warnIn > 0 && warnIn <= MAX_TIMEOUT_MS) {
+      this._expiryTimers.push(
+        setTimeout(() => {
+          this.showNotice(
+            "Your session is about to expire. Save your work and log in again.",
+            "warning"
+          );
+        }, warnIn)
+      );
+    }
 
-    container.insertBefore(errorDiv, container.firstChild);
+    if (logoutIn <= MAX_TIMEOUT_MS) {
+      this._expiryTimers.push(
+        setTimeout(() => this.expireSession(), Math.max(logoutIn, 0))
+      );
+    }
+  }
 
-    // Auto-remove after 5s
-    setTimeout(() => {
-      if (errorDiv.parentNode) {
-        errorDiv.parentNode.removeChild(errorDiv);
+  /** Swap the token for a fresh one; the refresh callback persists it */
+  private async renewSession() {
+    try {
+      if (!(await apiClient.refreshSession())) {
+        this.expireSession();
       }
-    }, 5000);
+    } catch (error) {
+      // Probably offline - the next request's 401 retries the refresh
+      console.warn("Session refresh failed:", error);
+    }
+  }
+
+  private expireSession() {
+    console.log("Session expired - logging out");
+    this.logout();
+    this.showError("Your session has expired. Please log in again.");
+  }
+
+  private clearExpiryTimers() {
+    this._expiryTimers.forEach((timer) => clearTimeout(timer));
+    this._expiryTimers = [];
+  }
+
+  // --- PRIVATE HELPERS ---
+  /**
+   * Show the server's message for an ApiError (falling back to `fallback`
+   * for anything else) and record invalid fields for the given form.
+   */
+  private showApiError(error: unknown, fallback: string, form?: FormName) {
+    if (!(error instanceof ApiError)) {
+      this.showError(fallback);
+      return;
+    }
+
+    if (error instanceof ValidationError && form) {
+      this.store.setState((s) => ({
+        fieldErrors: { ...s.fieldErrors, [form]: error.fieldErrors },
+      }));
+    }
+    this.showError(error.message);
+  }
+
+  private clearFieldErrors(form: FormName) {
+    if (!this.state.fieldErrors[form]) return;
+
+    const fieldErrors = { ...this.state.fieldErrors };
+    delete fieldErrors[form];
+    this.store.setState({ fieldErrors });
   }
+
+  private showError(message: string) {
+    this.showNotice(message, "danger");
+  }
+
+  private showNotice(message: string, variant: Notice["variant"]) {
+    const notice: Notice = { id: this._nextNoticeId++, message, variant };
+    this.store.setState((s) => ({ notices: [notice, ...s.notices] }));
+
+    // Auto-dismiss after 5s
+    setTimeout(() => this.dismissNotice(notice.id), NOTICE_DURATION_MS);
+  }
+}
+
+/** Title as a file name part: "Hello, World!" -> "hello-world" */
+function fileSlug(title: string): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .slice(0, 50)
+    .replace(/^-+|-+$/g, "");
+  return slug || "thread";
+}
+
+/** The first problem the server found in an archive, with where it is */
+function archiveErrorMessage(error: ValidationError): string {
+  const [field, messages] = Object.entries(error.fieldErrors)[0] ?? [];
+  const message = messages?.[0];
+  return field && message ? `The archive was rejected (${field}): ${message}` : error.message;
+}
+
+/** Loaded histories without one message's (the same map if it had none) */
+function withoutRevisions<T>(
+  revisions: ReadonlyMap<number, T>,
+  messageId: number
+): ReadonlyMap<number, T> {
+  if (!revisions.has(messageId)) return revisions;
+
+  const copy = new Map(revisions);
+  copy.delete(messageId);
+  return copy;
+}
+
+/** Local URL for an image's thumbnail while it uploads (null for other files) */
+function createPreview(file: File): string | null {
+  if (!file.type.startsWith("image/") || typeof URL.createObjectURL !== "function") return null;
+  return URL.createObjectURL(file);
+}
+
+function revokePreview(item: ComposerAttachment) {
+  if (item.previewUrl) URL.revokeObjectURL(item.previewUrl);
+}
+
+/** The server's reason for rejecting an upload (the "file" field's error) */
+function uploadErrorMessage(error: unknown): string {
+  if (error instanceof ValidationError) return error.fieldErrors.file?.[0] ?? error.message;
+  if (error instanceof ApiError) return error.message;
+  return "Upload failed.";
+}
+
+/** Counts with the current user's reaction added or removed, in display order */
+function adjustReaction(
+  counts: ReactionCount[],
+  emoji: string,
+  reacted: boolean
+): ReactionCount[] {
+  const existing = counts.find((r) => r.emoji === emoji);
+  const count = (existing?.count ?? 0) + (reacted ? 1 : -1);
+  const others = counts.filter((r) => r.emoji !== emoji);
+  const updated = count > 0 ? [...others, { emoji, count, reactedByMe: reacted }] : others;
+
+  const order = (r: ReactionCount) => (REACTION_EMOJI as readonly string[]).indexOf(r.emoji);
+  return updated.sort((x, y) => order(x) - order(y));
+}
+
+function sameReactions(a: ReactionCount[], b: ReactionCount[]): boolean {
+  return (
+    a.length === b.length &&
+    a.every(
+      (r, i) =>
+        r.emoji === b[i]?.emoji &&
+        r.count === b[i]?.count &&
+        r.reactedByMe === b[i]?.reactedByMe
+    )
+  );
 }
 
 // Singleton instance for use across app
@@ -0,0 +1,227 @@
+/**
+ * boardState.ts
+ *
+ * Purpose:
+ * Shape of the Message Board's observable state and the typed selectors
+ * views use to subscribe to parts of it. AppState owns the store and is
+ * the only writer; views read through these selectors.
+ *
+ * Key Features:
+ * - One plain, immutable object covering auth, threads (with unread
+ *   counts), messages, sort order, the message composer's attachments,
+ *   search, profiles, the notification inbox, connectivity and
+ *   user-facing notices
+ * - Derived selectors (permissions, view models) computed from it
+ *
+ * Usage:
+ *   appState.store.select(selectCurrentUser, (user) => ...);
+ *   const canPost = selectCanPost(appState.store.getState());
+ */
+
+import {
+  Attachment,
+  FieldErrors,
+  Message,
+  MessageRevision,
+  Notification,
+  SearchQuery,
+  SearchResult,
+  Thread,
+  User,
+  UserProfile,
+  UserSummary,
+} from "../api/client";
+import { OutboxItem } from "./outbox";
+
+export type SortOrder = "asc" | "desc";
+
+/** Forms whose inputs can display server-side validation errors */
+export type FormName =
+  | "login"
+  | "register"
+  | "thread"
+  | "message"
+  | "profile"
+  | "email"
+  | "password";
+
+/** A dismissible message for the user (errors, warnings and confirmations) */
+export interface Notice {
+  id: number;
+  message: string;
+  variant: "danger" | "warning" | "success";
+}
+
+/** A file picked for the next message: uploading, uploaded, or rejected */
+export interface ComposerAttachment {
+  key: string; // Local id - the server's id only exists once uploaded
+  fileName: string;
+  contentType: string;
+  sizeBytes: number;
+  progress: number; // Fraction of the file sent, 0 to 1
+  attachment: Attachment | null; // Set once uploaded
+  error: string | null; // Why the upload failed
+  previewUrl: string | null; // Local object URL of an image, for its thumbnail
+}
+
+export interface BoardState {
+  // Auth
+  token: string | null; // JWT for authenticated requests
+  currentUser: User | null; // Logged-in user data
+
+  // Threads
+  threads: Thread[]; // Thread list for the browser view
+  currentThread: Thread | null; // Thread being viewed
+
+  // Messages of the current thread
+  messages: Message[];
+  sortOrder: SortOrder;
+  hasMore: boolean; // Whether the server has more pages
+  editingMessageId: number | null; // Message open in the inline editor
+  revisions: ReadonlyMap<number, MessageRevision[]>; // Loaded edit histories, by message
+  collapsed: ReadonlySet<number>; // Messages whose replies are folded away
+  replyTo: Message | null; // Message the form is replying to
+  highlightedMessageId: number | null; // Linked-to message, highlighted briefly
+  pendingMessages: OutboxItem[]; // Current user's unsent messages for this thread
+  firstUnreadMessageId: number | null; // Where the "new messages" divider goes; fixed on opening
+  postCooldown: number; // Seconds until the server accepts posts again (0 = not rate limited)
+  mentionSuggestions: UserSummary[]; // Usernames offered for the @mention being typed
+  composerAttachments: ComposerAttachment[]; // Files for the next message, in the order picked
+
+  // Search
+  searchQuery: SearchQuery | null; // Query behind the shown results
+  searchResults: SearchResult[];
+  searchHasMore: boolean;
+
+  // Profiles
+  profile: UserProfile | null; // Profile being viewed (#/users/:id)
+  profileThreads: Thread[]; // Threads started by that user, newest first
+
+  // Notifications of the logged-in user
+  notifications: Notification[]; // Newest first (the latest page only)
+  unreadNotificationCount: number; // Across all notifications, for the bell badge
+
+  // Connectivity and feedback
+  online: boolean; // Whether the API answered the last check/request
+  notices: Notice[]; // Newest first
+  fieldErrors: Partial<Record<FormName, FieldErrors>>; // Server validation errors by form
+}
+
+export function createInitialState(): BoardState {
+  return {
+    token: null,
+    currentUser: null,
+    threads: [],
+    currentThread: null,
+    messages: [],
+    sortOrder: "desc",
+    hasMore: false,
+    editingMessageId: null,
+    revisions: new Map(),
+    collapsed: new Set(),
+    replyTo: null,
+    highlightedMessageId: null,
+    pendingMessages: [],
+    firstUnreadMessageId: null,
+    postCooldown: 0,
+    mentionSuggestions: [],
+    composerAttachments: [],
+    searchQuery: null,
+    searchResults: [],
+    searchHasMore: false,
+    profile: null,
+    profileThreads: [],
+    notifications: [],
+    unreadNotificationCount: 0,
+    online: true,
+    notices: [],
+    fieldErrors: {},
+  };
+}
+
+// ===== Selectors =====
+
+export const selectCurrentUser = (s: BoardState) => s.currentUser;
+export const selectThreads = (s: BoardState) => s.threads;
+export const selectCurrentThread = (s: BoardState) => s.currentThread;
+export const selectMessages = (s: BoardState) => s.messages;
+export const selectSortOrder = (s: BoardState) => s.sortOrder;
+export const selectReplyTo = (s: BoardState) => s.replyTo;
+export const selectPostCooldown = (s: BoardState) => s.postCooldown;
+export const selectMentionSuggestions = (s: BoardState) => s.mentionSuggestions;
+export const selectComposerAttachments = (s: BoardState) => s.composerAttachments;
+export const selectOnline = (s: BoardState) => s.online;
+export const selectNotices = (s: BoardState) => s.notices;
+export const selectFieldErrors = (s: BoardState) => s.fieldErrors;
+
+export const selectIsAuthenticated = (s: BoardState) => !!s.token && !!s.currentUser;
+
+/** Whether the logged-in user can use the moderation tools */
+export const selectIsModerator = (s: BoardState) =>
+  s.currentUser?.role === "Moderator" || s.currentUser?.role === "Admin";
+
+/** Whether the logged-in user can use the admin-only tools (thread import) */
+export const selectIsAdmin = (s: BoardState) => s.currentUser?.role === "Admin";
+
+/** Whether the logged-in user may post in the current thread */
+export const selectCanPost = (s: BoardState) =>
+  selectIsAuthenticated(s) && (!s.currentThread?.isLocked || selectIsModerator(s));
+
+/** Whether the logged-in user may rename/delete the current thread */
+export const selectCanManageThread = (s: BoardState) => {
+  const thread = s.currentThread;
+  if (!thread || !s.currentUser) return false;
+  return thread.userId === s.currentUser.id || selectIsModerator(s);
+};
+
+/** Everything the message list renders from (compare with shallowEqual) */
+export const selectMessageList = (s: BoardState) => ({
+  messages: s.messages,
+  pendingMessages: s.pendingMessages,
+  sortOrder: s.sortOrder,
+  hasMore: s.hasMore,
+  editingMessageId: s.editingMessageId,
+  revisions: s.revisions,
+  collapsed: s.collapsed,
+  highlightedMessageId: s.highlightedMessageId,
+  firstUnreadMessageId: s.firstUnreadMessageId,
+  currentUser: s.currentUser,
+  canPost: selectCanPost(s),
+  isModerator: selectIsModerator(s),
+  online: s.online,
+});
+
+export type MessageListModel = ReturnType<typeof selectMessageList>;
+
+/** Whether any listed thread has messages the logged-in user hasn't read */
+export const selectHasUnread = (s: BoardState) =>
+  selectIsAuthenticated(s) && s.threads.some((t) => (t.unreadCount ?? 0) > 0);
+
+/** Everything the search results render from (compare with shallowEqual) */
+export const selectSearch = (s: BoardState) => ({
+  query: s.searchQuery,
+  results: s.searchResults,
+  hasMore: s.searchHasMore,
+});
+
+/** The notification bell and inbox (compare with shallowEqual) */
+export const selectNotifications = (s: BoardState) => ({
+  items: s.notifications,
+  unreadCount: s.unreadNotificationCount,
+  authenticated: selectIsAuthenticated(s),
+});
+
+/** The profile page (compare with shallowEqual) */
+export const selectProfilePage = (s: BoardState) => ({
+  profile: s.profile,
+  threads: s.profileThreads,
+  isOwnProfile: !!s.profile && s.profile.id === s.currentUser?.id,
+});
+
+/** The thread header and message form visibility (compare with shallowEqual) */
+export const selectThreadHeader = (s: BoardState) => ({
+  thread: s.currentThread,
+  canPost: selectCanPost(s),
+  canManageThread: selectCanManageThread(s),
+  isModerator: selectIsModerator(s),
+});
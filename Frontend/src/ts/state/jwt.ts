@@ -0,0 +1,37 @@
+/**
+ * jwt.ts
+ * ---------------------------------------------------------
+ * Helpers for reading claims out of a JWT on the client.
+ *
+ * Notes:
+ * - No signature verification happens here; the backend remains
+ *   the source of truth. This is only used to time the session
+ *   refresh (or expiry) before the API starts answering 401.
+ * ---------------------------------------------------------
+ */
+
+/** Decode the (base64url) payload segment of a JWT, or null if malformed */
+export function decodeJwtPayload(token: string): Record<string, unknown> | null {
+  const parts = token.split(".");
+  if (parts.length !== 3 || !parts[1]) return null;
+
+  try {
+    const base64 = parts[1].replace(/-/g, "+").replace(/_/g, "/");
+    const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "=");
+    const json = decodeURIComponent(
+      Array.from(atob(padded))
+        .map((c) => "%" + c.charCodeAt(0).toString(16).padStart(2, "0"))
+        .join("")
+    );
+    const payload = JSON.parse(json);
+    return payload && typeof payload === "object" ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Expiry time of a JWT in epoch milliseconds, or null if it has no `exp` */
+export function getTokenExpiry(token: string): number | null {
+  const exp = decodeJwtPayload(token)?.exp;
+  return typeof exp === "number" ? exp * 1000 : null;
+}
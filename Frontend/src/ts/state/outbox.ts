@@ -0,0 +1,230 @@
+/**
+ * outbox.ts
+ *
+ * Purpose:
+ * Persisted queue of messages written while the API was unreachable.
+ * Items survive page reloads and are sent in the order they were written
+ * once the connection comes back.
+ *
+ * Key Features:
+ * - Stored through a StorageAdapter (localStorage by default)
+ * - Each item carries an idempotency key, sent as the Idempotency-Key
+ *   header, so a resend after a lost response never posts twice
+ * - In-order flush that stops at the first network failure (still offline)
+ *   or rate limit (429), and marks items the server rejects as "failed" for
+ *   manual retry/discard
+ *
+ * Usage:
+ *   const outbox = new Outbox(storage);
+ *   outbox.enqueue({ threadId, parentMessageId, content, attachmentIds, userId });
+ *   await outbox.flush(userId, (item) => apiClient.createMessage(...), onProgress);
+ */
+
+import { AbortedError, ApiError, Message, NetworkError, RateLimitError } from "../api/client";
+import { StorageAdapter } from "./storage";
+
+const OUTBOX_STORAGE_KEY = "messageboard.outbox";
+
+export type OutboxStatus = "pending" | "sending" | "failed";
+
+export interface OutboxItem {
+  /** Doubles as the Idempotency-Key of every attempt to send this item */
+  key: string;
+  threadId: number;
+  parentMessageId: number | null;
+  content: string;
+  attachmentIds: number[]; // Files uploaded before going offline, posted with it
+  userId: number; // Only this user's session may send it
+  queuedAt: string;
+  status: OutboxStatus;
+  error: string | null; // Why the server rejected it (status "failed")
+}
+
+export type OutboxDraft = Pick<
+  OutboxItem,
+  "threadId" | "parentMessageId" | "content" | "attachmentIds" | "userId"
+> & { key?: string };
+
+/**
+ * Outcome of a flush: everything sendable went out, the API is still
+ * unreachable, or the server asked us to slow down
+ */
+export type FlushResult = "done" | "offline" | "rate-limited";
+
+export class Outbox {
+  private _items: OutboxItem[];
+  private _storage: StorageAdapter;
+  private _storageKey: string;
+  private _flushing: Promise<FlushResult> | null = null;
+
+  constructor(storage: StorageAdapter, storageKey = OUTBOX_STORAGE_KEY) {
+    this._storage = storage;
+    this._storageKey = storageKey;
+    this._items = this.load();
+  }
+
+  /** All queued items, oldest first */
+  get items(): readonly OutboxItem[] {
+    return this._items;
+  }
+
+  /** A user's queued items for one thread, oldest first */
+  forThread(threadId: number, userId: number): OutboxItem[] {
+    return this._items.filter((i) => i.threadId === threadId && i.userId === userId);
+  }
+
+  /** Whether a user has items waiting to be sent */
+  hasPending(userId: number): boolean {
+    return this._items.some((i) => i.userId === userId && i.status === "pending");
+  }
+
+  enqueue(draft: OutboxDraft): OutboxItem {
+    const item: OutboxItem = {
+      key: draft.key ?? createIdempotencyKey(),
+      threadId: draft.threadId,
+      parentMessageId: draft.parentMessageId,
+      content: draft.content,
+      attachmentIds: draft.attachmentIds,
+      userId: draft.userId,
+      queuedAt: new Date().toISOString(),
+      status: "pending",
+      error: null,
+    };
+
+    this._items = [...this._items, item];
+    this.save();
+    return item;
+  }
+
+  /** Put a failed item back in the queue; returns false if there's no such item */
+  retry(key: string): boolean {
+    const item = this._items.find((i) => i.key === key);
+    if (!item || item.status !== "failed") return false;
+
+    this.update(key, { status: "pending", error: null });
+    return true;
+  }
+
+  /** Drop an item without sending it (not while a send is in flight) */
+  discard(key: string): boolean {
+    const item = this._items.find((i) => i.key === key);
+    if (!item || item.status === "sending") return false;
+
+    this._items = this._items.filter((i) => i !== item);
+    this.save();
+    return true;
+  }
+
+  /**
+   * Send a user's pending items one at a time, oldest first. A network
+   * failure or a rate limit stops the flush and leaves the rest pending;
+   * any other error marks that item failed and moves on. `onProgress` runs
+   * after every state change, with the created message once an item has
+   * been sent.
+   * Overlapping calls share the flush already running.
+   */
+  flush(
+    userId: number,
+    send: (item: OutboxItem) => Promise<Message>,
+    onProgress: (item: OutboxItem, message: Message | null) => void = () => {}
+  ): Promise<FlushResult> {
+    if (!this._flushing) {
+      this._flushing = this.sendAll(userId, send, onProgress).finally(() => {
+        this._flushing = null;
+      });
+    }
+    return this._flushing;
+  }
+
+  private async sendAll(
+    userId: number,
+    send: (item: OutboxItem) => Promise<Message>,
+    onProgress: (item: OutboxItem, message: Message | null) => void
+  ): Promise<FlushResult> {
+    for (;;) {
+      const next = this._items.find((i) => i.userId === userId && i.status === "pending");
+      if (!next) return "done";
+
+      const item = this.update(next.key, { status: "sending" });
+      onProgress(item, null);
+
+      try {
+        const message = await send(item);
+        this._items = this._items.filter((i) => i.key !== item.key);
+        this.save();
+        onProgress(item, message);
+      } catch (error) {
+        if (error instanceof NetworkError || error instanceof AbortedError) {
+          onProgress(this.update(item.key, { status: "pending" }), null);
+          return "offline";
+        }
+
+        if (error instanceof RateLimitError) {
+          onProgress(this.update(item.key, { status: "pending" }), null);
+          return "rate-limited";
+        }
+
+        console.error(`Outbox item ${item.key} was rejected:`, error);
+        const failed = this.update(item.key, {
+          status: "failed",
+          error: error instanceof ApiError ? error.message : "Failed to send message.",
+        });
+        onProgress(failed, null);
+      }
+    }
+  }
+
+  /** Replace an item with an updated copy (items are never mutated) */
+  private update(key: string, changes: Partial<OutboxItem>): OutboxItem {
+    let updated: OutboxItem | undefined;
+    this._items = this._items.map((i) => {
+      if (i.key !== key) return i;
+      updated = { ...i, ...changes };
+      return updated;
+    });
+    this.save();
+    return updated!;
+  }
+
+  private load(): OutboxItem[] {
+    const raw = this._storage.getItem(this._storageKey);
+    if (!raw) return [];
+
+    try {
+      const items = JSON.parse(raw);
+      if (!Array.isArray(items)) throw new Error("Malformed outbox");
+
+      // A send interrupted by a reload may or may not have arrived - the
+      // idempotency key makes sending it again safe. Items queued before
+      // attachments existed have no attachmentIds.
+      return (items as OutboxItem[]).map((item) => ({
+        ...item,
+        attachmentIds: item.attachmentIds ?? [],
+        status: item.status === "sending" ? "pending" : item.status,
+      }));
+    } catch (error) {
+      console.warn("Discarding stored outbox:", error);
+      this._storage.removeItem(this._storageKey);
+      return [];
+    }
+  }
+
+  private save() {
+    if (this._items.length === 0) {
+      this._storage.removeItem(this._storageKey);
+    } else {
+      this._storage.setItem(this._storageKey, JSON.stringify(this._items));
+    }
+  }
+}
+
+/** Random key for the Idempotency-Key header (UUID where supported) */
+export function createIdempotencyKey(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  // Non-secure contexts lack randomUUID
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}-${Math.random()
+    .toString(36)
+    .slice(2)}`;
+}
@@ -0,0 +1,57 @@
+/**
+ * storage.ts
+ * ---------------------------------------------------------
+ * Pluggable key/value storage used to persist client state
+ * (e.g. the auth session) across page reloads.
+ *
+ * Adapters:
+ * - LocalStorageAdapter: Browser `localStorage` (default).
+ * - MemoryStorageAdapter: In-memory map, for tests or when
+ *   `localStorage` is unavailable (private mode, disabled cookies).
+ * ---------------------------------------------------------
+ */
+
+export interface StorageAdapter {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+export class MemoryStorageAdapter implements StorageAdapter {
+  private _items = new Map<string, string>();
+
+  getItem(key: string): string | null {
+    return this._items.get(key) ?? null;
+  }
+  setItem(key: string, value: string): void {
+    this._items.set(key, value);
+  }
+  removeItem(key: string): void {
+    this._items.delete(key);
+  }
+}
+
+export class LocalStorageAdapter implements StorageAdapter {
+  getItem(key: string): string | null {
+    return window.localStorage.getItem(key);
+  }
+  setItem(key: string, value: string): void {
+    window.localStorage.setItem(key, value);
+  }
+  removeItem(key: string): void {
+    window.localStorage.removeItem(key);
+  }
+}
+
+/** Use localStorage when it works, otherwise fall back to memory */
+export function createDefaultStorage(): StorageAdapter {
+  try {
+    const probe = "__storage_probe__";
+    window.localStorage.setItem(probe, probe);
+    window.localStorage.removeItem(probe);
+    return new LocalStorageAdapter();
+  } catch {
+    console.warn("localStorage unavailable, session will not persist");
+    return new MemoryStorageAdapter();
+  }
+}
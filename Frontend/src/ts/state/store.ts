@@ -0,0 +1,105 @@
+/**
+ * store.ts
+ *
+ * Purpose:
+ * Minimal observable store: one immutable state object, replaced by
+ * shallow-merged updates, with change subscriptions on the whole state or
+ * on typed selectors. It has no DOM dependencies, so state logic built on
+ * it can run (and be tested) in Node.
+ *
+ * Key Features:
+ * - `setState` merges a partial update and notifies only if a key changed
+ * - `select` runs its listener only when the selected value changes
+ *   (`Object.is` by default; pass `shallowEqual` for derived objects)
+ * - Listeners receive the new and previous values
+ *
+ * Notes:
+ * - Treat state as immutable: replace arrays/maps/sets rather than mutating
+ *   them, or subscribers won't see the change.
+ *
+ * Usage:
+ *   const store = new Store({ count: 0 });
+ *   const stop = store.select((s) => s.count, (count) => console.log(count));
+ *   store.setState((s) => ({ count: s.count + 1 }));
+ *   stop();
+ */
+
+export type Selector<S, T> = (state: S) => T;
+export type Listener<T> = (value: T, previous: T) => void;
+export type Equality<T> = (a: T, b: T) => boolean;
+
+export interface SelectOptions<T> {
+  /** When two selected values count as unchanged (default `Object.is`) */
+  equals?: Equality<T>;
+  /** Also call the listener right away with the current value */
+  immediate?: boolean;
+}
+
+export class Store<S extends object> {
+  private _state: S;
+  private _listeners = new Set<Listener<S>>();
+
+  constructor(initialState: S) {
+    this._state = initialState;
+  }
+
+  getState(): Readonly<S> {
+    return this._state;
+  }
+
+  /** Shallow-merge an update into the state and notify subscribers */
+  setState(update: Partial<S> | ((state: S) => Partial<S>)) {
+    const changes = typeof update === "function" ? update(this._state) : update;
+    const changed = (Object.keys(changes) as Array<keyof S>).some(
+      (key) => !Object.is(changes[key], this._state[key])
+    );
+    if (!changed) return;
+
+    const previous = this._state;
+    this._state = { ...previous, ...changes };
+    // Copy so listeners can unsubscribe (or subscribe) while being notified
+    [...this._listeners].forEach((listener) => listener(this._state, previous));
+  }
+
+  /** Run `listener` after every state change; returns an unsubscribe function */
+  subscribe(listener: Listener<S>): () => void {
+    this._listeners.add(listener);
+    return () => {
+      this._listeners.delete(listener);
+    };
+  }
+
+  /** Run `listener` whenever the selected value changes */
+  select<T>(
+    selector: Selector<S, T>,
+    listener: Listener<T>,
+    options: SelectOptions<T> = {}
+  ): () => void {
+    const equals = options.equals ?? Object.is;
+    let current = selector(this._state);
+
+    const unsubscribe = this.subscribe((state) => {
+      const next = selector(state);
+      if (equals(next, current)) return;
+
+      const previous = current;
+      current = next;
+      listener(next, previous);
+    });
+
+    if (options.immediate) listener(current, current);
+    return unsubscribe;
+  }
+}
+
+/** Equality for selectors that build a new object from several state keys */
+export function shallowEqual<T>(a: T, b: T): boolean {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) {
+    return false;
+  }
+
+  const keysA = Object.keys(a) as Array<keyof T>;
+  const keysB = Object.keys(b) as Array<keyof T>;
+  return keysA.length === keysB.length && keysA.every((key) => Object.is(a[key], b[key]));
+}
@@ -0,0 +1,34 @@
+/**
+ * AccountSettingsView.ts
+ *
+ * Purpose:
+ * Fills the account settings forms (#/account) with the logged-in user's
+ * current bio, avatar URL and email, and points "View my profile" at
+ * their profile. Saving is wired up in app.ts like the other forms.
+ */
+
+import { User } from "../api/client";
+import { AppState } from "../state/AppState";
+import { selectCurrentUser } from "../state/boardState";
+import { View } from "./View";
+
+export interface AccountSettingsElements {
+  bio: HTMLTextAreaElement;
+  avatarUrl: HTMLInputElement;
+  email: HTMLInputElement;
+  profileLink: HTMLAnchorElement;
+}
+
+export class AccountSettingsView extends View {
+  constructor(elements: AccountSettingsElements, app: AppState) {
+    super(app);
+    this.watch(selectCurrentUser, (user) => render(elements, user));
+  }
+}
+
+function render(elements: AccountSettingsElements, user: User | null) {
+  elements.bio.value = user?.bio ?? "";
+  elements.avatarUrl.value = user?.avatarUrl ?? "";
+  elements.email.value = user?.email ?? "";
+  elements.profileLink.href = user ? `#/users/${user.id}` : "#/threads";
+}
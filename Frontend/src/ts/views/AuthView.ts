@@ -0,0 +1,48 @@
+/**
+ * AuthView.ts
+ *
+ * Purpose:
+ * Shows the login/register forms or the logged-in user's badge (linking
+ * to their profile) and the new thread form, depending on the auth state
+ * in the store.
+ */
+
+import { User } from "../api/client";
+import { AppState } from "../state/AppState";
+import { BoardState, selectIsAuthenticated } from "../state/boardState";
+import { setVisible } from "./dom";
+import { View } from "./View";
+
+export interface AuthElements {
+  loginSection: HTMLElement;
+  registerSection: HTMLElement;
+  userSection: HTMLElement;
+  userInfo: HTMLElement;
+  threadForm: HTMLElement;
+}
+
+/** The logged-in user, or null while logged out */
+const selectSessionUser = (s: BoardState): User | null =>
+  selectIsAuthenticated(s) ? s.currentUser : null;
+
+export class AuthView extends View {
+  constructor(elements: AuthElements, app: AppState) {
+    super(app);
+
+    this.watch(selectSessionUser, (user) => {
+      console.log(user ? `User logged in: ${user.username}` : "User not logged in");
+
+      setVisible(elements.loginSection, !user);
+      setVisible(elements.registerSection, !user);
+      setVisible(elements.userSection, !!user);
+      setVisible(elements.threadForm, !!user);
+      elements.userInfo.textContent = "";
+      if (user) {
+        const profile = document.createElement("a");
+        profile.href = `#/users/${user.id}`;
+        profile.textContent = user.username;
+        elements.userInfo.append("Logged in as: ", profile);
+      }
+    });
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * FieldErrorsView.ts
+ *
+ * Purpose:
+ * Marks form inputs invalid and shows the server's validation messages
+ * under them. The store keys errors by form and API field name; the
+ * caller maps those to the inputs.
+ */
+
+import { FieldErrors } from "../api/client";
+import { AppState } from "../state/AppState";
+import { FormName, selectFieldErrors } from "../state/boardState";
+import { View } from "./View";
+
+/** Inputs by form, then by the API's field name */
+export type FormInputs = Record<FormName, Record<string, HTMLElement>>;
+
+export class FieldErrorsView extends View {
+  constructor(inputs: FormInputs, app: AppState) {
+    super(app);
+
+    this.watch(selectFieldErrors, (errors) => {
+      (Object.keys(inputs) as FormName[]).forEach((form) => {
+        renderFormErrors(inputs[form], errors[form] ?? {});
+      });
+    });
+  }
+}
+
+function renderFormErrors(inputs: Record<string, HTMLElement>, errors: FieldErrors) {
+  for (const [field, input] of Object.entries(inputs)) {
+    input.classList.remove("is-invalid");
+    input.parentElement?.querySelectorAll("[data-field-error]").forEach((el) => el.remove());
+
+    const messages = errors[field];
+    if (!messages?.length) continue;
+
+    input.classList.add("is-invalid");
+
+    const feedback = document.createElement("div");
+    feedback.className = "invalid-feedback";
+    feedback.dataset.fieldError = field;
+    feedback.textContent = messages.join(" ");
+    input.insertAdjacentElement("afterend", feedback);
+  }
+}
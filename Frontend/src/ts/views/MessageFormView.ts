@@ -0,0 +1,280 @@
+/**
+ * MessageFormView.ts
+ *
+ * Purpose:
+ * Keeps the message form in step with the reply state: shows the
+ * "Replying to ..." banner and pre-fills the textarea with a quote of the
+ * message being replied to. While the server is rate limiting posts, the
+ * submit button is disabled and a countdown shows when posting resumes.
+ * Typing "@" and the start of a name offers matching usernames below the
+ * textarea (arrow keys to choose, Enter or Tab to complete, Escape to close).
+ * Files picked with the paperclip button or dropped onto the textarea are
+ * uploaded right away and listed below it with their progress (or why they
+ * were rejected) until the message is posted.
+ */
+
+import { Message, UserSummary } from "../api/client";
+import { AppState } from "../state/AppState";
+import {
+  ComposerAttachment,
+  selectComposerAttachments,
+  selectMentionSuggestions,
+  selectPostCooldown,
+  selectReplyTo,
+} from "../state/boardState";
+import { formatFileSize, setVisible } from "./dom";
+import { View } from "./View";
+
+const QUOTE_MAX_LENGTH = 300; // Characters of the parent copied into a reply's quote
+const MENTION_DEBOUNCE_MS = 200; // Wait this long after the last keystroke before suggesting
+
+// "@" and a partial username right before the caret (same characters the backend matches)
+const MENTION_QUERY = /(?:^|[^\w@])@([A-Za-z0-9_.-]{1,50})$/;
+
+export interface MessageFormElements {
+  indicator: HTMLElement; // "Replying to ..." banner
+  input: HTMLTextAreaElement;
+  submit: HTMLButtonElement;
+  cooldown: HTMLElement; // "You can post again in ..." countdown
+  suggestions: HTMLElement; // @mention autocomplete list
+  dropZone: HTMLElement; // Files dropped here are attached
+  fileInput: HTMLInputElement; // Hidden <input type="file" multiple>
+  attachButton: HTMLElement; // Opens the file picker
+  attachments: HTMLElement; // The message's files and their upload progress
+}
+
+export class MessageFormView extends View {
+  private _elements: MessageFormElements;
+  private _mentionStart = -1; // Index of the "@" being completed, or -1
+  private _activeSuggestion = 0;
+  private _mentionTimer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(elements: MessageFormElements, app: AppState) {
+    super(app);
+    this._elements = elements;
+
+    const { input } = elements;
+    input.addEventListener("input", () => this.updateMentionQuery());
+    input.addEventListener("click", () => this.updateMentionQuery());
+    input.addEventListener("keydown", (event) => this.handleSuggestionKeys(event));
+    input.addEventListener("blur", () => this.closeSuggestions());
+    this.watch(selectMentionSuggestions, (users) => this.renderSuggestions(users));
+
+    this.watch(selectReplyTo, (replyTo, previous) => {
+      this.renderIndicator(replyTo);
+      if (replyTo && replyTo !== previous) this.quote(replyTo);
+    });
+    this.watch(selectPostCooldown, (seconds) => this.renderCooldown(seconds));
+
+    const { dropZone, fileInput, attachButton } = elements;
+    attachButton.addEventListener("click", () => fileInput.click());
+    fileInput.addEventListener("change", () => {
+      void this.app.attachFiles([...(fileInput.files ?? [])]);
+      fileInput.value = ""; // Picking the same file again still fires "change"
+    });
+    dropZone.addEventListener("dragover", (event) => {
+      if (!event.dataTransfer?.types.includes("Files")) return;
+      event.preventDefault(); // Allows the drop
+      dropZone.classList.add("drag-over");
+    });
+    dropZone.addEventListener("dragleave", () => dropZone.classList.remove("drag-over"));
+    dropZone.addEventListener("drop", (event) => {
+      dropZone.classList.remove("drag-over");
+      const files = [...(event.dataTransfer?.files ?? [])];
+      if (files.length === 0) return; // Dropped text goes into the textarea as usual
+      event.preventDefault();
+      void this.app.attachFiles(files);
+    });
+    this.watch(selectComposerAttachments, (items) => this.renderAttachments(items));
+  }
+
+  private renderAttachments(items: ComposerAttachment[]) {
+    const { attachments } = this._elements;
+    attachments.innerHTML = "";
+    setVisible(attachments, items.length > 0, "flex");
+    items.forEach((item) => attachments.appendChild(this.createAttachmentChip(item)));
+  }
+
+  private createAttachmentChip(item: ComposerAttachment): HTMLElement {
+    const chip = document.createElement("div");
+    chip.className = "composer-attachment border rounded p-1 small";
+    chip.dataset.key = item.key;
+    if (item.error) chip.classList.add("border-danger");
+
+    if (item.previewUrl) {
+      const image = document.createElement("img");
+      image.src = item.previewUrl;
+      image.alt = "";
+      chip.appendChild(image);
+    }
+
+    // File names are user input - text only
+    const name = document.createElement("span");
+    name.className = "composer-attachment-name";
+    name.textContent = item.fileName;
+    name.title = `${item.fileName} (${formatFileSize(item.sizeBytes)})`;
+    chip.appendChild(name);
+
+    const remove = document.createElement("button");
+    remove.type = "button";
+    remove.className = "btn-close btn-sm ms-1";
+    remove.setAttribute("aria-label", `Remove ${item.fileName}`);
+    remove.addEventListener("click", () => this.app.removeComposerAttachment(item.key));
+    chip.appendChild(remove);
+
+    if (item.error) {
+      const error = document.createElement("div");
+      error.className = "text-danger";
+      error.textContent = item.error;
+      chip.appendChild(error);
+    } else if (!item.attachment) {
+      const bar = document.createElement("progress");
+      bar.className = "composer-attachment-progress";
+      bar.max = 1;
+      bar.value = item.progress;
+      chip.appendChild(bar);
+    }
+
+    return chip;
+  }
+
+  private renderCooldown(seconds: number) {
+    const { submit, cooldown } = this._elements;
+    submit.disabled = seconds > 0;
+    setVisible(cooldown, seconds > 0);
+    const unit = seconds === 1 ? "second" : "seconds";
+    cooldown.textContent =
+      seconds > 0 ? `You're posting too fast. You can post again in ${seconds} ${unit}.` : "";
+  }
+
+  /** Suggest usernames while the caret is right after "@name" */
+  private updateMentionQuery() {
+    const { input } = this._elements;
+    const before = input.value.slice(0, input.selectionStart ?? input.value.length);
+    const match = MENTION_QUERY.exec(before);
+    clearTimeout(this._mentionTimer);
+
+    if (!match?.[1]) {
+      this.closeSuggestions();
+      return;
+    }
+
+    const prefix = match[1];
+    this._mentionStart = before.length - prefix.length - 1;
+    this._mentionTimer = setTimeout(
+      () => void this.app.suggestMentions(prefix),
+      MENTION_DEBOUNCE_MS
+    );
+  }
+
+  private renderSuggestions(users: UserSummary[]) {
+    const { suggestions } = this._elements;
+    suggestions.innerHTML = "";
+    this._activeSuggestion = 0;
+    setVisible(suggestions, users.length > 0 && this._mentionStart >= 0);
+
+    users.forEach((user, index) => {
+      const option = document.createElement("button");
+      option.type = "button";
+      option.className = "list-group-item list-group-item-action py-1";
+      option.setAttribute("role", "option");
+      option.textContent = `@${user.username}`;
+      option.classList.toggle("active", index === this._activeSuggestion);
+      // mousedown, not click: the textarea must not lose focus (and close the list) first
+      option.addEventListener("mousedown", (event) => {
+        event.preventDefault();
+        this.completeMention(user.username);
+      });
+      suggestions.appendChild(option);
+    });
+  }
+
+  private handleSuggestionKeys(event: KeyboardEvent) {
+    const users = this.store.getState().mentionSuggestions;
+    if (users.length === 0 || this._mentionStart < 0) return;
+
+    switch (event.key) {
+      case "ArrowDown":
+      case "ArrowUp": {
+        event.preventDefault();
+        const step = event.key === "ArrowDown" ? 1 : -1;
+        this._activeSuggestion = (this._activeSuggestion + step + users.length) % users.length;
+        [...this._elements.suggestions.children].forEach((option, index) =>
+          option.classList.toggle("active", index === this._activeSuggestion)
+        );
+        break;
+      }
+      case "Enter":
+      case "Tab": {
+        const user = users[this._activeSuggestion];
+        if (!user) return;
+        event.preventDefault();
+        this.completeMention(user.username);
+        break;
+      }
+      case "Escape":
+        event.preventDefault();
+        this.closeSuggestions();
+        break;
+    }
+  }
+
+  /** Replace the partial "@name" before the caret with the chosen username */
+  private completeMention(username: string) {
+    const { input } = this._elements;
+    const caret = input.selectionStart ?? input.value.length;
+    const before = input.value.slice(0, this._mentionStart);
+    const inserted = `@${username} `;
+
+    input.value = before + inserted + input.value.slice(caret);
+    input.focus();
+    input.setSelectionRange(before.length + inserted.length, before.length + inserted.length);
+    this.closeSuggestions();
+  }
+
+  private closeSuggestions() {
+    clearTimeout(this._mentionTimer);
+    this._mentionStart = -1;
+    this.app.clearMentionSuggestions();
+    setVisible(this._elements.suggestions, false);
+  }
+
+  private renderIndicator(replyTo: Message | null) {
+    const { indicator } = this._elements;
+    indicator.innerHTML = "";
+    setVisible(indicator, !!replyTo, "flex");
+    if (!replyTo) return;
+
+    const label = document.createElement("span");
+    label.textContent = `Replying to ${replyTo.user.username}`;
+
+    const cancel = document.createElement("button");
+    cancel.type = "button";
+    cancel.className = "btn btn-link btn-sm p-0";
+    cancel.textContent = "Cancel reply";
+    cancel.addEventListener("click", () => this.app.cancelReply());
+
+    indicator.append(label, cancel);
+  }
+
+  /** Start the reply with a quote of the parent and put the cursor after it */
+  private quote(message: Message) {
+    const { input } = this._elements;
+    input.value = `${quoteMessage(message)}\n\n`;
+    input.focus();
+    input.setSelectionRange(input.value.length, input.value.length);
+    input.scrollIntoView({ behavior: "smooth", block: "center" });
+  }
+}
+
+/** Markdown quote of a message for pre-filling a reply */
+function quoteMessage(message: Message): string {
+  const text =
+    message.content.length > QUOTE_MAX_LENGTH
+      ? `${message.content.slice(0, QUOTE_MAX_LENGTH).trimEnd()}…`
+      : message.content;
+
+  return [`${message.user.username} wrote:`, ...text.split("\n")]
+    .map((line) => `> ${line}`)
+    .join("\n");
+}
@@ -0,0 +1,556 @@
+/**
+ * MessageListView.ts
+ *
+ * Purpose:
+ * Renders the open thread's messages from the store: top-level posts in
+ * the chosen sort order with their reply trees, the inline editor, edit
+ * histories, reaction bars, moderator controls, attachments (image
+ * thumbnails and download links), cards for unsent outbox messages and the
+ * infinite-scroll sentinel.
+ *
+ * Key Features:
+ * - Usernames are inserted as text (linking to the author's profile) and
+ *   content goes through the sanitizing Markdown renderer, so user input
+ *   never becomes markup; @mentions the server resolved link to profiles
+ * - Keeps the scroll position (and an open editor's draft) across renders
+ * - Scrolls to the highlighted message when one is linked to
+ * - Marks where the reader left off with a "New messages" divider at the
+ *   first unread message (above it oldest-first, below it newest-first)
+ */
+
+import { Attachment, Message, MessageRevision, REACTION_EMOJI } from "../api/client";
+import { renderMarkdown } from "../render/markdown";
+import { AppState } from "../state/AppState";
+import {
+  MessageListModel,
+  selectMessageList,
+  selectSortOrder,
+  SortOrder,
+} from "../state/boardState";
+import { OutboxItem } from "../state/outbox";
+import { shallowEqual } from "../state/store";
+import { createActionButton, formatFileSize } from "./dom";
+import { View } from "./View";
+
+const MAX_REPLY_INDENT = 4; // Deeper replies line up with their parent instead of indenting
+
+export class MessageListView extends View {
+  private _container: HTMLElement;
+  private _scrollObserver: IntersectionObserver | null = null; // Infinite-scroll trigger
+
+  constructor(container: HTMLElement, sortButton: HTMLElement, app: AppState) {
+    super(app);
+    this._container = container;
+
+    sortButton.addEventListener("click", () => {
+      this.app.setSortOrder(this.store.getState().sortOrder === "desc" ? "asc" : "desc");
+    });
+
+    this.watch(selectMessageList, (model, previous) => this.render(model, previous), shallowEqual);
+    this.watch(selectSortOrder, (order) => {
+      sortButton.textContent = order === "desc" ? "↓ Newest First" : "↑ Oldest First";
+    });
+  }
+
+  override destroy() {
+    super.destroy();
+    this._scrollObserver?.disconnect();
+    this._scrollObserver = null;
+  }
+
+  private render(model: MessageListModel, previous: MessageListModel) {
+    const container = this._container;
+    const scrollTop = container.scrollTop; // Keep the reader's place across re-renders
+
+    // An edit in progress survives re-renders caused by other changes
+    const draft =
+      model.editingMessageId !== null && model.editingMessageId === previous.editingMessageId
+        ? container.querySelector<HTMLTextAreaElement>(".message-edit-input")?.value
+        : undefined;
+    const editorFocused = document.activeElement?.classList.contains("message-edit-input");
+
+    container.innerHTML = "";
+
+    // Empty state
+    if (model.messages.length === 0 && model.pendingMessages.length === 0) {
+      container.innerHTML =
+        '<div class="text-muted">No messages yet. Be the first to start the conversation!</div>';
+      this._scrollObserver?.disconnect();
+      return;
+    }
+
+    // Top-level posts in the current sort order, each followed by its replies
+    // Unsent messages are the newest, so they sit at the "newest" end of the list
+    const { roots, replies } = buildReplyTree(model.messages, model.sortOrder);
+    const pendingCards = model.pendingMessages.map((item) => this.createPendingCard(item, model));
+    if (model.sortOrder === "desc") container.append(...pendingCards);
+    roots.forEach((message) => {
+      container.appendChild(this.createMessageThread(message, replies, 0, model));
+    });
+    if (model.sortOrder === "asc") container.append(...pendingCards);
+    this.renderScrollSentinel(model);
+    container.scrollTop = scrollTop;
+
+    const editor = container.querySelector<HTMLTextAreaElement>(".message-edit-input");
+    if (editor && draft !== undefined) editor.value = draft;
+    if (editor && (draft === undefined || editorFocused)) editor.focus();
+
+    const highlighted = model.highlightedMessageId;
+    if (highlighted !== null && highlighted !== previous.highlightedMessageId) {
+      container
+        .querySelector<HTMLElement>(`[data-message-id="${highlighted}"]`)
+        ?.scrollIntoView({ behavior: "smooth", block: "center" });
+    }
+
+    console.log(`Rendered ${model.messages.length} messages`);
+  }
+
+  /** A message card followed by its (possibly collapsed) reply subtree */
+  private createMessageThread(
+    message: Message,
+    replies: Map<number, Message[]>,
+    depth: number,
+    model: MessageListModel
+  ): HTMLElement {
+    const wrapper = document.createElement("div");
+    wrapper.className = "message-thread";
+
+    const card = this.createMessageCard(message, model);
+    wrapper.appendChild(card);
+    if (message.id === model.firstUnreadMessageId) {
+      const divider = createNewMessagesDivider(model.sortOrder);
+      if (model.sortOrder === "asc") wrapper.prepend(divider);
+      else wrapper.appendChild(divider);
+    }
+
+    const children = replies.get(message.id) ?? [];
+    if (children.length === 0) return wrapper;
+
+    const collapsed = model.collapsed.has(message.id);
+    const total = countReplies(message.id, replies);
+    card.querySelector(".message-actions")?.prepend(
+      createActionButton(
+        collapsed
+          ? `Show ${total} ${total === 1 ? "reply" : "replies"}`
+          : "Hide replies",
+        () => this.app.toggleReplies(message.id)
+      )
+    );
+
+    if (!collapsed) {
+      const list = document.createElement("div");
+      list.className =
+        depth + 1 < MAX_REPLY_INDENT ? "message-replies" : "message-replies message-replies-flat";
+      children.forEach((child) => {
+        list.appendChild(this.createMessageThread(child, replies, depth + 1, model));
+      });
+      wrapper.appendChild(list);
+    }
+
+    return wrapper;
+  }
+
+  private createMessageCard(message: Message, model: MessageListModel): HTMLElement {
+    const messageDiv = document.createElement("div");
+    messageDiv.className = "card mb-2";
+    messageDiv.dataset.messageId = String(message.id);
+    messageDiv.innerHTML = `
+      <div class="card-body">
+        <div class="d-flex justify-content-between align-items-start">
+          <div class="message-main flex-grow-1">
+            <a class="message-author"></a>
+            <div class="message-content mt-1"></div>
+            <div class="message-attachments"></div>
+            <div class="message-reactions mt-2"></div>
+          </div>
+          <div class="message-meta text-end ms-3">
+            <small class="text-muted message-time"></small>
+            <div class="message-actions"></div>
+          </div>
+        </div>
+        <div class="message-history"></div>
+      </div>
+    `;
+
+    if (model.highlightedMessageId === message.id) {
+      messageDiv.classList.add("message-highlight");
+    }
+
+    const author = messageDiv.querySelector<HTMLAnchorElement>(".message-author")!;
+    author.textContent = message.user.username;
+    author.href = `#/users/${message.userId}`;
+    messageDiv.querySelector(".message-time")!.textContent = new Date(
+      message.createdAt
+    ).toLocaleString();
+
+    const content = messageDiv.querySelector<HTMLElement>(".message-content")!;
+    const actions = messageDiv.querySelector<HTMLElement>(".message-actions")!;
+    const editing = model.editingMessageId === message.id;
+    const isAuthor = model.currentUser?.id === message.userId;
+
+    if (editing) {
+      this.renderEditor(content, message);
+    } else {
+      content.innerHTML = renderMarkdown(message.content, { mentions: message.mentions });
+    }
+
+    // "(edited)" marker - click to toggle the revision history
+    if (message.updatedAt) {
+      const edited = createActionButton("(edited)", () =>
+        this.app.toggleHistory(message.id)
+      );
+      edited.title = `Edited ${new Date(message.updatedAt).toLocaleString()}`;
+      actions.appendChild(edited);
+    }
+
+    // Anyone who can post here can reply
+    if (model.canPost && !editing) {
+      actions.appendChild(
+        createActionButton("Reply", () => this.app.startReply(message.id))
+      );
+    }
+
+    // Authors can edit their own messages
+    if (isAuthor && !editing) {
+      actions.appendChild(
+        createActionButton("Edit", () => this.app.startEditing(message.id))
+      );
+    }
+
+    // ...and delete them, after confirming (moderators can delete any message)
+    if (isAuthor || model.isModerator) {
+      const remove = createActionButton("Delete", () => {
+        if (confirm("Delete this message? This cannot be undone.")) {
+          void this.app.deleteMessage(message.id);
+        }
+      });
+      remove.classList.add("text-danger");
+      actions.appendChild(remove);
+    }
+
+    this.renderAttachments(
+      messageDiv.querySelector<HTMLElement>(".message-attachments")!,
+      message.attachments
+    );
+
+    this.renderReactionBar(
+      messageDiv.querySelector<HTMLElement>(".message-reactions")!,
+      message,
+      model.canPost
+    );
+
+    if (model.isModerator) {
+      this.renderModeratorActions(messageDiv, actions, message, model);
+    }
+
+    const revisions = model.revisions.get(message.id);
+    if (revisions) {
+      renderHistory(messageDiv.querySelector<HTMLElement>(".message-history")!, revisions);
+    }
+
+    return messageDiv;
+  }
+
+  /** Card for a message still in the outbox, with its send status */
+  private createPendingCard(item: OutboxItem, model: MessageListModel): HTMLElement {
+    const card = document.createElement("div");
+    card.className = "card mb-2 message-pending";
+    card.dataset.outboxKey = item.key;
+    card.innerHTML = `
+      <div class="card-body">
+        <div class="d-flex justify-content-between align-items-start">
+          <div class="message-main flex-grow-1">
+            <strong class="message-author"></strong>
+            <small class="message-reply-to text-muted ms-1"></small>
+            <div class="message-content mt-1"></div>
+          </div>
+          <div class="message-meta text-end ms-3">
+            <small class="message-status"></small>
+            <div class="message-actions"></div>
+          </div>
+        </div>
+      </div>
+    `;
+
+    card.querySelector(".message-author")!.textContent =
+      model.currentUser?.username ?? "";
+    card.querySelector(".message-content")!.innerHTML = renderMarkdown(item.content);
+
+    const parent = model.messages.find((m) => m.id === item.parentMessageId);
+    if (parent) {
+      card.querySelector(".message-reply-to")!.textContent =
+        `replying to ${parent.user.username}`;
+    }
+
+    const status = card.querySelector<HTMLElement>(".message-status")!;
+    const actions = card.querySelector<HTMLElement>(".message-actions")!;
+
+    if (item.status === "failed") {
+      status.className = "message-status text-danger";
+      status.textContent = `Not sent: ${item.error ?? "unknown error"}`;
+      actions.appendChild(
+        createActionButton("Retry", () => this.app.retryOutboxItem(item.key))
+      );
+    } else if (item.status === "sending") {
+      status.className = "message-status text-muted";
+      status.textContent = "Sending…";
+    } else {
+      status.className = "message-status text-muted";
+      status.textContent = model.online ? "Waiting to send" : "Waiting for connection";
+    }
+
+    if (item.status !== "sending") {
+      const discard = createActionButton("Discard", () => {
+        if (confirm("Discard this unsent message?")) this.app.discardOutboxItem(item.key);
+      });
+      discard.classList.add("text-danger");
+      actions.appendChild(discard);
+    }
+
+    return card;
+  }
+
+  /**
+   * One button per emoji. Users who can post see the whole set (unused ones
+   * faded); everyone else only sees emoji that already have reactions.
+   */
+  private renderReactionBar(container: HTMLElement, message: Message, canReact: boolean) {
+    REACTION_EMOJI.forEach((emoji) => {
+      const reaction = message.reactionCounts.find((r) => r.emoji === emoji);
+      if (!reaction && !canReact) return;
+
+      const button = document.createElement("button");
+      button.type = "button";
+      button.className = "btn btn-sm reaction-btn";
+      button.textContent = reaction ? `${emoji} ${reaction.count}` : emoji;
+      button.title = reaction?.reactedByMe ? "Remove your reaction" : `React with ${emoji}`;
+      button.setAttribute("aria-pressed", String(!!reaction?.reactedByMe));
+      button.disabled = !canReact;
+
+      if (reaction?.reactedByMe) button.classList.add("reaction-mine");
+      if (!reaction) button.classList.add("reaction-unused");
+
+      button.addEventListener("click", () => void this.app.toggleReaction(message.id, emoji));
+      container.appendChild(button);
+    });
+  }
+
+  /** Hide/unhide and ban/unban controls, plus the hidden-state banner */
+  private renderModeratorActions(
+    card: HTMLElement,
+    actions: HTMLElement,
+    message: Message,
+    model: MessageListModel
+  ) {
+    if (message.hiddenAt) {
+      card.classList.add("message-hidden");
+
+      const banner = document.createElement("div");
+      banner.className = "alert alert-secondary py-1 px-2 mb-2 small";
+      banner.textContent = `Hidden from users: ${message.hiddenReason ?? "no reason given"}`;
+      card.querySelector(".card-body")?.prepend(banner);
+
+      actions.appendChild(
+        createActionButton("Unhide", () => void this.app.unhideMessage(message.id))
+      );
+    } else {
+      actions.appendChild(
+        createActionButton("Hide", () => {
+          const reason = prompt("Reason for hiding this message:")?.trim();
+          if (reason) void this.app.hideMessage(message.id, reason);
+        })
+      );
+    }
+
+    if (message.userId === model.currentUser?.id) return;
+
+    if (message.user.bannedAt) {
+      actions.appendChild(
+        createActionButton("Unban user", () => {
+          if (confirm(`Lift the ban on ${message.user.username}?`)) {
+            void this.app.setUserBanned(message.userId, null);
+          }
+        })
+      );
+    } else {
+      const ban = createActionButton("Ban user", () => {
+        const reason = prompt(`Reason for banning ${message.user.username}:`)?.trim();
+        if (reason) void this.app.setUserBanned(message.userId, reason);
+      });
+      ban.classList.add("text-danger");
+      actions.appendChild(ban);
+    }
+  }
+
+  /** Thumbnails that open the full image, and download links for other files */
+  private renderAttachments(container: HTMLElement, attachments: Attachment[]) {
+    if (attachments.length === 0) return;
+    container.classList.add("d-flex", "flex-wrap", "gap-2", "mt-2");
+
+    attachments.forEach((attachment) => {
+      const url = this.app.attachmentUrl(attachment.id);
+      const link = document.createElement("a");
+      link.href = url;
+      link.title = `${attachment.fileName} (${formatFileSize(attachment.sizeBytes)})`;
+
+      if (attachment.contentType.startsWith("image/")) {
+        link.className = "attachment-thumbnail";
+        link.target = "_blank";
+        link.rel = "noopener";
+        const image = document.createElement("img");
+        image.src = url;
+        image.alt = attachment.fileName;
+        image.loading = "lazy";
+        link.appendChild(image);
+      } else {
+        // The server sends other files as downloads under their original name
+        link.className = "attachment-file btn btn-sm btn-outline-secondary";
+        link.download = attachment.fileName;
+        const size = document.createElement("span");
+        size.className = "text-muted ms-1";
+        size.textContent = formatFileSize(attachment.sizeBytes);
+        link.append(`📎 ${attachment.fileName}`, size);
+      }
+
+      container.appendChild(link);
+    });
+  }
+
+  /** Inline editor replacing the message body */
+  private renderEditor(container: HTMLElement, message: Message) {
+    const textarea = document.createElement("textarea");
+    textarea.className = "form-control message-edit-input";
+    textarea.rows = 3;
+    textarea.value = message.content;
+
+    const buttons = document.createElement("div");
+    buttons.className = "d-flex gap-2 mt-2";
+
+    const save = document.createElement("button");
+    save.type = "button";
+    save.className = "btn btn-primary btn-sm";
+    save.textContent = "Save";
+    save.addEventListener("click", async () => {
+      const content = textarea.value.trim();
+      if (!content) {
+        alert("Message cannot be empty");
+        return;
+      }
+      save.disabled = true;
+      const saved = await this.app.updateMessage(message.id, content);
+      if (!saved) save.disabled = false;
+    });
+
+    const cancel = document.createElement("button");
+    cancel.type = "button";
+    cancel.className = "btn btn-outline-secondary btn-sm";
+    cancel.textContent = "Cancel";
+    cancel.addEventListener("click", () => this.app.cancelEditing());
+
+    buttons.append(save, cancel);
+    container.append(textarea, buttons);
+  }
+
+  /**
+   * When more pages exist, add a marker at the end of the list and load the
+   * next page once it scrolls into view.
+   */
+  private renderScrollSentinel(model: MessageListModel) {
+    this._scrollObserver?.disconnect();
+    this._scrollObserver = null;
+    if (!model.hasMore) return;
+
+    const sentinel = document.createElement("div");
+    sentinel.className = "messages-sentinel text-center text-muted py-3";
+    sentinel.textContent =
+      model.sortOrder === "desc"
+        ? "Loading older messages..."
+        : "Loading newer messages...";
+    this._container.appendChild(sentinel);
+
+    if (typeof IntersectionObserver === "undefined") return;
+
+    this._scrollObserver = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          void this.app.loadMoreMessages();
+        }
+      },
+      { root: this._container, rootMargin: "200px" }
+    );
+    this._scrollObserver.observe(sentinel);
+  }
+}
+
+/**
+ * Group loaded messages into top-level posts (sorted by the sort order) and
+ * replies by parent (always oldest first, so conversations read naturally).
+ * Replies whose parent isn't loaded are shown as top-level posts.
+ */
+function buildReplyTree(
+  messages: Message[],
+  sortOrder: SortOrder
+): { roots: Message[]; replies: Map<number, Message[]> } {
+  const loaded = new Set(messages.map((m) => m.id));
+  const roots: Message[] = [];
+  const replies = new Map<number, Message[]>();
+
+  messages.forEach((message) => {
+    const parentId = message.parentMessageId;
+    if (parentId !== null && loaded.has(parentId)) {
+      replies.set(parentId, [...(replies.get(parentId) ?? []), message]);
+    } else {
+      roots.push(message);
+    }
+  });
+
+  const byTime = (a: Message, b: Message) =>
+    new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+
+  roots.sort((a, b) => (sortOrder === "desc" ? byTime(b, a) : byTime(a, b)));
+  replies.forEach((list) => list.sort(byTime));
+  return { roots, replies };
+}
+
+/** Number of replies below a message, at any depth */
+function countReplies(messageId: number, replies: Map<number, Message[]>): number {
+  return (replies.get(messageId) ?? []).reduce(
+    (total, reply) => total + 1 + countReplies(reply.id, replies),
+    0
+  );
+}
+
+/** Divider at the first unread message, pointing at the newer end of the list */
+function createNewMessagesDivider(sortOrder: SortOrder): HTMLElement {
+  const divider = document.createElement("div");
+  divider.className = "new-messages-divider";
+  divider.setAttribute("role", "separator");
+  divider.textContent = sortOrder === "asc" ? "New messages" : "New messages \u2191";
+  return divider;
+}
+
+/** Previous versions of a message, newest first */
+function renderHistory(container: HTMLElement, revisions: MessageRevision[]) {
+  container.className = "message-history mt-2 pt-2 border-top";
+
+  if (revisions.length === 0) {
+    container.innerHTML = '<small class="text-muted">No earlier versions.</small>';
+    return;
+  }
+
+  revisions.forEach((revision) => {
+    const item = document.createElement("div");
+    item.className = "message-revision mb-2";
+
+    const when = document.createElement("small");
+    when.className = "text-muted d-block";
+    when.textContent = `Replaced ${new Date(revision.editedAt).toLocaleString()}`;
+
+    const body = document.createElement("div");
+    body.className = "message-content";
+    body.innerHTML = renderMarkdown(revision.content);
+
+    item.append(when, body);
+    container.appendChild(item);
+  });
+}
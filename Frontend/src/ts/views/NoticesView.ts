@@ -0,0 +1,44 @@
+/**
+ * NoticesView.ts
+ *
+ * Purpose:
+ * Renders the store's notices (errors and warnings) as dismissible alerts,
+ * and the offline banner while the API is unreachable.
+ */
+
+import { AppState } from "../state/AppState";
+import { Notice, selectNotices, selectOnline } from "../state/boardState";
+import { setVisible } from "./dom";
+import { View } from "./View";
+
+export class NoticesView extends View {
+  private _container: HTMLElement;
+
+  constructor(container: HTMLElement, offlineBanner: HTMLElement, app: AppState) {
+    super(app);
+    this._container = container;
+
+    this.watch(selectNotices, (notices) => this.render(notices));
+    this.watch(selectOnline, (online) => setVisible(offlineBanner, !online));
+  }
+
+  private render(notices: Notice[]) {
+    this._container.replaceChildren(
+      ...notices.map((notice) => {
+        const alert = document.createElement("div");
+        alert.className = `alert alert-${notice.variant} alert-dismissible fade show`;
+        // Message may come from the server, so insert it as text
+        alert.textContent = notice.message;
+
+        const close = document.createElement("button");
+        close.type = "button";
+        close.className = "btn-close";
+        close.setAttribute("aria-label", "Close");
+        close.addEventListener("click", () => this.app.dismissNotice(notice.id));
+
+        alert.appendChild(close);
+        return alert;
+      })
+    );
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * NotificationsView.ts
+ *
+ * Purpose:
+ * Renders the logged-in user's notifications from the store: the unread
+ * badge on the bell and the inbox (#/notifications), one link per mention
+ * that opens the message in its thread and marks the notification read.
+ */
+
+import { Notification } from "../api/client";
+import { AppState } from "../state/AppState";
+import { selectNotifications } from "../state/boardState";
+import { shallowEqual } from "../state/store";
+import { setVisible } from "./dom";
+import { View } from "./View";
+
+const MAX_BADGE_COUNT = 99; // Larger counts show as "99+"
+
+export interface NotificationElements {
+  badge: HTMLElement; // Unread count on the bell
+  list: HTMLElement;
+  markAllButton: HTMLElement;
+}
+
+export class NotificationsView extends View {
+  private _elements: NotificationElements;
+
+  constructor(elements: NotificationElements, app: AppState) {
+    super(app);
+    this._elements = elements;
+
+    elements.markAllButton.addEventListener(
+      "click",
+      () => void this.app.markAllNotificationsRead()
+    );
+    this.watch(selectNotifications, (inbox) => this.render(inbox), shallowEqual);
+  }
+
+  private render({ items, unreadCount }: ReturnType<typeof selectNotifications>) {
+    const { badge, list, markAllButton } = this._elements;
+
+    setVisible(badge, unreadCount > 0, "inline-block");
+    badge.textContent = unreadCount > MAX_BADGE_COUNT ? `${MAX_BADGE_COUNT}+` : String(unreadCount);
+    setVisible(markAllButton, unreadCount > 0);
+
+    list.innerHTML = "";
+    if (items.length === 0) {
+      list.innerHTML =
+        '<div class="text-muted p-3">No notifications yet. Mentions of you show up here.</div>';
+      return;
+    }
+
+    items.forEach((notification) => list.appendChild(this.createItem(notification)));
+  }
+
+  private createItem(notification: Notification): HTMLElement {
+    const link = document.createElement("a");
+    link.href = `#/threads/${notification.threadId}?message=${notification.messageId}`;
+    link.className = "list-group-item list-group-item-action notification-item";
+    if (notification.readAt === null) link.classList.add("notification-unread");
+    link.addEventListener("click", () => void this.app.markNotificationRead(notification.id));
+
+    // Snippet and names are plain text - never parse them as HTML
+    const summary = document.createElement("div");
+    const actor = document.createElement("strong");
+    actor.textContent = notification.actor?.username ?? "Someone";
+    const thread = document.createElement("strong");
+    thread.textContent = notification.threadTitle;
+    summary.append(actor, " mentioned you in ", thread);
+
+    const snippet = document.createElement("div");
+    snippet.className = "notification-snippet text-muted small";
+    snippet.textContent = notification.snippet;
+
+    const time = document.createElement("small");
+    time.className = "text-muted";
+    time.textContent = new Date(notification.createdAt).toLocaleString();
+
+    link.append(summary, snippet, time);
+    return link;
+  }
+}
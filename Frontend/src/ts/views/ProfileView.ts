@@ -0,0 +1,138 @@
+/**
+ * ProfileView.ts
+ *
+ * Purpose:
+ * Renders a user's profile page (#/users/:id) from the store: avatar,
+ * join date, thread and message counts, bio, and the threads they started.
+ * The logged-in user's own profile links to the account settings.
+ */
+
+import { Thread, UserProfile } from "../api/client";
+import { AppState } from "../state/AppState";
+import { selectProfilePage } from "../state/boardState";
+import { shallowEqual } from "../state/store";
+import { View } from "./View";
+
+export class ProfileView extends View {
+  private _container: HTMLElement;
+
+  constructor(container: HTMLElement, app: AppState) {
+    super(app);
+    this._container = container;
+    this.watch(selectProfilePage, (page) => this.render(page), shallowEqual);
+  }
+
+  private render({ profile, threads, isOwnProfile }: ReturnType<typeof selectProfilePage>) {
+    const container = this._container;
+    container.innerHTML = "";
+
+    if (!profile) {
+      container.innerHTML = '<div class="empty-state">Loading profile...</div>';
+      return;
+    }
+
+    container.append(renderHeader(profile, isOwnProfile), renderThreads(profile, threads));
+  }
+}
+
+function renderHeader(profile: UserProfile, isOwnProfile: boolean): HTMLElement {
+  const card = document.createElement("div");
+  card.className = "card mb-3 profile-card";
+  card.innerHTML = `
+    <div class="card-body d-flex gap-3">
+      <div class="profile-avatar"></div>
+      <div class="flex-grow-1">
+        <h2 class="h4 mb-1 profile-username"></h2>
+        <small class="text-muted d-block profile-meta"></small>
+        <p class="profile-bio mt-2 mb-0"></p>
+      </div>
+      <div class="profile-actions"></div>
+    </div>
+  `;
+
+  const avatar = card.querySelector<HTMLElement>(".profile-avatar")!;
+  if (profile.avatarUrl) {
+    const img = document.createElement("img");
+    img.src = profile.avatarUrl;
+    img.alt = `${profile.username}'s avatar`;
+    img.referrerPolicy = "no-referrer";
+    avatar.appendChild(img);
+  } else {
+    avatar.textContent = profile.username.charAt(0).toUpperCase();
+  }
+
+  const username = card.querySelector<HTMLElement>(".profile-username")!;
+  username.textContent = profile.username;
+  if (profile.role !== "User") {
+    const badge = document.createElement("span");
+    badge.className = "badge bg-warning text-dark align-middle ms-2";
+    badge.textContent = profile.role;
+    username.appendChild(badge);
+  }
+
+  card.querySelector(".profile-meta")!.textContent =
+    `Joined ${new Date(profile.createdAt).toLocaleDateString()} · ` +
+    `${plural(profile.threadCount, "thread")} · ${plural(profile.messageCount, "message")}`;
+
+  const bio = card.querySelector<HTMLElement>(".profile-bio")!;
+  if (profile.bio) {
+    bio.textContent = profile.bio;
+  } else {
+    bio.className = "profile-bio mt-2 mb-0 text-muted fst-italic";
+    bio.textContent = "No bio yet.";
+  }
+
+  if (isOwnProfile) {
+    const edit = document.createElement("a");
+    edit.href = "#/account";
+    edit.className = "btn btn-outline-secondary btn-sm";
+    edit.textContent = "Edit profile";
+    card.querySelector(".profile-actions")!.appendChild(edit);
+  }
+
+  return card;
+}
+
+function renderThreads(profile: UserProfile, threads: Thread[]): HTMLElement {
+  const card = document.createElement("div");
+  card.className = "card";
+  card.innerHTML = `
+    <div class="card-header bg-light"><h5 class="mb-0"></h5></div>
+    <div class="list-group list-group-flush"></div>
+  `;
+  card.querySelector("h5")!.textContent = `Threads by ${profile.username}`;
+
+  const list = card.querySelector<HTMLElement>(".list-group")!;
+  if (threads.length === 0) {
+    list.innerHTML = '<div class="text-muted p-3">No threads yet.</div>';
+    return card;
+  }
+
+  threads.forEach((thread) => {
+    const link = document.createElement("a");
+    link.href = `#/threads/${thread.id}`;
+    link.className =
+      "list-group-item list-group-item-action d-flex justify-content-between align-items-center";
+
+    const info = document.createElement("div");
+    const title = document.createElement("strong");
+    title.textContent = thread.title;
+    const date = document.createElement("small");
+    date.className = "d-block text-muted";
+    date.textContent = new Date(thread.createdAt).toLocaleDateString();
+    info.append(title, date);
+
+    const count = document.createElement("span");
+    count.className = "badge bg-primary rounded-pill";
+    count.textContent = String(thread.messageCount);
+
+    link.append(info, count);
+    list.appendChild(link);
+  });
+
+  return card;
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
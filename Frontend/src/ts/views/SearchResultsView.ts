@@ -0,0 +1,101 @@
+/**
+ * SearchResultsView.ts
+ *
+ * Purpose:
+ * Renders the search results (#/search) from the store: one link per hit
+ * with its highlighted snippet, plus the "Load more" button.
+ */
+
+import { SearchHighlight } from "../api/client";
+import { AppState, MIN_SEARCH_LENGTH } from "../state/AppState";
+import { selectSearch } from "../state/boardState";
+import { shallowEqual } from "../state/store";
+import { setVisible } from "./dom";
+import { View } from "./View";
+
+export class SearchResultsView extends View {
+  private _container: HTMLElement;
+  private _moreButton: HTMLElement;
+
+  constructor(container: HTMLElement, moreButton: HTMLElement, app: AppState) {
+    super(app);
+    this._container = container;
+    this._moreButton = moreButton;
+
+    moreButton.addEventListener("click", () => void this.app.loadMoreSearchResults());
+    this.watch(selectSearch, (search) => this.render(search), shallowEqual);
+  }
+
+  private render({ query, results, hasMore }: ReturnType<typeof selectSearch>) {
+    const container = this._container;
+    container.innerHTML = "";
+    setVisible(this._moreButton, hasMore);
+
+    const q = query?.q.trim() ?? "";
+    if (q.length < MIN_SEARCH_LENGTH) {
+      container.innerHTML =
+        '<div class="text-muted p-3">Type at least two characters to search.</div>';
+      return;
+    }
+
+    if (results.length === 0) {
+      const empty = document.createElement("div");
+      empty.className = "text-muted p-3";
+      empty.textContent = `No results for "${q}".`;
+      container.appendChild(empty);
+      return;
+    }
+
+    results.forEach((result) => {
+      const link = document.createElement("a");
+      link.className = "list-group-item list-group-item-action search-result";
+      link.href =
+        result.type === "message" && result.messageId !== null
+          ? `#/threads/${result.threadId}?message=${result.messageId}`
+          : `#/threads/${result.threadId}`;
+
+      const heading = document.createElement("div");
+      heading.className = "d-flex justify-content-between";
+
+      const title = document.createElement("strong");
+      title.textContent =
+        result.type === "thread" ? "Thread" : `In: ${result.threadTitle}`;
+
+      const meta = document.createElement("small");
+      meta.className = "text-muted";
+      meta.textContent = `${result.author.username} · ${new Date(
+        result.createdAt
+      ).toLocaleString()}`;
+      heading.append(title, meta);
+
+      const snippet = document.createElement("div");
+      snippet.className = "search-snippet";
+      snippet.appendChild(highlightText(result.snippet, result.highlights));
+
+      link.append(heading, snippet);
+      container.appendChild(link);
+    });
+
+    console.log(`Rendered ${results.length} search results`);
+  }
+}
+
+/** Plain text with the given ranges wrapped in <mark>, built from text nodes only */
+function highlightText(text: string, highlights: SearchHighlight[]): DocumentFragment {
+  const fragment = document.createDocumentFragment();
+  let last = 0;
+
+  [...highlights]
+    .sort((a, b) => a.start - b.start)
+    .forEach(({ start, length }) => {
+      if (start < last || start >= text.length) return;
+      fragment.append(text.slice(last, start));
+      const mark = document.createElement("mark");
+      mark.textContent = text.slice(start, start + length);
+      fragment.append(mark);
+      last = start + length;
+    });
+
+  fragment.append(text.slice(last));
+  return fragment;
+}
@@ -0,0 +1,48 @@
+/**
+ * ThreadHeaderView.ts
+ *
+ * Purpose:
+ * Renders the thread detail header from the store: title, locked badge,
+ * owner and moderator controls, and whether the message form or the
+ * "thread is locked" notice is shown.
+ */
+
+import { AppState } from "../state/AppState";
+import { selectThreadHeader } from "../state/boardState";
+import { shallowEqual } from "../state/store";
+import { setVisible } from "./dom";
+import { View } from "./View";
+
+export interface ThreadHeaderElements {
+  title: HTMLElement;
+  lockedBadge: HTMLElement;
+  ownerActions: HTMLElement; // Rename/delete (thread author or moderator)
+  moderatorToolbar: HTMLElement;
+  lockButton: HTMLElement;
+  lockedNotice: HTMLElement;
+  messageForm: HTMLElement;
+}
+
+export class ThreadHeaderView extends View {
+  constructor(elements: ThreadHeaderElements, app: AppState) {
+    super(app);
+
+    this.watch(
+      selectThreadHeader,
+      ({ thread, canPost, canManageThread, isModerator }) => {
+        const locked = thread?.isLocked ?? false;
+
+        elements.title.textContent = thread?.title ?? "";
+        setVisible(elements.lockedBadge, locked, "inline-block");
+        elements.lockButton.textContent = locked ? "Unlock thread" : "Lock thread";
+        setVisible(elements.ownerActions, canManageThread, "flex");
+        setVisible(elements.moderatorToolbar, isModerator, "flex");
+
+        // Locked threads take no new posts, except from moderators
+        setVisible(elements.messageForm, canPost);
+        setVisible(elements.lockedNotice, locked && !isModerator);
+      },
+      shallowEqual
+    );
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * ThreadListView.ts
+ *
+ * Purpose:
+ * Renders the thread list (#/threads) from the store: one link per
+ * thread with its author, date, lock state and message count, plus how
+ * many messages are new since the user last read it. The "Mark all read"
+ * button only shows while something is unread, the "Import thread" button
+ * only to admins.
+ */
+
+import { Thread } from "../api/client";
+import { AppState } from "../state/AppState";
+import { selectHasUnread, selectIsAdmin, selectThreads } from "../state/boardState";
+import { setVisible } from "./dom";
+import { View } from "./View";
+
+export class ThreadListView extends View {
+  private _container: HTMLElement;
+
+  constructor(
+    container: HTMLElement,
+    markAllReadButton: HTMLElement,
+    importButton: HTMLElement,
+    app: AppState
+  ) {
+    super(app);
+    this._container = container;
+
+    markAllReadButton.addEventListener("click", () => void this.app.markAllRead());
+    this.watch(selectThreads, (threads) => this.render(threads));
+    this.watch(selectHasUnread, (hasUnread) => setVisible(markAllReadButton, hasUnread));
+    this.watch(selectIsAdmin, (isAdmin) => setVisible(importButton, isAdmin));
+  }
+
+  private render(threads: Thread[]) {
+    const container = this._container;
+    container.innerHTML = "";
+
+    // Empty state
+    if (threads.length === 0) {
+      container.innerHTML =
+        '<div class="text-muted p-3">No threads yet. Start the first one!</div>';
+      return;
+    }
+
+    // Render each thread as a link to its detail route
+    threads.forEach((thread) => {
+      const link = document.createElement("a");
+      link.href = `#/threads/${thread.id}`;
+      link.className =
+        "list-group-item list-group-item-action d-flex justify-content-between align-items-center";
+
+      const info = document.createElement("div");
+      const title = document.createElement("strong");
+      title.textContent = thread.title;
+      if (thread.isLocked) {
+        const lock = document.createElement("i");
+        lock.className = "bi bi-lock-fill text-muted ms-2";
+        lock.title = "Locked";
+        title.appendChild(lock);
+      }
+      const meta = document.createElement("small");
+      meta.className = "d-block text-muted";
+      meta.textContent = `by ${thread.user?.username ?? "unknown"} · ${new Date(
+        thread.createdAt
+      ).toLocaleDateString()}`;
+      info.append(title, meta);
+
+      const counts = document.createElement("div");
+      const unread = thread.unreadCount ?? 0;
+      if (unread > 0) {
+        link.classList.add("thread-unread");
+        const badge = document.createElement("span");
+        badge.className = "badge bg-success rounded-pill me-1 thread-unread-count";
+        badge.textContent = `${unread} new`;
+        counts.appendChild(badge);
+      }
+      const count = document.createElement("span");
+      count.className = "badge bg-primary rounded-pill";
+      count.textContent = String(thread.messageCount ?? 0);
+      counts.appendChild(count);
+
+      link.append(info, counts);
+      container.appendChild(link);
+    });
+
+    console.log(`Rendered ${threads.length} threads`);
+  }
+}
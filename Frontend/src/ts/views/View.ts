@@ -0,0 +1,53 @@
+/**
+ * View.ts
+ *
+ * Purpose:
+ * Base class for the view components. A view owns a few DOM elements,
+ * renders them from the store through selectors and calls AppState
+ * actions in response to user input. It never writes to the store.
+ *
+ * Key Features:
+ * - `watch` subscribes a render function to a selector and runs it once
+ *   immediately, so a freshly mounted view shows the current state
+ * - `destroy` drops every subscription the view made
+ *
+ * Usage:
+ *   class ThreadListView extends View {
+ *     constructor(container: HTMLElement, app: AppState) {
+ *       super(app);
+ *       this.watch(selectThreads, (threads) => this.render(threads));
+ *     }
+ *   }
+ */
+
+import { AppState } from "../state/AppState";
+import { BoardState } from "../state/boardState";
+import { Equality, Selector, Store } from "../state/store";
+
+export abstract class View {
+  protected readonly app: AppState;
+  protected readonly store: Store<BoardState>;
+  private _unsubscribers: Array<() => void> = [];
+
+  constructor(app: AppState) {
+    this.app = app;
+    this.store = app.store;
+  }
+
+  /** Render now and again whenever the selected value changes */
+  protected watch<T>(
+    selector: Selector<BoardState, T>,
+    render: (value: T, previous: T) => void,
+    equals?: Equality<T>
+  ) {
+    this._unsubscribers.push(
+      this.store.select(selector, render, { immediate: true, ...(equals ? { equals } : {}) })
+    );
+  }
+
+  /** Stop reacting to state changes */
+  destroy() {
+    this._unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this._unsubscribers = [];
+  }
+}
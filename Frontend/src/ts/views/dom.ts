@@ -0,0 +1,40 @@
+/**
+ * dom.ts
+ *
+ * Purpose:
+ * Small DOM and formatting helpers shared by the view components.
+ */
+
+/** Show or hide an element (`display` is what "shown" means for it) */
+export function setVisible(element: HTMLElement, visible: boolean, display = "block") {
+  element.style.display = visible ? display : "none";
+}
+
+/** Link-styled button used for the per-message actions */
+export function createActionButton(label: string, onClick: () => void): HTMLButtonElement {
+  const button = document.createElement("button");
+  button.type = "button";
+  button.className = "btn btn-link btn-sm p-0 ms-2";
+  button.textContent = label;
+  button.addEventListener("click", onClick);
+  return button;
+}
+
+/** File size for display, e.g. "512 B", "34.5 KB", "2.1 MB" */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/** Hand text to the browser as a file download */
+export function downloadFile(fileName: string, contentType: string, content: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: contentType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url)); // After the download has started
+}
@@ -0,0 +1,376 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  AbortedError,
+  ApiClient,
+  NetworkError,
+  RateLimitError,
+  RequestOptions,
+  ServerError,
+  TimeoutError,
+  UnauthorizedError,
+  ValidationError,
+} from "../src/ts/api/client";
+import { createMockBackend, MockBackend, tokenFor } from "./mockBackend";
+
+describe("ApiClient.request", () => {
+  let backend: MockBackend;
+  let client: ApiClient;
+
+  beforeEach(() => {
+    backend = createMockBackend();
+    client = new ApiClient("http://api.test", { fetch: backend.fetch });
+  });
+
+  describe("token injection", () => {
+    it("sends no Authorization header without a token", async () => {
+      await client.getThreads();
+
+      expect(backend.requests[0]?.headers.Authorization).toBeUndefined();
+    });
+
+    it("sends the token as a Bearer header once set", async () => {
+      const alice = backend.addUser("alice", "secret");
+      const thread = backend.addThread("General", alice);
+      client.setAuthToken(tokenFor(alice));
+
+      const message = await client.createMessage({ content: "Hello", threadId: thread.id });
+
+      expect(backend.requests[0]?.headers.Authorization).toBe(`Bearer ${tokenFor(alice)}`);
+      expect(message.userId).toBe(alice.id);
+    });
+
+    it("stops sending the token after it is cleared", async () => {
+      client.setAuthToken("token-1");
+      client.setAuthToken(undefined);
+
+      await client.getThreads();
+
+      expect(backend.requests[0]?.headers.Authorization).toBeUndefined();
+    });
+  });
+
+  describe("401 handling", () => {
+    it("calls onUnauthorized and throws UnauthorizedError", async () => {
+      const alice = backend.addUser("alice", "secret");
+      const thread = backend.addThread("General", alice);
+      const onUnauthorized = vi.fn();
+      client.onUnauthorized(onUnauthorized);
+      client.setAuthToken("token-expired");
+
+      await expect(
+        client.createMessage({ content: "Hello", threadId: thread.id })
+      ).rejects.toBeInstanceOf(UnauthorizedError);
+      expect(onUnauthorized).toHaveBeenCalledTimes(1);
+    });
+
+    it("does not call onUnauthorized for other errors", async () => {
+      const onUnauthorized = vi.fn();
+      client.onUnauthorized(onUnauthorized);
+
+      const error = await client
+        .login({ username: "nobody", password: "wrong" })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect((error as ValidationError).message).toBe("Invalid username or password");
+      expect(onUnauthorized).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("rate limiting", () => {
+    it("throws RateLimitError with the server's Retry-After", async () => {
+      const alice = backend.addUser("alice", "secret");
+      const thread = backend.addThread("General", alice);
+      client.setAuthToken(tokenFor(alice));
+      backend.rateLimitPosts(42);
+
+      const error = await client
+        .createMessage({ content: "Hello", threadId: thread.id })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect((error as RateLimitError).retryAfterSeconds).toBe(42);
+      expect((error as RateLimitError).message).toBe(
+        "You're posting too fast. Try again in 42 seconds."
+      );
+      expect(backend.requestsTo("POST", "/api/messages")).toHaveLength(1);
+    });
+
+    it("waits out a short Retry-After on repeatable requests", async () => {
+      vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+      try {
+        const alice = backend.addUser("alice", "secret");
+        const thread = backend.addThread("General", alice);
+        client.setAuthToken(tokenFor(alice));
+        backend.rateLimitPosts(2);
+
+        const posted = client.createMessage(
+          { content: "Hello", threadId: thread.id },
+          { idempotencyKey: "key-1" }
+        );
+        await vi.advanceTimersByTimeAsync(2000);
+
+        expect((await posted).content).toBe("Hello");
+        expect(backend.requestsTo("POST", "/api/messages")).toHaveLength(2);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe("session refresh", () => {
+    /** Log alice in on the client, then expire her access token */
+    async function expiredSession() {
+      const alice = backend.addUser("alice", "secret");
+      const thread = backend.addThread("General", alice);
+      const session = await client.login({ username: "alice", password: "secret" });
+      client.setAuthToken(session.token ?? undefined);
+      client.setRefreshToken(session.refreshToken ?? undefined);
+      backend.expireToken(tokenFor(alice));
+      backend.requests.length = 0;
+      return { alice, thread, refreshToken: session.refreshToken ?? "" };
+    }
+
+    it("refreshes the token and replays the request after a 401", async () => {
+      const { thread, refreshToken } = await expiredSession();
+      const onSessionRefreshed = vi.fn();
+      const onUnauthorized = vi.fn();
+      client.onSessionRefreshed(onSessionRefreshed);
+      client.onUnauthorized(onUnauthorized);
+
+      const message = await client.createMessage({ content: "Hello", threadId: thread.id });
+
+      expect(message.content).toBe("Hello");
+      expect(backend.requests.map((r) => `${r.method} ${r.path}`)).toEqual([
+        "POST /api/messages",
+        "POST /api/auth/refresh",
+        "POST /api/messages",
+      ]);
+
+      const newToken = onSessionRefreshed.mock.calls[0]?.[0].token;
+      expect(backend.requests[2]?.headers.Authorization).toBe(`Bearer ${newToken}`);
+      expect(backend.isRefreshTokenActive(refreshToken)).toBe(false);
+      expect(onUnauthorized).not.toHaveBeenCalled();
+    });
+
+    it("shares one refresh between concurrent requests", async () => {
+      const { thread } = await expiredSession();
+
+      const messages = await Promise.all(
+        ["One", "Two", "Three"].map((content) =>
+          client.createMessage({ content, threadId: thread.id })
+        )
+      );
+
+      expect(messages.map((m) => m.content)).toEqual(["One", "Two", "Three"]);
+      expect(backend.requestsTo("POST", "/api/auth/refresh")).toHaveLength(1);
+    });
+
+    it("calls onUnauthorized when the refresh token is rejected", async () => {
+      const { thread } = await expiredSession();
+      client.setRefreshToken("refresh-revoked");
+      const onUnauthorized = vi.fn();
+      client.onUnauthorized(onUnauthorized);
+
+      await expect(
+        client.createMessage({ content: "Hello", threadId: thread.id })
+      ).rejects.toBeInstanceOf(UnauthorizedError);
+      expect(onUnauthorized).toHaveBeenCalledTimes(1);
+      expect(backend.requestsTo("POST", "/api/messages")).toHaveLength(1);
+    });
+
+    it("revokes the refresh token on logout", async () => {
+      const { refreshToken } = await expiredSession();
+
+      await client.logout();
+
+      expect(backend.requestsTo("POST", "/api/auth/logout")[0]?.body).toEqual({ refreshToken });
+      expect(backend.isRefreshTokenActive(refreshToken)).toBe(false);
+      expect(await client.refreshSession()).toBe(false);
+    });
+  });
+
+  describe("timeouts, cancellation and retries", () => {
+    /** What one fetch call does: answer, fail like an unreachable server, or never answer */
+    type Outcome = Response | Error | "hang";
+
+    let outcomes: Outcome[];
+    let fetchStub: ReturnType<typeof vi.fn<typeof fetch>>;
+
+    const ok = (body: unknown = []) =>
+      new Response(JSON.stringify(body), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    const unavailable = () => new Response("Try again later", { status: 503 });
+    const offline = () => new TypeError("Failed to fetch");
+
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+      outcomes = [];
+      // Unscripted calls hang until the request's signal aborts them, like a stalled server
+      fetchStub = vi.fn<typeof fetch>((_input, init) => {
+        const outcome = outcomes.shift() ?? "hang";
+        if (outcome === "hang") {
+          return new Promise((_, reject) =>
+            init?.signal?.addEventListener("abort", () =>
+              reject(new DOMException("The operation was aborted.", "AbortError"))
+            )
+          );
+        }
+        return outcome instanceof Error ? Promise.reject(outcome) : Promise.resolve(outcome);
+      });
+      client = new ApiClient("http://api.test", {
+        fetch: fetchStub,
+        timeoutMs: 1000,
+        retry: { retries: 2, baseDelayMs: 500, maxDelayMs: 5000, jitter: false },
+      });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    describe("timeouts", () => {
+      it("throws TimeoutError once the client's timeout passes", async () => {
+        const result = client.getThreads({ retry: false }).catch((e: unknown) => e);
+
+        await vi.advanceTimersByTimeAsync(999);
+        expect(fetchStub.mock.calls[0]?.[1]?.signal?.aborted).toBe(false);
+        await vi.advanceTimersByTimeAsync(1);
+
+        const error = await result;
+        expect(error).toBeInstanceOf(TimeoutError);
+        expect((error as TimeoutError).timeoutMs).toBe(1000);
+      });
+
+      it("uses a per-request timeout instead of the client's", async () => {
+        const result = client.getThreads({ retry: false, timeoutMs: 50 }).catch((e: unknown) => e);
+
+        await vi.advanceTimersByTimeAsync(50);
+
+        expect(await result).toMatchObject({ name: "TimeoutError", timeoutMs: 50 });
+      });
+    });
+
+    describe("cancellation", () => {
+      it("throws AbortedError when the caller aborts a request in flight", async () => {
+        const controller = new AbortController();
+        const result = client.getThreads({ signal: controller.signal }).catch((e: unknown) => e);
+        await vi.advanceTimersByTimeAsync(10);
+
+        controller.abort();
+
+        expect(await result).toBeInstanceOf(AbortedError);
+        await vi.advanceTimersByTimeAsync(10_000);
+        expect(fetchStub).toHaveBeenCalledTimes(1); // Not retried
+      });
+
+      it("stops waiting between retries when the caller aborts", async () => {
+        outcomes.push(offline());
+        const controller = new AbortController();
+        const result = client.getThreads({ signal: controller.signal }).catch((e: unknown) => e);
+        await vi.advanceTimersByTimeAsync(100); // Part of the 500ms backoff
+
+        controller.abort();
+
+        expect(await result).toBeInstanceOf(AbortedError);
+        await vi.advanceTimersByTimeAsync(10_000);
+        expect(fetchStub).toHaveBeenCalledTimes(1);
+      });
+
+      it("sends nothing when the signal is already aborted", async () => {
+        const error = await client
+          .getThreads({ signal: AbortSignal.abort() })
+          .catch((e: unknown) => e);
+
+        expect(error).toBeInstanceOf(AbortedError);
+        expect(fetchStub).not.toHaveBeenCalled();
+      });
+    });
+
+    describe("retries", () => {
+      it("retries a GET after network errors and 5xx, doubling the delay each time", async () => {
+        outcomes.push(unavailable(), offline(), ok([{ id: 1 }]));
+        const result = client.getThreads();
+        await vi.advanceTimersByTimeAsync(0);
+        expect(fetchStub).toHaveBeenCalledTimes(1);
+
+        await vi.advanceTimersByTimeAsync(499);
+        expect(fetchStub).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(fetchStub).toHaveBeenCalledTimes(2);
+
+        await vi.advanceTimersByTimeAsync(999);
+        expect(fetchStub).toHaveBeenCalledTimes(2);
+        await vi.advanceTimersByTimeAsync(1);
+
+        expect(await result).toEqual([{ id: 1 }]);
+        expect(fetchStub).toHaveBeenCalledTimes(3);
+      });
+
+      it("retries a GET that times out", async () => {
+        outcomes.push("hang", ok());
+        const result = client.getThreads();
+
+        await vi.advanceTimersByTimeAsync(1000 + 500);
+
+        expect(await result).toEqual([]);
+        expect(fetchStub).toHaveBeenCalledTimes(2);
+      });
+
+      it("gives up after the configured number of retries", async () => {
+        outcomes.push(unavailable(), unavailable(), unavailable(), ok());
+        const result = client.getThreads().catch((e: unknown) => e);
+
+        await vi.advanceTimersByTimeAsync(10_000);
+
+        const error = await result;
+        expect(error).toBeInstanceOf(ServerError);
+        expect((error as ServerError).status).toBe(503);
+        expect(fetchStub).toHaveBeenCalledTimes(3); // The first try and 2 retries
+      });
+
+      it("does not retry client errors", async () => {
+        outcomes.push(new Response("Thread not found", { status: 404 }), ok());
+
+        await expect(client.getThread(1)).rejects.toMatchObject({ status: 404 });
+        expect(fetchStub).toHaveBeenCalledTimes(1);
+      });
+
+      it.each<[string, (options: RequestOptions) => Promise<unknown>]>([
+        ["POST", (options) => client.createMessage({ content: "Hi", threadId: 1 }, options)],
+        ["PUT", (options) => client.updateMessage(1, { content: "Hi" }, options)],
+        ["DELETE", (options) => client.deleteMessage(1, options)],
+      ])("never retries a %s without an idempotency key", async (method, call) => {
+        outcomes.push(unavailable(), offline(), ok());
+
+        const serverError = call({}).catch((e: unknown) => e);
+        await vi.advanceTimersByTimeAsync(10_000);
+        expect(await serverError).toBeInstanceOf(ServerError);
+
+        const networkError = call({}).catch((e: unknown) => e);
+        await vi.advanceTimersByTimeAsync(10_000);
+        expect(await networkError).toBeInstanceOf(NetworkError);
+
+        expect(fetchStub.mock.calls.map(([, init]) => init?.method)).toEqual([method, method]);
+      });
+
+      it("retries a write that carries an idempotency key", async () => {
+        outcomes.push(unavailable(), ok({ id: 7, content: "Hi" }));
+
+        const result = client.createMessage(
+          { content: "Hi", threadId: 1 },
+          { idempotencyKey: "key-1" }
+        );
+        await vi.advanceTimersByTimeAsync(500);
+
+        expect(await result).toEqual({ id: 7, content: "Hi" });
+        const sentKeys = fetchStub.mock.calls.map(
+          ([, init]) => (init?.headers as Record<string, string>)["Idempotency-Key"]
+        );
+        expect(sentKeys).toEqual(["key-1", "key-1"]);
+      });
+    });
+  });
+});
@@ -0,0 +1,54 @@
+// @vitest-environment jsdom
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { createMockBackend } from "./mockBackend";
+
+/** The page markup, minus the scripts (the bundle is imported directly) */
+function loadPage() {
+  const html = readFileSync(resolve(__dirname, "../src/index.html"), "utf8");
+  const body = /<body[^>]*>([\s\S]*)<\/body>/i.exec(html)?.[1] ?? "";
+  document.body.innerHTML = body.replace(/<script[\s\S]*?<\/script>/gi, "");
+}
+
+describe("initializeApp", () => {
+  beforeAll(async () => {
+    const backend = createMockBackend();
+    backend.offline = true;
+    vi.stubGlobal("fetch", backend.fetch);
+    loadPage();
+
+    await import("../src/ts/app");
+    document.dispatchEvent(new Event("DOMContentLoaded"));
+  });
+
+  const visible = (id: string) => document.getElementById(id)?.style.display !== "none";
+
+  it("falls back to the sample threads when the API is unreachable", async () => {
+    await vi.waitFor(() => {
+      expect(document.getElementById("threads-list")?.textContent).toContain(
+        "Welcome to the Message Board!"
+      );
+    });
+
+    expect(visible("offline-banner")).toBe(true);
+    expect(document.getElementById("error-container")?.textContent).toContain(
+      "Cannot connect to server"
+    );
+  });
+
+  it("opens a sample thread with its sample messages", async () => {
+    window.location.hash = "#/threads/1";
+
+    await vi.waitFor(() => {
+      expect(document.querySelectorAll("#messages-list [data-message-id]")).toHaveLength(2);
+    });
+
+    expect(document.getElementById("thread-title")?.textContent).toBe(
+      "Welcome to the Message Board!"
+    );
+    expect(document.getElementById("messages-list")?.textContent).toContain(
+      "This is sample data since the API is not connected yet."
+    );
+  });
+});
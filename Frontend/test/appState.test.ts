@@ -0,0 +1,601 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { apiClient, Thread, User } from "../src/ts/api/client";
+import { AppState } from "../src/ts/state/AppState";
+import { MemoryStorageAdapter } from "../src/ts/state/storage";
+import { createMockBackend, MockBackend, tokenFor } from "./mockBackend";
+
+describe("AppState", () => {
+  let backend: MockBackend;
+  let storage: MemoryStorageAdapter;
+  let state: AppState;
+
+  beforeEach(() => {
+    backend = createMockBackend();
+    vi.stubGlobal("fetch", backend.fetch);
+    storage = new MemoryStorageAdapter();
+    state = new AppState(storage);
+  });
+
+  afterEach(() => {
+    state.logout(); // Clears the token on the shared apiClient
+  });
+
+  const lastNotice = () => state.store.getState().notices[0]?.message;
+
+  describe("login", () => {
+    it("starts a session on success", async () => {
+      const alice = backend.addUser("alice", "secret");
+
+      const ok = await state.login("alice", "secret");
+
+      expect(ok).toBe(true);
+      expect(state.isAuthenticated).toBe(true);
+      expect(state.currentUser).toEqual(alice);
+      expect(storage.getItem("messageboard.session")).toContain(tokenFor(alice));
+
+      await apiClient.getThreads();
+      expect(backend.requests[backend.requests.length - 1]?.headers.Authorization).toBe(`Bearer ${tokenFor(alice)}`);
+    });
+
+    it("reports the server's message on bad credentials", async () => {
+      backend.addUser("alice", "secret");
+
+      const ok = await state.login("alice", "wrong");
+
+      expect(ok).toBe(false);
+      expect(state.isAuthenticated).toBe(false);
+      expect(lastNotice()).toBe("Invalid username or password");
+      expect(storage.getItem("messageboard.session")).toBeNull();
+    });
+
+    it("notifies subscribers of the new user", async () => {
+      backend.addUser("alice", "secret");
+      const listener = vi.fn();
+      state.store.select((s) => s.currentUser?.username ?? null, listener);
+
+      await state.login("alice", "secret");
+      state.logout();
+
+      expect(listener.mock.calls.map(([user]) => user)).toEqual(["alice", null]);
+    });
+  });
+
+  describe("session refresh", () => {
+    it("persists the rotated tokens after a refresh", async () => {
+      const alice = backend.addUser("alice", "secret");
+      await state.login("alice", "secret");
+      backend.expireToken(tokenFor(alice));
+
+      const thread = backend.addThread("General", alice);
+      await apiClient.createMessage({ content: "Hello", threadId: thread.id });
+
+      const stored = JSON.parse(storage.getItem("messageboard.session") ?? "{}");
+      expect(stored.token).not.toBe(tokenFor(alice));
+      expect(state.store.getState().token).toBe(stored.token);
+      expect(backend.isRefreshTokenActive(stored.refreshToken)).toBe(true);
+    });
+
+    it("restores an expired session that has a refresh token", async () => {
+      const alice = backend.addUser("alice", "secret");
+      await state.login("alice", "secret");
+      const { refreshToken } = JSON.parse(storage.getItem("messageboard.session") ?? "{}");
+
+      // A JWT that expired an hour ago
+      const payload = btoa(JSON.stringify({ exp: Math.floor(Date.now() / 1000) - 3600 }));
+      storage.setItem(
+        "messageboard.session",
+        JSON.stringify({ token: `e30.${payload}.sig`, user: alice, refreshToken })
+      );
+
+      const restored = new AppState(storage);
+      expect(restored.restoreSession()).toBe(true);
+
+      await vi.waitFor(() => {
+        expect(backend.requestsTo("POST", "/api/auth/refresh")).toHaveLength(1);
+      });
+      await vi.waitFor(() => {
+        expect(restored.store.getState().token).toMatch(/^token-\d+\.\d+$/);
+      });
+    });
+
+    it("revokes the refresh token on logout", async () => {
+      backend.addUser("alice", "secret");
+      await state.login("alice", "secret");
+      const { refreshToken } = JSON.parse(storage.getItem("messageboard.session") ?? "{}");
+
+      state.logout();
+
+      await vi.waitFor(() => {
+        expect(backend.isRefreshTokenActive(refreshToken)).toBe(false);
+      });
+      expect(storage.getItem("messageboard.session")).toBeNull();
+    });
+  });
+
+  describe("register", () => {
+    it("logs the new user in", async () => {
+      const ok = await state.register("bob", "bob@example.com", "hunter2");
+
+      expect(ok).toBe(true);
+      expect(state.currentUser?.username).toBe("bob");
+      expect(state.isAuthenticated).toBe(true);
+    });
+
+    it("reports a taken username", async () => {
+      backend.addUser("bob", "secret");
+
+      const ok = await state.register("bob", "other@example.com", "hunter2");
+
+      expect(ok).toBe(false);
+      expect(state.isAuthenticated).toBe(false);
+      expect(lastNotice()).toBe("Username already exists");
+    });
+  });
+
+  describe("profiles", () => {
+    it("loads a profile with the user's threads, newest first", async () => {
+      const alice = backend.addUser("alice", "secret");
+      backend.addThread("First", alice);
+      backend.addThread("Second", alice);
+
+      const ok = await state.openProfile(alice.id);
+
+      const { profile, profileThreads } = state.store.getState();
+      expect(ok).toBe(true);
+      expect(profile).toMatchObject({ username: "alice", threadCount: 2, bio: null });
+      expect(profileThreads).toHaveLength(2);
+    });
+
+    it("reports a missing user", async () => {
+      const ok = await state.openProfile(999);
+
+      expect(ok).toBe(false);
+      expect(state.store.getState().profile).toBeNull();
+      expect(lastNotice()).toBe("User not found");
+    });
+  });
+
+  describe("account settings", () => {
+    beforeEach(async () => {
+      backend.addUser("alice", "secret");
+      await state.login("alice", "secret");
+    });
+
+    it("saves the profile and keeps the session's user in step", async () => {
+      const ok = await state.updateProfile("Hello there", "https://example.com/a.png");
+
+      expect(ok).toBe(true);
+      expect(state.currentUser).toMatchObject({
+        bio: "Hello there",
+        avatarUrl: "https://example.com/a.png",
+      });
+      expect(storage.getItem("messageboard.session")).toContain("Hello there");
+    });
+
+    it("clears a blank bio and avatar instead of sending empty strings", async () => {
+      await state.updateProfile("Hello there", "https://example.com/a.png");
+
+      const ok = await state.updateProfile("", "");
+
+      expect(ok).toBe(true);
+      expect(backend.requestsTo("PUT", `/api/users/${state.currentUser?.id}`)[1]?.body).toEqual({
+        bio: null,
+        avatarUrl: null,
+      });
+      expect(state.currentUser).toMatchObject({ bio: null, avatarUrl: null });
+    });
+
+    it("shows a wrong current password on the email form", async () => {
+      const ok = await state.changeEmail("new@example.com", "wrong");
+
+      expect(ok).toBe(false);
+      expect(state.currentUser?.email).toBe("alice@example.com");
+      expect(state.store.getState().fieldErrors.email).toEqual({
+        currentPassword: ["Current password is incorrect"],
+      });
+    });
+
+    it("shows the lockout after too many wrong current passwords", async () => {
+      for (let i = 0; i < 5; i++) {
+        expect(await state.changeEmail("new@example.com", "wrong")).toBe(false);
+      }
+
+      expect(await state.changeEmail("new@example.com", "secret")).toBe(false);
+
+      expect(lastNotice()).toBe("Too many incorrect passwords. Try again in 15 minutes.");
+      expect(state.currentUser?.email).toBe("alice@example.com");
+    });
+
+    it("checks the new password confirmation before calling the API", async () => {
+      const before = backend.requests.length;
+
+      const ok = await state.changePassword("secret", "hunter22", "hunter23");
+
+      expect(ok).toBe(false);
+      expect(backend.requests).toHaveLength(before);
+      expect(state.store.getState().fieldErrors.password).toEqual({
+        confirmPassword: ["The new passwords do not match."],
+      });
+    });
+
+    it("continues the session with fresh tokens after a password change", async () => {
+      const { refreshToken: oldRefreshToken } = JSON.parse(
+        storage.getItem("messageboard.session") ?? "{}"
+      );
+
+      const ok = await state.changePassword("secret", "hunter22", "hunter22");
+
+      const stored = JSON.parse(storage.getItem("messageboard.session") ?? "{}");
+      expect(ok).toBe(true);
+      expect(backend.isRefreshTokenActive(oldRefreshToken)).toBe(false);
+      expect(backend.isRefreshTokenActive(stored.refreshToken)).toBe(true);
+      expect(await state.login("alice", "hunter22")).toBe(true);
+    });
+  });
+
+  describe("read markers", () => {
+    let alice: User;
+    let bob: User;
+    let thread: Thread;
+
+    beforeEach(async () => {
+      alice = backend.addUser("alice", "secret");
+      bob = backend.addUser("bob", "secret");
+      thread = backend.addThread("General", alice);
+      backend.addMessage({ content: "First", threadId: thread.id, userId: bob.id });
+      await state.login("alice", "secret");
+    });
+
+    it("marks the first unread message and advances the marker when a thread is opened", async () => {
+      await state.openThread(thread.id);
+      expect(state.store.getState().firstUnreadMessageId).toBeNull(); // Never read before
+
+      const second = backend.addMessage({ content: "Second", threadId: thread.id, userId: bob.id });
+      backend.addMessage({ content: "Third", threadId: thread.id, userId: bob.id });
+      const mine = backend.addMessage({ content: "Mine", threadId: thread.id, userId: alice.id });
+      await state.loadThreads();
+      expect(state.threads[0]?.unreadCount).toBe(2); // Own messages don't count
+
+      await state.openThread(thread.id);
+
+      expect(state.store.getState().firstUnreadMessageId).toBe(second.id);
+      await vi.waitFor(() => expect(state.threads[0]?.unreadCount).toBe(0));
+      expect(backend.readMarker(alice.id, thread.id)).toBe(mine.id);
+    });
+
+    it("marks every thread read", async () => {
+      const other = backend.addThread("Other", bob);
+      backend.addMessage({ content: "Hi", threadId: other.id, userId: bob.id });
+      await state.loadThreads();
+      expect(state.threads.map((t) => t.unreadCount)).toEqual([1, 1]);
+
+      expect(await state.markAllRead()).toBe(true);
+
+      expect(state.threads.map((t) => t.unreadCount)).toEqual([0, 0]);
+    });
+  });
+
+  describe("thread archives", () => {
+    let alice: User;
+    let thread: Thread;
+
+    beforeEach(() => {
+      alice = backend.addUser("alice", "secret");
+      const bob = backend.addUser("bob", "secret");
+      thread = backend.addThread("General", alice);
+      const first = backend.addMessage({ content: "Hello", threadId: thread.id, userId: alice.id });
+      backend.addMessage({
+        content: "Hi back",
+        threadId: thread.id,
+        userId: bob.id,
+        parentMessageId: first.id,
+      });
+    });
+
+    it("exports the current thread as a JSON archive or a Markdown transcript", async () => {
+      await state.openThread(thread.id);
+
+      const file = await state.exportThread("json");
+      expect(file).toMatchObject({
+        fileName: `thread-${thread.id}-general.json`,
+        contentType: "application/json",
+      });
+      const archive = JSON.parse(file!.content);
+      expect(archive.thread).toMatchObject({ title: "General", author: "alice" });
+      expect(archive.messages.map((m: { author: string }) => m.author)).toEqual(["alice", "bob"]);
+
+      const transcript = await state.exportThread("markdown");
+      expect(transcript?.fileName).toBe(`thread-${thread.id}-general.md`);
+      expect(transcript?.content).toContain("# General");
+      expect(transcript?.content).toContain("Hi back");
+    });
+
+    it("lets an admin import an archive, giving unknown authors a placeholder", async () => {
+      await state.openThread(thread.id);
+      const archive = JSON.parse((await state.exportThread("json"))!.content);
+      archive.thread.title = "General (imported)";
+      archive.messages[1].author = "carol"; // No account here
+
+      backend.addUser("root", "secret", "root@example.com", "Admin");
+      await state.login("root", "secret");
+      const imported = await state.importThread(JSON.stringify(archive));
+
+      expect(imported).toMatchObject({ title: "General (imported)", messageCount: 2 });
+      expect(state.threads[0]?.id).toBe(imported!.id);
+      expect(lastNotice()).toBe(
+        'Imported "General (imported)" with 2 messages. ' +
+          "Posts by carol (no account here) went to a placeholder user."
+      );
+
+      const posts = backend.messages.filter((m) => m.threadId === imported!.id);
+      expect(posts.map((m) => m.user.username)).toEqual(["alice", "former-member"]);
+      expect(posts[1]?.parentMessageId).toBe(posts[0]?.id); // Reply link kept
+    });
+
+    it("only lets admins import", async () => {
+      await state.login("alice", "secret");
+
+      expect(await state.importThread("{}")).toBeNull();
+
+      expect(lastNotice()).toBe("Only admins can import threads.");
+      expect(backend.requestsTo("POST", "/api/threads/import")).toEqual([]);
+    });
+  });
+
+  describe("mentions and notifications", () => {
+    let alice: User;
+    let bob: User;
+    let thread: Thread;
+
+    beforeEach(() => {
+      alice = backend.addUser("alice", "secret");
+      bob = backend.addUser("bob", "secret");
+      backend.addUser("bobby", "secret");
+      thread = backend.addThread("General", alice);
+    });
+
+    it("notifies mentioned users, who can mark the notification read", async () => {
+      await state.login("alice", "secret");
+      await state.openThread(thread.id);
+      await state.createMessage("Thanks @Bob and @alice, see @nobody");
+      const posted = state.messages[0]!;
+      expect(posted.mentions).toEqual([{ userId: bob.id, username: "bob" }]);
+      state.logout();
+
+      await state.login("bob", "secret");
+      await vi.waitFor(() => expect(state.store.getState().unreadNotificationCount).toBe(1));
+      const [notification] = state.store.getState().notifications;
+      expect(notification).toMatchObject({
+        actor: { username: "alice" },
+        threadId: thread.id,
+        messageId: posted.id,
+        readAt: null,
+      });
+
+      expect(await state.markNotificationRead(notification!.id)).toBe(true);
+
+      expect(state.store.getState().unreadNotificationCount).toBe(0);
+      expect(state.store.getState().notifications[0]?.readAt).not.toBeNull();
+    });
+
+    it("marks the whole inbox read", async () => {
+      await state.login("alice", "secret");
+      await state.openThread(thread.id);
+      await state.createMessage("@bob one");
+      await state.createMessage("@bob two");
+      state.logout();
+
+      await state.login("bob", "secret");
+      await vi.waitFor(() => expect(state.store.getState().unreadNotificationCount).toBe(2));
+
+      expect(await state.markAllNotificationsRead()).toBe(true);
+
+      expect(state.store.getState().unreadNotificationCount).toBe(0);
+      await state.loadNotifications();
+      expect(state.store.getState().notifications.map((n) => n.readAt)).not.toContain(null);
+    });
+
+    it("suggests other users whose names start with the typed prefix", async () => {
+      await state.login("bob", "secret");
+
+      await state.suggestMentions("bo");
+
+      expect(state.store.getState().mentionSuggestions.map((u) => u.username)).toEqual(["bobby"]);
+
+      state.clearMentionSuggestions();
+      expect(state.store.getState().mentionSuggestions).toEqual([]);
+    });
+  });
+
+  describe("createMessage", () => {
+    let alice: User;
+    let thread: Thread;
+
+    beforeEach(async () => {
+      alice = backend.addUser("alice", "secret");
+      thread = backend.addThread("General", alice);
+    });
+
+    const postedMessages = () => backend.requestsTo("POST", "/api/messages");
+
+    it("requires a logged-in user", async () => {
+      await state.openThread(thread.id);
+
+      const ok = await state.createMessage("Hello");
+
+      expect(ok).toBe(false);
+      expect(lastNotice()).toBe("You must be logged in to send messages.");
+      expect(postedMessages()).toHaveLength(0);
+    });
+
+    it("requires an open thread", async () => {
+      await state.login("alice", "secret");
+
+      const ok = await state.createMessage("Hello");
+
+      expect(ok).toBe(false);
+      expect(lastNotice()).toBe("Open a thread before posting a message.");
+    });
+
+    it("refuses to post into offline sample threads", async () => {
+      await state.login("alice", "secret");
+      state.setCurrentThread(thread);
+
+      const ok = await state.createMessage("Hello");
+
+      expect(ok).toBe(false);
+      expect(postedMessages()).toHaveLength(0);
+    });
+
+    it("posts to the open thread and shows the message", async () => {
+      await state.login("alice", "secret");
+      await state.openThread(thread.id);
+
+      const ok = await state.createMessage("Hello");
+
+      expect(ok).toBe(true);
+      expect(state.messages.map((m) => m.content)).toEqual(["Hello"]);
+      expect(postedMessages()[0]?.body).toEqual({ content: "Hello", threadId: thread.id });
+      expect(postedMessages()[0]?.headers["Idempotency-Key"]).toBeTruthy();
+    });
+
+    it("records validation errors for the message form", async () => {
+      await state.login("alice", "secret");
+      await state.openThread(thread.id);
+
+      const ok = await state.createMessage("   ");
+
+      expect(ok).toBe(false);
+      expect(state.store.getState().fieldErrors.message).toEqual({
+        content: ["The Content field is required."],
+      });
+      expect(state.messages).toHaveLength(0);
+    });
+
+    it("counts down a rate limit instead of failing", async () => {
+      vi.useFakeTimers({ toFake: ["setInterval", "clearInterval", "Date"] });
+      try {
+        await state.login("alice", "secret");
+        await state.openThread(thread.id);
+        backend.rateLimitPosts(30);
+
+        expect(await state.createMessage("Hello")).toBe(false);
+        expect(state.postCooldown).toBe(30);
+        expect(lastNotice()).toBeUndefined();
+
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(state.postCooldown).toBe(29);
+
+        // Nothing is sent while the cooldown runs
+        expect(await state.createMessage("Hello")).toBe(false);
+        expect(postedMessages()).toHaveLength(1);
+
+        await vi.advanceTimersByTimeAsync(29_000);
+        expect(state.postCooldown).toBe(0);
+        expect(await state.createMessage("Hello")).toBe(true);
+        expect(state.messages.map((m) => m.content)).toEqual(["Hello"]);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("queues the message when the API is unreachable", async () => {
+      vi.useFakeTimers({ toFake: ["setInterval", "clearInterval"] });
+      try {
+        await state.login("alice", "secret");
+        await state.openThread(thread.id);
+        backend.offline = true;
+
+        const ok = await state.createMessage("Hello");
+
+        expect(ok).toBe(true);
+        expect(state.isOnline).toBe(false);
+        expect(state.pendingMessages.map((m) => m.content)).toEqual(["Hello"]);
+        expect(backend.messages).toHaveLength(0);
+
+        // The periodic connection check finds the API again and sends it
+        backend.offline = false;
+        await vi.advanceTimersByTimeAsync(15_000);
+        await vi.waitFor(() => expect(state.pendingMessages).toHaveLength(0));
+
+        expect(state.isOnline).toBe(true);
+        expect(backend.messages.map((m) => m.content)).toEqual(["Hello"]);
+        expect(state.messages.map((m) => m.content)).toEqual(["Hello"]);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe("attachments", () => {
+    let thread: Thread;
+
+    beforeEach(async () => {
+      vi.stubGlobal("XMLHttpRequest", backend.XMLHttpRequest);
+      const alice = backend.addUser("alice", "secret");
+      thread = backend.addThread("General", alice);
+      await state.login("alice", "secret");
+      await state.openThread(thread.id);
+    });
+
+    const composer = () => state.store.getState().composerAttachments;
+    const pngFile = (name: string) =>
+      new File([new Uint8Array([0x89, 0x50, 0x4e, 0x47])], name, { type: "image/png" });
+
+    it("uploads files with progress and posts them with the next message", async () => {
+      const progress: number[] = [];
+      state.store.select(
+        (s) => s.composerAttachments[0]?.progress,
+        (value) => value !== undefined && progress.push(value)
+      );
+
+      await state.attachFiles([pngFile("cat.png")]);
+
+      expect(progress).toContain(0.5);
+      expect(composer()[0]).toMatchObject({ fileName: "cat.png", progress: 1, error: null });
+      const uploaded = composer()[0]!.attachment!;
+      expect(uploaded).toMatchObject({ fileName: "cat.png", contentType: "image/png" });
+
+      expect(await state.createMessage("Look")).toBe(true);
+
+      expect(backend.requestsTo("POST", "/api/messages")[0]?.body).toMatchObject({
+        attachmentIds: [uploaded.id],
+      });
+      expect(state.messages[0]?.attachments).toEqual([uploaded]);
+      expect(composer()).toEqual([]);
+    });
+
+    it("keeps rejected files in the composer with the server's reason", async () => {
+      await state.attachFiles([
+        new File(["MZ"], "setup.exe", { type: "application/x-msdownload" }),
+      ]);
+
+      expect(composer()[0]?.error).toBe(
+        'Files of type "application/x-msdownload" can\'t be attached.'
+      );
+      expect(await state.createMessage("Here")).toBe(false);
+      expect(lastNotice()).toBe("Remove the files that couldn't be uploaded first.");
+
+      state.removeComposerAttachment(composer()[0]!.key);
+      expect(composer()).toEqual([]);
+    });
+
+    it("discards an upload that is removed before posting", async () => {
+      await state.attachFiles([pngFile("cat.png")]);
+
+      state.removeComposerAttachment(composer()[0]!.key);
+
+      expect(composer()).toEqual([]);
+      await vi.waitFor(() => expect(backend.unpostedAttachments).toEqual([]));
+    });
+
+    it("leaves out files beyond the per-message limit", async () => {
+      const files = ["a", "b", "c", "d", "e"].map((name) => pngFile(`${name}.png`));
+
+      await state.attachFiles(files);
+
+      expect(composer().map((a) => a.fileName)).toEqual(["a.png", "b.png", "c.png", "d.png"]);
+      expect(lastNotice()).toBe("Messages can have at most 4 attachments.");
+    });
+  });
+});
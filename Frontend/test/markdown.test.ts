@@ -0,0 +1,132 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import { renderMarkdown, sanitizeUrl } from "../src/ts/render/markdown";
+
+const mentions = [{ userId: 1, username: "alice" }];
+
+/** Parse rendered HTML the way the message list does (innerHTML) */
+function parse(html: string): HTMLElement {
+  const container = document.createElement("div");
+  container.innerHTML = html;
+  return container;
+}
+
+/** What a browser would treat as the scheme of an href ("" for relative ones) */
+function scheme(href: string): string {
+  const cleaned = href.replace(/[\u0000- \u007f]/g, "");
+  return /^([a-z][a-z0-9+.-]*):/i.exec(cleaned)?.[1]?.toLowerCase() ?? "";
+}
+
+describe("renderMarkdown", () => {
+  describe("XSS payloads", () => {
+    it.each([
+      // Dangerous link schemes
+      ["javascript: link", "[click](javascript:alert(1))"],
+      ["data: link", "[click](data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==)"],
+      ["vbscript: link", "[click](vbscript:msgbox(1))"],
+      ["mixed-case scheme", "[click](JaVaScRiPt:alert(1))"],
+      ["entity-encoded scheme", "[click](&#106;avascript:alert(1))"],
+      ["hex-entity scheme", "[click](&#x6A;avascript&#x3A;alert(1))"],
+      ["entity-encoded colon", "[click](javascript&colon;alert(1))"],
+      ["tab inside the scheme", "[click](java\tscript:alert(1))"],
+      ["newline inside the scheme", "[click](java\nscript:alert(1))"],
+      ["control character inside the scheme", "[click](java\u0001script:alert(1))"],
+      ["NUL inside the scheme", "[click](java\u0000script:alert(1))"],
+      ["leading control characters", "[click](\u0008\u000bjavascript:alert(1))"],
+      ["scheme-relative URL", "[click](//evil.example/x.js)"],
+      // Breaking out of the href attribute
+      ["double-quote breakout", '[click](https://example.com"onmouseover="alert(1))'],
+      ["single-quote breakout", "[click](https://example.com'onmouseover='alert(1))"],
+      ["tag breakout", '[click](https://example.com"><script>alert(1)</script>)'],
+      ["breakout from link text", "[<img src=x onerror=alert(1)>](https://example.com)"],
+      // Raw HTML
+      ["script tag", "<script>alert(1)</script>"],
+      ["event handler", '<img src=x onerror="alert(1)">'],
+      ["svg onload", "<svg onload=alert(1)>"],
+      ["raw anchor", '<a href="javascript:alert(1)">click</a>'],
+      ["iframe", '<iframe src="javascript:alert(1)"></iframe>'],
+      ["HTML in a code span", "`<script>alert(1)</script>`"],
+      ["backtick breakout from a code span", "``<img src=x onerror=alert(1)>``"],
+      ["HTML in a code block", "```\n<script>alert(1)</script>\n<img src=x onerror=alert(1)>\n```"],
+      ["code block with a language", '```html" onload="alert(1)\n<script>alert(1)</script>\n```'],
+      ["HTML in a quote", "> <script>alert(1)</script>\n> <img src=x onerror=alert(1)>"],
+      ["link in a quote", "> [click](javascript:alert(1))"],
+      ["HTML in bold", "**<script>alert(1)</script>**"],
+      ["HTML in emphasis", "_<img src=x onerror=alert(1)>_"],
+      ["link in emphasis", "*[click](javascript:alert(1))*"],
+      // Quotes past MAX_QUOTE_DEPTH fall back to escaped text
+      ["deeply nested quote", `${"> ".repeat(10)}<script>alert(1)</script>`],
+      ["link in a deeply nested quote", `${"> ".repeat(10)}[click](javascript:alert(1))`],
+      ["HTML after a deeply nested quote", `${">".repeat(50)} <img src=x onerror=alert(1)>`],
+      // Mentions
+      ["mention as link text", "[@alice](javascript:alert(1))"],
+      ["mention next to HTML", "@alice<img src=x onerror=alert(1)>"],
+      ["mention with a quote", '@alice"onmouseover="alert(1)'],
+      ["mention in emphasis", "*@alice<script>alert(1)</script>*"],
+    ])("%s", (_name, source) => {
+      const html = renderMarkdown(source, { mentions });
+      const root = parse(html);
+
+      expect(html).not.toMatch(/<script/i);
+      expect(root.querySelector("script, img, svg, iframe")).toBeNull();
+      for (const element of root.querySelectorAll("*")) {
+        for (const { name } of element.attributes) {
+          expect(name).not.toMatch(/^on/i);
+          expect(["href", "rel", "target", "class"]).toContain(name);
+        }
+      }
+      for (const link of root.querySelectorAll("a")) {
+        expect(["http", "https", "mailto", ""]).toContain(scheme(link.getAttribute("href")!));
+      }
+    });
+  });
+
+  it("keeps escaped markup readable as text", () => {
+    const root = parse(renderMarkdown('<img src=x onerror="alert(1)">'));
+
+    expect(root.textContent).toBe('<img src=x onerror="alert(1)">');
+  });
+
+  it("links known mentions to the user's profile", () => {
+    const root = parse(renderMarkdown("Hi @Alice and @bob", { mentions }));
+
+    const links = root.querySelectorAll("a");
+    expect(links).toHaveLength(1);
+    expect(links[0]?.getAttribute("href")).toBe("#/users/1");
+    expect(links[0]?.className).toBe("mention");
+  });
+
+  it("keeps an escaped link target inside its href", () => {
+    const root = parse(renderMarkdown('[click](https://example.com/"onmouseover="steal)'));
+
+    const link = root.querySelector("a");
+    expect(link?.getAttribute("href")).toBe('https://example.com/"onmouseover="steal');
+    expect(link?.hasAttribute("onmouseover")).toBe(false);
+  });
+});
+
+describe("sanitizeUrl", () => {
+  it.each([
+    "javascript:alert(1)",
+    "JAVASCRIPT:alert(1)",
+    " javascript:alert(1)",
+    "java\tscript:alert(1)",
+    "java\u0000script:alert(1)",
+    "data:text/html,<script>alert(1)</script>",
+    "vbscript:msgbox(1)",
+    "&#106;avascript:alert(1)",
+    "//evil.example",
+    "#hash",
+  ])("rejects %j", (url) => {
+    expect(sanitizeUrl(url)).toBeNull();
+  });
+
+  it.each([
+    "https://example.com/a?b=c",
+    "http://example.com",
+    "mailto:a@example.com",
+    "#/threads/1",
+  ])("allows %j", (url) => {
+    expect(sanitizeUrl(url)).toBe(url);
+  });
+});
@@ -0,0 +1,195 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it } from "vitest";
+import { Message, Thread } from "../src/ts/api/client";
+import { AppState } from "../src/ts/state/AppState";
+import { MemoryStorageAdapter } from "../src/ts/state/storage";
+import { MessageListView } from "../src/ts/views/MessageListView";
+
+const author = {
+  id: 1,
+  username: "alice",
+  role: "User",
+  createdAt: "2026-01-01T00:00:00Z",
+  bannedAt: null,
+  banReason: null,
+};
+
+const thread: Thread = {
+  id: 1,
+  title: "General",
+  userId: author.id,
+  user: author,
+  createdAt: "2026-01-01T00:00:00Z",
+  isLocked: false,
+  messageCount: 0,
+  unreadCount: null,
+  lastReadMessageId: null,
+};
+
+function message(id: number, createdAt: string, parentMessageId: number | null = null): Message {
+  return {
+    id,
+    content: `Message ${id}`,
+    threadId: thread.id,
+    parentMessageId,
+    userId: author.id,
+    user: author,
+    createdAt,
+    updatedAt: null,
+    hiddenAt: null,
+    hiddenReason: null,
+    reactionCounts: [],
+    mentions: [],
+    attachments: [],
+  };
+}
+
+describe("MessageListView", () => {
+  let state: AppState;
+  let list: HTMLElement;
+  let sortButton: HTMLButtonElement;
+
+  beforeEach(() => {
+    document.body.innerHTML = '<button id="sort"></button><div id="list"></div>';
+    list = document.getElementById("list")!;
+    sortButton = document.getElementById("sort") as HTMLButtonElement;
+
+    state = new AppState(new MemoryStorageAdapter());
+    state.setCurrentThread(thread);
+    new MessageListView(list, sortButton, state);
+  });
+
+  /** IDs of the top-level cards, in document order */
+  const renderedIds = () =>
+    [...list.querySelectorAll<HTMLElement>(":scope > .message-thread > [data-message-id]")].map(
+      (card) => Number(card.dataset.messageId)
+    );
+
+  it("shows the empty state without messages", () => {
+    expect(list.textContent).toContain("No messages yet");
+  });
+
+  it("renders newest first by default", () => {
+    state.setMessages([
+      message(1, "2026-01-01T10:00:00Z"),
+      message(3, "2026-01-01T12:00:00Z"),
+      message(2, "2026-01-01T11:00:00Z"),
+    ]);
+
+    expect(renderedIds()).toEqual([3, 2, 1]);
+    expect(sortButton.textContent).toBe("↓ Newest First");
+  });
+
+  it("re-sorts oldest first when the sort button is clicked", () => {
+    state.setMessages([
+      message(1, "2026-01-01T10:00:00Z"),
+      message(3, "2026-01-01T12:00:00Z"),
+      message(2, "2026-01-01T11:00:00Z"),
+    ]);
+
+    sortButton.click();
+
+    expect(renderedIds()).toEqual([1, 2, 3]);
+    expect(sortButton.textContent).toBe("↑ Oldest First");
+  });
+
+  it("keeps replies under their parent, oldest first, in either order", () => {
+    state.setMessages([
+      message(1, "2026-01-01T10:00:00Z"),
+      message(4, "2026-01-01T13:00:00Z", 1),
+      message(2, "2026-01-01T11:00:00Z"),
+      message(3, "2026-01-01T12:00:00Z", 1),
+    ]);
+
+    const replyIds = () =>
+      [...list.querySelectorAll<HTMLElement>(".message-replies [data-message-id]")].map((card) =>
+        Number(card.dataset.messageId)
+      );
+
+    expect(renderedIds()).toEqual([2, 1]);
+    expect(replyIds()).toEqual([3, 4]);
+
+    state.setSortOrder("asc");
+
+    expect(renderedIds()).toEqual([1, 2]);
+    expect(replyIds()).toEqual([3, 4]);
+  });
+
+  it("marks the first unread message with a divider", () => {
+    state.setMessages([
+      message(1, "2026-01-01T10:00:00Z"),
+      message(2, "2026-01-01T11:00:00Z"),
+      message(3, "2026-01-01T12:00:00Z"),
+    ]);
+    state.store.setState({ firstUnreadMessageId: 2 });
+
+    const dividerNeighbour = () => {
+      const divider = list.querySelector(".new-messages-divider");
+      const sibling =
+        state.store.getState().sortOrder === "asc"
+          ? divider?.nextElementSibling
+          : divider?.previousElementSibling;
+      return (sibling as HTMLElement | null | undefined)?.dataset.messageId;
+    };
+
+    expect(list.querySelectorAll(".new-messages-divider")).toHaveLength(1);
+    expect(dividerNeighbour()).toBe("2"); // Below it, newest first
+
+    state.setSortOrder("asc");
+    expect(dividerNeighbour()).toBe("2"); // Above it, oldest first
+  });
+
+  it("links author names to their profiles", () => {
+    state.setMessages([message(1, "2026-01-01T10:00:00Z")]);
+
+    const link = list.querySelector<HTMLAnchorElement>("a.message-author");
+    expect(link?.textContent).toBe("alice");
+    expect(link?.getAttribute("href")).toBe(`#/users/${author.id}`);
+  });
+
+  it("links resolved @mentions to profiles and leaves other @names as text", () => {
+    state.setMessages([
+      {
+        ...message(1, "2026-01-01T10:00:00Z"),
+        content: "Hi @Bob and @carol, mail bob@example.com",
+        mentions: [{ userId: 7, username: "bob" }],
+      },
+    ]);
+
+    const mentions = [...list.querySelectorAll<HTMLAnchorElement>(".message-content a.mention")];
+    expect(mentions.map((a) => [a.textContent, a.getAttribute("href")])).toEqual([
+      ["@Bob", "#/users/7"],
+    ]);
+    expect(list.querySelector(".message-content")?.textContent).toContain("@carol");
+  });
+
+  it("shows image attachments as thumbnails and other files as download links", () => {
+    state.setMessages([
+      {
+        ...message(1, "2026-01-01T10:00:00Z"),
+        attachments: [
+          { id: 5, fileName: "cat.png", contentType: "image/png", sizeBytes: 2048 },
+          { id: 6, fileName: "notes.pdf", contentType: "application/pdf", sizeBytes: 1_572_864 },
+        ],
+      },
+    ]);
+
+    const image = list.querySelector<HTMLImageElement>(".attachment-thumbnail img");
+    expect(image?.getAttribute("src")).toBe("http://localhost:5285/api/attachments/5");
+    expect(image?.alt).toBe("cat.png");
+
+    const file = list.querySelector<HTMLAnchorElement>("a.attachment-file");
+    expect(file?.getAttribute("href")).toBe("http://localhost:5285/api/attachments/6");
+    expect(file?.download).toBe("notes.pdf");
+    expect(file?.textContent).toContain("1.5 MB");
+  });
+
+  it("renders message content as text, not markup", () => {
+    state.setMessages([
+      { ...message(1, "2026-01-01T10:00:00Z"), content: '<img src=x onerror="alert(1)">' },
+    ]);
+
+    expect(list.querySelector("img")).toBeNull();
+    expect(list.querySelector(".message-content")?.textContent).toContain("<img");
+  });
+});
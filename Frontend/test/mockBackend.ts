@@ -0,0 +1,875 @@
+/**
+ * mockBackend.ts
+ *
+ * Purpose:
+ * In-memory stand-in for the MessageBoard API, exposed as a `fetch`
+ * implementation. Implements the routes the client's auth and message
+ * flows use, with the same status codes and body shapes as the real
+ * controllers, so ApiClient and AppState run unmodified against it.
+ *
+ * Key Features:
+ * - Auth: register/login returning an AuthResponse, an opaque token and a
+ *   refresh token; refresh (with rotation) and logout
+ * - Threads and messages: list, fetch, create (bearer token required)
+ * - Read markers: per-user unread counts on threads, mark read / mark all read
+ * - Archives: JSON and Markdown export; import (admins), with authors matched
+ *   by username and unknown ones posting as the "former-member" placeholder
+ * - Users: name-prefix lookup, profiles with their threads; profile, email
+ *   and password changes (own account only, current password checked; 5
+ *   wrong ones lock the check with 429, like the real throttle)
+ * - Mentions: posting "@name" notifies that user; inbox, mark read / all read
+ * - Attachments: multipart upload (size and type checked), discarding an
+ *   unposted upload, posting them with a message; `XMLHttpRequest` is a
+ *   stand-in that sends uploads through `fetch` and reports their progress
+ * - `rateLimitPosts` answers the next posts with 429 and a Retry-After
+ * - Records every request for assertions
+ * - `offline` makes every call fail like an unreachable server
+ *
+ * Usage:
+ *   const backend = createMockBackend();
+ *   vi.stubGlobal("fetch", backend.fetch);
+ *   vi.stubGlobal("XMLHttpRequest", backend.XMLHttpRequest); // Uploads only
+ *   backend.addUser("alice", "secret");
+ */
+
+import {
+  Attachment,
+  Message,
+  MessageAuthor,
+  Notification,
+  Thread,
+  ThreadArchive,
+  User,
+} from "../src/ts/api/client";
+
+export interface RecordedRequest {
+  method: string;
+  path: string; // Pathname plus query string
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+interface StoredUser {
+  user: User;
+  password: string;
+}
+
+interface StoredAttachment {
+  attachment: Attachment;
+  uploaderId: number;
+  messageId: number | null; // Null until posted with a message
+}
+
+type Handler = (request: RecordedRequest, params: string[]) => Response;
+
+export class MockBackend {
+  /** Every request received, oldest first */
+  readonly requests: RecordedRequest[] = [];
+  /** When true, every request fails the way fetch does without a server */
+  offline = false;
+
+  private _users: StoredUser[] = [];
+  private _threads: Thread[] = [];
+  private _messages: Message[] = [];
+  private _nextId = 1;
+  private _nextTokenId = 1;
+  private _refreshTokens = new Map<string, number>(); // Active refresh token -> user id
+  private _readMarkers = new Map<string, number>(); // "userId:threadId" -> last read message id
+  private _notifications: Array<Notification & { userId: number }> = []; // Oldest first
+  private _attachments: StoredAttachment[] = [];
+  private _expiredTokens = new Set<string>();
+  private _passwordFailures = new Map<number, number>(); // User id -> wrong current passwords
+  private _postRateLimit = { remaining: 0, retryAfterSeconds: 0 }; // Posts still to reject with 429
+  private _routes: Array<{ method: string; pattern: RegExp; handler: Handler }> = [];
+
+  constructor() {
+    this.route("GET", /^\/weatherforecast$/, () => json(200, []));
+
+    // ----- Auth -----
+    this.route("POST", /^\/api\/auth\/register$/, ({ body }) => {
+      const { username, email, password } = body as Record<string, string>;
+      if (this._users.some((u) => u.user.username === username)) {
+        return json(400, { success: false, message: "Username already exists" });
+      }
+      const user = this.addUser(username ?? "", password ?? "", email);
+      return json(200, {
+        success: true,
+        message: "User registered successfully",
+        token: tokenFor(user),
+        refreshToken: this.issueRefreshToken(user),
+        user,
+      });
+    });
+
+    this.route("POST", /^\/api\/auth\/login$/, ({ body }) => {
+      const { username, password } = body as Record<string, string>;
+      const stored = this._users.find((u) => u.user.username === username);
+      if (!stored || stored.password !== password) {
+        return json(400, { success: false, message: "Invalid username or password" });
+      }
+      return json(200, {
+        success: true,
+        message: "Login successful",
+        token: tokenFor(stored.user),
+        refreshToken: this.issueRefreshToken(stored.user),
+        user: stored.user,
+      });
+    });
+
+    this.route("POST", /^\/api\/auth\/refresh$/, ({ body }) => {
+      const { refreshToken } = body as Record<string, string>;
+      const userId = this._refreshTokens.get(refreshToken ?? "");
+      const user = this._users.find((u) => u.user.id === userId)?.user;
+      if (!user) {
+        return json(401, {
+          success: false,
+          message: "Your session has expired. Please log in again.",
+        });
+      }
+
+      // Single use: the presented token is replaced
+      this._refreshTokens.delete(refreshToken ?? "");
+      return json(200, {
+        success: true,
+        message: "Session refreshed",
+        token: `${tokenFor(user)}.${this._nextTokenId++}`,
+        refreshToken: this.issueRefreshToken(user),
+        user,
+      });
+    });
+
+    this.route("POST", /^\/api\/auth\/logout$/, ({ body }) => {
+      const { refreshToken } = body as Record<string, string>;
+      this._refreshTokens.delete(refreshToken ?? "");
+      return text(204, "");
+    });
+
+    // ----- Users -----
+    this.route("GET", /^\/api\/users(\?.*)?$/, ({ path }) => {
+      const query = new URLSearchParams(path.split("?")[1] ?? "");
+      const prefix = (query.get("q") ?? "").trim().toLowerCase();
+      const limit = Number(query.get("limit") ?? Infinity);
+      return json(
+        200,
+        this._users
+          .map((u) => summary(u.user))
+          .filter((u) => u.username.toLowerCase().startsWith(prefix))
+          .sort((a, b) => a.username.localeCompare(b.username))
+          .slice(0, limit)
+      );
+    });
+
+    this.route("GET", /^\/api\/users\/(\d+)$/, (_, [id]) => {
+      const stored = this._users.find((u) => u.user.id === Number(id));
+      return stored ? json(200, this.profile(stored.user)) : text(404, "User not found");
+    });
+
+    this.route("GET", /^\/api\/users\/(\d+)\/threads$/, (_, [id]) => {
+      if (!this._users.some((u) => u.user.id === Number(id))) return text(404, "User not found");
+      return json(
+        200,
+        this._threads
+          .filter((t) => t.userId === Number(id))
+          .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      );
+    });
+
+    this.route("PUT", /^\/api\/users\/(\d+)$/, ({ headers, body }, [id]) => {
+      const stored = this.findSelf(headers, Number(id));
+      if (stored instanceof Response) return stored;
+
+      const { bio, avatarUrl } = body as Record<string, string | null>;
+      // [Url] on UpdateProfileRequest.AvatarUrl: null passes, "" doesn't
+      if (avatarUrl != null && !/^(https?|ftp):\/\/\S+$/i.test(avatarUrl)) {
+        return validationProblem(
+          "AvatarUrl",
+          "The AvatarUrl field is not a valid fully-qualified http, https, or ftp URL."
+        );
+      }
+      stored.user = { ...stored.user, bio: bio || null, avatarUrl: avatarUrl || null };
+      return json(200, this.profile(stored.user));
+    });
+
+    this.route("PUT", /^\/api\/users\/(\d+)\/email$/, ({ headers, body }, [id]) => {
+      const stored = this.findSelf(headers, Number(id));
+      if (stored instanceof Response) return stored;
+
+      const { email, currentPassword } = body as Record<string, string>;
+      const passwordError = this.checkCurrentPassword(stored, currentPassword);
+      if (passwordError) return passwordError;
+      stored.user = { ...stored.user, email: email ?? "" };
+      return json(200, stored.user);
+    });
+
+    this.route("PUT", /^\/api\/users\/(\d+)\/password$/, ({ headers, body }, [id]) => {
+      const stored = this.findSelf(headers, Number(id));
+      if (stored instanceof Response) return stored;
+
+      const { currentPassword, newPassword } = body as Record<string, string>;
+      const passwordError = this.checkCurrentPassword(stored, currentPassword);
+      if (passwordError) return passwordError;
+      stored.password = newPassword ?? "";
+
+      // Every other session is signed out
+      for (const [token, userId] of this._refreshTokens) {
+        if (userId === stored.user.id) this._refreshTokens.delete(token);
+      }
+      return json(200, {
+        success: true,
+        message: "Password changed",
+        token: `${tokenFor(stored.user)}.${this._nextTokenId++}`,
+        refreshToken: this.issueRefreshToken(stored.user),
+        user: stored.user,
+      });
+    });
+
+    // ----- Threads -----
+    this.route("GET", /^\/api\/threads$/, ({ headers }) =>
+      json(200, this._threads.map((t) => this.withReadState(t, headers)))
+    );
+
+    this.route("GET", /^\/api\/threads\/(\d+)$/, ({ headers }, [id]) => {
+      const thread = this._threads.find((t) => t.id === Number(id));
+      return thread ? json(200, this.withReadState(thread, headers)) : text(404, "Thread not found");
+    });
+
+    this.route("PUT", /^\/api\/threads\/(\d+)\/read$/, ({ headers, body }, [id]) => {
+      const user = this.authenticate(headers);
+      if (!user) return text(401, "");
+
+      const thread = this._threads.find((t) => t.id === Number(id));
+      if (!thread) return text(404, "Thread not found");
+
+      const { lastReadMessageId } = body as { lastReadMessageId: number };
+      this.advanceReadMarker(user.id, thread.id, lastReadMessageId);
+      return json(200, this.withReadState(thread, headers));
+    });
+
+    this.route("POST", /^\/api\/threads\/mark-all-read$/, ({ headers }) => {
+      const user = this.authenticate(headers);
+      if (!user) return text(401, "");
+
+      for (const thread of this._threads) {
+        const ids = this._messages.filter((m) => m.threadId === thread.id).map((m) => m.id);
+        if (ids.length > 0) this.advanceReadMarker(user.id, thread.id, Math.max(...ids));
+      }
+      return text(204, "");
+    });
+
+    // ----- Archives -----
+    this.route("GET", /^\/api\/threads\/(\d+)\/export$/, (_, [id]) => {
+      const archive = this.archive(Number(id));
+      return archive ? json(200, archive) : text(404, "Thread not found");
+    });
+
+    this.route("GET", /^\/api\/threads\/(\d+)\/export\/markdown$/, (_, [id]) => {
+      const archive = this.archive(Number(id));
+      if (!archive) return text(404, "Thread not found");
+
+      const posts = archive.messages.map((m) => `### ${m.author} · ${m.createdAt}\n\n${m.content}`);
+      return new Response([`# ${archive.thread.title}`, ...posts].join("\n\n---\n\n"), {
+        status: 200,
+        headers: { "Content-Type": "text/markdown; charset=utf-8" },
+      });
+    });
+
+    this.route("POST", /^\/api\/threads\/import$/, ({ headers, body }) => {
+      const user = this.authenticate(headers);
+      if (!user) return text(401, "");
+      if (user.role !== "Admin") return text(403, "");
+
+      const archive = body as ThreadArchive;
+      if (!archive.thread?.title?.trim()) {
+        return validationProblem("Thread.Title", "The Title field is required.");
+      }
+
+      const authors = [archive.thread.author, ...archive.messages.map((m) => m.author)];
+      const unknownAuthors = [...new Set(authors)].filter((name) => !this.findByUsername(name));
+      const authorOf = (name: string) =>
+        this.findByUsername(name) ??
+        this.findByUsername(PLACEHOLDER_USERNAME) ??
+        this.addUser(PLACEHOLDER_USERNAME, crypto.randomUUID());
+
+      const thread = this.addThread(archive.thread.title.trim(), authorOf(archive.thread.author));
+      const ids = new Map<number, number>(); // Archive id -> new id
+      for (const archived of archive.messages) {
+        const message = this.addMessage({
+          content: archived.content,
+          threadId: thread.id,
+          userId: authorOf(archived.author).id,
+          parentMessageId: ids.get(archived.parentId ?? NaN) ?? null,
+          createdAt: archived.createdAt,
+        });
+        ids.set(archived.id, message.id);
+      }
+
+      return json(201, {
+        thread: this.countMessages(thread),
+        messageCount: ids.size,
+        unknownAuthors,
+      });
+    });
+
+    // ----- Messages -----
+    this.route("GET", /^\/api\/messages(\?.*)?$/, ({ path }) => {
+      const query = new URLSearchParams(path.split("?")[1] ?? "");
+      const threadId = Number(query.get("threadId"));
+      const limit = Number(query.get("limit") ?? 20);
+      const offset = Number(query.get("cursor") ?? 0);
+      const direction = query.get("sort") === "asc" ? 1 : -1;
+
+      const matching = this._messages
+        .filter((m) => !threadId || m.threadId === threadId)
+        .sort((a, b) => direction * a.createdAt.localeCompare(b.createdAt));
+      const items = matching.slice(offset, offset + limit);
+      const hasMore = offset + limit < matching.length;
+
+      return json(200, {
+        items,
+        hasMore,
+        nextCursor: hasMore ? String(offset + limit) : null,
+      });
+    });
+
+    this.route("POST", /^\/api\/messages$/, ({ headers, body }) => {
+      const user = this.authenticate(headers);
+      if (!user) return text(401, "");
+
+      const { content, threadId, parentMessageId, attachmentIds } = body as Record<string, unknown>;
+      if (typeof content !== "string" || !content.trim()) {
+        return validationProblem("Content", "The Content field is required.");
+      }
+
+      const thread = this._threads.find((t) => t.id === threadId);
+      if (!thread) return text(404, "Thread not found");
+
+      const ids = (attachmentIds as number[] | undefined) ?? [];
+      const files = this._attachments.filter(
+        (a) => ids.includes(a.attachment.id) && a.uploaderId === user.id && a.messageId === null
+      );
+      if (files.length !== ids.length) {
+        return validationProblem(
+          "AttachmentIds",
+          "Attachments must be your own uploads that haven't been posted yet."
+        );
+      }
+
+      // Checked last, like PostMessage: rejected posts don't count
+      if (this._postRateLimit.remaining > 0) {
+        this._postRateLimit.remaining--;
+        const seconds = this._postRateLimit.retryAfterSeconds;
+        return new Response(`You're posting too fast. Try again in ${seconds} seconds.`, {
+          status: 429,
+          headers: { "Content-Type": "text/plain", "Retry-After": String(seconds) },
+        });
+      }
+
+      const message = this.addMessage({
+        content,
+        threadId: thread.id,
+        userId: user.id,
+        parentMessageId: typeof parentMessageId === "number" ? parentMessageId : null,
+      });
+      files.forEach((a) => (a.messageId = message.id));
+      message.attachments = files.map((a) => a.attachment);
+      this.notifyMentions(message, thread);
+      return json(201, message);
+    });
+
+    // ----- Attachments -----
+    this.route("POST", /^\/api\/attachments$/, ({ headers, body }) => {
+      const user = this.authenticate(headers);
+      if (!user) return text(401, "");
+
+      const file = body instanceof FormData ? body.get("file") : null;
+      if (!(file instanceof Blob)) {
+        return validationProblem("file", "The file field is required.");
+      }
+      if (file.size === 0) return validationProblem("file", "The file is empty.");
+      if (file.size > MAX_ATTACHMENT_BYTES) {
+        return validationProblem("file", "Files can be at most 10 MB.");
+      }
+      if (!ATTACHMENT_TYPES.includes(file.type)) {
+        return validationProblem("file", `Files of type "${file.type}" can't be attached.`);
+      }
+
+      const attachment: Attachment = {
+        id: this._nextId++,
+        fileName: file instanceof File ? file.name : "attachment",
+        contentType: file.type,
+        sizeBytes: file.size,
+      };
+      this._attachments.push({
+        attachment,
+        uploaderId: user.id,
+        messageId: null,
+      });
+      return json(201, attachment);
+    });
+
+    this.route("DELETE", /^\/api\/attachments\/(\d+)$/, ({ headers }, [id]) => {
+      const user = this.authenticate(headers);
+      if (!user) return text(401, "");
+
+      const stored = this._attachments.find((a) => a.attachment.id === Number(id));
+      if (!stored || stored.uploaderId !== user.id) return text(404, "Attachment not found");
+      if (stored.messageId !== null) {
+        return text(403, "Only your own unposted uploads can be deleted");
+      }
+      this._attachments = this._attachments.filter((a) => a !== stored);
+      return text(204, "");
+    });
+
+    // ----- Notifications -----
+    this.route("GET", /^\/api\/notifications(\?.*)?$/, ({ headers, path }) => {
+      const user = this.authenticate(headers);
+      if (!user) return text(401, "");
+
+      const limit = Number(new URLSearchParams(path.split("?")[1] ?? "").get("limit") ?? 20);
+      const mine = this._notifications.filter((n) => n.userId === user.id);
+      return json(200, {
+        items: mine.slice().reverse().slice(0, limit).map(publicNotification),
+        unreadCount: mine.filter((n) => n.readAt === null).length,
+      });
+    });
+
+    this.route("PUT", /^\/api\/notifications\/(\d+)\/read$/, ({ headers }, [id]) => {
+      const user = this.authenticate(headers);
+      if (!user) return text(401, "");
+
+      const notification = this._notifications.find(
+        (n) => n.id === Number(id) && n.userId === user.id
+      );
+      if (!notification) return text(404, "Notification not found");
+      notification.readAt ??= new Date().toISOString();
+      return json(200, publicNotification(notification));
+    });
+
+    this.route("POST", /^\/api\/notifications\/mark-all-read$/, ({ headers }) => {
+      const user = this.authenticate(headers);
+      if (!user) return text(401, "");
+
+      const now = new Date().toISOString();
+      this._notifications
+        .filter((n) => n.userId === user.id)
+        .forEach((n) => (n.readAt ??= now));
+      return text(204, "");
+    });
+  }
+
+  /** The stub to install as `fetch` (bound, so it can be passed around) */
+  fetch = async (input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> => {
+    const url = new URL(String(input));
+    const request: RecordedRequest = {
+      method: (init.method ?? "GET").toUpperCase(),
+      path: url.pathname + url.search,
+      headers: { ...(init.headers as Record<string, string>) },
+      // JSON bodies parsed; uploads keep their FormData
+      body: typeof init.body === "string" ? JSON.parse(init.body) : (init.body ?? undefined),
+    };
+    this.requests.push(request);
+
+    if (this.offline) throw new TypeError("Failed to fetch");
+
+    for (const route of this._routes) {
+      const match = route.method === request.method && route.pattern.exec(request.path);
+      if (match) return route.handler(request, match.slice(1));
+    }
+    return text(404, "");
+  };
+
+  /**
+   * The stub to install as `XMLHttpRequest`. Only does what the upload
+   * transport needs: the request goes through `fetch` above, after progress
+   * events for half and then all of the body.
+   */
+  readonly XMLHttpRequest: new () => XhrStub = createXhrStub(this.fetch);
+
+  // ===== Seeding =====
+
+  addUser(
+    username: string,
+    password: string,
+    email = `${username}@example.com`,
+    role: User["role"] = "User"
+  ): User {
+    const user: User = {
+      id: this._nextId++,
+      username,
+      email,
+      role,
+      createdAt: new Date().toISOString(),
+      bio: null,
+      avatarUrl: null,
+    };
+    this._users.push({ user, password });
+    return user;
+  }
+
+  addThread(title: string, author: User): Thread {
+    const thread: Thread = {
+      id: this._nextId++,
+      title,
+      userId: author.id,
+      user: summary(author),
+      createdAt: new Date().toISOString(),
+      isLocked: false,
+      messageCount: 0,
+      unreadCount: null,
+      lastReadMessageId: null,
+    };
+    this._threads.push(thread);
+    return thread;
+  }
+
+  addMessage(
+    fields: Pick<Message, "content" | "threadId" | "userId"> &
+      Partial<Pick<Message, "parentMessageId" | "createdAt">>
+  ): Message {
+    const author = this._users.find((u) => u.user.id === fields.userId)?.user;
+    if (!author) throw new Error(`No user ${fields.userId}`);
+
+    const message: Message = {
+      id: this._nextId++,
+      content: fields.content,
+      threadId: fields.threadId,
+      parentMessageId: fields.parentMessageId ?? null,
+      userId: author.id,
+      user: messageAuthor(author),
+      createdAt: fields.createdAt ?? new Date().toISOString(),
+      updatedAt: null,
+      hiddenAt: null,
+      hiddenReason: null,
+      reactionCounts: [],
+      mentions: [],
+      attachments: [],
+    };
+    this._messages.push(message);
+    return message;
+  }
+
+  get messages(): readonly Message[] {
+    return this._messages;
+  }
+
+  /** Uploaded files not yet posted with a message */
+  get unpostedAttachments(): Attachment[] {
+    return this._attachments.filter((a) => a.messageId === null).map((a) => a.attachment);
+  }
+
+  /** Make the API reject an access token with 401, as it does once the JWT expires */
+  expireToken(token: string) {
+    this._expiredTokens.add(token);
+  }
+
+  /** Reject the next `times` posts with 429, as the API does when a user posts too fast */
+  rateLimitPosts(retryAfterSeconds: number, times = 1) {
+    this._postRateLimit = { remaining: times, retryAfterSeconds };
+  }
+
+  /** Whether a refresh token can still be used (not rotated or logged out) */
+  isRefreshTokenActive(token: string): boolean {
+    return this._refreshTokens.has(token);
+  }
+
+  /** Where a user's read marker in a thread is, if they have one */
+  readMarker(userId: number, threadId: number): number | undefined {
+    return this._readMarkers.get(`${userId}:${threadId}`);
+  }
+
+  /** Requests to one path (query string ignored), oldest first */
+  requestsTo(method: string, pathname: string): RecordedRequest[] {
+    return this.requests.filter(
+      (r) => r.method === method && r.path.split("?")[0] === pathname
+    );
+  }
+
+  // ===== Internals =====
+
+  private route(method: string, pattern: RegExp, handler: Handler) {
+    this._routes.push({ method, pattern, handler });
+  }
+
+  private authenticate(headers: Record<string, string>): User | undefined {
+    const token = headers.Authorization?.replace(/^Bearer /, "");
+    if (!token || this._expiredTokens.has(token)) return undefined;
+
+    // Refreshed tokens are the login token plus a ".n" suffix
+    const base = token.split(".")[0];
+    return this._users.find((u) => tokenFor(u.user) === base)?.user;
+  }
+
+  /** The caller's stored user if they are user `id`, otherwise the error response */
+  private findSelf(headers: Record<string, string>, id: number): StoredUser | Response {
+    const user = this.authenticate(headers);
+    if (!user) return text(401, "");
+    if (user.id !== id) return text(403, "You can only edit your own account");
+    return this._users.find((u) => u.user.id === id)!;
+  }
+
+  /** Case-insensitive, like the database collation */
+  private findByUsername(username: string): User | undefined {
+    const name = username.toLowerCase();
+    return this._users.find((u) => u.user.username.toLowerCase() === name)?.user;
+  }
+
+  /** A thread's export, as ExportThread returns it (hidden messages left out) */
+  private archive(threadId: number): ThreadArchive | undefined {
+    const thread = this._threads.find((t) => t.id === threadId);
+    if (!thread) return undefined;
+
+    const messages = this._messages
+      .filter((m) => m.threadId === threadId && !m.hiddenAt)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt) || a.id - b.id);
+    return {
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      thread: {
+        title: thread.title,
+        author: thread.user.username,
+        createdAt: thread.createdAt,
+        isLocked: thread.isLocked,
+      },
+      messages: messages.map((m) => ({
+        id: m.id,
+        parentId: m.parentMessageId,
+        author: m.user.username,
+        content: m.content,
+        createdAt: m.createdAt,
+        updatedAt: m.updatedAt,
+        hiddenAt: m.hiddenAt,
+        hiddenReason: m.hiddenReason,
+        attachments: m.attachments.map(({ fileName, contentType, sizeBytes }) => ({
+          fileName,
+          contentType,
+          sizeBytes,
+        })),
+      })),
+    };
+  }
+
+  /** A thread with its current message count */
+  private countMessages(thread: Thread): Thread {
+    const messageCount = this._messages.filter((m) => m.threadId === thread.id).length;
+    return { ...thread, messageCount };
+  }
+
+  /** CheckCurrentPassword in UsersController: a field error, or 429 once locked out */
+  private checkCurrentPassword(stored: StoredUser, password: string | undefined) {
+    const failures = this._passwordFailures.get(stored.user.id) ?? 0;
+    if (failures >= MAX_PASSWORD_FAILURES) {
+      return new Response("Too many incorrect passwords. Try again in 15 minutes.", {
+        status: 429,
+        headers: { "Content-Type": "text/plain", "Retry-After": "900" },
+      });
+    }
+
+    if (password !== stored.password) {
+      this._passwordFailures.set(stored.user.id, failures + 1);
+      return validationProblem("CurrentPassword", "Current password is incorrect");
+    }
+    this._passwordFailures.delete(stored.user.id);
+    return undefined;
+  }
+
+  /** A thread with the caller's read marker and unread count, as the API returns it */
+  private withReadState(thread: Thread, headers: Record<string, string>): Thread {
+    const user = this.authenticate(headers);
+    if (!user) return thread;
+
+    const lastRead = this.readMarker(user.id, thread.id) ?? null;
+    const unreadCount = this._messages.filter(
+      (m) => m.threadId === thread.id && m.userId !== user.id && m.id > (lastRead ?? 0)
+    ).length;
+    return { ...thread, unreadCount, lastReadMessageId: lastRead };
+  }
+
+  /** Resolve a new message's @names like PostMessage does: notify everyone but the author */
+  private notifyMentions(message: Message, thread: Thread) {
+    const names = [...message.content.matchAll(MENTION_PATTERN)].map((m) => m[1]!.toLowerCase());
+    const mentioned = this._users
+      .map((u) => u.user)
+      .filter((u) => u.id !== message.userId && names.includes(u.username.toLowerCase()));
+
+    message.mentions = mentioned.map((u) => ({ userId: u.id, username: u.username }));
+    for (const user of mentioned) {
+      this._notifications.push({
+        id: this._nextId++,
+        userId: user.id,
+        type: "mention",
+        messageId: message.id,
+        threadId: thread.id,
+        threadTitle: thread.title,
+        actor: summary(message.user),
+        snippet: message.content,
+        createdAt: message.createdAt,
+        readAt: null,
+      });
+    }
+  }
+
+  /** Markers only move forward */
+  private advanceReadMarker(userId: number, threadId: number, messageId: number) {
+    const key = `${userId}:${threadId}`;
+    this._readMarkers.set(key, Math.max(this._readMarkers.get(key) ?? 0, messageId));
+  }
+
+  private profile(user: User) {
+    return {
+      ...summary(user),
+      bio: user.bio,
+      avatarUrl: user.avatarUrl,
+      threadCount: this._threads.filter((t) => t.userId === user.id).length,
+      messageCount: this._messages.filter((m) => m.userId === user.id).length,
+    };
+  }
+
+  private issueRefreshToken(user: User): string {
+    const token = `refresh-${this._nextTokenId++}`;
+    this._refreshTokens.set(token, user.id);
+    return token;
+  }
+}
+
+export function createMockBackend(): MockBackend {
+  return new MockBackend();
+}
+
+/** Opaque (non-JWT) token, so the client schedules no expiry */
+export function tokenFor(user: User): string {
+  return `token-${user.id}`;
+}
+
+/** RateLimiting:MaxFailedLoginsPerUsername, which also limits current-password checks */
+const MAX_PASSWORD_FAILURES = 5;
+
+/** ThreadArchiveService.PlaceholderUsername */
+const PLACEHOLDER_USERNAME = "former-member";
+
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+const ATTACHMENT_TYPES = ["image/png", "image/jpeg", "image/gif", "application/pdf", "text/plain"];
+
+const MENTION_PATTERN = /(?<![\w@])@([A-Za-z0-9_](?:[A-Za-z0-9_.-]*[A-Za-z0-9_])?)/g;
+
+/** A stored notification without the recipient, as the API returns it */
+function publicNotification(stored: Notification & { userId: number }): Notification {
+  const { userId: _recipient, ...notification } = stored;
+  return notification;
+}
+
+function summary({ id, username, role, createdAt }: MessageAuthor | User) {
+  return { id, username, role, createdAt };
+}
+
+function messageAuthor(user: User): MessageAuthor {
+  return { ...summary(user), bannedAt: null, banReason: null };
+}
+
+function json(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/** A ValidationProblemDetails response with one field error */
+function validationProblem(field: string, message: string): Response {
+  return json(400, {
+    title: "One or more validation errors occurred.",
+    status: 400,
+    errors: { [field]: [message] },
+  });
+}
+
+function text(status: number, body: string): Response {
+  return new Response(body || null, {
+    status,
+    headers: { "Content-Type": "text/plain" },
+  });
+}
+
+type Send = (url: string, init: RequestInit) => Promise<Response>;
+
+/** An XMLHttpRequest class that sends through `send` */
+function createXhrStub(send: Send) {
+  return class extends XhrStub {
+    constructor() {
+      super(send);
+    }
+  };
+}
+
+/** Minimal XMLHttpRequest: the parts xhrUpload uses */
+class XhrStub {
+  status = 0;
+  statusText = "";
+  responseText = "";
+  upload: { onprogress: ((event: Partial<ProgressEvent>) => void) | null } = {
+    onprogress: null,
+  };
+  onload: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  onabort: (() => void) | null = null;
+
+  private _method = "GET";
+  private _url = "";
+  private _headers: Record<string, string> = {};
+  private _responseHeaders = "";
+  private _aborted = false;
+
+  constructor(private readonly _send: Send) {}
+
+  open(method: string, url: string) {
+    this._method = method;
+    this._url = url;
+  }
+
+  setRequestHeader(name: string, value: string) {
+    this._headers[name] = value;
+  }
+
+  getAllResponseHeaders(): string {
+    return this._responseHeaders;
+  }
+
+  abort() {
+    this._aborted = true;
+    this.onabort?.();
+  }
+
+  send(body: BodyInit | null) {
+    const total =
+      body instanceof FormData
+        ? [...body.values()].reduce((sum, v) => sum + (v instanceof Blob ? v.size : v.length), 0)
+        : 0;
+
+    void (async () => {
+      for (const loaded of [Math.floor(total / 2), total]) {
+        await Promise.resolve();
+        if (this._aborted) return;
+        this.upload.onprogress?.({ loaded, total, lengthComputable: true });
+      }
+
+      let response: Response;
+      try {
+        response = await this._send(this._url, {
+          method: this._method,
+          headers: this._headers,
+          body,
+        });
+      } catch {
+        if (!this._aborted) this.onerror?.();
+        return;
+      }
+      if (this._aborted) return;
+
+      this.status = response.status;
+      this.statusText = response.statusText;
+      this.responseText = await response.text();
+      this._responseHeaders = [...response.headers]
+        .map(([name, value]) => `${name}: ${value}`)
+        .join("\r\n");
+      this.onload?.();
+    })();
+  }
+}
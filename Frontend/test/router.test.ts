@@ -0,0 +1,57 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { Router } from "../src/ts/router/router";
+
+describe("Router", () => {
+  let router: Router;
+  let fallback: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    fallback = vi.fn();
+    router = new Router().otherwise(fallback);
+  });
+
+  it("passes decoded path params and query params to the handler", () => {
+    const handler = vi.fn();
+    router.on("/threads/:id", handler);
+    window.location.hash = "#/threads/a%20b?sort=asc";
+
+    router.resolve();
+
+    expect(handler).toHaveBeenCalledWith({ id: "a b", sort: "asc" });
+    expect(fallback).not.toHaveBeenCalled();
+  });
+
+  it("falls back on a malformed escape instead of throwing", () => {
+    const handler = vi.fn();
+    router.on("/threads/:id", handler);
+    window.location.hash = "#/threads/%E0";
+
+    expect(() => router.resolve()).not.toThrow();
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(fallback).toHaveBeenCalledTimes(1);
+  });
+
+  it("falls back when a handler rejects", async () => {
+    router.on("/threads", () => Promise.reject(new Error("boom")));
+    window.location.hash = "#/threads";
+
+    router.resolve();
+
+    await vi.waitFor(() => expect(fallback).toHaveBeenCalledTimes(1));
+    expect(console.error).toHaveBeenCalled();
+  });
+
+  it("only logs when the fallback itself fails", async () => {
+    fallback.mockRejectedValue(new Error("still broken"));
+    router.on("/threads", () => Promise.reject(new Error("boom")));
+    window.location.hash = "#/threads";
+
+    router.resolve();
+
+    await vi.waitFor(() => expect(console.error).toHaveBeenCalledTimes(2));
+    expect(fallback).toHaveBeenCalledTimes(1);
+  });
+});
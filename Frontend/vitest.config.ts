@@ -0,0 +1,13 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    include: ["test/**/*.test.ts"],
+    // DOM tests opt in with a `@vitest-environment jsdom` comment
+    environment: "node",
+    restoreMocks: true,
+    unstubGlobals: true,
+    // The app logs every request and every handled error; failures still print
+    onConsoleLog: () => false,
+  },
+});